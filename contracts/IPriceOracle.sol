@@ -10,6 +10,21 @@ interface IPriceOracle {
      */
     function getPrice(address base, address quote) external view returns (int256);
 
+    /**
+     * @notice Returns the latest round of a base/quote pair's feed, shaped like Chainlink's `latestRoundData`
+     * @param base base asset address
+     * @param quote quote asset address
+     * @return roundId Round the answer belongs to
+     * @return answer The latest token price of the pair
+     * @return startedAt Timestamp the round started
+     * @return updatedAt Timestamp the answer was last updated
+     * @return answeredInRound Round the answer was computed in, behind `roundId` when the answer is carried over
+     */
+    function latestRoundData(address base, address quote)
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+
     /**
      * @notice Returns the latest price for a specific amount
      * @param tokenIn token asset address
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {AggregatorV3Interface} from "./oracles/AggregatorV3Interface.sol";
+
+contract MockAggregatorV3 is AggregatorV3Interface {
+    uint8 public immutable override decimals;
+    string public override description;
+    uint80 public roundId;
+    int256 public answer;
+    uint256 public updatedAt;
+    uint80 public answeredInRound;
+    
+    constructor(uint8 _decimals, string memory _description) {
+        decimals = _decimals;
+        description = _description;
+    }
+    
+    /// @notice Starts a new round answered now
+    function setAnswer(int256 _answer) external {
+        answer = _answer;
+        answeredInRound = ++roundId;
+        updatedAt = block.timestamp;
+    }
+    
+    function setUpdatedAt(uint256 _updatedAt) external {
+        updatedAt = _updatedAt;
+    }
+    
+    /// @notice Starts a new round that carries the previous answer over
+    function skipRound() external {
+        ++roundId;
+    }
+    
+    function latestRoundData() external view override returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {MockERC20} from "./MockERC20.sol";
+
+contract MockERC20WithDecimals is MockERC20 {
+    uint8 private immutable tokenDecimals;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 _decimals
+    ) MockERC20(name, symbol, initialSupply) {
+        tokenDecimals = _decimals;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return tokenDecimals;
+    }
+}
@@ -7,23 +7,62 @@ contract MockPriceOracle is IPriceOracle {
     mapping(address => mapping(address => int256)) public prices;
     mapping(address => mapping(address => bool)) public priceFeedValid;
     mapping(address => mapping(address => uint8)) public tokenDecimals;
+    mapping(address => mapping(address => uint80)) public roundIds;
+    mapping(address => mapping(address => uint256)) public updatedAts;
+    mapping(address => mapping(address => uint80)) public answeredInRounds;
+    bool public decimalsReverts;
     
     constructor() {}
     
+    /// @notice Starts a new round answered now
     function setPrice(address base, address quote, int256 price) external {
         prices[base][quote] = price;
         priceFeedValid[base][quote] = true;
-        tokenDecimals[base][quote] = 18;
+        uint80 roundId = ++roundIds[base][quote];
+        updatedAts[base][quote] = block.timestamp;
+        answeredInRounds[base][quote] = roundId;
+        if (tokenDecimals[base][quote] == 0) {
+            tokenDecimals[base][quote] = 18;
+        }
+    }
+    
+    function setDecimals(address base, address quote, uint8 feedDecimals) external {
+        tokenDecimals[base][quote] = feedDecimals;
+    }
+    
+    /// @notice Makes `decimals` revert, as a feed that answers prices but not their decimals
+    function setDecimalsReverts(bool reverts) external {
+        decimalsReverts = reverts;
     }
     
     function setPriceFeedValid(address base, address quote, bool valid) external {
         priceFeedValid[base][quote] = valid;
     }
     
+    /// @notice Backdates the current answer, so tests can age a feed without moving the clock
+    function setUpdatedAt(address base, address quote, uint256 updatedAt) external {
+        updatedAts[base][quote] = updatedAt;
+    }
+    
+    /// @notice Starts a new round that carries the previous answer over, as a feed that missed an update does
+    function skipRound(address base, address quote) external {
+        ++roundIds[base][quote];
+    }
+    
     function getPrice(address base, address quote) external view override returns (int256) {
         return prices[base][quote];
     }
     
+    function latestRoundData(address base, address quote)
+        external
+        view
+        override
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        updatedAt = updatedAts[base][quote];
+        return (roundIds[base][quote], prices[base][quote], updatedAt, updatedAt, answeredInRounds[base][quote]);
+    }
+    
     function getPriceForTokenAmount(
         address tokenIn,
         address tokenOut,
@@ -35,6 +74,7 @@ contract MockPriceOracle is IPriceOracle {
     }
     
     function decimals(address base, address quote) external view override returns (uint8) {
+        require(!decimalsReverts, "Decimals unavailable");
         return tokenDecimals[base][quote];
     }
     
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+// Pulls Pyth's own mock into the build, so tests can deploy it as "MockPyth"
+import {MockPyth} from "@pythnetwork/pyth-sdk-solidity/MockPyth.sol";
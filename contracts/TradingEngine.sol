@@ -1,83 +1,51 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
-import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import {IPriceOracle} from "./IPriceOracle.sol";
-import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {ErrorLibrary} from "./library/ErrorLibrary.sol";
+import {TradingEngineBase} from "./TradingEngineBase.sol";
 
-contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgradeable, UUPSUpgradeable {
-    
-    struct Order {
-        address trader;
-        address baseToken;
-        address quoteToken;
-        uint256 amount;
-        uint256 price;
-        bool isBuy;
-        bool isMarketOrder;
-        uint256 timestamp;
-        bool isActive;
-        uint256 quoteAmount;
-        uint256 filledAmount;
-    }
-    
-    struct OrderBook {
-        mapping(uint256 => Order) orders;
-        mapping(uint256 => bool) activeBuyOrders;
-        mapping(uint256 => bool) activeSellOrders;
-        uint256 nextOrderId;
-        uint256 activeBuyOrderCount;
-        uint256 activeSellOrderCount;
-        uint256 totalBuyOrderCount;
-        uint256 totalSellOrderCount;
+contract TradingEngine is TradingEngineBase, UUPSUpgradeable {
+    address private immutable firstModule;
+
+    /// @param _firstModule Head of the module chain `fallback` forwards to, see `TradingEngineModule`
+    constructor(address _firstModule) {
+        firstModule = _firstModule;
     }
     
-    event OrderPlaced(uint256 orderId, address trader, address baseToken, address quoteToken, uint256 amount, uint256 price, bool isBuy, bool isMarketOrder);
-    event OrderMatched(uint256 buyOrderId, uint256 sellOrderId, uint256 amount, uint256 price, uint256 fee);
-    event OrderCancelled(uint256 orderId);
-    event PriceOracleUpdated(address oldOracle, address newOracle);
-    event TradingPairAllowed(address baseToken, address quoteToken, bool allowed);
-    event FeeCollected(uint256 amount, address token);
-    
-    OrderBook public orderBook;
-    mapping(address => mapping(address => uint256)) public balances;
-    mapping(address => mapping(uint256 => bool)) public userOrders;
-    mapping(address => mapping(address => bool)) public allowedTradingPairs;
-    
-    uint256 public MIN_ORDER_AMOUNT;
-    uint256 public MAX_ORDER_AMOUNT;
-    uint256 public constant FEE_RATE = 5;
-    uint256 public constant FEE_DENOMINATOR = 10000;
-    
-    IPriceOracle public priceOracle;
-    
-    function initialize(address _priceOracle, uint256 _minOrderAmount, uint256 _maxOrderAmount) external initializer {
-        __Ownable_init(msg.sender);
+    /// @notice The caller starts out holding every role
+    function initialize(address _priceOracle) external initializer {
         __ReentrancyGuard_init();
         __UUPSUpgradeable_init();
         
         priceOracle = IPriceOracle(_priceOracle);
-        MIN_ORDER_AMOUNT = _minOrderAmount;
-        MAX_ORDER_AMOUNT = _maxOrderAmount;
+        feeRecipient = msg.sender;
+        _setFeeSchedule(defaultFeeSchedule, 5, 5);
+        _grantAllRoles(msg.sender);
     }
     
-    function updatePriceOracle(address _newOracle) external onlyOwner {
+    function updatePriceOracle(address _newOracle) external onlyRole(ORACLE_MANAGER_ROLE) {
         require(_newOracle != address(0), "Invalid oracle address");
         address oldOracle = address(priceOracle);
         priceOracle = IPriceOracle(_newOracle);
         emit PriceOracleUpdated(oldOracle, _newOracle);
     }
 
-    function setTradingPairAllowed(address _baseToken, address _quoteToken, bool _allowed) external onlyOwner {
-        allowedTradingPairs[_baseToken][_quoteToken] = _allowed;
+    /**
+     * @notice Lists or delists a pair, keeping the rest of its config. A pair is first listed with its
+     * order size bounds through `setPairConfig`, so only a configured pair can be listed here.
+     */
+    function setTradingPairAllowed(address _baseToken, address _quoteToken, bool _allowed) external onlyRole(PAIR_MANAGER_ROLE) {
+        PairConfig storage config = pairConfigs[_getPairId(_baseToken, _quoteToken)];
+        require(!_allowed || config.maxOrderAmount > 0, "Pair not configured");
+        config.enabled = _allowed;
         emit TradingPairAllowed(_baseToken, _quoteToken, _allowed);
     }
 
     function isTradingPairAllowed(address _baseToken, address _quoteToken) external view returns (bool) {
-        return allowedTradingPairs[_baseToken][_quoteToken];
+        return pairConfigs[_getPairId(_baseToken, _quoteToken)].enabled;
     }
 
     function placeMarketOrder(
@@ -90,54 +58,48 @@ contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgr
         nonReentrant 
         returns (uint256 orderId) 
     {
-        require(amount >= MIN_ORDER_AMOUNT, "Amount too small");
-        require(amount <= MAX_ORDER_AMOUNT, "Amount too large");
-        require(baseToken != address(0) && quoteToken != address(0), "Invalid token addresses");
-        require(baseToken != quoteToken, "Base and quote tokens must be different");
-        
-        require(_isTokenPairValid(baseToken, quoteToken), "Token pair not supported by oracle");
-        
-        uint256 marketPrice = _getMarketPrice(baseToken, quoteToken, isBuy);
-        require(marketPrice > 0, "Oracle price not available");
-        
-        orderId = orderBook.nextOrderId++;
-        
-        uint256 quoteAmount = amount * marketPrice / 10**18;
-        
-        Order memory newOrder = Order({
-            trader: msg.sender,
-            baseToken: baseToken,
-            quoteToken: quoteToken,
-            amount: amount,
-            price: marketPrice,
-            isBuy: isBuy,
-            isMarketOrder: true,
-            timestamp: block.timestamp,
-            isActive: true,
-            quoteAmount: quoteAmount,
-            filledAmount: 0
-        });
+        return _placeMarketOrder(baseToken, quoteToken, amount, isBuy, TimeInForce.GTC, 0, 0);
+    }
+
+    function placeMarketOrderWithTimeInForce(
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        bool isBuy,
+        TimeInForce timeInForce,
+        uint256 expiresAt
+    ) 
+        external 
+        nonReentrant 
+        returns (uint256 orderId) 
+    {
+        return _placeMarketOrder(baseToken, quoteToken, amount, isBuy, timeInForce, expiresAt, 0);
+    }
+
+    /**
+     * @notice Market order that never trades beyond `worstPrice`, the most a buy pays or the least a
+     * sell accepts per base unit. It sweeps the book up to that price and never rests.
+     * @param allowPartialFill Refund whatever cannot fill within `worstPrice` instead of reverting
+     */
+    function placeMarketOrderWithSlippage(
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        bool isBuy,
+        uint256 worstPrice,
+        bool allowPartialFill
+    ) 
+        external 
+        nonReentrant 
+        returns (uint256 orderId) 
+    {
+        require(worstPrice > 0, "Price must be greater than 0");
         
-        orderBook.orders[orderId] = newOrder;
-        userOrders[msg.sender][orderId] = true;
+        orderId = _placeMarketOrder(baseToken, quoteToken, amount, isBuy, TimeInForce.IOC, 0, worstPrice);
         
-        if (isBuy) {
-            _transferFromUser(msg.sender, quoteToken, quoteAmount);
-            orderBook.activeBuyOrders[orderId] = true;
-            orderBook.activeBuyOrderCount++;
-            orderBook.totalBuyOrderCount++;
-        } else {
-            _transferFromUser(msg.sender, baseToken, amount);
-            orderBook.activeSellOrders[orderId] = true;
-            orderBook.activeSellOrderCount++;
-            orderBook.totalSellOrderCount++;
+        if (!allowPartialFill && orderBook.orders[orderId].filledAmount < amount) {
+            revert ErrorLibrary.InvalidSlippage();
         }
-        
-        emit OrderPlaced(orderId, msg.sender, baseToken, quoteToken, amount, marketPrice, isBuy, true);
-        
-        _matchOrders();
-        
-        return orderId;
     }
 
     function placeLimitOrder(
@@ -151,52 +113,54 @@ contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgr
         nonReentrant 
         returns (uint256 orderId) 
     {
-        require(amount >= MIN_ORDER_AMOUNT, "Amount too small");
-        require(amount <= MAX_ORDER_AMOUNT, "Amount too large");
-        require(price > 0, "Price must be greater than 0");
+        return _placeLimitOrder(msg.sender, baseToken, quoteToken, amount, price, isBuy, TimeInForce.GTC, 0);
+    }
+
+    function placeLimitOrderWithTimeInForce(
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        uint256 price, 
+        bool isBuy,
+        TimeInForce timeInForce,
+        uint256 expiresAt
+    ) 
+        external 
+        nonReentrant 
+        returns (uint256 orderId) 
+    {
+        return _placeLimitOrder(msg.sender, baseToken, quoteToken, amount, price, isBuy, timeInForce, expiresAt);
+    }
+
+    function _placeMarketOrder(
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        bool isBuy,
+        TimeInForce timeInForce,
+        uint256 expiresAt,
+        uint256 worstPrice
+    ) 
+        internal 
+        returns (uint256 orderId) 
+    {
         require(baseToken != address(0) && quoteToken != address(0), "Invalid token addresses");
         require(baseToken != quoteToken, "Base and quote tokens must be different");
+        _requireOrderAmountAllowed(baseToken, quoteToken, amount);
         
         require(_isTokenPairValid(baseToken, quoteToken), "Token pair not supported by oracle");
         
-        orderId = orderBook.nextOrderId++;
-        
-        uint256 quoteAmount = amount * price / 10**18;
-        
-        Order memory newOrder = Order({
-            trader: msg.sender,
-            baseToken: baseToken,
-            quoteToken: quoteToken,
-            amount: amount,
-            price: price,
-            isBuy: isBuy,
-            isMarketOrder: false,
-            timestamp: block.timestamp,
-            isActive: true,
-            quoteAmount: quoteAmount,
-            filledAmount: 0
-        });
-        
-        orderBook.orders[orderId] = newOrder;
-        userOrders[msg.sender][orderId] = true;
+        uint256 marketPrice = _getMarketPrice(baseToken, quoteToken, isBuy);
+        require(marketPrice > 0, "Oracle price not available");
         
-        if (isBuy) {
-            _transferFromUser(msg.sender, quoteToken, quoteAmount);
-            orderBook.activeBuyOrders[orderId] = true;
-            orderBook.activeBuyOrderCount++;
-            orderBook.totalBuyOrderCount++;
-        } else {
-            _transferFromUser(msg.sender, baseToken, amount);
-            orderBook.activeSellOrders[orderId] = true;
-            orderBook.activeSellOrderCount++;
-            orderBook.totalSellOrderCount++;
+        if (worstPrice != 0) {
+            if (isBuy ? marketPrice > worstPrice : marketPrice < worstPrice) {
+                revert ErrorLibrary.InvalidSlippage();
+            }
+            marketPrice = worstPrice;
         }
         
-        emit OrderPlaced(orderId, msg.sender, baseToken, quoteToken, amount, price, isBuy, false);
-        
-        _matchOrders();
-        
-        return orderId;
+        return _placeOrder(msg.sender, baseToken, quoteToken, amount, marketPrice, isBuy, true, timeInForce, expiresAt, false, 0);
     }
 
     function cancelOrder(uint256 orderId) external nonReentrant {
@@ -204,40 +168,43 @@ contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgr
         require(orderBook.orders[orderId].isActive, "Order already inactive");
         
         Order storage order = orderBook.orders[orderId];
-        order.isActive = false;
+        bytes32 pairId = _getPairId(order.baseToken, order.quoteToken);
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        (uint256 bestBid, uint256 bestAsk) = (book.bids.bestPrice, book.asks.bestPrice);
         
-        if (order.isBuy) {
-            if (orderBook.activeBuyOrders[orderId]) {
-                orderBook.activeBuyOrders[orderId] = false;
-                orderBook.activeBuyOrderCount--;
-            }
-        } else {
-            if (orderBook.activeSellOrders[orderId]) {
-                orderBook.activeSellOrders[orderId] = false;
-                orderBook.activeSellOrderCount--;
-            }
-        }
-        
-        uint256 remainingAmount = order.amount - order.filledAmount;
-        uint256 remainingQuoteAmount = order.quoteAmount - (order.filledAmount * order.price);
+        _cancelOrder(orderId);
+        _emitBestPricesIfChanged(pairId, bestBid, bestAsk);
+    }
+
+    /// @notice Removes an expired GTT order from the book and refunds its remainder to the trader
+    function expireOrder(uint256 orderId) external nonReentrant {
+        Order storage order = orderBook.orders[orderId];
+        require(order.isActive, "Order already inactive");
+        require(_isExpired(order), "Order not expired");
         
-        if (order.isBuy) {
-            if (remainingQuoteAmount > 0) {
-                _transferToUser(msg.sender, order.quoteToken, remainingQuoteAmount);
-            }
-        } else {
-            if (remainingAmount > 0) {
-                _transferToUser(msg.sender, order.baseToken, remainingAmount);
-            }
-        }
+        bytes32 pairId = _getPairId(order.baseToken, order.quoteToken);
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        (uint256 bestBid, uint256 bestAsk) = (book.bids.bestPrice, book.asks.bestPrice);
         
-        emit OrderCancelled(orderId);
+        _expireOrder(orderId);
+        _emitBestPricesIfChanged(pairId, bestBid, bestAsk);
     }
-    
+
+    /// @notice Moves tokens from the caller's wallet into their trading account, where orders can lock them
+    function deposit(address token, uint256 amount) external nonReentrant {
+        if (tradingPaused) revert ErrorLibrary.ContractPaused();
+        require(amount > 0, "Amount must be greater than 0");
+        require(IERC20(token).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+        balances[msg.sender][token] += amount;
+        emit Deposited(msg.sender, token, amount);
+    }
+
+    /// @notice Pays out part of the caller's available balance; funds locked in open orders stay put
     function withdrawBalance(address token, uint256 amount) external nonReentrant {
         require(balances[msg.sender][token] >= amount, "Insufficient balance");
         balances[msg.sender][token] -= amount;
-        IERC20(token).transfer(msg.sender, amount);
+        require(IERC20(token).transfer(msg.sender, amount), "Transfer failed");
+        emit Withdrawn(msg.sender, token, amount);
     }
 
     function getOrder(uint256 orderId) external view returns (
@@ -274,21 +241,16 @@ contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgr
     }
 
     function _getActiveBuyOrders() internal view returns (uint256[] memory) {
-        uint256[] memory tempOrders = new uint256[](orderBook.activeBuyOrderCount);
+        uint256[] memory activeOrders = new uint256[](orderBook.activeBuyOrderCount);
         uint256 activeCount = 0;
         
-        for (uint256 i = 0; i < orderBook.nextOrderId && activeCount < orderBook.activeBuyOrderCount; i++) {
-            if (orderBook.activeBuyOrders[i] && orderBook.orders[i].isActive) {
-                tempOrders[activeCount] = i;
-                activeCount++;
+        for (uint256 i = 0; i < orderBookPairIds.length; i++) {
+            uint256[] storage pairOrderIds = pairOrderBooks[orderBookPairIds[i]].activeBuyOrderIds;
+            for (uint256 j = 0; j < pairOrderIds.length; j++) {
+                activeOrders[activeCount++] = pairOrderIds[j];
             }
         }
         
-        uint256[] memory activeOrders = new uint256[](activeCount);
-        for (uint256 i = 0; i < activeCount; i++) {
-            activeOrders[i] = tempOrders[i];
-        }
-        
         return activeOrders;
     }
 
@@ -297,219 +259,45 @@ contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgr
     }
 
     function _getActiveSellOrders() internal view returns (uint256[] memory) {
-        uint256[] memory tempOrders = new uint256[](orderBook.activeSellOrderCount);
+        uint256[] memory activeOrders = new uint256[](orderBook.activeSellOrderCount);
         uint256 activeCount = 0;
         
-        for (uint256 i = 0; i < orderBook.nextOrderId && activeCount < orderBook.activeSellOrderCount; i++) {
-            if (orderBook.activeSellOrders[i] && orderBook.orders[i].isActive) {
-                tempOrders[activeCount] = i;
-                activeCount++;
+        for (uint256 i = 0; i < orderBookPairIds.length; i++) {
+            uint256[] storage pairOrderIds = pairOrderBooks[orderBookPairIds[i]].activeSellOrderIds;
+            for (uint256 j = 0; j < pairOrderIds.length; j++) {
+                activeOrders[activeCount++] = pairOrderIds[j];
             }
         }
         
-        uint256[] memory activeOrders = new uint256[](activeCount);
-        for (uint256 i = 0; i < activeCount; i++) {
-            activeOrders[i] = tempOrders[i];
-        }
-        
         return activeOrders;
     }
 
-    function _getMarketPrice(address baseToken, address quoteToken, bool isBuy) internal view returns (uint256) {
-        uint256 bestPrice = 0;
-        
-        if (isBuy) {
-            uint256[] memory sellOrders = _getActiveSellOrders();
-            for (uint256 i = 0; i < sellOrders.length; i++) {
-                Order storage order = orderBook.orders[sellOrders[i]];
-                if (order.baseToken == baseToken && order.quoteToken == quoteToken) {
-                    if (bestPrice == 0 || order.price < bestPrice) {
-                        bestPrice = order.price;
-                    }
-                }
-            }
-        } else {
-            uint256[] memory buyOrders = _getActiveBuyOrders();
-            for (uint256 i = 0; i < buyOrders.length; i++) {
-                Order storage order = orderBook.orders[buyOrders[i]];
-                if (order.baseToken == baseToken && order.quoteToken == quoteToken) {
-                    if (order.price > bestPrice) {
-                        bestPrice = order.price;
-                    }
-                }
-            }
-        }
-        
-        if (bestPrice == 0) {
-            return _getOraclePrice(baseToken, quoteToken);
-        }
-        
-        return bestPrice;
-    }
-
-    function _isTokenPairValid(address baseToken, address quoteToken) internal view returns (bool) {
-        if (address(priceOracle) == address(0)) {
-            return false;
-        }
-        
-        try priceOracle.isPriceFeedValid(baseToken, quoteToken) returns (bool isValid) {
-            return isValid;
-        } catch {
-            return false;
-        }
-    }
-    
-    function _transferFromUser(address user, address token, uint256 amount) internal {
-        IERC20(token).transferFrom(user, address(this), amount);
-        balances[address(this)][token] += amount;
-    }
-    
-    function _transferToUser(address user, address token, uint256 amount) internal {
-        require(balances[address(this)][token] >= amount, "Insufficient contract balance");
-        balances[address(this)][token] -= amount;
-        IERC20(token).transfer(user, amount);
+    function getUserBalance(address user, address token) external view returns (uint256) {
+        return balances[user][token];
     }
     
-    function _matchOrders() internal {
-        uint256[] memory buyOrders = _getActiveBuyOrders();
-        uint256[] memory sellOrders = _getActiveSellOrders();
-        
-        for (uint256 i = 0; i < buyOrders.length; i++) {
-            uint256 buyOrderId = buyOrders[i];
-            Order storage buyOrder = orderBook.orders[buyOrderId];
-            
-            if (!buyOrder.isActive || buyOrder.filledAmount >= buyOrder.amount) {
-                continue;
-            }
-            
-            uint256 remainingBuyAmount = buyOrder.amount - buyOrder.filledAmount;
-            
-            for (uint256 j = 0; j < sellOrders.length; j++) {
-                uint256 sellOrderId = sellOrders[j];
-                Order storage sellOrder = orderBook.orders[sellOrderId];
-                
-                if (!sellOrder.isActive || sellOrder.filledAmount >= sellOrder.amount) {
-                    continue;
-                }
-                
-                if (buyOrder.baseToken != sellOrder.baseToken || buyOrder.quoteToken != sellOrder.quoteToken) {
-                    continue;
-                }
-                
-                if (!_canMatch(buyOrder, sellOrder)) {
-                    continue;
-                }
-                
-                uint256 remainingSellAmount = sellOrder.amount - sellOrder.filledAmount;
-                uint256 matchAmount = remainingBuyAmount < remainingSellAmount ? 
-                    remainingBuyAmount : remainingSellAmount;
-                
-                uint256 matchPrice = _getMatchPrice(buyOrder, sellOrder);
-                
-                _executeTrade(buyOrderId, sellOrderId, matchAmount, matchPrice);
-                
-                buyOrder.filledAmount += matchAmount;
-                sellOrder.filledAmount += matchAmount;
-                
-                if (buyOrder.filledAmount >= buyOrder.amount) {
-                    buyOrder.isActive = false;
-                    orderBook.activeBuyOrders[buyOrderId] = false;
-                    orderBook.activeBuyOrderCount--;
-                }
-
-                if (sellOrder.filledAmount >= sellOrder.amount) {
-                    sellOrder.isActive = false;
-                    orderBook.activeSellOrders[sellOrderId] = false;
-                    orderBook.activeSellOrderCount--;
-                }
-                
-                remainingBuyAmount = buyOrder.amount - buyOrder.filledAmount;
-                remainingSellAmount = sellOrder.amount - sellOrder.filledAmount;
-            }
-        }
+    function getLockedBalance(address user, address token) external view returns (uint256) {
+        return lockedBalances[user][token];
     }
     
-    function _canMatch(Order storage buyOrder, Order storage sellOrder) internal view returns (bool) {
-        if (buyOrder.isMarketOrder && sellOrder.isMarketOrder) {
-            return true;
-        }
-        
-        if (buyOrder.isMarketOrder) {
-            return buyOrder.price >= sellOrder.price;
-        }
-        
-        if (sellOrder.isMarketOrder) {
-            return buyOrder.price >= sellOrder.price;
-        }
-        
-        return buyOrder.price >= sellOrder.price;
-    }
-    
-    function _getMatchPrice(Order storage buyOrder, Order storage sellOrder) internal view returns (uint256) {
-        if (buyOrder.isMarketOrder && sellOrder.isMarketOrder) {
-            return _getOraclePrice(buyOrder.baseToken, buyOrder.quoteToken);
-        }
-        
-        if (buyOrder.isMarketOrder) {
-            return sellOrder.price;
-        }
-        
-        if (sellOrder.isMarketOrder) {
-            return buyOrder.price;
-        }
-        
-        return buyOrder.price;
+    /// @notice Tokens the engine holds: every trading account plus uncollected fees
+    function getContractBalance(address token) external view returns (uint256) {
+        return IERC20(token).balanceOf(address(this));
     }
     
-    function _getOraclePrice(address baseToken, address quoteToken) internal view returns (uint256) {
-        require(address(priceOracle) != address(0), "Price oracle not set");
-        require(_isTokenPairValid(baseToken, quoteToken), "Price feed not valid");
-        
-        try priceOracle.getPrice(baseToken, quoteToken) returns (int256 price) {
-            require(price > 0, "Invalid oracle price");
-            return uint256(price);
-        } catch {
-            revert("Oracle price fetch failed");
-        }
+    function getFeeBalance(address token) external view returns (uint256) {
+        return collectedFees[token];
     }
 
-    function _executeTrade(
-        uint256 buyOrderId, 
-        uint256 sellOrderId, 
-        uint256 amount, 
-        uint256 price
-    ) internal {
-        Order storage buyOrder = orderBook.orders[buyOrderId];
-        Order storage sellOrder = orderBook.orders[sellOrderId];
-        
-        uint256 totalValue = amount * price / 10**18;
-        
-        uint256 fee = (totalValue * FEE_RATE) / FEE_DENOMINATOR;
-        uint256 netValue = totalValue - fee;
-
-        _transferToUser(buyOrder.trader, buyOrder.baseToken, amount);
-        
-        _transferToUser(sellOrder.trader, sellOrder.quoteToken, netValue);
-        
-        balances[buyOrder.trader][buyOrder.baseToken] += amount;
-        balances[sellOrder.trader][sellOrder.quoteToken] += netValue;
-        
-        balances[address(this)][sellOrder.quoteToken] += fee;
-        
-        emit FeeCollected(fee, sellOrder.quoteToken);
-        emit OrderMatched(buyOrderId, sellOrderId, amount, price, fee);
+    /// @notice Maker and taker rates that apply to a pair, in `FEE_DENOMINATOR` units
+    function getFeeSchedule(address baseToken, address quoteToken) external view returns (int256 makerFeeRate, int256 takerFeeRate) {
+        FeeSchedule storage schedule = _getFeeSchedule(baseToken, quoteToken);
+        return (schedule.makerFeeRate, schedule.takerFeeRate);
     }
 
-    function getUserBalance(address user, address token) external view returns (uint256) {
-        return balances[user][token];
-    }
-    
-    function getContractBalance(address token) external view returns (uint256) {
-        return balances[address(this)][token];
-    }
-    
-    function getFeeBalance(address token) external view returns (uint256) {
-        return balances[address(this)][token];
+    /// @notice Quote tokens a buy order locked for fees on top of its quote amount
+    function getOrderFeeReserve(uint256 orderId) external view returns (uint256) {
+        return orderFeeReserves[orderId];
     }
 
     function getOrderBookStats() external view returns (
@@ -526,19 +314,122 @@ contract TradingEngine is Initializable, ReentrancyGuardUpgradeable, OwnableUpgr
         );
     }
 
+    function getPairId(address baseToken, address quoteToken) external pure returns (bytes32) {
+        return _getPairId(baseToken, quoteToken);
+    }
+
+    function getOrderBookPairs() external view returns (address[] memory baseTokens, address[] memory quoteTokens) {
+        baseTokens = new address[](orderBookPairIds.length);
+        quoteTokens = new address[](orderBookPairIds.length);
+        
+        for (uint256 i = 0; i < orderBookPairIds.length; i++) {
+            PairOrderBook storage book = pairOrderBooks[orderBookPairIds[i]];
+            baseTokens[i] = book.baseToken;
+            quoteTokens[i] = book.quoteToken;
+        }
+    }
+
+    function getPairActiveBuyOrders(address baseToken, address quoteToken) external view returns (uint256[] memory) {
+        return pairOrderBooks[_getPairId(baseToken, quoteToken)].activeBuyOrderIds;
+    }
+
+    function getPairActiveSellOrders(address baseToken, address quoteToken) external view returns (uint256[] memory) {
+        return pairOrderBooks[_getPairId(baseToken, quoteToken)].activeSellOrderIds;
+    }
+
+    function getPairOrderBookStats(address baseToken, address quoteToken) external view returns (
+        uint256 totalBuyOrders,
+        uint256 totalSellOrders,
+        uint256 activeBuyOrders,
+        uint256 activeSellOrders
+    ) {
+        PairOrderBook storage book = pairOrderBooks[_getPairId(baseToken, quoteToken)];
+        return (
+            book.totalBuyOrderCount,
+            book.totalSellOrderCount,
+            book.activeBuyOrderIds.length,
+            book.activeSellOrderIds.length
+        );
+    }
+
+    function getBestPrices(address baseToken, address quoteToken) external view returns (uint256 bestBid, uint256 bestAsk) {
+        return (
+            _getBookSide(baseToken, quoteToken, true).bestPrice,
+            _getBookSide(baseToken, quoteToken, false).bestPrice
+        );
+    }
+
+    function getOrders(uint256[] calldata orderIds) external view returns (Order[] memory orders) {
+        orders = new Order[](orderIds.length);
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            orders[i] = orderBook.orders[orderIds[i]];
+        }
+    }
+
+    /**
+     * @notice Returns up to `limit` active orders on one side of a pair, starting at `cursor`
+     * @dev Pages follow the pair's active set, which is unordered and reshuffled when orders close,
+     * so a book that changes between calls may shift orders across page boundaries. `nextCursor`
+     * is 0 once the last page has been read.
+     */
+    function getPairOrders(
+        address baseToken,
+        address quoteToken,
+        bool isBuy,
+        uint256 cursor,
+        uint256 limit
+    ) external view returns (uint256[] memory orderIds, Order[] memory orders, uint256 nextCursor) {
+        PairOrderBook storage book = pairOrderBooks[_getPairId(baseToken, quoteToken)];
+        return _getOrderPage(isBuy ? book.activeBuyOrderIds : book.activeSellOrderIds, cursor, limit);
+    }
+
+    /// @notice Returns up to `limit` of a trader's open orders across all pairs, starting at `cursor`
+    function getTraderOpenOrders(
+        address trader,
+        uint256 cursor,
+        uint256 limit
+    ) external view returns (uint256[] memory orderIds, Order[] memory orders, uint256 nextCursor) {
+        return _getOrderPage(traderOpenOrderIds[trader], cursor, limit);
+    }
+
+    function getTraderOpenOrderCount(address trader) external view returns (uint256) {
+        return traderOpenOrderIds[trader].length;
+    }
+
+    function _getOrderPage(
+        uint256[] storage sourceOrderIds,
+        uint256 cursor,
+        uint256 limit
+    ) internal view returns (uint256[] memory orderIds, Order[] memory orders, uint256 nextCursor) {
+        require(limit > 0, "Limit must be greater than 0");
+        
+        uint256 total = sourceOrderIds.length;
+        uint256 end = cursor + limit < total ? cursor + limit : total;
+        uint256 count = cursor < end ? end - cursor : 0;
+        
+        orderIds = new uint256[](count);
+        orders = new Order[](count);
+        for (uint256 i = 0; i < count; i++) {
+            orderIds[i] = sourceOrderIds[cursor + i];
+            orders[i] = orderBook.orders[orderIds[i]];
+        }
+        
+        nextCursor = end < total ? end : 0;
+    }
+
+    /// @notice Oracle price scaled to the units order prices use: quote token units per whole base token
     function getOraclePrice(address baseToken, address quoteToken) external view returns (uint256) {
         return _getOraclePrice(baseToken, quoteToken);
     }
     
-    function withdrawFees(address token, uint256 amount) external onlyOwner {
-        require(balances[address(this)][token] >= amount, "Insufficient fee balance");
-        balances[address(this)][token] -= amount;
-        IERC20(token).transfer(owner(), amount);
-    }
-    
     function isOracleValid(address baseToken, address quoteToken) external view returns (bool) {
         return _isTokenPairValid(baseToken, quoteToken);
     }
 
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
-} 
\ No newline at end of file
+    /// @notice Forwards calls `TradingEngine` does not implement itself along the module chain
+    fallback() external {
+        _delegate(firstModule);
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(UPGRADER_ROLE) {}
+}
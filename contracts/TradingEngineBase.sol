@@ -0,0 +1,1037 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {IPriceOracle} from "./IPriceOracle.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {PriceLevelLibrary} from "./library/PriceLevelLibrary.sol";
+import {ErrorLibrary} from "./library/ErrorLibrary.sol";
+
+/**
+ * @notice Storage layout, events and order book internals shared by `TradingEngine` and its modules.
+ * @dev Modules run in `TradingEngine`'s storage through delegatecall, so they inherit this contract
+ * and never declare state of their own. New state is only ever appended here.
+ */
+abstract contract TradingEngineBase is Initializable, ReentrancyGuardUpgradeable {
+    using PriceLevelLibrary for PriceLevelLibrary.BookSide;
+    
+    enum TimeInForce {
+        GTC,
+        IOC,
+        FOK,
+        GTT
+    }
+    
+    enum ConditionalOrderType {
+        StopMarket,
+        StopLimit,
+        TakeProfit
+    }
+    
+    struct Order {
+        address trader;
+        address baseToken;
+        address quoteToken;
+        uint256 amount;
+        uint256 price;
+        bool isBuy;
+        bool isMarketOrder;
+        uint256 timestamp;
+        bool isActive;
+        uint256 quoteAmount;
+        uint256 filledAmount;
+        TimeInForce timeInForce;
+        uint256 expiresAt;
+    }
+    
+    struct ConditionalOrder {
+        address trader;
+        address baseToken;
+        address quoteToken;
+        uint256 amount;
+        uint256 triggerPrice;
+        uint256 limitPrice;
+        bool isBuy;
+        ConditionalOrderType orderType;
+        uint256 timestamp;
+        bool isPending;
+        uint256 orderId;
+    }
+    
+    /// @dev Rates are in `FEE_DENOMINATOR` units; a negative maker rate is a rebate paid out of the taker's fee
+    struct FeeSchedule {
+        int256 makerFeeRate;
+        int256 takerFeeRate;
+        bool isSet;
+    }
+    
+    /// @dev `feeDiscount` is the share of every fee waived, in `FEE_DENOMINATOR` units
+    struct VolumeTier {
+        uint256 minVolume;
+        uint256 feeDiscount;
+    }
+    
+    /// @dev Volume traded in period `period` and the one before it, see `_getRollingVolume`
+    struct TraderVolume {
+        uint256 period;
+        uint256 currentVolume;
+        uint256 previousVolume;
+    }
+    
+    /**
+     * @dev Order sizes are in whole base tokens with 18 decimals, whatever decimals the base token has,
+     * and `tickSize` is in quote token units like prices. A zero tick or lot size leaves prices or
+     * amounts unconstrained.
+     */
+    struct PairConfig {
+        bool enabled;
+        uint256 minOrderAmount;
+        uint256 maxOrderAmount;
+        uint256 tickSize;
+        uint256 lotSize;
+    }
+    
+    /**
+     * @dev Checks on a pair's oracle price, zero turns a check off. `maxPriceAge` is in seconds and
+     * `maxDeviation`, how far the best book price may stray from the oracle, in `FEE_DENOMINATOR` units.
+     */
+    struct OracleConfig {
+        uint256 maxPriceAge;
+        uint256 maxDeviation;
+    }
+    
+    /// @dev `priceCumulative` is the sum of the last trade price times every second it stood, up to `timestamp`
+    struct PriceObservation {
+        uint256 timestamp;
+        uint256 priceCumulative;
+    }
+    
+    /// @dev Trades in one hour since the epoch, `volume` in base token units and `quoteVolume` in quote token units
+    struct HourlyStats {
+        uint256 hour;
+        uint256 high;
+        uint256 low;
+        uint256 volume;
+        uint256 quoteVolume;
+    }
+    
+    /**
+     * @dev Where a pair's trades executed. `observations` is a ring buffer of `OBSERVATION_CARDINALITY`
+     * written at most once per `OBSERVATION_INTERVAL`, and `hourlyStats` one of the last 24 hours,
+     * indexed by hour modulo 24.
+     */
+    struct MarketData {
+        uint256 lastPrice;
+        uint256 lastTradeTime;
+        uint256 priceCumulative;
+        uint256 observationCount;
+        mapping(uint256 => PriceObservation) observations;
+        mapping(uint256 => HourlyStats) hourlyStats;
+    }
+    
+    struct OrderBook {
+        mapping(uint256 => Order) orders;
+        mapping(uint256 => bool) activeBuyOrders;
+        mapping(uint256 => bool) activeSellOrders;
+        uint256 nextOrderId;
+        uint256 activeBuyOrderCount;
+        uint256 activeSellOrderCount;
+        uint256 totalBuyOrderCount;
+        uint256 totalSellOrderCount;
+    }
+
+    struct PairOrderBook {
+        address baseToken;
+        address quoteToken;
+        uint256[] orderIds;
+        uint256[] activeBuyOrderIds;
+        uint256[] activeSellOrderIds;
+        mapping(uint256 => uint256) activeOrderIndex;
+        uint256 totalBuyOrderCount;
+        uint256 totalSellOrderCount;
+        PriceLevelLibrary.BookSide bids;
+        PriceLevelLibrary.BookSide asks;
+    }
+    
+    event OrderPlaced(uint256 orderId, address trader, address baseToken, address quoteToken, uint256 amount, uint256 price, bool isBuy, bool isMarketOrder);
+    event OrderMatched(uint256 buyOrderId, uint256 sellOrderId, uint256 amount, uint256 price, int256 buyerFee, int256 sellerFee);
+    event OrderCancelled(uint256 orderId);
+    event OrderExpired(uint256 orderId);
+    event PriceOracleUpdated(address oldOracle, address newOracle);
+    event TradingPairAllowed(address baseToken, address quoteToken, bool allowed);
+    event FeeCollected(uint256 orderId, address payer, address token, uint256 amount, bool isMaker);
+    event RebatePaid(uint256 orderId, address trader, address token, uint256 amount);
+    event FeeScheduleUpdated(address baseToken, address quoteToken, int256 makerFeeRate, int256 takerFeeRate);
+    event PairFeeScheduleReset(address baseToken, address quoteToken);
+    event FeeRecipientUpdated(address oldRecipient, address newRecipient);
+    event FeesWithdrawn(address recipient, address token, uint256 amount);
+    event Deposited(address trader, address token, uint256 amount);
+    event Withdrawn(address trader, address token, uint256 amount);
+    event OrderBookCreated(bytes32 pairId, address baseToken, address quoteToken);
+    event BestPricesUpdated(bytes32 pairId, uint256 bestBid, uint256 bestAsk);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    
+    error AccessControlUnauthorizedAccount(address account, bytes32 neededRole);
+    
+    OrderBook public orderBook;
+    mapping(address => mapping(address => uint256)) public balances;
+    mapping(address => mapping(uint256 => bool)) public userOrders;
+    /// @dev Superseded by `PairConfig.enabled`; `migrateToRoles` carries the pairs listed here over and clears them
+    mapping(address => mapping(address => bool)) public allowedTradingPairs;
+    
+    /// @dev The first engine's order size bounds for every pair, which `migrateToRoles` gives the pairs it listed
+    uint256 internal legacyMinOrderAmount;
+    uint256 internal legacyMaxOrderAmount;
+    uint256 public constant FEE_DENOMINATOR = 10000;
+    int256 public constant MAX_FEE_RATE = 100;
+    uint256 public constant VOLUME_PERIOD = 30 days;
+    uint256 public constant MAX_VOLUME_TIERS = 10;
+    uint256 public constant OBSERVATION_INTERVAL = 1 minutes;
+    /// @dev A day of observations at one per `OBSERVATION_INTERVAL`, the longest TWAP window
+    uint256 internal constant OBSERVATION_CARDINALITY = 1440;
+    
+    /// @dev Grants and revokes every role, including itself
+    bytes32 internal constant DEFAULT_ADMIN_ROLE = 0x00;
+    bytes32 internal constant PAIR_MANAGER_ROLE = keccak256("PAIR_MANAGER_ROLE");
+    bytes32 internal constant ORACLE_MANAGER_ROLE = keccak256("ORACLE_MANAGER_ROLE");
+    /// @dev Sets fee schedules, volume tiers and the fee recipient, and withdraws collected fees
+    bytes32 internal constant FEE_MANAGER_ROLE = keccak256("FEE_MANAGER_ROLE");
+    bytes32 internal constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 internal constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    
+    IPriceOracle public priceOracle;
+
+    mapping(bytes32 => PairOrderBook) internal pairOrderBooks;
+    bytes32[] internal orderBookPairIds;
+    mapping(address => uint256[]) internal traderOpenOrderIds;
+    mapping(uint256 => uint256) internal traderOpenOrderIndex;
+    
+    mapping(uint256 => ConditionalOrder) internal conditionalOrders;
+    uint256 public nextConditionalOrderId;
+    uint256[] internal pendingConditionalOrderIds;
+    mapping(uint256 => uint256) internal pendingConditionalOrderIndex;
+    
+    /// @notice Funds committed to open orders; `balances` holds what is free to trade or withdraw
+    mapping(address => mapping(address => uint256)) public lockedBalances;
+    
+    /// @notice 10**decimals of every token traded so far. Prices are quote token units per one whole base token.
+    mapping(address => uint256) internal tokenUnits;
+    
+    /// @notice Fees earned per token, kept apart from every trader's balances
+    mapping(address => uint256) public collectedFees;
+    address public feeRecipient;
+    /// @notice Applies to every pair without a schedule of its own
+    FeeSchedule public defaultFeeSchedule;
+    mapping(bytes32 => FeeSchedule) internal pairFeeSchedules;
+    /// @notice Quote tokens a buy order locked on top of its quote amount to cover the fees it may pay
+    mapping(uint256 => uint256) internal orderFeeReserves;
+    mapping(uint256 => uint256) internal conditionalOrderFeeReserves;
+    
+    /// @notice Ascending by `minVolume`; a trader below the first tier gets no discount
+    VolumeTier[] internal volumeTiers;
+    mapping(address => TraderVolume) internal traderVolumes;
+    
+    /// @dev Superseded by `PAUSER_ROLE`; `migrateToRoles` hands it that role and clears it
+    address internal pauseGuardian;
+    /// @notice Paused engines and halted pairs take no new orders, but cancelling and withdrawing still work
+    bool internal tradingPaused;
+    mapping(bytes32 => bool) internal haltedPairs;
+    
+    mapping(bytes32 => mapping(address => bool)) internal roles;
+    
+    /// @notice Orders are only accepted on enabled pairs, within that pair's limits
+    mapping(bytes32 => PairConfig) internal pairConfigs;
+    
+    mapping(bytes32 => OracleConfig) internal oracleConfigs;
+    
+    mapping(bytes32 => MarketData) internal marketData;
+
+    modifier onlyRole(bytes32 role) {
+        if (!roles[role][msg.sender]) revert AccessControlUnauthorizedAccount(msg.sender, role);
+        _;
+    }
+
+    /**
+     * @param isLocked True when the trader's funds are already locked, as for triggered conditional orders
+     * @param lockedFeeReserve Fee reserve locked alongside a buy's quote amount when `isLocked`
+     */
+    function _placeOrder(
+        address trader,
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        uint256 price, 
+        bool isBuy,
+        bool isMarketOrder,
+        TimeInForce timeInForce,
+        uint256 expiresAt,
+        bool isLocked,
+        uint256 lockedFeeReserve
+    ) 
+        internal 
+        returns (uint256 orderId) 
+    {
+        orderId = _openOrder(
+            trader, baseToken, quoteToken, amount, price, isBuy, isMarketOrder, timeInForce, expiresAt, isLocked, lockedFeeReserve
+        );
+        
+        _addToOrderBook(orderId);
+        
+        emit OrderPlaced(orderId, trader, baseToken, quoteToken, amount, price, isBuy, isMarketOrder);
+        
+        if (timeInForce == TimeInForce.FOK) {
+            require(_getFillableAmount(orderId) >= amount, "Order cannot be filled completely");
+        }
+        
+        _matchOrder(orderId);
+        
+        return orderId;
+    }
+
+    /// @dev Records an order and locks its funds, leaving it off the book and unannounced, see `_placeOrder`
+    function _openOrder(
+        address trader,
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        uint256 price, 
+        bool isBuy,
+        bool isMarketOrder,
+        TimeInForce timeInForce,
+        uint256 expiresAt,
+        bool isLocked,
+        uint256 lockedFeeReserve
+    ) 
+        internal 
+        returns (uint256 orderId) 
+    {
+        _requireTradingActive(baseToken, quoteToken);
+        
+        if (timeInForce == TimeInForce.GTT) {
+            require(expiresAt > block.timestamp, "Expiry must be in the future");
+        } else {
+            require(expiresAt == 0, "Expiry only allowed for GTT orders");
+        }
+        
+        orderId = orderBook.nextOrderId++;
+        
+        uint256 quoteAmount = _quoteAmountFor(baseToken, amount, price);
+        
+        Order memory newOrder = Order({
+            trader: trader,
+            baseToken: baseToken,
+            quoteToken: quoteToken,
+            amount: amount,
+            price: price,
+            isBuy: isBuy,
+            isMarketOrder: isMarketOrder,
+            timestamp: block.timestamp,
+            isActive: true,
+            quoteAmount: quoteAmount,
+            filledAmount: 0,
+            timeInForce: timeInForce,
+            expiresAt: expiresAt
+        });
+        
+        orderBook.orders[orderId] = newOrder;
+        userOrders[trader][orderId] = true;
+        
+        if (isLocked) {
+            orderFeeReserves[orderId] = lockedFeeReserve;
+        } else if (isBuy) {
+            uint256 feeReserve = _getFeeReserve(baseToken, quoteToken, quoteAmount);
+            orderFeeReserves[orderId] = feeReserve;
+            _lockBalance(trader, quoteToken, quoteAmount + feeReserve);
+        } else {
+            _lockBalance(trader, baseToken, amount);
+        }
+    }
+
+    function _placeLimitOrder(
+        address trader,
+        address baseToken, 
+        address quoteToken, 
+        uint256 amount, 
+        uint256 price, 
+        bool isBuy,
+        TimeInForce timeInForce,
+        uint256 expiresAt
+    ) 
+        internal 
+        returns (uint256 orderId) 
+    {
+        _requireLimitOrderAllowed(baseToken, quoteToken, amount, price);
+        return _placeOrder(trader, baseToken, quoteToken, amount, price, isBuy, false, timeInForce, expiresAt, false, 0);
+    }
+
+    function _requireLimitOrderAllowed(address baseToken, address quoteToken, uint256 amount, uint256 price) internal {
+        require(price > 0, "Price must be greater than 0");
+        require(baseToken != address(0) && quoteToken != address(0), "Invalid token addresses");
+        require(baseToken != quoteToken, "Base and quote tokens must be different");
+        _requirePriceOnTick(_requireOrderAmountAllowed(baseToken, quoteToken, amount), price);
+        
+        require(_isTokenPairValid(baseToken, quoteToken), "Token pair not supported by oracle");
+    }
+
+    /**
+     * @dev The best opposite price, or the oracle price on an empty book. Reverts like `_getOraclePrice`
+     * when the feed fails its checks, and with `PriceOracleInvalid` when the book strays further from
+     * the oracle than the pair's `maxDeviation`.
+     */
+    function _getMarketPrice(address baseToken, address quoteToken, bool isBuy) internal view returns (uint256) {
+        uint256 oraclePrice = _getOraclePrice(baseToken, quoteToken);
+        uint256 bestPrice = _getBookSide(baseToken, quoteToken, !isBuy).bestPrice;
+        
+        if (bestPrice == 0) {
+            return oraclePrice;
+        }
+        if (!_isWithinMaxDeviation(baseToken, quoteToken, bestPrice, oraclePrice)) {
+            revert ErrorLibrary.PriceOracleInvalid();
+        }
+        
+        return bestPrice;
+    }
+
+    function _isWithinMaxDeviation(address baseToken, address quoteToken, uint256 price, uint256 oraclePrice)
+        internal
+        view
+        returns (bool)
+    {
+        uint256 maxDeviation = oracleConfigs[_getPairId(baseToken, quoteToken)].maxDeviation;
+        uint256 deviation = price > oraclePrice ? price - oraclePrice : oraclePrice - price;
+        return maxDeviation == 0 || deviation * FEE_DENOMINATOR <= oraclePrice * maxDeviation;
+    }
+
+    /**
+     * @dev Checks the pair is open for trading and `amount` fits its config, which it returns so callers
+     * can check prices against the tick size. Also caches the base token's unit, which every later
+     * price calculation for the order reads.
+     */
+    function _requireOrderAmountAllowed(address baseToken, address quoteToken, uint256 amount)
+        internal
+        returns (PairConfig storage config)
+    {
+        _requireTradingActive(baseToken, quoteToken);
+        config = pairConfigs[_getPairId(baseToken, quoteToken)];
+        uint256 baseUnit = _cacheTokenUnit(baseToken);
+        require(amount * 10**18 >= config.minOrderAmount * baseUnit, "Amount too small");
+        require(amount * 10**18 <= config.maxOrderAmount * baseUnit, "Amount too large");
+        require(config.lotSize == 0 || amount * 10**18 % (config.lotSize * baseUnit) == 0, "Amount not a multiple of lot size");
+    }
+
+    function _requirePriceOnTick(PairConfig storage config, uint256 price) internal view {
+        require(config.tickSize == 0 || price % config.tickSize == 0, "Price not a multiple of tick size");
+    }
+
+    function _quoteAmountFor(address baseToken, uint256 amount, uint256 price) internal view returns (uint256) {
+        return amount * price / _getTokenUnit(baseToken);
+    }
+
+    /// @dev Falls back to reading the token, so views work for tokens that have never been traded
+    function _getTokenUnit(address token) internal view returns (uint256) {
+        uint256 unit = tokenUnits[token];
+        return unit != 0 ? unit : 10 ** _readTokenDecimals(token);
+    }
+
+    function _cacheTokenUnit(address token) internal returns (uint256 unit) {
+        unit = tokenUnits[token];
+        if (unit == 0) {
+            unit = 10 ** _readTokenDecimals(token);
+            tokenUnits[token] = unit;
+        }
+    }
+
+    /// @dev Tokens that do not implement `decimals()` are treated as having 18, as OpenZeppelin's ERC4626 does
+    function _readTokenDecimals(address token) internal view returns (uint8) {
+        (bool success, bytes memory data) = token.staticcall(abi.encodeCall(IERC20Metadata.decimals, ()));
+        if (success && data.length >= 32) {
+            uint256 tokenDecimals = abi.decode(data, (uint256));
+            if (tokenDecimals <= type(uint8).max) {
+                return uint8(tokenDecimals);
+            }
+        }
+        return 18;
+    }
+
+    function _getFeeSchedule(address baseToken, address quoteToken) internal view returns (FeeSchedule storage) {
+        FeeSchedule storage schedule = pairFeeSchedules[_getPairId(baseToken, quoteToken)];
+        return schedule.isSet ? schedule : defaultFeeSchedule;
+    }
+
+    /**
+     * @dev Buyers pay their fee in quote tokens on top of the trade value, so a buy locks enough for
+     * the highest rate it could be charged. Fills never charge more than this reserve, which keeps
+     * later fee increases from reaching orders that are already resting.
+     */
+    function _getFeeReserve(address baseToken, address quoteToken, uint256 quoteAmount) internal view returns (uint256) {
+        FeeSchedule storage schedule = _getFeeSchedule(baseToken, quoteToken);
+        int256 maxRate = schedule.makerFeeRate > schedule.takerFeeRate ? schedule.makerFeeRate : schedule.takerFeeRate;
+        return maxRate > 0 ? quoteAmount * uint256(maxRate) / FEE_DENOMINATOR : 0;
+    }
+
+    function _setFeeSchedule(FeeSchedule storage schedule, int256 makerFeeRate, int256 takerFeeRate) internal {
+        require(takerFeeRate >= 0 && takerFeeRate <= MAX_FEE_RATE, "Invalid taker fee");
+        require(makerFeeRate >= -takerFeeRate && makerFeeRate <= MAX_FEE_RATE, "Invalid maker fee");
+        schedule.makerFeeRate = makerFeeRate;
+        schedule.takerFeeRate = takerFeeRate;
+        schedule.isSet = true;
+    }
+
+    /**
+     * @dev Volume over the last `VOLUME_PERIOD`, estimated from two fixed periods: all of the current
+     * one plus the previous one weighted by how much of it still falls inside the window.
+     */
+    function _getRollingVolume(address trader) internal view returns (uint256) {
+        TraderVolume storage volume = traderVolumes[trader];
+        uint256 period = block.timestamp / VOLUME_PERIOD;
+        
+        uint256 currentVolume;
+        uint256 previousVolume;
+        if (volume.period == period) {
+            (currentVolume, previousVolume) = (volume.currentVolume, volume.previousVolume);
+        } else if (volume.period + 1 == period) {
+            previousVolume = volume.currentVolume;
+        }
+        
+        uint256 elapsed = block.timestamp % VOLUME_PERIOD;
+        return currentVolume + previousVolume * (VOLUME_PERIOD - elapsed) / VOLUME_PERIOD;
+    }
+
+    /// @dev Volume counts quote value scaled to 18 decimals, so tiers assume pairs quoted in stable assets
+    function _recordVolume(address trader, address quoteToken, uint256 quoteAmount) internal {
+        TraderVolume storage volume = traderVolumes[trader];
+        uint256 period = block.timestamp / VOLUME_PERIOD;
+        if (volume.period != period) {
+            volume.previousVolume = volume.period + 1 == period ? volume.currentVolume : 0;
+            volume.currentVolume = 0;
+            volume.period = period;
+        }
+        volume.currentVolume += quoteAmount * 10**18 / _getTokenUnit(quoteToken);
+    }
+
+    /// @return tier 1-based index into `volumeTiers`, 0 below the first tier
+    function _getVolumeTier(uint256 rollingVolume) internal view returns (uint256 tier) {
+        while (tier < volumeTiers.length && rollingVolume >= volumeTiers[tier].minVolume) {
+            tier++;
+        }
+    }
+
+    function _applyFeeDiscount(address trader, uint256 fee) internal view returns (uint256) {
+        uint256 tier = _getVolumeTier(_getRollingVolume(trader));
+        return tier == 0 ? fee : fee * (FEE_DENOMINATOR - volumeTiers[tier - 1].feeDiscount) / FEE_DENOMINATOR;
+    }
+
+    function _isTokenPairValid(address baseToken, address quoteToken) internal view returns (bool) {
+        if (address(priceOracle) == address(0)) {
+            return false;
+        }
+        
+        try priceOracle.isPriceFeedValid(baseToken, quoteToken) returns (bool isValid) {
+            return isValid;
+        } catch {
+            return false;
+        }
+    }
+    
+    function _lockBalance(address trader, address token, uint256 amount) internal {
+        require(balances[trader][token] >= amount, "Insufficient available balance");
+        balances[trader][token] -= amount;
+        lockedBalances[trader][token] += amount;
+    }
+    
+    function _unlockBalance(address trader, address token, uint256 amount) internal {
+        lockedBalances[trader][token] -= amount;
+        balances[trader][token] += amount;
+    }
+    
+    function _grantRole(bytes32 role, address account) internal {
+        if (!roles[role][account]) {
+            roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (roles[role][account]) {
+            roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    function _grantAllRoles(address account) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, account);
+        _grantRole(PAIR_MANAGER_ROLE, account);
+        _grantRole(ORACLE_MANAGER_ROLE, account);
+        _grantRole(FEE_MANAGER_ROLE, account);
+        _grantRole(PAUSER_ROLE, account);
+        _grantRole(UPGRADER_ROLE, account);
+    }
+
+    /// @dev Runs `module`'s code against this contract's storage and returns or reverts with its result
+    function _delegate(address module) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+
+    function _isTradingActive(address baseToken, address quoteToken) internal view returns (bool) {
+        bytes32 pairId = _getPairId(baseToken, quoteToken);
+        return !tradingPaused && !haltedPairs[pairId] && pairConfigs[pairId].enabled;
+    }
+
+    function _requireTradingActive(address baseToken, address quoteToken) internal view {
+        if (tradingPaused) revert ErrorLibrary.ContractPaused();
+        bytes32 pairId = _getPairId(baseToken, quoteToken);
+        if (haltedPairs[pairId]) revert ErrorLibrary.TradingPairHalted();
+        if (!pairConfigs[pairId].enabled) revert ErrorLibrary.TradingPairNotAllowed();
+    }
+
+    function _getPairId(address baseToken, address quoteToken) internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked(baseToken, quoteToken));
+    }
+
+    function _getBookSide(address baseToken, address quoteToken, bool isBuy) internal view returns (PriceLevelLibrary.BookSide storage) {
+        PairOrderBook storage book = pairOrderBooks[_getPairId(baseToken, quoteToken)];
+        return isBuy ? book.bids : book.asks;
+    }
+
+    function _addToOrderBook(uint256 orderId) internal {
+        Order storage order = orderBook.orders[orderId];
+        bytes32 pairId = _getPairId(order.baseToken, order.quoteToken);
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        
+        if (book.baseToken == address(0)) {
+            book.baseToken = order.baseToken;
+            book.quoteToken = order.quoteToken;
+            orderBookPairIds.push(pairId);
+            emit OrderBookCreated(pairId, order.baseToken, order.quoteToken);
+        }
+        
+        book.orderIds.push(orderId);
+        traderOpenOrderIds[order.trader].push(orderId);
+        traderOpenOrderIndex[orderId] = traderOpenOrderIds[order.trader].length;
+        
+        if (order.isBuy) {
+            orderBook.activeBuyOrders[orderId] = true;
+            orderBook.activeBuyOrderCount++;
+            orderBook.totalBuyOrderCount++;
+            book.activeBuyOrderIds.push(orderId);
+            book.activeOrderIndex[orderId] = book.activeBuyOrderIds.length;
+            book.totalBuyOrderCount++;
+        } else {
+            orderBook.activeSellOrders[orderId] = true;
+            orderBook.activeSellOrderCount++;
+            orderBook.totalSellOrderCount++;
+            book.activeSellOrderIds.push(orderId);
+            book.activeOrderIndex[orderId] = book.activeSellOrderIds.length;
+            book.totalSellOrderCount++;
+        }
+    }
+
+    function _emitBestPricesIfChanged(bytes32 pairId, uint256 previousBestBid, uint256 previousBestAsk) internal {
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        if (book.bids.bestPrice != previousBestBid || book.asks.bestPrice != previousBestAsk) {
+            emit BestPricesUpdated(pairId, book.bids.bestPrice, book.asks.bestPrice);
+        }
+    }
+
+    /// @dev `_matchOrderOnBook`, then `BestPricesUpdated` when that moved the pair's best prices
+    function _matchOrder(uint256 orderId) internal {
+        Order storage taker = orderBook.orders[orderId];
+        bytes32 pairId = _getPairId(taker.baseToken, taker.quoteToken);
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        (uint256 bestBid, uint256 bestAsk) = (book.bids.bestPrice, book.asks.bestPrice);
+        
+        _matchOrderOnBook(orderId);
+        _emitBestPricesIfChanged(pairId, bestBid, bestAsk);
+    }
+
+    /**
+     * @dev Matches a newly placed order against the opposite side, best price level first and
+     * oldest order first within a level, stopping as soon as the prices no longer cross. Whatever
+     * is left rests at the back of the queue for its own price. Leaves emitting `BestPricesUpdated`
+     * to the caller, which may match several orders first.
+     */
+    function _matchOrderOnBook(uint256 orderId) internal {
+        Order storage taker = orderBook.orders[orderId];
+        PairOrderBook storage book = pairOrderBooks[_getPairId(taker.baseToken, taker.quoteToken)];
+        PriceLevelLibrary.BookSide storage makers = taker.isBuy ? book.asks : book.bids;
+        
+        uint256 levelPrice = makers.bestPrice;
+        while (taker.filledAmount < taker.amount && levelPrice != 0) {
+            if (taker.isBuy ? taker.price < levelPrice : taker.price > levelPrice) {
+                break;
+            }
+            
+            (, uint256 makerId) = makers.front(levelPrice);
+            Order storage maker = orderBook.orders[makerId];
+            
+            if (_isExpired(maker)) {
+                _expireOrder(makerId);
+                levelPrice = makers.bestPrice;
+                continue;
+            }
+            
+            uint256 matchPrice = taker.isBuy ? _getMatchPrice(taker, maker) : _getMatchPrice(maker, taker);
+            if (taker.isBuy ? matchPrice > taker.price : matchPrice < taker.price) {
+                break;
+            }
+            
+            uint256 remainingTakerAmount = taker.amount - taker.filledAmount;
+            uint256 remainingMakerAmount = maker.amount - maker.filledAmount;
+            uint256 matchAmount = remainingTakerAmount < remainingMakerAmount ?
+                remainingTakerAmount : remainingMakerAmount;
+            
+            if (taker.isBuy) {
+                _executeTrade(orderId, makerId, matchAmount, matchPrice, true);
+            } else {
+                _executeTrade(makerId, orderId, matchAmount, matchPrice, false);
+            }
+            
+            taker.filledAmount += matchAmount;
+            maker.filledAmount += matchAmount;
+            
+            if (maker.filledAmount >= maker.amount) {
+                makers.remove(levelPrice, makerId, matchAmount);
+                _deactivateOrder(makerId);
+                levelPrice = makers.bestPrice;
+            } else {
+                makers.reduce(levelPrice, matchAmount);
+            }
+        }
+        
+        if (taker.filledAmount >= taker.amount) {
+            _deactivateOrder(orderId);
+        } else if (taker.timeInForce == TimeInForce.FOK) {
+            // `_placeOrder` only checked the book's depth, not that matching gets through all of it
+            revert("Order cannot be filled completely");
+        } else if (taker.timeInForce == TimeInForce.IOC) {
+            _deactivateOrder(orderId);
+            _refundRemaining(taker, orderId);
+            emit OrderCancelled(orderId);
+        } else {
+            (taker.isBuy ? book.bids : book.asks)
+                .insert(taker.isBuy, taker.price, orderId, taker.amount - taker.filledAmount);
+        }
+    }
+
+    /// @dev Amount of the opposite side that `orderId` could trade against right now, skipping expired orders
+    function _getFillableAmount(uint256 orderId) internal view returns (uint256 fillable) {
+        Order storage taker = orderBook.orders[orderId];
+        PriceLevelLibrary.BookSide storage makers = _getBookSide(taker.baseToken, taker.quoteToken, !taker.isBuy);
+        
+        uint256 levelPrice = makers.bestPrice;
+        while (fillable < taker.amount && levelPrice != 0) {
+            if (taker.isBuy ? taker.price < levelPrice : taker.price > levelPrice) {
+                break;
+            }
+            
+            (bool exists, uint256 makerId) = makers.front(levelPrice);
+            while (exists && fillable < taker.amount) {
+                Order storage maker = orderBook.orders[makerId];
+                if (!_isExpired(maker)) {
+                    fillable += maker.amount - maker.filledAmount;
+                }
+                (exists, makerId) = makers.nextOrder(makerId);
+            }
+            levelPrice = makers.worsePrice(levelPrice);
+        }
+    }
+
+    function _isExpired(Order storage order) internal view returns (bool) {
+        return order.timeInForce == TimeInForce.GTT && order.expiresAt <= block.timestamp;
+    }
+
+    function _expireOrder(uint256 orderId) internal {
+        Order storage order = orderBook.orders[orderId];
+        PairOrderBook storage book = pairOrderBooks[_getPairId(order.baseToken, order.quoteToken)];
+        
+        (order.isBuy ? book.bids : book.asks).remove(order.price, orderId, order.amount - order.filledAmount);
+        _deactivateOrder(orderId);
+        _refundRemaining(order, orderId);
+        
+        emit OrderExpired(orderId);
+    }
+
+    /// @dev Leaves emitting `BestPricesUpdated` to the caller, which may cancel several orders first
+    function _cancelOrder(uint256 orderId) internal {
+        Order storage order = orderBook.orders[orderId];
+        PairOrderBook storage book = pairOrderBooks[_getPairId(order.baseToken, order.quoteToken)];
+        
+        (order.isBuy ? book.bids : book.asks).remove(order.price, orderId, order.amount - order.filledAmount);
+        _deactivateOrder(orderId);
+        _refundRemaining(order, orderId);
+        
+        emit OrderCancelled(orderId);
+    }
+
+    function _refundRemaining(Order storage order, uint256 orderId) internal {
+        if (order.isBuy) {
+            uint256 feeReserve = orderFeeReserves[orderId];
+            uint256 remainingQuoteAmount = order.quoteAmount - _quoteAmountFor(order.baseToken, order.filledAmount, order.price)
+                + feeReserve - feeReserve * order.filledAmount / order.amount;
+            if (remainingQuoteAmount > 0) {
+                _unlockBalance(order.trader, order.quoteToken, remainingQuoteAmount);
+            }
+        } else {
+            uint256 remainingAmount = order.amount - order.filledAmount;
+            if (remainingAmount > 0) {
+                _unlockBalance(order.trader, order.baseToken, remainingAmount);
+            }
+        }
+    }
+
+    function _deactivateOrder(uint256 orderId) internal {
+        Order storage order = orderBook.orders[orderId];
+        order.isActive = false;
+        
+        PairOrderBook storage book = pairOrderBooks[_getPairId(order.baseToken, order.quoteToken)];
+        
+        if (order.isBuy) {
+            if (orderBook.activeBuyOrders[orderId]) {
+                orderBook.activeBuyOrders[orderId] = false;
+                orderBook.activeBuyOrderCount--;
+                _removeActiveOrderId(book, book.activeBuyOrderIds, orderId);
+                _removeTraderOpenOrderId(order.trader, orderId);
+            }
+        } else {
+            if (orderBook.activeSellOrders[orderId]) {
+                orderBook.activeSellOrders[orderId] = false;
+                orderBook.activeSellOrderCount--;
+                _removeActiveOrderId(book, book.activeSellOrderIds, orderId);
+                _removeTraderOpenOrderId(order.trader, orderId);
+            }
+        }
+    }
+
+    function _removeActiveOrderId(PairOrderBook storage book, uint256[] storage activeOrderIds, uint256 orderId) internal {
+        uint256 index = book.activeOrderIndex[orderId] - 1;
+        uint256 lastOrderId = activeOrderIds[activeOrderIds.length - 1];
+        
+        activeOrderIds[index] = lastOrderId;
+        book.activeOrderIndex[lastOrderId] = index + 1;
+        activeOrderIds.pop();
+        delete book.activeOrderIndex[orderId];
+    }
+
+    function _removeTraderOpenOrderId(address trader, uint256 orderId) internal {
+        uint256[] storage openOrderIds = traderOpenOrderIds[trader];
+        uint256 index = traderOpenOrderIndex[orderId] - 1;
+        uint256 lastOrderId = openOrderIds[openOrderIds.length - 1];
+        
+        openOrderIds[index] = lastOrderId;
+        traderOpenOrderIndex[lastOrderId] = index + 1;
+        openOrderIds.pop();
+        delete traderOpenOrderIndex[orderId];
+    }
+    
+    /**
+     * @dev Two market orders trade at the oracle price, held between the prices both orders were placed
+     * at. A resting market buy locked funds at its own price and cannot pay more, however far the
+     * oracle has moved since.
+     */
+    function _getMatchPrice(Order storage buyOrder, Order storage sellOrder) internal view returns (uint256) {
+        if (buyOrder.isMarketOrder && sellOrder.isMarketOrder) {
+            uint256 oraclePrice = _getOraclePrice(buyOrder.baseToken, buyOrder.quoteToken);
+            if (oraclePrice > buyOrder.price) return buyOrder.price;
+            if (oraclePrice < sellOrder.price) return sellOrder.price;
+            return oraclePrice;
+        }
+        
+        if (buyOrder.isMarketOrder) {
+            return sellOrder.price;
+        }
+        
+        if (sellOrder.isMarketOrder) {
+            return buyOrder.price;
+        }
+        
+        return buyOrder.price;
+    }
+    
+    /// @dev Reverts with whichever of `PriceOracleInvalid` or `PriceOracleExpired` `_tryGetOraclePrice` reports
+    function _getOraclePrice(address baseToken, address quoteToken) internal view returns (uint256) {
+        (uint256 price, bytes4 failure) = _tryGetOraclePrice(baseToken, quoteToken);
+        if (failure == ErrorLibrary.PriceOracleExpired.selector) revert ErrorLibrary.PriceOracleExpired();
+        if (failure != 0) revert ErrorLibrary.PriceOracleInvalid();
+        return price;
+    }
+
+    /**
+     * @dev The feed price in quote token units, or zero and the selector of the check it failed:
+     * `PriceOracleInvalid` for a missing, invalid or non-positive feed, `PriceOracleExpired` for an
+     * answer older than the pair's `maxPriceAge` or carried over from an earlier round.
+     */
+    function _tryGetOraclePrice(address baseToken, address quoteToken) internal view returns (uint256, bytes4) {
+        if (!_isTokenPairValid(baseToken, quoteToken)) {
+            return (0, ErrorLibrary.PriceOracleInvalid.selector);
+        }
+        
+        try priceOracle.latestRoundData(baseToken, quoteToken) returns (
+            uint80 roundId,
+            int256 answer,
+            uint256,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) {
+            if (answer <= 0) {
+                return (0, ErrorLibrary.PriceOracleInvalid.selector);
+            }
+            uint256 maxPriceAge = oracleConfigs[_getPairId(baseToken, quoteToken)].maxPriceAge;
+            if (answeredInRound < roundId || (maxPriceAge != 0 && updatedAt + maxPriceAge < block.timestamp)) {
+                return (0, ErrorLibrary.PriceOracleExpired.selector);
+            }
+            return _scaleOraclePrice(baseToken, quoteToken, uint256(answer));
+        } catch {
+            return (0, ErrorLibrary.PriceOracleInvalid.selector);
+        }
+    }
+
+    /**
+     * @dev Converts a feed price with the oracle's decimals into quote token units per whole base token,
+     * failing with `PriceOracleInvalid` like the price itself when the oracle cannot report its decimals
+     */
+    function _scaleOraclePrice(address baseToken, address quoteToken, uint256 price) internal view returns (uint256, bytes4) {
+        try priceOracle.decimals(baseToken, quoteToken) returns (uint8 decimals) {
+            return (price * _getTokenUnit(quoteToken) / 10**decimals, 0);
+        } catch {
+            return (0, ErrorLibrary.PriceOracleInvalid.selector);
+        }
+    }
+
+    /**
+     * @dev Both sides pay their fee in quote tokens at their maker or taker rate: the seller out of
+     * the trade value, the buyer out of the fee reserve their order locked. A maker rebate is paid
+     * out of the taker's fee for the same fill and never exceeds it, so the fee ledger cannot go short.
+     */
+    function _executeTrade(
+        uint256 buyOrderId, 
+        uint256 sellOrderId, 
+        uint256 amount, 
+        uint256 price,
+        bool isBuyerTaker
+    ) internal {
+        Order storage buyOrder = orderBook.orders[buyOrderId];
+        Order storage sellOrder = orderBook.orders[sellOrderId];
+        address quoteToken = buyOrder.quoteToken;
+        uint256 totalValue = _quoteAmountFor(buyOrder.baseToken, amount, price);
+        
+        (uint256 releasedValue, uint256 releasedReserve) = _releaseBuyLock(buyOrderId, amount);
+        (int256 buyerFee, int256 sellerFee) = _getTradeFees(buyOrder, sellOrder, totalValue, releasedReserve, isBuyerTaker);
+        
+        balances[buyOrder.trader][quoteToken] = uint256(
+            int256(balances[buyOrder.trader][quoteToken] + releasedValue + releasedReserve - totalValue) - buyerFee
+        );
+        balances[buyOrder.trader][buyOrder.baseToken] += amount;
+        
+        lockedBalances[sellOrder.trader][sellOrder.baseToken] -= amount;
+        balances[sellOrder.trader][quoteToken] = uint256(int256(balances[sellOrder.trader][quoteToken] + totalValue) - sellerFee);
+        
+        collectedFees[quoteToken] = uint256(int256(collectedFees[quoteToken]) + buyerFee + sellerFee);
+        
+        _recordTradeVolume(buyOrder.trader, sellOrder.trader, quoteToken, totalValue);
+        _recordMarketData(_getPairId(buyOrder.baseToken, quoteToken), amount, price, totalValue);
+        _emitFee(buyOrderId, buyOrder.trader, quoteToken, buyerFee, !isBuyerTaker);
+        _emitFee(sellOrderId, sellOrder.trader, quoteToken, sellerFee, isBuyerTaker);
+        emit OrderMatched(buyOrderId, sellOrderId, amount, price, buyerFee, sellerFee);
+    }
+
+    /// @dev Trading with yourself earns no volume, otherwise tiers could be bought with wash trades
+    function _recordTradeVolume(address buyer, address seller, address quoteToken, uint256 quoteAmount) internal {
+        if (buyer == seller) return;
+        _recordVolume(buyer, quoteToken, quoteAmount);
+        _recordVolume(seller, quoteToken, quoteAmount);
+    }
+
+    function _recordMarketData(bytes32 pairId, uint256 amount, uint256 price, uint256 quoteAmount) internal {
+        MarketData storage market = marketData[pairId];
+        uint256 priceCumulative = _getPriceCumulative(market);
+        uint256 count = market.observationCount;
+        if (count == 0 || block.timestamp >= market.observations[(count - 1) % OBSERVATION_CARDINALITY].timestamp + OBSERVATION_INTERVAL) {
+            market.observations[count % OBSERVATION_CARDINALITY] = PriceObservation(block.timestamp, priceCumulative);
+            market.observationCount = count + 1;
+        }
+        market.priceCumulative = priceCumulative;
+        market.lastPrice = price;
+        market.lastTradeTime = block.timestamp;
+        
+        uint256 hour = block.timestamp / 1 hours;
+        HourlyStats storage stats = market.hourlyStats[hour % 24];
+        if (stats.hour != hour) {
+            market.hourlyStats[hour % 24] = HourlyStats(hour, price, price, amount, quoteAmount);
+            return;
+        }
+        if (price > stats.high) stats.high = price;
+        if (price < stats.low) stats.low = price;
+        stats.volume += amount;
+        stats.quoteVolume += quoteAmount;
+    }
+
+    /// @dev The pair's price accumulator brought forward to now at its last trade price
+    function _getPriceCumulative(MarketData storage market) internal view returns (uint256) {
+        return market.priceCumulative + market.lastPrice * (block.timestamp - market.lastTradeTime);
+    }
+
+    /**
+     * @dev Unlocks what a buy set aside for `amount` more of its fill: the value at its own price and
+     * the matching share of its fee reserve. Both are computed the same way `_refundRemaining` computes
+     * what is left, so rounding never strands dust.
+     */
+    function _releaseBuyLock(uint256 buyOrderId, uint256 amount) internal returns (uint256 releasedValue, uint256 releasedReserve) {
+        Order storage buyOrder = orderBook.orders[buyOrderId];
+        uint256 filledAmount = buyOrder.filledAmount;
+        
+        releasedValue = _quoteAmountFor(buyOrder.baseToken, filledAmount + amount, buyOrder.price)
+            - _quoteAmountFor(buyOrder.baseToken, filledAmount, buyOrder.price);
+        uint256 feeReserve = orderFeeReserves[buyOrderId];
+        releasedReserve = feeReserve * (filledAmount + amount) / buyOrder.amount - feeReserve * filledAmount / buyOrder.amount;
+        
+        lockedBalances[buyOrder.trader][buyOrder.quoteToken] -= releasedValue + releasedReserve;
+    }
+
+    /**
+     * @dev Volume tier discounts apply to fees, not to rebates.
+     * @param buyerFeeCap Part of the buyer's fee reserve released by this fill, the most the buyer can be charged
+     */
+    function _getTradeFees(
+        Order storage buyOrder,
+        Order storage sellOrder,
+        uint256 totalValue,
+        uint256 buyerFeeCap,
+        bool isBuyerTaker
+    ) internal view returns (int256 buyerFee, int256 sellerFee) {
+        FeeSchedule storage schedule = _getFeeSchedule(buyOrder.baseToken, buyOrder.quoteToken);
+        (address taker, address maker) = isBuyerTaker ? (buyOrder.trader, sellOrder.trader) : (sellOrder.trader, buyOrder.trader);
+        
+        uint256 takerFee = _applyFeeDiscount(taker, totalValue * uint256(schedule.takerFeeRate) / FEE_DENOMINATOR);
+        if (isBuyerTaker && takerFee > buyerFeeCap) {
+            takerFee = buyerFeeCap;
+        }
+        
+        int256 makerFee;
+        if (schedule.makerFeeRate >= 0) {
+            uint256 fee = _applyFeeDiscount(maker, totalValue * uint256(schedule.makerFeeRate) / FEE_DENOMINATOR);
+            makerFee = int256(!isBuyerTaker && fee > buyerFeeCap ? buyerFeeCap : fee);
+        } else {
+            uint256 rebate = totalValue * uint256(-schedule.makerFeeRate) / FEE_DENOMINATOR;
+            makerFee = -int256(rebate < takerFee ? rebate : takerFee);
+        }
+        
+        return isBuyerTaker ? (int256(takerFee), makerFee) : (makerFee, int256(takerFee));
+    }
+
+    function _emitFee(uint256 orderId, address trader, address token, int256 fee, bool isMaker) internal {
+        if (fee > 0) {
+            emit FeeCollected(orderId, trader, token, uint256(fee), isMaker);
+        } else if (fee < 0) {
+            emit RebatePaid(orderId, trader, token, uint256(-fee));
+        }
+    }
+}
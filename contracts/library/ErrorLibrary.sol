@@ -10,6 +10,7 @@ library ErrorLibrary {
     error ReentrancyGuardReentrantCall();
     error CallerNotOwner();
     error ContractPaused();
+    error TradingPairHalted();
     error TokenNotWhitelisted();
     error PriceOracleExpired();
     error PriceOracleInvalid();
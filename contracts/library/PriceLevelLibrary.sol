@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @notice One side (bids or asks) of a trading pair's book, kept as a doubly linked list of
+ * price levels ordered best price first, each holding a FIFO queue of order ids.
+ * @dev Order ids are stored as `orderId + 1` so that 0 can mean "none". A price of 0 means
+ * "no level", which is safe because orders are never placed at a zero price.
+ */
+library PriceLevelLibrary {
+    struct PriceLevel {
+        uint256 betterPrice;
+        uint256 worsePrice;
+        uint256 head;
+        uint256 tail;
+        uint256 totalAmount;
+        uint256 orderCount;
+    }
+
+    struct OrderLink {
+        uint256 prev;
+        uint256 next;
+    }
+
+    struct BookSide {
+        uint256 bestPrice;
+        uint256 levelCount;
+        mapping(uint256 => PriceLevel) levels;
+        mapping(uint256 => OrderLink) links;
+    }
+
+    /**
+     * @notice Appends an order to the back of the queue at `price`, creating the level if needed
+     * @dev Existing levels are found in O(1). A new level is linked in by walking from the best
+     * price, so it costs one read per level with a better price.
+     * @param isBid True for the bid side, where higher prices are better
+     */
+    function insert(BookSide storage side, bool isBid, uint256 price, uint256 orderId, uint256 amount) internal {
+        PriceLevel storage level = side.levels[price];
+        uint256 node = orderId + 1;
+
+        if (level.head == 0) {
+            _linkLevel(side, isBid, price);
+            level.head = node;
+        } else {
+            side.links[level.tail].next = node;
+            side.links[node].prev = level.tail;
+        }
+        level.tail = node;
+        level.totalAmount += amount;
+        level.orderCount++;
+    }
+
+    /**
+     * @notice Removes an order from anywhere in its level's queue in O(1)
+     * @param remainingAmount Unfilled amount of the order still counted in the level total
+     */
+    function remove(BookSide storage side, uint256 price, uint256 orderId, uint256 remainingAmount) internal {
+        PriceLevel storage level = side.levels[price];
+        uint256 node = orderId + 1;
+        OrderLink memory link = side.links[node];
+
+        if (link.prev == 0) {
+            level.head = link.next;
+        } else {
+            side.links[link.prev].next = link.next;
+        }
+        if (link.next == 0) {
+            level.tail = link.prev;
+        } else {
+            side.links[link.next].prev = link.prev;
+        }
+        delete side.links[node];
+
+        level.totalAmount -= remainingAmount;
+        level.orderCount--;
+
+        if (level.head == 0) {
+            _unlinkLevel(side, price);
+        }
+    }
+
+    /// @notice Records a partial fill of an order that stays in its level
+    function reduce(BookSide storage side, uint256 price, uint256 amount) internal {
+        side.levels[price].totalAmount -= amount;
+    }
+
+    /// @notice Returns the oldest order at `price`
+    function front(BookSide storage side, uint256 price) internal view returns (bool exists, uint256 orderId) {
+        uint256 node = side.levels[price].head;
+        return node == 0 ? (false, 0) : (true, node - 1);
+    }
+
+    /// @notice Returns the order queued behind `orderId` at the same price
+    function nextOrder(BookSide storage side, uint256 orderId) internal view returns (bool exists, uint256 nextOrderId) {
+        uint256 node = side.links[orderId + 1].next;
+        return node == 0 ? (false, 0) : (true, node - 1);
+    }
+
+    /// @notice Returns the next worse price after `price`, or 0 at the end of the book
+    function worsePrice(BookSide storage side, uint256 price) internal view returns (uint256) {
+        return side.levels[price].worsePrice;
+    }
+
+    function _linkLevel(BookSide storage side, bool isBid, uint256 price) private {
+        uint256 better = 0;
+        uint256 worse = side.bestPrice;
+        while (worse != 0 && (isBid ? price < worse : price > worse)) {
+            better = worse;
+            worse = side.levels[worse].worsePrice;
+        }
+
+        PriceLevel storage level = side.levels[price];
+        level.betterPrice = better;
+        level.worsePrice = worse;
+
+        if (better == 0) {
+            side.bestPrice = price;
+        } else {
+            side.levels[better].worsePrice = price;
+        }
+        if (worse != 0) {
+            side.levels[worse].betterPrice = price;
+        }
+        side.levelCount++;
+    }
+
+    function _unlinkLevel(BookSide storage side, uint256 price) private {
+        PriceLevel storage level = side.levels[price];
+        uint256 better = level.betterPrice;
+        uint256 worse = level.worsePrice;
+
+        if (better == 0) {
+            side.bestPrice = worse;
+        } else {
+            side.levels[better].worsePrice = worse;
+        }
+        if (worse != 0) {
+            side.levels[worse].betterPrice = better;
+        }
+        delete side.levels[price];
+        side.levelCount--;
+    }
+}
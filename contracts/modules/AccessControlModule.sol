@@ -0,0 +1,147 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Role management for `TradingEngine`. Each admin duty has its own role, and
+ * `DEFAULT_ADMIN_ROLE` grants and revokes all of them. Role ids are the keccak256 of their names,
+ * e.g. `keccak256("PAUSER_ROLE")`.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage.
+ */
+contract AccessControlModule is TradingEngineModule {
+    /// @dev ERC-7201 slot where `OwnableUpgradeable` kept the owner of engines deployed before roles
+    bytes32 private constant LEGACY_OWNER_SLOT = 0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300;
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    function hasRole(bytes32 role, address account) external view returns (bool) {
+        return roles[role][account];
+    }
+    
+    function grantRole(bytes32 role, address account) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _grantRole(role, account);
+    }
+    
+    function revokeRole(bytes32 role, address account) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _revokeRole(role, account);
+    }
+    
+    /// @notice Gives up one of the caller's own roles
+    function renounceRole(bytes32 role) external {
+        _revokeRole(role, msg.sender);
+    }
+    
+    /**
+     * @notice Upgrade step for engines deployed with a single owner: grants the owner every role and
+     * the pause guardian `PAUSER_ROLE`, carries the pairs it listed over to pair configs and settles
+     * its orders into trading accounts, see `_migrateOrders`. The owner passes it as the call data of
+     * `upgradeToAndCall`, so that nothing reaches the new engine before it has run.
+     * @param baseTokens With `quoteTokens`, every pair the old engine listed. They get the order
+     * size bounds it applied to every pair.
+     */
+    function migrateToRoles(address[] calldata baseTokens, address[] calldata quoteTokens) external reinitializer(2) {
+        address legacyOwner;
+        assembly {
+            legacyOwner := sload(LEGACY_OWNER_SLOT)
+        }
+        require(legacyOwner != address(0), "Nothing to migrate");
+        require(msg.sender == legacyOwner, "Only the owner can migrate");
+        assembly {
+            sstore(LEGACY_OWNER_SLOT, 0)
+        }
+        
+        _grantAllRoles(legacyOwner);
+        if (pauseGuardian != address(0)) {
+            _grantRole(PAUSER_ROLE, pauseGuardian);
+            pauseGuardian = address(0);
+        }
+        // Fees used to fall back to the owner when no recipient was set
+        if (feeRecipient == address(0)) {
+            feeRecipient = legacyOwner;
+        }
+        
+        require(baseTokens.length == quoteTokens.length, "Pair length mismatch");
+        for (uint256 i = 0; i < baseTokens.length; i++) {
+            _migrateListing(baseTokens[i], quoteTokens[i]);
+        }
+        _migrateOrders();
+    }
+    
+    function _migrateListing(address baseToken, address quoteToken) internal {
+        require(allowedTradingPairs[baseToken][quoteToken], "Pair was not listed");
+        delete allowedTradingPairs[baseToken][quoteToken];
+        
+        PairConfig storage config = pairConfigs[_getPairId(baseToken, quoteToken)];
+        config.enabled = true;
+        config.minOrderAmount = legacyMinOrderAmount;
+        config.maxOrderAmount = legacyMaxOrderAmount;
+        emit TradingPairAllowed(baseToken, quoteToken, true);
+    }
+    
+    /**
+     * @dev The first engine escrowed each order's tokens in `balances[address(this)]`, sent fills
+     * straight to the traders and credited them to `balances` as well, so those credits were never
+     * backed. Its orders are on no pair book either and cannot be cancelled here. Migrating drops the
+     * credits, cancels every open order into its trader's account and books whatever the engine holds
+     * beyond that as fees. It reverts when the engine holds too little to refund every order.
+     * The first engine scanned every order it ever took on each placement, so there are few enough
+     * to go through in one call.
+     */
+    function _migrateOrders() internal {
+        uint256 orderCount = orderBook.nextOrderId;
+        address[] memory tokens = new address[](orderCount * 2);
+        uint256[] memory refunds = new uint256[](orderCount * 2);
+        uint256 tokenCount = 0;
+        
+        for (uint256 orderId = 0; orderId < orderCount; orderId++) {
+            Order storage order = orderBook.orders[orderId];
+            delete balances[order.trader][order.baseToken];
+            delete balances[order.trader][order.quoteToken];
+            tokenCount = _addToken(tokens, tokenCount, order.baseToken);
+            tokenCount = _addToken(tokens, tokenCount, order.quoteToken);
+        }
+        
+        for (uint256 orderId = 0; orderId < orderCount; orderId++) {
+            Order storage order = orderBook.orders[orderId];
+            if (!order.isActive) continue;
+            
+            (address token, uint256 remaining) = order.isBuy
+                ? (order.quoteToken, order.quoteAmount - order.filledAmount * order.price / 10**18)
+                : (order.baseToken, order.amount - order.filledAmount);
+            balances[order.trader][token] += remaining;
+            refunds[_tokenIndex(tokens, token)] += remaining;
+            
+            order.isActive = false;
+            if (order.isBuy) {
+                orderBook.activeBuyOrders[orderId] = false;
+                orderBook.activeBuyOrderCount--;
+            } else {
+                orderBook.activeSellOrders[orderId] = false;
+                orderBook.activeSellOrderCount--;
+            }
+            emit OrderCancelled(orderId);
+        }
+        
+        for (uint256 i = 0; i < tokenCount; i++) {
+            uint256 held = IERC20(tokens[i]).balanceOf(address(this));
+            require(held >= refunds[i], "Legacy escrow not covered");
+            collectedFees[tokens[i]] += held - refunds[i];
+            delete balances[address(this)][tokens[i]];
+        }
+    }
+    
+    function _addToken(address[] memory tokens, uint256 tokenCount, address token) internal pure returns (uint256) {
+        for (uint256 i = 0; i < tokenCount; i++) {
+            if (tokens[i] == token) return tokenCount;
+        }
+        tokens[tokenCount] = token;
+        return tokenCount + 1;
+    }
+    
+    function _tokenIndex(address[] memory tokens, address token) internal pure returns (uint256 i) {
+        while (tokens[i] != token) i++;
+    }
+}
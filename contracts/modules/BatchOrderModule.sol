@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Batch placement and cancellation for `TradingEngine`, so a market maker can requote many
+ * levels in one transaction. A batch is validated and locked as a whole before any of it matches,
+ * then each pair's orders are matched in one pass, in the order given.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage and trading accounts.
+ */
+contract BatchOrderModule is TradingEngineModule {
+    uint256 public constant MAX_BATCH_SIZE = 50;
+
+    struct LimitOrderRequest {
+        address baseToken;
+        address quoteToken;
+        uint256 amount;
+        uint256 price;
+        bool isBuy;
+        TimeInForce timeInForce;
+        uint256 expiresAt;
+    }
+
+    /// @dev `reason` is the revert data of a rejected order, `orderId` is zero for one
+    struct PlacementResult {
+        bool success;
+        uint256 orderId;
+        bytes reason;
+    }
+
+    event BatchOrderRejected(uint256 index, bytes reason);
+
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+
+    /**
+     * @notice Places every order it can. One that would revert on its own, for lack of funds, an
+     * unfillable FOK or a halted pair, is rejected with `BatchOrderRejected` and leaves the rest standing.
+     * Every order is validated and locked against the caller's balances before the batch matches, so
+     * fills of one order in it cannot fund another. Each pair's orders then match in one pass, in the
+     * order given, and a FOK is checked against the book the orders before it left.
+     */
+    function placeLimitOrders(LimitOrderRequest[] calldata orders)
+        external
+        nonReentrant
+        returns (PlacementResult[] memory results)
+    {
+        _requireBatchSize(orders.length);
+        results = new PlacementResult[](orders.length);
+        for (uint256 i = 0; i < orders.length; i++) {
+            // A call back into the engine, so a rejected order rolls back on its own
+            (bool success, bytes memory data) = address(this).call(
+                abi.encodeCall(this.placeBatchLimitOrder, (msg.sender, orders[i]))
+            );
+            if (success) {
+                results[i] = PlacementResult(true, abi.decode(data, (uint256)), "");
+            } else {
+                _rejectBatchOrder(results, i, data);
+            }
+        }
+
+        bool[] memory matched = new bool[](orders.length);
+        for (uint256 i = 0; i < orders.length; i++) {
+            if (!results[i].success || matched[i]) continue;
+
+            bytes32 pairId = _getPairId(orders[i].baseToken, orders[i].quoteToken);
+            PairOrderBook storage book = pairOrderBooks[pairId];
+            (uint256 bestBid, uint256 bestAsk) = (book.bids.bestPrice, book.asks.bestPrice);
+            for (uint256 j = i; j < orders.length; j++) {
+                if (!results[j].success || _getPairId(orders[j].baseToken, orders[j].quoteToken) != pairId) continue;
+
+                matched[j] = true;
+                _matchBatchOrder(results, j);
+            }
+            _emitBestPricesIfChanged(pairId, bestBid, bestAsk);
+        }
+    }
+
+    /**
+     * @dev Validates one order of `placeLimitOrders` and locks its funds, leaving matching to the
+     * rest of the batch. Only the engine itself may call it.
+     */
+    function placeBatchLimitOrder(address trader, LimitOrderRequest calldata order) external returns (uint256 orderId) {
+        require(msg.sender == address(this), "Only the engine can place batch orders");
+        _requireLimitOrderAllowed(order.baseToken, order.quoteToken, order.amount, order.price);
+        return _openOrder(
+            trader,
+            order.baseToken,
+            order.quoteToken,
+            order.amount,
+            order.price,
+            order.isBuy,
+            false,
+            order.timeInForce,
+            order.expiresAt,
+            false,
+            0
+        );
+    }
+
+    /**
+     * @notice Cancels the caller's orders among `orderIds`. Ids that are not the caller's or are no
+     * longer active are skipped, since they may have filled since the batch was sent.
+     * @return cancelled Whether each order was cancelled
+     */
+    function cancelOrders(uint256[] calldata orderIds) external nonReentrant returns (bool[] memory cancelled) {
+        _requireBatchSize(orderIds.length);
+        cancelled = new bool[](orderIds.length);
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            uint256 orderId = orderIds[i];
+            if (!userOrders[msg.sender][orderId] || !orderBook.orders[orderId].isActive) continue;
+
+            _cancelOrderOnBook(orderId);
+            cancelled[i] = true;
+        }
+    }
+
+    /// @notice Cancels every open order the caller has on the pair
+    function cancelAllOrders(address baseToken, address quoteToken) external nonReentrant returns (uint256 cancelledCount) {
+        bytes32 pairId = _getPairId(baseToken, quoteToken);
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        (uint256 bestBid, uint256 bestAsk) = (book.bids.bestPrice, book.asks.bestPrice);
+
+        uint256[] storage openOrderIds = traderOpenOrderIds[msg.sender];
+        // Backwards, since cancelling moves the last open order into the cancelled one's slot
+        for (uint256 i = openOrderIds.length; i > 0; i--) {
+            uint256 orderId = openOrderIds[i - 1];
+            Order storage order = orderBook.orders[orderId];
+            if (order.baseToken != baseToken || order.quoteToken != quoteToken) continue;
+
+            _cancelOrder(orderId);
+            cancelledCount++;
+        }
+        _emitBestPricesIfChanged(pairId, bestBid, bestAsk);
+    }
+
+    /**
+     * @notice Cancels `orderIds`, then places `orders`, all or nothing. Unlike the other batch
+     * functions it reverts when any order cannot be cancelled or placed, so a quote is never left
+     * half replaced.
+     */
+    function cancelAndReplace(uint256[] calldata orderIds, LimitOrderRequest[] calldata orders)
+        external
+        nonReentrant
+        returns (uint256[] memory newOrderIds)
+    {
+        _requireBatchSize(orderIds.length + orders.length);
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            uint256 orderId = orderIds[i];
+            require(userOrders[msg.sender][orderId], "Order not found or not yours");
+            require(orderBook.orders[orderId].isActive, "Order already inactive");
+
+            _cancelOrderOnBook(orderId);
+        }
+
+        newOrderIds = new uint256[](orders.length);
+        for (uint256 i = 0; i < orders.length; i++) {
+            newOrderIds[i] = _placeBatchOrder(msg.sender, orders[i]);
+        }
+    }
+
+    /// @dev Puts an opened order on the book and matches it. A FOK that cannot fill is dropped and its funds unlocked.
+    function _matchBatchOrder(PlacementResult[] memory results, uint256 index) internal {
+        uint256 orderId = results[index].orderId;
+        Order storage order = orderBook.orders[orderId];
+        if (order.timeInForce == TimeInForce.FOK && _getFillableAmount(orderId) < order.amount) {
+            _refundRemaining(order, orderId);
+            delete userOrders[order.trader][orderId];
+            delete orderFeeReserves[orderId];
+            delete orderBook.orders[orderId];
+            _rejectBatchOrder(results, index, abi.encodeWithSignature("Error(string)", "Order cannot be filled completely"));
+            return;
+        }
+
+        _addToOrderBook(orderId);
+        emit OrderPlaced(orderId, order.trader, order.baseToken, order.quoteToken, order.amount, order.price, order.isBuy, false);
+        _matchOrderOnBook(orderId);
+    }
+
+    function _rejectBatchOrder(PlacementResult[] memory results, uint256 index, bytes memory reason) internal {
+        results[index] = PlacementResult(false, 0, reason);
+        emit BatchOrderRejected(index, reason);
+    }
+
+    function _cancelOrderOnBook(uint256 orderId) internal {
+        Order storage order = orderBook.orders[orderId];
+        bytes32 pairId = _getPairId(order.baseToken, order.quoteToken);
+        PairOrderBook storage book = pairOrderBooks[pairId];
+        (uint256 bestBid, uint256 bestAsk) = (book.bids.bestPrice, book.asks.bestPrice);
+
+        _cancelOrder(orderId);
+        _emitBestPricesIfChanged(pairId, bestBid, bestAsk);
+    }
+
+    function _placeBatchOrder(address trader, LimitOrderRequest calldata order) internal returns (uint256) {
+        return _placeLimitOrder(
+            trader,
+            order.baseToken,
+            order.quoteToken,
+            order.amount,
+            order.price,
+            order.isBuy,
+            order.timeInForce,
+            order.expiresAt
+        );
+    }
+
+    function _requireBatchSize(uint256 size) internal pure {
+        require(size > 0 && size <= MAX_BATCH_SIZE, "Invalid batch size");
+    }
+}
@@ -0,0 +1,239 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Stop-market, stop-limit and take-profit orders for `TradingEngine`.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage and trading accounts.
+ */
+contract ConditionalOrderModule is TradingEngineModule {
+    event ConditionalOrderPlaced(uint256 conditionalOrderId, address trader, address baseToken, address quoteToken, uint256 amount, uint256 triggerPrice, uint256 limitPrice, bool isBuy, ConditionalOrderType orderType);
+    event ConditionalOrderTriggered(uint256 conditionalOrderId, uint256 orderId, uint256 oraclePrice);
+    event ConditionalOrderCancelled(uint256 conditionalOrderId);
+    /// @dev `reason` is the revert data; the order stays pending for a later `triggerOrders`
+    event ConditionalOrderTriggerFailed(uint256 conditionalOrderId, bytes reason);
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    /**
+     * @notice Locks funds for an order that goes live once the oracle price reaches `triggerPrice`.
+     * Stops trigger when the price moves against the trader (up for buys, down for sells),
+     * take-profits when it moves in their favour.
+     * @param limitPrice Resting price of a stop-limit, or the worst price a stop-market or
+     * take-profit accepts when it executes as a market order
+     */
+    function placeConditionalOrder(
+        address baseToken,
+        address quoteToken,
+        uint256 amount,
+        uint256 triggerPrice,
+        uint256 limitPrice,
+        bool isBuy,
+        ConditionalOrderType orderType
+    )
+        external
+        nonReentrant
+        returns (uint256 conditionalOrderId)
+    {
+        require(triggerPrice > 0 && limitPrice > 0, "Price must be greater than 0");
+        require(baseToken != address(0) && quoteToken != address(0), "Invalid token addresses");
+        require(baseToken != quoteToken, "Base and quote tokens must be different");
+        PairConfig storage config = _requireOrderAmountAllowed(baseToken, quoteToken, amount);
+        if (orderType == ConditionalOrderType.StopLimit) {
+            _requirePriceOnTick(config, limitPrice);
+        }
+        
+        require(_isTokenPairValid(baseToken, quoteToken), "Token pair not supported by oracle");
+        
+        conditionalOrderId = nextConditionalOrderId++;
+        conditionalOrders[conditionalOrderId] = ConditionalOrder({
+            trader: msg.sender,
+            baseToken: baseToken,
+            quoteToken: quoteToken,
+            amount: amount,
+            triggerPrice: triggerPrice,
+            limitPrice: limitPrice,
+            isBuy: isBuy,
+            orderType: orderType,
+            timestamp: block.timestamp,
+            isPending: true,
+            orderId: 0
+        });
+        
+        pendingConditionalOrderIds.push(conditionalOrderId);
+        pendingConditionalOrderIndex[conditionalOrderId] = pendingConditionalOrderIds.length;
+        
+        if (isBuy) {
+            uint256 quoteAmount = _quoteAmountFor(baseToken, amount, limitPrice);
+            uint256 feeReserve = _getFeeReserve(baseToken, quoteToken, quoteAmount);
+            conditionalOrderFeeReserves[conditionalOrderId] = feeReserve;
+            _lockBalance(msg.sender, quoteToken, quoteAmount + feeReserve);
+        } else {
+            _lockBalance(msg.sender, baseToken, amount);
+        }
+        
+        emit ConditionalOrderPlaced(conditionalOrderId, msg.sender, baseToken, quoteToken, amount, triggerPrice, limitPrice, isBuy, orderType);
+    }
+
+    function cancelConditionalOrder(uint256 conditionalOrderId) external nonReentrant {
+        ConditionalOrder storage conditionalOrder = conditionalOrders[conditionalOrderId];
+        require(conditionalOrder.trader == msg.sender, "Order not found or not yours");
+        require(conditionalOrder.isPending, "Order already inactive");
+        
+        _removePendingConditionalOrder(conditionalOrderId);
+        
+        if (conditionalOrder.isBuy) {
+            _unlockBalance(
+                msg.sender,
+                conditionalOrder.quoteToken,
+                _quoteAmountFor(conditionalOrder.baseToken, conditionalOrder.amount, conditionalOrder.limitPrice)
+                    + conditionalOrderFeeReserves[conditionalOrderId]
+            );
+        } else {
+            _unlockBalance(msg.sender, conditionalOrder.baseToken, conditionalOrder.amount);
+        }
+        
+        emit ConditionalOrderCancelled(conditionalOrderId);
+    }
+
+    /**
+     * @notice Places every listed conditional order whose trigger the oracle price has reached.
+     * Anyone can call this; orders that are not ready are skipped, and one that fails to trigger is
+     * reported with `ConditionalOrderTriggerFailed` without holding up the rest.
+     * @dev Market-type orders also wait while the book is already beyond their limit price, so they
+     * stay pending instead of triggering into an immediate refund.
+     */
+    function triggerOrders(uint256[] calldata conditionalOrderIds) external nonReentrant returns (uint256 triggeredCount) {
+        for (uint256 i = 0; i < conditionalOrderIds.length; i++) {
+            uint256 conditionalOrderId = conditionalOrderIds[i];
+            // A call back into the engine, so a failing order rolls back on its own
+            (bool success, bytes memory data) = address(this).call(
+                abi.encodeCall(this.triggerConditionalOrder, (conditionalOrderId))
+            );
+            if (!success) {
+                emit ConditionalOrderTriggerFailed(conditionalOrderId, data);
+            } else if (abi.decode(data, (bool))) {
+                triggeredCount++;
+            }
+        }
+    }
+
+    /// @dev One order of `triggerOrders`, which only the engine itself may call
+    function triggerConditionalOrder(uint256 conditionalOrderId) external returns (bool triggered) {
+        require(msg.sender == address(this), "Only the engine can trigger orders");
+        (bool triggerable, uint256 oraclePrice) = _isConditionalOrderTriggerable(conditionalOrderId);
+        if (!triggerable) {
+            return false;
+        }
+        
+        ConditionalOrder storage conditionalOrder = conditionalOrders[conditionalOrderId];
+        _removePendingConditionalOrder(conditionalOrderId);
+        
+        bool isMarketOrder = conditionalOrder.orderType != ConditionalOrderType.StopLimit;
+        conditionalOrder.orderId = _placeOrder(
+            conditionalOrder.trader,
+            conditionalOrder.baseToken,
+            conditionalOrder.quoteToken,
+            conditionalOrder.amount,
+            conditionalOrder.limitPrice,
+            conditionalOrder.isBuy,
+            isMarketOrder,
+            isMarketOrder ? TimeInForce.IOC : TimeInForce.GTC,
+            0,
+            true,
+            conditionalOrderFeeReserves[conditionalOrderId]
+        );
+        
+        emit ConditionalOrderTriggered(conditionalOrderId, conditionalOrder.orderId, oraclePrice);
+        return true;
+    }
+
+    function _isConditionalOrderTriggerable(uint256 conditionalOrderId) internal view returns (bool, uint256) {
+        ConditionalOrder storage conditionalOrder = conditionalOrders[conditionalOrderId];
+        // Orders wait out a pause, halt or delisting rather than being dropped
+        if (
+            !conditionalOrder.isPending
+            || !_isTradingActive(conditionalOrder.baseToken, conditionalOrder.quoteToken)
+            || !_isTokenPairValid(conditionalOrder.baseToken, conditionalOrder.quoteToken)
+        ) {
+            return (false, 0);
+        }
+        
+        // Stale or failing feeds never trigger anything
+        (uint256 oraclePrice, bytes4 failure) = _tryGetOraclePrice(conditionalOrder.baseToken, conditionalOrder.quoteToken);
+        if (failure != 0) {
+            return (false, 0);
+        }
+        
+        bool isStop = conditionalOrder.orderType != ConditionalOrderType.TakeProfit;
+        bool reached = isStop == conditionalOrder.isBuy
+            ? oraclePrice >= conditionalOrder.triggerPrice
+            : oraclePrice <= conditionalOrder.triggerPrice;
+        if (!reached) {
+            return (false, oraclePrice);
+        }
+        
+        if (conditionalOrder.orderType != ConditionalOrderType.StopLimit) {
+            uint256 marketPrice = _getBookSide(conditionalOrder.baseToken, conditionalOrder.quoteToken, !conditionalOrder.isBuy).bestPrice;
+            if (marketPrice == 0) {
+                marketPrice = oraclePrice;
+            } else if (!_isWithinMaxDeviation(conditionalOrder.baseToken, conditionalOrder.quoteToken, marketPrice, oraclePrice)) {
+                // The same circuit breaker that stops market orders holds these back
+                return (false, oraclePrice);
+            }
+            if (conditionalOrder.isBuy ? marketPrice > conditionalOrder.limitPrice : marketPrice < conditionalOrder.limitPrice) {
+                return (false, oraclePrice);
+            }
+        }
+        
+        return (true, oraclePrice);
+    }
+
+    function _removePendingConditionalOrder(uint256 conditionalOrderId) internal {
+        uint256 index = pendingConditionalOrderIndex[conditionalOrderId] - 1;
+        uint256 lastConditionalOrderId = pendingConditionalOrderIds[pendingConditionalOrderIds.length - 1];
+        
+        pendingConditionalOrderIds[index] = lastConditionalOrderId;
+        pendingConditionalOrderIndex[lastConditionalOrderId] = index + 1;
+        pendingConditionalOrderIds.pop();
+        delete pendingConditionalOrderIndex[conditionalOrderId];
+        
+        conditionalOrders[conditionalOrderId].isPending = false;
+    }
+
+    function getConditionalOrder(uint256 conditionalOrderId) external view returns (ConditionalOrder memory) {
+        return conditionalOrders[conditionalOrderId];
+    }
+
+    /// @notice Quote tokens a conditional buy locked for fees, carried over to the order it triggers
+    function getConditionalOrderFeeReserve(uint256 conditionalOrderId) external view returns (uint256) {
+        return conditionalOrderFeeReserves[conditionalOrderId];
+    }
+
+    /// @notice Returns up to `limit` pending conditional orders starting at `cursor`, with the same paging as `getPairOrders`
+    function getPendingConditionalOrders(
+        uint256 cursor,
+        uint256 limit
+    ) external view returns (uint256[] memory conditionalOrderIds, ConditionalOrder[] memory orders, uint256 nextCursor) {
+        require(limit > 0, "Limit must be greater than 0");
+        
+        uint256 total = pendingConditionalOrderIds.length;
+        uint256 end = cursor + limit < total ? cursor + limit : total;
+        uint256 count = cursor < end ? end - cursor : 0;
+        
+        conditionalOrderIds = new uint256[](count);
+        orders = new ConditionalOrder[](count);
+        for (uint256 i = 0; i < count; i++) {
+            conditionalOrderIds[i] = pendingConditionalOrderIds[cursor + i];
+            orders[i] = conditionalOrders[conditionalOrderIds[i]];
+        }
+        
+        nextCursor = end < total ? end : 0;
+    }
+
+    function isConditionalOrderTriggerable(uint256 conditionalOrderId) external view returns (bool triggerable) {
+        (triggerable, ) = _isConditionalOrderTriggerable(conditionalOrderId);
+    }
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Emergency controls for `TradingEngine`: holders of `PAUSER_ROLE` can pause the whole
+ * engine or halt single pairs. Neither stops traders cancelling orders or withdrawing.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage.
+ */
+contract EmergencyModule is TradingEngineModule {
+    event EnginePaused(address account);
+    event EngineUnpaused(address account);
+    event PairHalted(address baseToken, address quoteToken, address account);
+    event PairResumed(address baseToken, address quoteToken, address account);
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    /// @notice Stops new orders, conditional order triggers and deposits on every pair
+    function pause() external onlyRole(PAUSER_ROLE) {
+        require(!tradingPaused, "Engine already paused");
+        tradingPaused = true;
+        emit EnginePaused(msg.sender);
+    }
+    
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        require(tradingPaused, "Engine not paused");
+        tradingPaused = false;
+        emit EngineUnpaused(msg.sender);
+    }
+    
+    /// @notice Stops new orders and conditional order triggers on one pair; other pairs keep trading
+    function haltPair(address baseToken, address quoteToken) external onlyRole(PAUSER_ROLE) {
+        bytes32 pairId = _getPairId(baseToken, quoteToken);
+        require(!haltedPairs[pairId], "Pair already halted");
+        haltedPairs[pairId] = true;
+        emit PairHalted(baseToken, quoteToken, msg.sender);
+    }
+    
+    function resumePair(address baseToken, address quoteToken) external onlyRole(PAUSER_ROLE) {
+        bytes32 pairId = _getPairId(baseToken, quoteToken);
+        require(haltedPairs[pairId], "Pair not halted");
+        haltedPairs[pairId] = false;
+        emit PairResumed(baseToken, quoteToken, msg.sender);
+    }
+    
+    function paused() external view returns (bool) {
+        return tradingPaused;
+    }
+    
+    function isPairHalted(address baseToken, address quoteToken) external view returns (bool) {
+        return haltedPairs[_getPairId(baseToken, quoteToken)];
+    }
+    
+    /// @notice False while the engine is paused, or the pair halted or not listed
+    function isTradingActive(address baseToken, address quoteToken) external view returns (bool) {
+        return _isTradingActive(baseToken, quoteToken);
+    }
+}
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Fee administration for `TradingEngine`: maker and taker schedules, the fee recipient and
+ * withdrawals, and volume tiers, whose discount is taken off every fee a trader in them pays.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage.
+ */
+contract FeeModule is TradingEngineModule {
+    event VolumeTiersUpdated(uint256[] minVolumes, uint256[] feeDiscounts);
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    /// @notice Rates in `FEE_DENOMINATOR` units for every pair without a schedule of its own
+    function setDefaultFeeSchedule(int256 makerFeeRate, int256 takerFeeRate) external onlyRole(FEE_MANAGER_ROLE) {
+        _setFeeSchedule(defaultFeeSchedule, makerFeeRate, takerFeeRate);
+        emit FeeScheduleUpdated(address(0), address(0), makerFeeRate, takerFeeRate);
+    }
+    
+    /// @notice A negative `makerFeeRate` is a rebate, which cannot exceed `takerFeeRate`
+    function setPairFeeSchedule(address baseToken, address quoteToken, int256 makerFeeRate, int256 takerFeeRate) external onlyRole(FEE_MANAGER_ROLE) {
+        _setFeeSchedule(pairFeeSchedules[_getPairId(baseToken, quoteToken)], makerFeeRate, takerFeeRate);
+        emit FeeScheduleUpdated(baseToken, quoteToken, makerFeeRate, takerFeeRate);
+    }
+    
+    /// @notice Puts a pair back on the default fee schedule
+    function resetPairFeeSchedule(address baseToken, address quoteToken) external onlyRole(FEE_MANAGER_ROLE) {
+        delete pairFeeSchedules[_getPairId(baseToken, quoteToken)];
+        emit PairFeeScheduleReset(baseToken, quoteToken);
+    }
+    
+    function setFeeRecipient(address _feeRecipient) external onlyRole(FEE_MANAGER_ROLE) {
+        require(_feeRecipient != address(0), "Invalid fee recipient");
+        address oldRecipient = feeRecipient;
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientUpdated(oldRecipient, _feeRecipient);
+    }
+    
+    /// @notice Pays collected fees to `feeRecipient`, which may call this as well as `FEE_MANAGER_ROLE`
+    function withdrawFees(address token, uint256 amount) external nonReentrant {
+        require(roles[FEE_MANAGER_ROLE][msg.sender] || msg.sender == feeRecipient, "Not authorized to withdraw fees");
+        require(collectedFees[token] >= amount, "Insufficient fee balance");
+        collectedFees[token] -= amount;
+        require(IERC20(token).transfer(feeRecipient, amount), "Transfer failed");
+        emit FeesWithdrawn(feeRecipient, token, amount);
+    }
+    
+    /**
+     * @notice Replaces every tier. Pass empty arrays to remove them all.
+     * @param minVolumes Rolling volume, in quote value scaled to 18 decimals, needed to reach each tier; strictly ascending
+     * @param feeDiscounts Share of every fee waived at each tier, in `FEE_DENOMINATOR` units
+     */
+    function setVolumeTiers(uint256[] calldata minVolumes, uint256[] calldata feeDiscounts) external onlyRole(FEE_MANAGER_ROLE) {
+        require(minVolumes.length == feeDiscounts.length, "Tier length mismatch");
+        require(minVolumes.length <= MAX_VOLUME_TIERS, "Too many volume tiers");
+        
+        delete volumeTiers;
+        for (uint256 i = 0; i < minVolumes.length; i++) {
+            require(i == 0 || minVolumes[i] > minVolumes[i - 1], "Tier volumes must ascend");
+            require(feeDiscounts[i] <= FEE_DENOMINATOR, "Invalid fee discount");
+            volumeTiers.push(VolumeTier({minVolume: minVolumes[i], feeDiscount: feeDiscounts[i]}));
+        }
+        
+        emit VolumeTiersUpdated(minVolumes, feeDiscounts);
+    }
+    
+    function getVolumeTiers() external view returns (VolumeTier[] memory) {
+        return volumeTiers;
+    }
+    
+    /**
+     * @return tier 1-based tier the trader is in, 0 below the first one
+     * @return rollingVolume Volume over the last `VOLUME_PERIOD`, in quote value scaled to 18 decimals
+     * @return feeDiscount Discount the trader currently gets
+     * @return nextTierVolume Rolling volume the next tier needs, 0 in the top tier
+     */
+    function getTraderVolumeTier(address trader)
+        external
+        view
+        returns (uint256 tier, uint256 rollingVolume, uint256 feeDiscount, uint256 nextTierVolume)
+    {
+        rollingVolume = _getRollingVolume(trader);
+        tier = _getVolumeTier(rollingVolume);
+        if (tier > 0) {
+            feeDiscount = volumeTiers[tier - 1].feeDiscount;
+        }
+        if (tier < volumeTiers.length) {
+            nextTierVolume = volumeTiers[tier].minVolume;
+        }
+    }
+}
@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {PriceLevelLibrary} from "../library/PriceLevelLibrary.sol";
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Market data for `TradingEngine`: order book depth, and where trades actually executed.
+ * `_executeTrade` records every fill's price in each pair's `MarketData`, from which this module
+ * reads the last trade, 24 hour figures and time-weighted average prices.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage.
+ */
+contract MarketDataModule is TradingEngineModule {
+    using PriceLevelLibrary for PriceLevelLibrary.BookSide;
+    
+    /// @dev The 24 hour figures cover the current hour and the 23 before it, and are zero without trades in them
+    struct Ticker {
+        uint256 lastPrice;
+        uint256 lastTradeTime;
+        uint256 high;
+        uint256 low;
+        uint256 volume;
+        uint256 quoteVolume;
+    }
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    function getPriceLevels(
+        address baseToken,
+        address quoteToken,
+        bool isBuy,
+        uint256 maxLevels
+    ) external view returns (uint256[] memory prices, uint256[] memory amounts, uint256[] memory orderCounts) {
+        PriceLevelLibrary.BookSide storage side = _getBookSide(baseToken, quoteToken, isBuy);
+        uint256 count = side.levelCount < maxLevels ? side.levelCount : maxLevels;
+        
+        prices = new uint256[](count);
+        amounts = new uint256[](count);
+        orderCounts = new uint256[](count);
+        
+        uint256 price = side.bestPrice;
+        for (uint256 i = 0; i < count; i++) {
+            prices[i] = price;
+            amounts[i] = side.levels[price].totalAmount;
+            orderCounts[i] = side.levels[price].orderCount;
+            price = side.worsePrice(price);
+        }
+    }
+
+    function getPriceLevelOrders(
+        address baseToken,
+        address quoteToken,
+        bool isBuy,
+        uint256 price
+    ) external view returns (uint256[] memory orderIds) {
+        PriceLevelLibrary.BookSide storage side = _getBookSide(baseToken, quoteToken, isBuy);
+        orderIds = new uint256[](side.levels[price].orderCount);
+        
+        (bool exists, uint256 orderId) = side.front(price);
+        for (uint256 i = 0; exists; i++) {
+            orderIds[i] = orderId;
+            (exists, orderId) = side.nextOrder(orderId);
+        }
+    }
+    
+    function getTicker(address baseToken, address quoteToken) external view returns (Ticker memory ticker) {
+        MarketData storage market = marketData[_getPairId(baseToken, quoteToken)];
+        ticker.lastPrice = market.lastPrice;
+        ticker.lastTradeTime = market.lastTradeTime;
+        
+        uint256 hour = block.timestamp / 1 hours;
+        for (uint256 i = 0; i < 24; i++) {
+            HourlyStats storage stats = market.hourlyStats[i];
+            if (stats.hour + 24 <= hour) continue;
+            
+            if (stats.high > ticker.high) ticker.high = stats.high;
+            if (ticker.low == 0 || stats.low < ticker.low) ticker.low = stats.low;
+            ticker.volume += stats.volume;
+            ticker.quoteVolume += stats.quoteVolume;
+        }
+    }
+    
+    /**
+     * @notice Time-weighted average of the pair's trade prices over the last `window` seconds, in quote
+     * token units. The average starts at the newest observation at or before the window's start, so
+     * it can reach back further when the pair trades less than once per `OBSERVATION_INTERVAL`.
+     */
+    function getTwap(address baseToken, address quoteToken, uint256 window) external view returns (uint256) {
+        require(window > 0 && window <= OBSERVATION_INTERVAL * OBSERVATION_CARDINALITY, "Invalid TWAP window");
+        MarketData storage market = marketData[_getPairId(baseToken, quoteToken)];
+        uint256 start = block.timestamp - window;
+        // Nothing has traded since the window started
+        if (market.lastTradeTime != 0 && market.lastTradeTime <= start) {
+            return market.lastPrice;
+        }
+        
+        PriceObservation storage observation = _getObservationAtOrBefore(market, start);
+        return (_getPriceCumulative(market) - observation.priceCumulative) / (block.timestamp - observation.timestamp);
+    }
+    
+    /// @dev Binary search over the ring buffer, oldest observation first
+    function _getObservationAtOrBefore(MarketData storage market, uint256 timestamp)
+        internal
+        view
+        returns (PriceObservation storage)
+    {
+        uint256 count = market.observationCount;
+        uint256 oldest = count > OBSERVATION_CARDINALITY ? count % OBSERVATION_CARDINALITY : 0;
+        require(count > 0 && market.observations[oldest].timestamp <= timestamp, "Not enough trade history");
+        
+        uint256 low = 0;
+        uint256 high = (count < OBSERVATION_CARDINALITY ? count : OBSERVATION_CARDINALITY) - 1;
+        while (low < high) {
+            uint256 mid = (low + high + 1) / 2;
+            if (market.observations[(oldest + mid) % OBSERVATION_CARDINALITY].timestamp <= timestamp) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return market.observations[(oldest + low) % OBSERVATION_CARDINALITY];
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Per-pair checks on `TradingEngine`'s oracle price. Market orders revert with
+ * `PriceOracleExpired` once the feed is older than `maxPriceAge`, and with `PriceOracleInvalid` when
+ * the best book price strays more than `maxDeviation` from it; conditional orders wait instead.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage.
+ */
+contract OracleModule is TradingEngineModule {
+    event OracleConfigUpdated(address baseToken, address quoteToken, uint256 maxPriceAge, uint256 maxDeviation);
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    /// @param maxDeviation In `FEE_DENOMINATOR` units, zero turns the check off like a zero `maxPriceAge`
+    function setOracleConfig(address baseToken, address quoteToken, uint256 maxPriceAge, uint256 maxDeviation)
+        external
+        onlyRole(ORACLE_MANAGER_ROLE)
+    {
+        require(maxDeviation <= FEE_DENOMINATOR, "Invalid max deviation");
+        oracleConfigs[_getPairId(baseToken, quoteToken)] = OracleConfig(maxPriceAge, maxDeviation);
+        emit OracleConfigUpdated(baseToken, quoteToken, maxPriceAge, maxDeviation);
+    }
+    
+    function getOracleConfig(address baseToken, address quoteToken) external view returns (OracleConfig memory) {
+        return oracleConfigs[_getPairId(baseToken, quoteToken)];
+    }
+    
+    /// @notice Whether the pair's oracle price passes its checks right now, and the price when it does
+    function checkOraclePrice(address baseToken, address quoteToken) external view returns (bool isValid, uint256 price) {
+        bytes4 failure;
+        (price, failure) = _tryGetOraclePrice(baseToken, quoteToken);
+        isValid = failure == 0;
+    }
+}
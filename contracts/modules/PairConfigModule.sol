@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {TradingEngineModule} from "./TradingEngineModule.sol";
+
+/**
+ * @notice Per-pair listing and order limits for `TradingEngine`. Orders on a pair must stay within
+ * its size bounds, come in multiples of its lot size and, for limit prices, of its tick size.
+ * @dev Part of the module chain behind `TradingEngine`'s fallback, see `TradingEngineModule`. Every
+ * call runs against the engine's storage.
+ */
+contract PairConfigModule is TradingEngineModule {
+    event PairConfigUpdated(
+        address baseToken,
+        address quoteToken,
+        bool enabled,
+        uint256 minOrderAmount,
+        uint256 maxOrderAmount,
+        uint256 tickSize,
+        uint256 lotSize
+    );
+    
+    constructor(address nextModule) TradingEngineModule(nextModule) {}
+    
+    /// @notice Replaces a pair's whole config, which is how a pair is first listed. Resting orders keep their sizes and prices.
+    function setPairConfig(address baseToken, address quoteToken, PairConfig calldata config) external onlyRole(PAIR_MANAGER_ROLE) {
+        require(baseToken != address(0) && quoteToken != address(0), "Invalid token addresses");
+        require(baseToken != quoteToken, "Base and quote tokens must be different");
+        require(config.maxOrderAmount > 0 && config.minOrderAmount <= config.maxOrderAmount, "Invalid order size bounds");
+        require(config.lotSize == 0 || config.minOrderAmount % config.lotSize == 0, "Min order not a multiple of lot size");
+        
+        pairConfigs[_getPairId(baseToken, quoteToken)] = config;
+        emit PairConfigUpdated(
+            baseToken,
+            quoteToken,
+            config.enabled,
+            config.minOrderAmount,
+            config.maxOrderAmount,
+            config.tickSize,
+            config.lotSize
+        );
+        emit TradingPairAllowed(baseToken, quoteToken, config.enabled);
+    }
+    
+    function getPairConfig(address baseToken, address quoteToken) external view returns (PairConfig memory) {
+        return pairConfigs[_getPairId(baseToken, quoteToken)];
+    }
+}
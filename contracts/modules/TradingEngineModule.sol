@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {TradingEngineBase} from "../TradingEngineBase.sol";
+
+/**
+ * @notice Base of every `TradingEngine` module. The engine's fallback delegatecalls its first module
+ * and each module hands calls it does not implement on to the next, so adding a module never grows
+ * the engine itself.
+ * @dev Modules are deployed once and only reached by delegatecall, so every call runs against the
+ * engine's storage. `nextModule` is an immutable, which lives in code and survives the delegatecall.
+ */
+abstract contract TradingEngineModule is TradingEngineBase {
+    address private immutable nextModule;
+    
+    /// @param _nextModule The module after this one, zero for the last in the chain
+    constructor(address _nextModule) {
+        nextModule = _nextModule;
+    }
+    
+    fallback() external {
+        require(nextModule != address(0), "Unknown function");
+        _delegate(nextModule);
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {AggregatorV3Interface} from "./AggregatorV3Interface.sol";
+import {PriceOracleAdapter} from "./PriceOracleAdapter.sol";
+
+/// @notice `IPriceOracle` over Chainlink aggregator feeds, see `PriceOracleAdapter` for how pairs are routed
+contract ChainlinkPriceOracle is PriceOracleAdapter {
+    mapping(address => mapping(address => AggregatorV3Interface)) public feeds;
+
+    event FeedUpdated(address indexed base, address indexed quote, address feed);
+
+    constructor(address initialOwner) PriceOracleAdapter(initialOwner) {}
+
+    /// @notice Sets the aggregator quoting `base` in `quote`, pass `USD` as the quote for a token's dollar feed
+    /// and the zero address to remove one
+    function setFeed(address base, address quote, address feed) external onlyOwner {
+        require(base != address(0) && quote != address(0) && base != quote, "Invalid token addresses");
+        feeds[base][quote] = AggregatorV3Interface(feed);
+        emit FeedUpdated(base, quote, feed);
+    }
+
+    function _hasFeed(address base, address quote) internal view override returns (bool) {
+        return address(feeds[base][quote]) != address(0);
+    }
+
+    function _readFeed(address base, address quote) internal view override returns (Round memory round) {
+        AggregatorV3Interface feed = feeds[base][quote];
+        (round.roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound) = feed.latestRoundData();
+        round.answer = _scaleAnswer(round.answer, int256(uint256(feed.decimals())));
+    }
+}
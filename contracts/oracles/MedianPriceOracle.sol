@@ -0,0 +1,211 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IPriceOracle} from "../IPriceOracle.sol";
+import {PriceOracleAdapter} from "./PriceOracleAdapter.sol";
+
+/**
+ * @notice `IPriceOracle` over several other oracles, so one bad feed can neither halt nor move the
+ * price on its own. Each pair has an ordered list of sources. `updatePrice` drops sources that report
+ * an invalid feed, a non-positive answer or an answer older than `maxPriceAge`, emitting
+ * `SourceDropped` for each, and records the median of the rest as the pair's price. With fewer than
+ * `quorum` sources left the price is zero, which the engine treats as invalid, unless
+ * `fallbackToFirstSource` is set, when it is the first source left in list order.
+ * @dev Price reads return the last recorded round, so a keeper calls `updatePrice` ahead of trading;
+ * a round older than `maxPriceAge` reads as zero. Pairs without sources of their own are derived
+ * through `USD`, see `PriceOracleAdapter`. The aggregate has no rounds, the update time of its oldest
+ * valid source stands in for one.
+ */
+contract MedianPriceOracle is PriceOracleAdapter {
+    uint256 public constant MAX_SOURCES = 7;
+
+    enum DropReason {
+        Invalid,
+        Stale
+    }
+
+    mapping(address => mapping(address => IPriceOracle[])) internal sources;
+    mapping(address => mapping(address => Round)) internal latestRounds;
+
+    /// @notice Oldest answer a source may report before it is dropped, zero turns the check off
+    uint256 public maxPriceAge;
+    /// @notice How many sources have to be left for a median
+    uint256 public quorum;
+    /// @notice Price a pair below quorum from its first source left rather than not at all
+    bool public fallbackToFirstSource;
+
+    event SourceAdded(address indexed base, address indexed quote, address source);
+    event SourceRemoved(address indexed base, address indexed quote, address source);
+    event SourceDropped(address indexed base, address indexed quote, address source, DropReason reason);
+    event PriceUpdated(address indexed base, address indexed quote, int256 answer, uint256 validSources);
+    event MaxPriceAgeUpdated(uint256 maxPriceAge);
+    event QuorumUpdated(uint256 quorum);
+    event FallbackToFirstSourceUpdated(bool enabled);
+
+    constructor(address initialOwner, uint256 _maxPriceAge, uint256 _quorum) PriceOracleAdapter(initialOwner) {
+        _setMaxPriceAge(_maxPriceAge);
+        _setQuorum(_quorum);
+    }
+
+    /// @notice Appends a source to the pair's list, behind every source already on it
+    function addSource(address base, address quote, address source) external onlyOwner {
+        require(base != address(0) && quote != address(0) && base != quote, "Invalid token addresses");
+        require(source != address(0) && source != address(this), "Invalid source");
+        IPriceOracle[] storage pairSources = sources[base][quote];
+        require(pairSources.length < MAX_SOURCES, "Too many sources");
+        for (uint256 i = 0; i < pairSources.length; i++) {
+            require(address(pairSources[i]) != source, "Source already added");
+        }
+
+        pairSources.push(IPriceOracle(source));
+        emit SourceAdded(base, quote, source);
+    }
+
+    /// @notice Removes a source, keeping the order of the rest
+    function removeSource(address base, address quote, address source) external onlyOwner {
+        IPriceOracle[] storage pairSources = sources[base][quote];
+        for (uint256 i = 0; i < pairSources.length; i++) {
+            if (address(pairSources[i]) == source) {
+                for (uint256 j = i + 1; j < pairSources.length; j++) {
+                    pairSources[j - 1] = pairSources[j];
+                }
+                pairSources.pop();
+                emit SourceRemoved(base, quote, source);
+                return;
+            }
+        }
+        revert("Source not found");
+    }
+
+    function setMaxPriceAge(uint256 _maxPriceAge) external onlyOwner {
+        _setMaxPriceAge(_maxPriceAge);
+    }
+
+    function setQuorum(uint256 _quorum) external onlyOwner {
+        _setQuorum(_quorum);
+    }
+
+    function setFallbackToFirstSource(bool enabled) external onlyOwner {
+        fallbackToFirstSource = enabled;
+        emit FallbackToFirstSourceUpdated(enabled);
+    }
+
+    function getSources(address base, address quote) external view returns (IPriceOracle[] memory) {
+        return sources[base][quote];
+    }
+
+    /**
+     * @notice Reads every source of the pair and records their median as its price, emitting
+     * `SourceDropped` for each source left out. Anyone may call it.
+     * @return answer The recorded price, zero when too few sources were left
+     */
+    function updatePrice(address base, address quote) external returns (int256 answer) {
+        IPriceOracle[] storage pairSources = sources[base][quote];
+        require(pairSources.length > 0, "No sources");
+
+        int256[] memory answers = new int256[](pairSources.length);
+        Round memory round;
+        uint256 count;
+        for (uint256 i = 0; i < pairSources.length; i++) {
+            (bool isValid, DropReason reason, Round memory sourceRound) = _readSource(pairSources[i], base, quote);
+            if (!isValid) {
+                emit SourceDropped(base, quote, address(pairSources[i]), reason);
+                continue;
+            }
+
+            answers[count++] = sourceRound.answer;
+            if (count == 1 || sourceRound.updatedAt < round.updatedAt) {
+                round.updatedAt = sourceRound.updatedAt;
+            }
+        }
+
+        if (count >= quorum) {
+            round.answer = _median(answers, count);
+        } else if (count > 0 && fallbackToFirstSource) {
+            round.answer = answers[0];
+        }
+        round.roundId = uint80(round.updatedAt);
+        round.startedAt = round.updatedAt;
+        round.answeredInRound = round.roundId;
+        latestRounds[base][quote] = round;
+
+        emit PriceUpdated(base, quote, round.answer, count);
+        return round.answer;
+    }
+
+    function _setMaxPriceAge(uint256 _maxPriceAge) internal {
+        maxPriceAge = _maxPriceAge;
+        emit MaxPriceAgeUpdated(_maxPriceAge);
+    }
+
+    function _setQuorum(uint256 _quorum) internal {
+        require(_quorum > 0 && _quorum <= MAX_SOURCES, "Invalid quorum");
+        quorum = _quorum;
+        emit QuorumUpdated(_quorum);
+    }
+
+    function _hasFeed(address base, address quote) internal view override returns (bool) {
+        return sources[base][quote].length > 0;
+    }
+
+    function _readFeed(address base, address quote) internal view override returns (Round memory round) {
+        round = latestRounds[base][quote];
+        if (maxPriceAge != 0 && round.updatedAt + maxPriceAge < block.timestamp) {
+            round.answer = 0;
+        }
+    }
+
+    /// @dev A source's latest round at `PRICE_DECIMALS`, and why it is dropped when it is
+    function _readSource(IPriceOracle source, address base, address quote)
+        internal
+        view
+        returns (bool isValid, DropReason reason, Round memory round)
+    {
+        try source.isPriceFeedValid(base, quote) returns (bool feedValid) {
+            if (!feedValid) return (false, DropReason.Invalid, round);
+        } catch {
+            return (false, DropReason.Invalid, round);
+        }
+
+        try source.latestRoundData(base, quote) returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) {
+            round = Round(roundId, answer, startedAt, updatedAt, answeredInRound);
+        } catch {
+            return (false, DropReason.Invalid, round);
+        }
+        if (round.answer <= 0) {
+            return (false, DropReason.Invalid, round);
+        }
+        if (round.answeredInRound < round.roundId || (maxPriceAge != 0 && round.updatedAt + maxPriceAge < block.timestamp)) {
+            return (false, DropReason.Stale, round);
+        }
+
+        try source.decimals(base, quote) returns (uint8 feedDecimals) {
+            round.answer = _scaleAnswer(round.answer, int256(uint256(feedDecimals)));
+        } catch {
+            return (false, DropReason.Invalid, round);
+        }
+        isValid = true;
+    }
+
+    /// @dev Median of the first `count` answers, the mean of the middle two when `count` is even
+    function _median(int256[] memory answers, uint256 count) internal pure returns (int256) {
+        for (uint256 i = 1; i < count; i++) {
+            int256 answer = answers[i];
+            uint256 j = i;
+            while (j > 0 && answers[j - 1] > answer) {
+                answers[j] = answers[j - 1];
+                j--;
+            }
+            answers[j] = answer;
+        }
+
+        uint256 middle = count / 2;
+        return count % 2 == 1 ? answers[middle] : (answers[middle - 1] + answers[middle]) / 2;
+    }
+}
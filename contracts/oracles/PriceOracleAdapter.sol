@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IPriceOracle} from "../IPriceOracle.sol";
+import {ErrorLibrary} from "../library/ErrorLibrary.sol";
+
+/**
+ * @notice `IPriceOracle` over an external feed network. A pair is priced from its own feed when it
+ * has one, and otherwise derived from both tokens' `USD` feeds, so WETH/BTC comes from WETH/USD and
+ * BTC/USD. Every price is reported with `PRICE_DECIMALS`, whatever the underlying feeds use.
+ * @dev Adapters say which feeds exist and how to read one, this contract does the routing.
+ */
+abstract contract PriceOracleAdapter is IPriceOracle, Ownable {
+    /// @notice Stands in for US dollars as a pair's quote, the address Chainlink's `Denominations` uses
+    address public constant USD = address(840);
+    uint8 public constant PRICE_DECIMALS = 18;
+
+    /// @dev A feed's latest round, with the answer already at `PRICE_DECIMALS`
+    struct Round {
+        uint80 roundId;
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
+    constructor(address initialOwner) Ownable(initialOwner) {}
+
+    function getPrice(address base, address quote) external view override returns (int256) {
+        return _latestRound(base, quote).answer;
+    }
+
+    /// @notice A derived price reports the base feed's round and the older of the two feeds' timestamps
+    function latestRoundData(address base, address quote)
+        external
+        view
+        override
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        Round memory round = _latestRound(base, quote);
+        return (round.roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+    }
+
+    /// @notice Converts `amount` of `tokenIn` into `tokenOut`, both in their own token units
+    function getPriceForTokenAmount(
+        address tokenIn,
+        address tokenOut,
+        uint256 amount
+    ) external view override returns (uint256 amountOut) {
+        int256 price = _latestRound(tokenIn, tokenOut).answer;
+        if (price <= 0) revert ErrorLibrary.PriceOracleInvalid();
+        return amount * uint256(price) * 10**IERC20Metadata(tokenOut).decimals()
+            / 10**IERC20Metadata(tokenIn).decimals() / 10**PRICE_DECIMALS;
+    }
+
+    function decimals(address, address) external pure override returns (uint8) {
+        return PRICE_DECIMALS;
+    }
+
+    /// @notice Whether the pair can be priced at all. How fresh the answer is is left to the caller.
+    function isPriceFeedValid(address base, address quote) external view override returns (bool) {
+        return _hasFeed(base, quote) || (_hasFeed(base, USD) && _hasFeed(quote, USD));
+    }
+
+    function _hasFeed(address base, address quote) internal view virtual returns (bool);
+
+    function _readFeed(address base, address quote) internal view virtual returns (Round memory);
+
+    function _latestRound(address base, address quote) internal view returns (Round memory) {
+        if (_hasFeed(base, quote)) {
+            return _readFeed(base, quote);
+        }
+        if (!_hasFeed(base, USD) || !_hasFeed(quote, USD)) revert ErrorLibrary.TokenNotInPriceOracle();
+
+        Round memory baseRound = _readFeed(base, USD);
+        Round memory quoteRound = _readFeed(quote, USD);
+        Round memory round = baseRound;
+        round.answer = baseRound.answer > 0 && quoteRound.answer > 0
+            ? baseRound.answer * int256(10**PRICE_DECIMALS) / quoteRound.answer
+            : int256(0);
+        if (quoteRound.startedAt < round.startedAt) round.startedAt = quoteRound.startedAt;
+        if (quoteRound.updatedAt < round.updatedAt) round.updatedAt = quoteRound.updatedAt;
+        // Either feed carrying its answer over makes the derived answer carried over too
+        if (quoteRound.answeredInRound < quoteRound.roundId && round.answeredInRound >= round.roundId) {
+            round.roundId = round.answeredInRound + 1;
+        }
+        return round;
+    }
+
+    /// @dev Rescales a feed answer from `feedDecimals` to `PRICE_DECIMALS`
+    function _scaleAnswer(int256 answer, int256 feedDecimals) internal pure returns (int256) {
+        int256 shift = int256(uint256(PRICE_DECIMALS)) - feedDecimals;
+        return shift >= 0 ? answer * int256(10**uint256(shift)) : answer / int256(10**uint256(-shift));
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IPyth} from "@pythnetwork/pyth-sdk-solidity/IPyth.sol";
+import {PythStructs} from "@pythnetwork/pyth-sdk-solidity/PythStructs.sol";
+import {PriceOracleAdapter} from "./PriceOracleAdapter.sol";
+
+/**
+ * @notice `IPriceOracle` over Pyth price feeds, see `PriceOracleAdapter` for how pairs are routed.
+ * Pyth is pull based: prices only move once someone posts an update to `pyth`.
+ * @dev Pyth has no rounds, each publish time stands in for one, so an answer is never carried over
+ * and staleness shows in `updatedAt` alone.
+ */
+contract PythPriceOracle is PriceOracleAdapter {
+    IPyth public immutable pyth;
+
+    mapping(address => mapping(address => bytes32)) public priceIds;
+
+    event PriceIdUpdated(address indexed base, address indexed quote, bytes32 priceId);
+
+    constructor(address _pyth, address initialOwner) PriceOracleAdapter(initialOwner) {
+        require(_pyth != address(0), "Invalid Pyth address");
+        pyth = IPyth(_pyth);
+    }
+
+    /// @notice Sets the Pyth feed quoting `base` in `quote`, pass `USD` as the quote for a token's dollar feed
+    /// and a zero id to remove one
+    function setPriceId(address base, address quote, bytes32 priceId) external onlyOwner {
+        require(base != address(0) && quote != address(0) && base != quote, "Invalid token addresses");
+        priceIds[base][quote] = priceId;
+        emit PriceIdUpdated(base, quote, priceId);
+    }
+
+    function _hasFeed(address base, address quote) internal view override returns (bool) {
+        return priceIds[base][quote] != bytes32(0);
+    }
+
+    function _readFeed(address base, address quote) internal view override returns (Round memory round) {
+        PythStructs.Price memory price = pyth.getPriceUnsafe(priceIds[base][quote]);
+        round.roundId = uint80(price.publishTime);
+        round.answer = _scaleAnswer(price.price, -int256(price.expo));
+        round.startedAt = price.publishTime;
+        round.updatedAt = price.publishTime;
+        round.answeredInRound = round.roundId;
+    }
+}
@@ -1,17 +1,19 @@
 import React, { useState, useCallback, useEffect } from 'react'
 import { useTrading } from '../contexts/TradingContext'
 import { useWallet } from '../contexts/WalletContext'
-import { Wallet, RefreshCw, CheckCircle, AlertCircle } from 'lucide-react'
+import { Wallet, RefreshCw, CheckCircle, AlertCircle, ArrowDownToLine, ArrowUpFromLine, Award } from 'lucide-react'
 import toast from 'react-hot-toast'
 
 const Balances: React.FC = () => {
-  const { balances, refreshBalances, isLoading, approveToken, checkTokenAllowance } = useTrading()
+  const { balances, volumeTier, refreshBalances, isLoading, approveToken, checkTokenAllowance, depositToken, withdrawToken } = useTrading()
   const { account, isConnected } = useWallet()
   
   const [isApproving, setIsApproving] = useState<string | null>(null)
   const [tokenAllowances, setTokenAllowances] = useState<{[key: string]: string}>({})
   const [isCheckingAllowances, setIsCheckingAllowances] = useState(false)
   const [allowancesFetched, setAllowancesFetched] = useState(false)
+  const [transferAmounts, setTransferAmounts] = useState<{[key: string]: string}>({})
+  const [isTransferring, setIsTransferring] = useState<string | null>(null)
 
   // Memoize the checkAllowances function to prevent infinite re-renders
   const checkAllowances = useCallback(async () => {
@@ -70,6 +72,13 @@ const Balances: React.FC = () => {
     }
   }, [balances.length])
 
+  // Switching markets swaps the tokens, so their allowances have to be checked again
+  const tokenAddresses = balances.map((token) => token.address).join(',')
+  useEffect(() => {
+    setTokenAllowances({})
+    setAllowancesFetched(false)
+  }, [tokenAddresses])
+
   // Manual refresh function for allowances
   const manualRefreshAllowances = useCallback(async () => {
     console.log('Manual refresh of allowances requested')
@@ -105,9 +114,33 @@ const Balances: React.FC = () => {
     }
   }
 
+  // Deposits pull from the wallet into the trading account, withdrawals pay out the available balance
+  const handleTransfer = async (token: any, isDeposit: boolean) => {
+    const amount = transferAmounts[token.address]
+    if (!amount || parseFloat(amount) <= 0) {
+      toast.error('Please enter an amount')
+      return
+    }
+
+    setIsTransferring(token.address)
+    try {
+      if (isDeposit) {
+        await depositToken(token.address, amount)
+        setAllowancesFetched(false) // Depositing may have approved the engine
+      } else {
+        await withdrawToken(token.address, amount)
+      }
+      setTransferAmounts((amounts) => ({ ...amounts, [token.address]: '' }))
+    } catch (error) {
+      console.error(isDeposit ? 'Deposit failed:' : 'Withdrawal failed:', error)
+    } finally {
+      setIsTransferring(null)
+    }
+  }
+
   const getApprovalStatus = (token: any) => {
     const allowance = tokenAllowances[token.symbol]
-    const balance = parseFloat(token.balance)
+    const balance = parseFloat(token.walletBalance)
     
     // If we haven't checked allowances yet, show loading
     if (allowance === undefined) {
@@ -145,7 +178,7 @@ const Balances: React.FC = () => {
     return isApproving === token.symbol || status === 'loading' || status === true
   }
 
-  const formatBalance = (balance: string, decimals: number) => {
+  const formatBalance = (balance: string) => {
     const num = parseFloat(balance)
     if (num === 0) return '0.00'
     
@@ -175,6 +208,12 @@ const Balances: React.FC = () => {
             <span className="text-white text-xs font-bold">$</span>
           </div>
         )
+      case 'BTC':
+        return (
+          <div className="w-8 h-8 bg-gradient-to-br from-yellow-400 to-yellow-600 rounded-full flex items-center justify-center">
+            <span className="text-white text-xs font-bold">₿</span>
+          </div>
+        )
       default:
         return (
           <div className="w-8 h-8 bg-gray-400 rounded-full flex items-center justify-center">
@@ -190,6 +229,8 @@ const Balances: React.FC = () => {
         return 'text-orange-600'
       case 'USDC':
         return 'text-blue-600'
+      case 'BTC':
+        return 'text-yellow-600'
       default:
         return 'text-gray-600'
     }
@@ -230,6 +271,37 @@ const Balances: React.FC = () => {
             <div className="font-mono text-sm text-gray-900 break-all">
               {account}
             </div>
+
+            {/* Volume tier and progress towards the next one */}
+            {volumeTier && volumeTier.tierCount > 0 && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full bg-primary-100 text-primary-700 text-xs font-medium">
+                    <Award className="w-3 h-3" />
+                    <span>{volumeTier.tier > 0 ? `Tier ${volumeTier.tier}` : 'No tier'}</span>
+                  </span>
+                  <span className="text-xs text-gray-600">
+                    {volumeTier.feeDiscountPercent > 0 ? `${volumeTier.feeDiscountPercent}% off fees` : 'No fee discount'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mb-1">
+                  30 day volume: {formatBalance(volumeTier.rollingVolume)}
+                  {volumeTier.nextTierVolume !== null && ` / ${formatBalance(volumeTier.nextTierVolume)} for tier ${volumeTier.tier + 1}`}
+                </div>
+                {volumeTier.nextTierVolume !== null ? (
+                  <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary-600"
+                      style={{
+                        width: `${Math.min(100, (parseFloat(volumeTier.rollingVolume) / parseFloat(volumeTier.nextTierVolume)) * 100)}%`,
+                      }}
+                    />
+                  </div>
+                ) : (
+                  <div className="text-xs text-green-600">Top tier reached</div>
+                )}
+              </div>
+            )}
             
             {/* Debug Info */}
             <div className="mt-3 pt-3 border-t border-gray-200">
@@ -257,13 +329,60 @@ const Balances: React.FC = () => {
                     </div>
                     <div className="text-right">
                       <div className={`text-lg font-bold ${getTokenColor(token.symbol)}`}>
-                        {formatBalance(token.balance, token.decimals)}
+                        {formatBalance(token.availableBalance)}
                       </div>
                       <div className="text-xs text-gray-500">
-                        {token.symbol} tokens
+                        available to trade
                       </div>
                     </div>
                   </div>
+
+                  {/* Wallet, available and locked amounts */}
+                  <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+                    <div className="bg-gray-50 rounded p-2">
+                      <div className="text-xs text-gray-500">Wallet</div>
+                      <div className="text-sm font-medium text-gray-900">{formatBalance(token.walletBalance)}</div>
+                    </div>
+                    <div className="bg-gray-50 rounded p-2">
+                      <div className="text-xs text-gray-500">Available</div>
+                      <div className="text-sm font-medium text-gray-900">{formatBalance(token.availableBalance)}</div>
+                    </div>
+                    <div className="bg-gray-50 rounded p-2">
+                      <div className="text-xs text-gray-500">Locked in orders</div>
+                      <div className="text-sm font-medium text-gray-900">{formatBalance(token.lockedBalance)}</div>
+                    </div>
+                  </div>
+
+                  {/* Deposit and withdraw */}
+                  <div className="flex items-center space-x-2 mb-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="Amount"
+                      value={transferAmounts[token.address] ?? ''}
+                      onChange={(e) => setTransferAmounts((amounts) => ({ ...amounts, [token.address]: e.target.value }))}
+                      className="input flex-1 text-sm py-1"
+                    />
+                    <button
+                      onClick={() => handleTransfer(token, true)}
+                      disabled={isTransferring !== null}
+                      className="btn btn-primary text-sm py-1 px-3 flex items-center space-x-1"
+                      title={`Move ${token.symbol} from your wallet into your trading account`}
+                    >
+                      <ArrowDownToLine className="w-3 h-3" />
+                      <span>Deposit</span>
+                    </button>
+                    <button
+                      onClick={() => handleTransfer(token, false)}
+                      disabled={isTransferring !== null}
+                      className="btn btn-secondary text-sm py-1 px-3 flex items-center space-x-1"
+                      title={`Withdraw available ${token.symbol} to your wallet`}
+                    >
+                      <ArrowUpFromLine className="w-3 h-3" />
+                      <span>Withdraw</span>
+                    </button>
+                  </div>
                   
                   {/* Token Actions */}
                   <div className="flex items-center justify-between pt-3 border-t border-gray-100">
@@ -354,7 +473,7 @@ const Balances: React.FC = () => {
                   <span className="text-sm font-medium text-gray-700">Total Value (USD):</span>
                   <span className="text-lg font-bold text-gray-900">
                     ${balances.reduce((total, token) => {
-                      const balance = parseFloat(token.balance)
+                      const balance = parseFloat(token.walletBalance) + parseFloat(token.availableBalance) + parseFloat(token.lockedBalance)
                       if (token.symbol === 'WETH') {
                         return total + (balance * 2000) // Mock price
                       } else if (token.symbol === 'USDC') {
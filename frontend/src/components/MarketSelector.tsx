@@ -0,0 +1,31 @@
+import React from 'react'
+import { useTrading } from '../contexts/TradingContext'
+import { ChevronDown } from 'lucide-react'
+
+const MarketSelector: React.FC = () => {
+  const { markets, selectedMarket, selectMarket, isLoadingMarkets } = useTrading()
+
+  // Keep the fallback pair selectable until discovery has finished
+  const options = markets.length > 0 ? markets : [selectedMarket]
+
+  return (
+    <div className="relative">
+      <select
+        value={selectedMarket.key}
+        onChange={(e) => selectMarket(e.target.value)}
+        disabled={isLoadingMarkets || markets.length === 0}
+        className="appearance-none bg-white border border-gray-300 rounded-lg pl-3 pr-8 py-2 text-sm font-semibold text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-60"
+        title={isLoadingMarkets ? 'Loading trading pairs...' : 'Select market'}
+      >
+        {options.map((market) => (
+          <option key={market.key} value={market.key}>
+            {market.baseToken.symbol}/{market.quoteToken.symbol}
+          </option>
+        ))}
+      </select>
+      <ChevronDown className="w-4 h-4 text-gray-500 absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none" />
+    </div>
+  )
+}
+
+export default MarketSelector
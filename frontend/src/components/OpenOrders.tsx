@@ -0,0 +1,112 @@
+import React, { useState } from 'react'
+import { useTrading, Order } from '../contexts/TradingContext'
+import { ClipboardList, X } from 'lucide-react'
+
+const OpenOrders: React.FC = () => {
+  const { userOrders, tokens, cancelOrder, isLoading } = useTrading()
+  const [cancellingId, setCancellingId] = useState<number | null>(null)
+
+  const handleCancel = async (orderId: number) => {
+    setCancellingId(orderId)
+    try {
+      await cancelOrder(orderId)
+    } catch {
+      // cancelOrder already reports the failure
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const getSymbol = (address: string) => tokens[address.toLowerCase()]?.symbol ?? `${address.slice(0, 6)}...`
+
+  const getFillPercent = (order: Order) => {
+    const amount = parseFloat(order.amount)
+    return amount > 0 ? Math.min(100, (parseFloat(order.filledAmount) / amount) * 100) : 0
+  }
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString()
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">My Orders</h3>
+        <span className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+          {userOrders.length} open
+        </span>
+      </div>
+
+      {userOrders.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs font-medium text-gray-500 border-b border-gray-200">
+                <th className="text-left py-2">Pair</th>
+                <th className="text-left py-2">Side</th>
+                <th className="text-right py-2">Price</th>
+                <th className="text-right py-2">Amount</th>
+                <th className="text-left py-2 pl-4">Filled</th>
+                <th className="text-right py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {userOrders.map((order) => {
+                const fillPercent = getFillPercent(order)
+                return (
+                  <tr key={order.id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2">
+                      <div className="font-medium text-gray-900">
+                        {getSymbol(order.baseToken)}/{getSymbol(order.quoteToken)}
+                      </div>
+                      <div className="text-xs text-gray-500">{formatTime(order.timestamp)}</div>
+                    </td>
+                    <td className={`py-2 font-medium ${order.isBuy ? 'text-green-600' : 'text-red-600'}`}>
+                      {order.isBuy ? 'Buy' : 'Sell'}
+                    </td>
+                    <td className="py-2 text-right">{parseFloat(order.price).toFixed(2)}</td>
+                    <td className="py-2 text-right">{parseFloat(order.amount).toFixed(4)}</td>
+                    <td className="py-2 pl-4">
+                      <div className="w-24 h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${order.isBuy ? 'bg-green-500' : 'bg-red-500'}`}
+                          style={{ width: `${fillPercent}%` }}
+                        />
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {parseFloat(order.filledAmount).toFixed(4)} ({fillPercent.toFixed(0)}%)
+                      </div>
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleCancel(order.id)}
+                        disabled={cancellingId !== null || isLoading}
+                        className="btn btn-secondary text-xs py-1 px-2 inline-flex items-center space-x-1"
+                        title="Cancel order"
+                      >
+                        {cancellingId === order.id ? (
+                          <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-gray-600"></div>
+                        ) : (
+                          <X className="w-3 h-3" />
+                        )}
+                        <span>Cancel</span>
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p>No open orders</p>
+          <p className="text-sm">Limit orders you place will show up here until they fill</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default OpenOrders
@@ -1,18 +1,46 @@
-import React, { useState, useEffect } from 'react'
-import { useTrading } from '../contexts/TradingContext'
-import { ArrowUp, ArrowDown, Clock } from 'lucide-react'
+import React, { useState, useEffect, useMemo } from 'react'
+import { useTrading, getPairKey } from '../contexts/TradingContext'
+import { ArrowUp, ArrowDown, Clock, Layers, List } from 'lucide-react'
+import { aggregateDepth, PriceLevel, TICK_SIZES } from '../utils/orderBookDepth'
+import CONFIG from '../config'
 
-const OrderBook: React.FC = () => {
-  const { orderBook, isLoading } = useTrading()
+type ViewMode = 'orders' | 'depth'
+
+interface OrderBookProps {
+  baseToken?: string
+  quoteToken?: string
+}
+
+const OrderBook: React.FC<OrderBookProps> = ({
+  baseToken = CONFIG.WETH_ADDRESS,
+  quoteToken = CONFIG.USDC_ADDRESS,
+}) => {
+  const { orderBook: allOrders, tokens, isLoading } = useTrading()
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date())
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [viewMode, setViewMode] = useState<ViewMode>('orders')
+  const [tickSize, setTickSize] = useState(TICK_SIZES[2])
+
+  const pair = allOrders.pairs[getPairKey(baseToken, quoteToken)]
+  const orderBook = {
+    buyOrders: pair?.buyOrders ?? [],
+    sellOrders: pair?.sellOrders ?? [],
+    stats: allOrders.stats,
+  }
+  const baseSymbol = tokens[baseToken.toLowerCase()]?.symbol ?? 'WETH'
+  const quoteSymbol = tokens[quoteToken.toLowerCase()]?.symbol ?? 'USDC'
+
+  const depth = useMemo(
+    () => aggregateDepth(orderBook.buyOrders, orderBook.sellOrders, tickSize),
+    [orderBook.buyOrders, orderBook.sellOrders, tickSize]
+  )
 
   // Update timestamp when orderbook changes
   useEffect(() => {
     if (!isLoading && orderBook.buyOrders.length > 0 || orderBook.sellOrders.length > 0) {
       setLastUpdated(new Date())
     }
-  }, [orderBook, isLoading])
+  }, [allOrders, isLoading])
 
   // Show refreshing indicator briefly when orderbook updates
   useEffect(() => {
@@ -21,7 +49,7 @@ const OrderBook: React.FC = () => {
       const timer = setTimeout(() => setIsRefreshing(false), 1000)
       return () => clearTimeout(timer)
     }
-  }, [orderBook, isLoading])
+  }, [allOrders, isLoading])
 
   const formatPrice = (price: string) => {
     return parseFloat(price).toFixed(2)
@@ -40,13 +68,41 @@ const OrderBook: React.FC = () => {
     return date.toLocaleTimeString()
   }
 
+  const formatTickPrice = (price: number) => {
+    const decimals = Math.max(0, -Math.floor(Math.log10(tickSize)))
+    return price.toFixed(decimals)
+  }
+
+  const renderDepthRow = (level: PriceLevel, isBuy: boolean) => {
+    const depthPercent = depth.maxCumulativeSize > 0
+      ? (level.cumulativeSize / depth.maxCumulativeSize) * 100
+      : 0
+
+    return (
+      <div
+        key={`${isBuy ? 'bid' : 'ask'}-${level.price}`}
+        className={`relative order-book-row ${isBuy ? 'order-book-buy' : 'order-book-sell'}`}
+      >
+        <div
+          className={`absolute inset-y-0 right-0 ${isBuy ? 'bg-green-100' : 'bg-red-100'}`}
+          style={{ width: `${depthPercent}%` }}
+        />
+        <div className="relative grid grid-cols-3 w-full text-sm">
+          <div className="text-left font-medium">{formatTickPrice(level.price)}</div>
+          <div className="text-right">{formatAmount(level.size.toString())}</div>
+          <div className="text-right text-gray-600">{formatAmount(level.cumulativeSize.toString())}</div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="card">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-gray-900">Order Book</h3>
         <div className="flex items-center space-x-3">
           <div className="text-sm text-gray-500">
-            WETH/USDC
+            {baseSymbol}/{quoteSymbol}
           </div>
           <div className="flex items-center space-x-2 bg-blue-50 border border-blue-200 rounded-full px-3 py-1">
             <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
@@ -55,6 +111,46 @@ const OrderBook: React.FC = () => {
         </div>
       </div>
 
+      {/* View Mode and Tick Size */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+          <button
+            type="button"
+            onClick={() => setViewMode('orders')}
+            className={`flex items-center space-x-1 px-3 py-1 text-xs font-medium ${
+              viewMode === 'orders' ? 'bg-primary-50 text-primary-700' : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <List className="w-3 h-3" />
+            <span>Orders</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setViewMode('depth')}
+            className={`flex items-center space-x-1 px-3 py-1 text-xs font-medium ${
+              viewMode === 'depth' ? 'bg-primary-50 text-primary-700' : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Layers className="w-3 h-3" />
+            <span>Depth</span>
+          </button>
+        </div>
+        {viewMode === 'depth' && (
+          <label className="flex items-center space-x-2 text-xs text-gray-600">
+            <span>Tick</span>
+            <select
+              value={tickSize}
+              onChange={(e) => setTickSize(parseFloat(e.target.value))}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {TICK_SIZES.map((size) => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
       {/* Last Updated Indicator */}
       <div className="mb-3 text-xs text-gray-500 text-center bg-gray-50 py-2 rounded flex items-center justify-center space-x-2">
         <span>Last updated: {formatLastUpdated(lastUpdated)}</span>
@@ -71,6 +167,57 @@ const OrderBook: React.FC = () => {
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
           <p className="text-gray-500 mt-2">Loading order book...</p>
         </div>
+      ) : viewMode === 'depth' ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 text-xs font-medium text-gray-500 px-3">
+            <span className="text-left">Price ({quoteSymbol})</span>
+            <span className="text-right">Size ({baseSymbol})</span>
+            <span className="text-right">Total ({baseSymbol})</span>
+          </div>
+
+          {/* Asks, best price closest to the spread */}
+          <div className="space-y-1">
+            {depth.asks.length > 0 ? (
+              [...depth.asks].reverse().map((level) => renderDepthRow(level, false))
+            ) : (
+              <div className="text-center py-4 text-gray-500 text-sm">
+                No asks
+              </div>
+            )}
+          </div>
+
+          {/* Spread and Mid Price */}
+          <div className="border-y border-gray-200 py-3 grid grid-cols-2 text-center">
+            <div>
+              <div className="font-semibold text-gray-900">
+                {depth.midPrice !== null ? formatPrice(depth.midPrice.toString()) : '--'}
+              </div>
+              <div className="text-xs text-gray-500">Mid Price</div>
+            </div>
+            <div>
+              <div className="font-semibold text-gray-900">
+                {depth.spread !== null ? formatPrice(depth.spread.toString()) : '--'}
+                {depth.spread !== null && depth.midPrice ? (
+                  <span className="text-xs text-gray-500 ml-1">
+                    ({((depth.spread / depth.midPrice) * 100).toFixed(2)}%)
+                  </span>
+                ) : null}
+              </div>
+              <div className="text-xs text-gray-500">Spread</div>
+            </div>
+          </div>
+
+          {/* Bids, best price closest to the spread */}
+          <div className="space-y-1">
+            {depth.bids.length > 0 ? (
+              depth.bids.map((level) => renderDepthRow(level, true))
+            ) : (
+              <div className="text-center py-4 text-gray-500 text-sm">
+                No bids
+              </div>
+            )}
+          </div>
+        </div>
       ) : (
         <div className="space-y-4">
           {/* Sell Orders (Red) */}
@@ -81,7 +228,7 @@ const OrderBook: React.FC = () => {
                 Sell Orders
               </span>
               <span className="text-xs bg-red-100 text-red-700 px-2 py-1 rounded">
-                {orderBook.stats.activeSellOrders} active
+                {orderBook.sellOrders.length} active
               </span>
             </div>
             
@@ -96,7 +243,7 @@ const OrderBook: React.FC = () => {
                     <div className="text-right">
                       <div className="font-medium">{formatAmount(order.amount)}</div>
                       <div className="text-xs text-gray-500">
-                        {formatAmount(order.quoteAmount)} USDC
+                        {formatAmount(order.quoteAmount)} {quoteSymbol}
                       </div>
                     </div>
                   </div>
@@ -112,8 +259,10 @@ const OrderBook: React.FC = () => {
           {/* Current Price */}
           <div className="border-t border-gray-200 pt-4">
             <div className="text-center">
-              <div className="text-2xl font-bold text-gray-900">$2,000.00</div>
-              <div className="text-sm text-gray-500">Current Market Price</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {depth.midPrice !== null ? `${formatPrice(depth.midPrice.toString())} ${quoteSymbol}` : '--'}
+              </div>
+              <div className="text-sm text-gray-500">Mid Market Price</div>
             </div>
           </div>
 
@@ -125,7 +274,7 @@ const OrderBook: React.FC = () => {
                 Buy Orders
               </span>
               <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-                {orderBook.stats.activeBuyOrders} active
+                {orderBook.buyOrders.length} active
               </span>
             </div>
             
@@ -140,7 +289,7 @@ const OrderBook: React.FC = () => {
                     <div className="text-right">
                       <div className="font-medium">{formatAmount(order.amount)}</div>
                       <div className="text-xs text-gray-500">
-                        {formatAmount(order.quoteAmount)} USDC
+                        {formatAmount(order.quoteAmount)} {quoteSymbol}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,91 @@
+import React from 'react'
+import { useTrading } from '../contexts/TradingContext'
+import CONFIG from '../config'
+import { History, RefreshCw, ExternalLink } from 'lucide-react'
+
+const TradeHistory: React.FC = () => {
+  const { tradeHistory, tokens, refreshTradeHistory, isLoadingTrades } = useTrading()
+
+  const getSymbol = (address: string) => tokens[address.toLowerCase()]?.symbol ?? `${address.slice(0, 6)}...`
+
+  const explorerUrl = CONFIG.NETWORKS.BSC_TESTNET.blockExplorerUrls[0]
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString()
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Trade History</h3>
+        <button
+          onClick={refreshTradeHistory}
+          disabled={isLoadingTrades}
+          className="btn btn-secondary text-xs py-1 px-2 flex items-center space-x-1"
+          title="Reload trades"
+        >
+          <RefreshCw className={`w-3 h-3 ${isLoadingTrades ? 'animate-spin' : ''}`} />
+          <span>Reload</span>
+        </button>
+      </div>
+
+      {isLoadingTrades && tradeHistory.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="text-gray-500 mt-2">Loading trades...</p>
+        </div>
+      ) : tradeHistory.length > 0 ? (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs font-medium text-gray-500 border-b border-gray-200">
+                <th className="text-left py-2">Time</th>
+                <th className="text-left py-2">Pair</th>
+                <th className="text-left py-2">Side</th>
+                <th className="text-right py-2">Price</th>
+                <th className="text-right py-2">Amount</th>
+                <th className="text-right py-2">Fee</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tradeHistory.map((trade) => (
+                <tr key={trade.id} className="border-b border-gray-100 last:border-0">
+                  <td className="py-2 text-xs text-gray-500">
+                    <a
+                      href={`${explorerUrl}tx/${trade.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center space-x-1 hover:text-primary-600"
+                    >
+                      <span>{formatTime(trade.timestamp)}</span>
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </td>
+                  <td className="py-2 font-medium text-gray-900">
+                    {getSymbol(trade.baseToken)}/{getSymbol(trade.quoteToken)}
+                  </td>
+                  <td className={`py-2 font-medium ${trade.side === 'buy' ? 'text-green-600' : 'text-red-600'}`}>
+                    {trade.side === 'buy' ? 'Buy' : 'Sell'}
+                  </td>
+                  <td className="py-2 text-right">{parseFloat(trade.price).toFixed(2)}</td>
+                  <td className="py-2 text-right">{parseFloat(trade.amount).toFixed(4)}</td>
+                  <td className="py-2 text-right text-gray-600">
+                    {parseFloat(trade.fee) !== 0 ? `${parseFloat(trade.fee).toFixed(4)} ${getSymbol(trade.quoteToken)}` : '--'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          <History className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p>No trades yet</p>
+          <p className="text-sm">Fills of your orders will show up here</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TradeHistory
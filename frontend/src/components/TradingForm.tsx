@@ -1,26 +1,72 @@
-import React, { useState } from 'react'
-import { useTrading } from '../contexts/TradingContext'
+import React, { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import { useTrading, MarketOrderEstimate } from '../contexts/TradingContext'
 import { useWallet } from '../contexts/WalletContext'
-import { ArrowUp, ArrowDown, Clock, Zap } from 'lucide-react'
+import { ArrowUp, ArrowDown, Clock, Zap, PauseCircle } from 'lucide-react'
 import CONFIG from '../config'
+import { TimeInForce } from 'allo-trading-sdk'
 
 type OrderType = 'limit' | 'market'
 type OrderSide = 'buy' | 'sell'
 
+// Market orders never rest, so they only offer the immediate options
+const TIME_IN_FORCE_OPTIONS: { value: TimeInForce; label: string; orderTypes: OrderType[] }[] = [
+  { value: TimeInForce.GTC, label: 'Good til cancelled', orderTypes: ['limit'] },
+  { value: TimeInForce.IOC, label: 'Immediate or cancel', orderTypes: ['limit', 'market'] },
+  { value: TimeInForce.FOK, label: 'Fill or kill', orderTypes: ['limit', 'market'] },
+  { value: TimeInForce.GTT, label: 'Good til time', orderTypes: ['limit'] },
+]
+
+// Compares at 18 decimals, which covers every amount and price the form accepts
+const isMultipleOf = (value: string, step: string | null) =>
+  step === null || ethers.parseUnits(value, 18) % ethers.parseUnits(step, 18) === 0n
+
 const TradingForm: React.FC = () => {
-  const { placeLimitOrder, placeMarketOrder, isPlacingOrder } = useTrading()
+  const { placeLimitOrder, placeMarketOrder, estimateMarketOrder, selectedMarket, isPlacingOrder, tradingHalt, pairLimits, pairFees, ticker } = useTrading()
   const { isConnected } = useWallet()
   
   const [orderType, setOrderType] = useState<OrderType>('limit')
   const [orderSide, setOrderSide] = useState<OrderSide>('buy')
   const [amount, setAmount] = useState('')
   const [price, setPrice] = useState('2000')
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>(TimeInForce.GTC)
+  const [expiryHours, setExpiryHours] = useState('24')
+  const [slippage, setSlippage] = useState(CONFIG.DEFAULT_SLIPPAGE_PERCENT)
+  const [estimate, setEstimate] = useState<MarketOrderEstimate | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  const baseSymbol = selectedMarket.baseToken.symbol
+  const quoteSymbol = selectedMarket.quoteToken.symbol
+  const formatPercent = (value: number) => `${value.toLocaleString('en-US', { maximumFractionDigits: 4 })}%`
+
+  useEffect(() => {
+    setEstimate(null)
+    if (!isConnected || orderType !== 'market' || !(parseFloat(amount) > 0)) return
+
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      estimateMarketOrder(selectedMarket.baseToken.address, selectedMarket.quoteToken.address, amount, orderSide === 'buy')
+        .then((result) => !cancelled && setEstimate(result))
+        .catch((error) => console.warn('Failed to estimate market order:', error))
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [isConnected, orderType, orderSide, amount, selectedMarket.key])
+
+  const selectOrderType = (type: OrderType) => {
+    setOrderType(type)
+    if (!TIME_IN_FORCE_OPTIONS.find((option) => option.value === timeInForce)!.orderTypes.includes(type)) {
+      setTimeInForce(type === 'market' ? TimeInForce.IOC : TimeInForce.GTC)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!isConnected) return
+    if (!isConnected || tradingHalt) return
     
     if (!amount || parseFloat(amount) <= 0) {
       alert('Please enter a valid amount')
@@ -32,31 +78,56 @@ const TradingForm: React.FC = () => {
       return
     }
 
-    const minAmount = parseFloat(CONFIG.MIN_ORDER_AMOUNT)
-    const maxAmount = parseFloat(CONFIG.MAX_ORDER_AMOUNT)
-    const amountNum = parseFloat(amount)
+    if (orderType === 'market' && !(parseFloat(slippage) >= 0 && parseFloat(slippage) < 100)) {
+      alert('Please enter a slippage tolerance between 0 and 100%')
+      return
+    }
 
-    if (amountNum < minAmount || amountNum > maxAmount) {
-      alert(`Amount must be between ${minAmount} and ${maxAmount} WETH`)
+    if (orderType === 'limit' && timeInForce === TimeInForce.GTT && !(parseFloat(expiryHours) > 0)) {
+      alert('Please enter a valid expiry')
       return
     }
 
+    if (pairLimits) {
+      const amountNum = parseFloat(amount)
+      if (amountNum < parseFloat(pairLimits.minOrderAmount) || amountNum > parseFloat(pairLimits.maxOrderAmount)) {
+        alert(`Amount must be between ${pairLimits.minOrderAmount} and ${pairLimits.maxOrderAmount} ${baseSymbol}`)
+        return
+      }
+
+      if (!isMultipleOf(amount, pairLimits.lotSize)) {
+        alert(`Amount must be a multiple of ${pairLimits.lotSize} ${baseSymbol}`)
+        return
+      }
+
+      if (orderType === 'limit' && !isMultipleOf(price, pairLimits.tickSize)) {
+        alert(`Price must be a multiple of ${pairLimits.tickSize} ${quoteSymbol}`)
+        return
+      }
+    }
+
     setIsSubmitting(true)
     try {
       if (orderType === 'limit') {
         await placeLimitOrder(
-          CONFIG.WETH_ADDRESS,
-          CONFIG.USDC_ADDRESS,
+          selectedMarket.baseToken.address,
+          selectedMarket.quoteToken.address,
           amount,
           price,
-          orderSide === 'buy'
+          orderSide === 'buy',
+          timeInForce,
+          timeInForce === TimeInForce.GTT
+            ? Math.floor(Date.now() / 1000 + parseFloat(expiryHours) * 3600)
+            : undefined
         )
       } else {
         await placeMarketOrder(
-          CONFIG.WETH_ADDRESS,
-          CONFIG.USDC_ADDRESS,
+          selectedMarket.baseToken.address,
+          selectedMarket.quoteToken.address,
           amount,
-          orderSide === 'buy'
+          orderSide === 'buy',
+          slippage,
+          timeInForce !== TimeInForce.FOK
         )
       }
       
@@ -78,6 +149,12 @@ const TradingForm: React.FC = () => {
     return total.toFixed(2)
   }
 
+  const calculateWorstPrice = ({ worstPrice }: MarketOrderEstimate) => {
+    const tolerance = (parseFloat(slippage) || 0) / 100
+    const factor = orderSide === 'buy' ? 1 + tolerance : 1 - tolerance
+    return (parseFloat(worstPrice) * factor).toFixed(2)
+  }
+
   const getOrderButtonText = () => {
     if (isSubmitting || isPlacingOrder) return 'Placing Order...'
     return `${orderSide === 'buy' ? 'Buy' : 'Sell'} ${orderType === 'limit' ? 'Limit' : 'Market'}`
@@ -97,10 +174,27 @@ const TradingForm: React.FC = () => {
       <div className="flex items-center justify-between mb-6">
         <h3 className="text-lg font-semibold text-gray-900">Place Order</h3>
         <div className="text-sm text-gray-500">
-          WETH/USDC
+          {baseSymbol}/{quoteSymbol}
         </div>
       </div>
 
+      {/* New orders are refused while trading is stopped, cancelling and withdrawing still work */}
+      {tradingHalt && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-start space-x-3">
+          <PauseCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-800">
+            <div className="font-medium">
+              {tradingHalt === 'paused'
+                ? 'Trading is paused'
+                : tradingHalt === 'halted'
+                  ? `Trading in ${baseSymbol}/${quoteSymbol} is halted`
+                  : `${baseSymbol}/${quoteSymbol} is not listed`}
+            </div>
+            <div>New orders are disabled until trading resumes. You can still cancel open orders and withdraw.</div>
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Order Type Selector */}
         <div>
@@ -108,7 +202,7 @@ const TradingForm: React.FC = () => {
           <div className="grid grid-cols-2 gap-2">
             <button
               type="button"
-              onClick={() => setOrderType('limit')}
+              onClick={() => selectOrderType('limit')}
               className={`p-3 rounded-lg border-2 transition-all ${
                 orderType === 'limit'
                   ? 'border-primary-500 bg-primary-50 text-primary-700'
@@ -122,7 +216,7 @@ const TradingForm: React.FC = () => {
             </button>
             <button
               type="button"
-              onClick={() => setOrderType('market')}
+              onClick={() => selectOrderType('market')}
               className={`p-3 rounded-lg border-2 transition-all ${
                 orderType === 'market'
                   ? 'border-primary-500 bg-primary-50 text-primary-700'
@@ -175,7 +269,7 @@ const TradingForm: React.FC = () => {
         {/* Amount Input */}
         <div>
           <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-2">
-            Amount (WETH)
+            Amount ({baseSymbol})
           </label>
           <input
             type="number"
@@ -183,23 +277,25 @@ const TradingForm: React.FC = () => {
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
             placeholder="0.0"
-            step="0.01"
-            min={CONFIG.MIN_ORDER_AMOUNT}
-            max={CONFIG.MAX_ORDER_AMOUNT}
+            step={pairLimits?.lotSize ?? '0.01'}
+            min={pairLimits?.minOrderAmount}
+            max={pairLimits?.maxOrderAmount}
             className="input"
             required
           />
-          <div className="flex justify-between text-xs text-gray-500 mt-1">
-            <span>Min: {CONFIG.MIN_ORDER_AMOUNT} WETH</span>
-            <span>Max: {CONFIG.MAX_ORDER_AMOUNT} WETH</span>
-          </div>
+          {pairLimits && (
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>Min: {pairLimits.minOrderAmount} {baseSymbol}</span>
+              <span>Max: {pairLimits.maxOrderAmount} {baseSymbol}</span>
+            </div>
+          )}
         </div>
 
         {/* Price Input (only for limit orders) */}
         {orderType === 'limit' && (
           <div>
             <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-2">
-              Price (USDC per WETH)
+              Price ({quoteSymbol} per {baseSymbol})
             </label>
             <input
               type="number"
@@ -207,7 +303,7 @@ const TradingForm: React.FC = () => {
               value={price}
               onChange={(e) => setPrice(e.target.value)}
               placeholder="0.00"
-              step="0.01"
+              step={pairLimits?.tickSize ?? '0.01'}
               min="0.01"
               className="input"
               required
@@ -215,13 +311,93 @@ const TradingForm: React.FC = () => {
           </div>
         )}
 
+        {/* Time In Force */}
+        <div>
+          <label htmlFor="timeInForce" className="block text-sm font-medium text-gray-700 mb-2">
+            Time In Force
+          </label>
+          <select
+            id="timeInForce"
+            value={timeInForce}
+            onChange={(e) => setTimeInForce(Number(e.target.value) as TimeInForce)}
+            className="input"
+          >
+            {TIME_IN_FORCE_OPTIONS.filter((option) => option.orderTypes.includes(orderType)).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {orderType === 'limit' && timeInForce === TimeInForce.GTT && (
+          <div>
+            <label htmlFor="expiryHours" className="block text-sm font-medium text-gray-700 mb-2">
+              Expires In (hours)
+            </label>
+            <input
+              type="number"
+              id="expiryHours"
+              value={expiryHours}
+              onChange={(e) => setExpiryHours(e.target.value)}
+              step="1"
+              min="1"
+              className="input"
+              required
+            />
+          </div>
+        )}
+
+        {/* Slippage and estimate (only for market orders) */}
+        {orderType === 'market' && (
+          <div>
+            <label htmlFor="slippage" className="block text-sm font-medium text-gray-700 mb-2">
+              Slippage Tolerance (%)
+            </label>
+            <input
+              type="number"
+              id="slippage"
+              value={slippage}
+              onChange={(e) => setSlippage(e.target.value)}
+              step="0.1"
+              min="0"
+              max="99"
+              className="input"
+              required
+            />
+          </div>
+        )}
+
+        {orderType === 'market' && estimate && (
+          <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-700">Estimated Price:</span>
+              <span className="text-lg font-semibold text-gray-900">
+                {parseFloat(estimate.averagePrice).toFixed(2)} {quoteSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between items-center text-sm text-gray-600">
+              <span>{orderSide === 'buy' ? 'Max' : 'Min'} Price:</span>
+              <span>
+                {calculateWorstPrice(estimate)} {quoteSymbol}
+              </span>
+            </div>
+            {parseFloat(estimate.fillableAmount) < parseFloat(amount) && (
+              <div className="text-xs text-yellow-700">
+                Only {estimate.fillableAmount} {baseSymbol} is available within the book
+                {timeInForce === TimeInForce.FOK ? ', so this order will revert' : ', the rest will be refunded'}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Total Calculation */}
         {orderType === 'limit' && (
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="flex justify-between items-center">
               <span className="text-sm font-medium text-gray-700">Total Value:</span>
               <span className="text-lg font-semibold text-gray-900">
-                ${calculateTotal()} USDC
+                {calculateTotal()} {quoteSymbol}
               </span>
             </div>
           </div>
@@ -230,7 +406,7 @@ const TradingForm: React.FC = () => {
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={isSubmitting || isPlacingOrder || !isConnected}
+          disabled={isSubmitting || isPlacingOrder || !isConnected || tradingHalt !== null}
           className={getOrderButtonClass()}
         >
           {isSubmitting || isPlacingOrder ? (
@@ -247,10 +423,20 @@ const TradingForm: React.FC = () => {
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h4 className="font-medium text-blue-900 mb-2">Trading Information</h4>
           <div className="text-sm text-blue-800 space-y-1">
-            <div>• Trading Fee: {CONFIG.FEE_RATE}</div>
-            <div>• Min Order: {CONFIG.MIN_ORDER_AMOUNT} WETH</div>
-            <div>• Max Order: {CONFIG.MAX_ORDER_AMOUNT} WETH</div>
-            <div>• Current Price: ${CONFIG.MOCK_PRICES['WETH/USDC']} USDC</div>
+            {pairFees && (
+              <div>
+                • Maker / Taker Fee: {formatPercent(pairFees.makerFeePercent)} / {formatPercent(pairFees.takerFeePercent)}
+              </div>
+            )}
+            {pairLimits && (
+              <>
+                <div>• Min Order: {pairLimits.minOrderAmount} {baseSymbol}</div>
+                <div>• Max Order: {pairLimits.maxOrderAmount} {baseSymbol}</div>
+                {pairLimits.lotSize && <div>• Lot Size: {pairLimits.lotSize} {baseSymbol}</div>}
+                {pairLimits.tickSize && <div>• Tick Size: {pairLimits.tickSize} {quoteSymbol}</div>}
+              </>
+            )}
+            {ticker?.lastPrice && <div>• Last Price: {ticker.lastPrice} {quoteSymbol}</div>}
           </div>
         </div>
       </form>
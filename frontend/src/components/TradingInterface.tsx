@@ -4,14 +4,22 @@ import { useTrading } from '../contexts/TradingContext'
 import OrderBook from './OrderBook'
 import TradingForm from './TradingForm'
 import Balances from './Balances'
+import OpenOrders from './OpenOrders'
+import TradeHistory from './TradeHistory'
+import MarketSelector from './MarketSelector'
 import { RefreshCw } from 'lucide-react'
 
 const TradingInterface: React.FC = () => {
   const { isConnected } = useWallet()
-  const { refreshOrderBook, refreshBalances, isLoading } = useTrading()
+  const { refreshOrderBook, refreshBalances, refreshTradeHistory, selectedMarket, ticker, pairFees, volumeTier, isLoading } = useTrading()
+  const quoteSymbol = selectedMarket.quoteToken.symbol
+
+  const formatFigure = (value: string | null | undefined) =>
+    value == null ? '—' : Number(value).toLocaleString('en-US', { maximumFractionDigits: 4 })
+  const formatPercent = (value: number) => `${value.toLocaleString('en-US', { maximumFractionDigits: 4 })}%`
 
   const handleRefresh = async () => {
-    await Promise.all([refreshOrderBook(), refreshBalances()])
+    await Promise.all([refreshOrderBook(), refreshBalances(), refreshTradeHistory()])
   }
 
   if (!isConnected) {
@@ -39,24 +47,30 @@ const TradingInterface: React.FC = () => {
 
   return (
     <div className="space-y-6">
-      {/* Header with refresh button */}
+      {/* Header with market selector and refresh button */}
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">Trading Interface</h2>
-        <button
-          onClick={handleRefresh}
-          disabled={isLoading}
-          className="btn btn-secondary flex items-center space-x-2"
-        >
-          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
-          <span>Refresh</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <MarketSelector />
+          <button
+            onClick={handleRefresh}
+            disabled={isLoading}
+            className="btn btn-secondary flex items-center space-x-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
       </div>
 
       {/* Main trading layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left column - Order Book */}
         <div className="lg:col-span-1">
-          <OrderBook />
+          <OrderBook
+            baseToken={selectedMarket.baseToken.address}
+            quoteToken={selectedMarket.quoteToken.address}
+          />
         </div>
 
         {/* Center column - Trading Form */}
@@ -70,25 +84,41 @@ const TradingInterface: React.FC = () => {
         </div>
       </div>
 
+      {/* Account activity */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <OpenOrders />
+        <TradeHistory />
+      </div>
+
       {/* Market Information */}
       <div className="card">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Market Information</h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center">
-            <div className="text-2xl font-bold text-green-600">$2,000</div>
-            <div className="text-sm text-gray-600">Current Price</div>
+            <div className="text-2xl font-bold text-green-600">{formatFigure(ticker?.lastPrice)}</div>
+            <div className="text-sm text-gray-600">Last Price ({quoteSymbol})</div>
+            <div className="text-xs text-gray-500">1h TWAP {formatFigure(ticker?.hourlyTwap)}</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-blue-600">24h</div>
-            <div className="text-sm text-gray-600">Change</div>
+            <div className="text-2xl font-bold text-blue-600">
+              {formatFigure(ticker?.high)} / {formatFigure(ticker?.low)}
+            </div>
+            <div className="text-sm text-gray-600">24h High / Low</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-purple-600">$1.2M</div>
-            <div className="text-sm text-gray-600">24h Volume</div>
+            <div className="text-2xl font-bold text-purple-600">{formatFigure(ticker?.quoteVolume)}</div>
+            <div className="text-sm text-gray-600">24h Volume ({quoteSymbol})</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-orange-600">0.05%</div>
-            <div className="text-sm text-gray-600">Trading Fee</div>
+            <div className="text-2xl font-bold text-orange-600">
+              {pairFees ? `${formatPercent(pairFees.makerFeePercent)} / ${formatPercent(pairFees.takerFeePercent)}` : '—'}
+            </div>
+            <div className="text-sm text-gray-600">Maker / Taker Fee</div>
+            {volumeTier && volumeTier.tier > 0 && (
+              <div className="text-xs text-gray-500">
+                Tier {volumeTier.tier} discount {volumeTier.feeDiscountPercent}%
+              </div>
+            )}
           </div>
         </div>
       </div>
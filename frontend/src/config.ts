@@ -15,17 +15,15 @@ interface Config {
   WETH_ADDRESS: string;
   USDC_ADDRESS: string;
   MOCK_PRICE_ORACLE_ADDRESS: string;
+  DEPLOYMENT_BLOCK: number;
+  LOG_QUERY_BLOCK_RANGE: number;
+  TRADE_HISTORY_LOOKBACK_BLOCKS: number;
   NETWORKS: {
     BSC_TESTNET: NetworkConfig;
     HARDHAT_LOCAL: NetworkConfig;
   };
   DEFAULT_NETWORK: string;
-  MIN_ORDER_AMOUNT: string;
-  MAX_ORDER_AMOUNT: string;
-  FEE_RATE: string;
-  MOCK_PRICES: {
-    'WETH/USDC': string;
-  };
+  DEFAULT_SLIPPAGE_PERCENT: string;
 }
 
 const CONFIG: Config = {
@@ -33,6 +31,12 @@ const CONFIG: Config = {
   WETH_ADDRESS: '0xdC858B71EE44CaB1F2c39710aDAb399dA1Fb9659',
   USDC_ADDRESS: '0x82f29E95F5474a1c1364a882a8298572e018c59B',
   MOCK_PRICE_ORACLE_ADDRESS: '0x3AFA4ff8611085b785a7a06dd8CCEFdfbE90B91d',
+  DEPLOYMENT_BLOCK: 61713238,
+
+  // Public RPCs cap eth_getLogs ranges, so event scans are split into chunks
+  // and trade history only looks this far back
+  LOG_QUERY_BLOCK_RANGE: 5000,
+  TRADE_HISTORY_LOOKBACK_BLOCKS: 5000,
   
   NETWORKS: {
     BSC_TESTNET: {
@@ -62,14 +66,7 @@ const CONFIG: Config = {
   DEFAULT_NETWORK: 'BSC_TESTNET',
   
   // Trading configuration
-  MIN_ORDER_AMOUNT: '0.01', // WETH
-  MAX_ORDER_AMOUNT: '100.0', // WETH
-  FEE_RATE: '0.05%', // 5/10000
-  
-  // Mock prices
-  MOCK_PRICES: {
-    'WETH/USDC': '2000'
-  }
+  DEFAULT_SLIPPAGE_PERCENT: '0.5',
 };
 
 export default CONFIG;
@@ -1,29 +1,12 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react'
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode, useCallback } from 'react'
 import { ethers } from 'ethers'
 import { useWallet } from './WalletContext'
 import toast from 'react-hot-toast'
 import CONFIG from '../config'
+import { TradingEngineClient, ERC20_ABI, FEE_DENOMINATOR, TimeInForce, applySlippage, feeReserveFor, quoteAmountFor } from 'allo-trading-sdk'
+import type { FeeSchedule, Order as SdkOrder } from 'allo-trading-sdk'
 
-// Contract ABIs
-const TRADING_ENGINE_ABI = [
-  'function placeLimitOrder(address baseToken, address quoteToken, uint256 amount, uint256 price, bool isBuy) external returns (uint256)',
-  'function placeMarketOrder(address baseToken, address quoteToken, uint256 amount, bool isBuy) external returns (uint256)',
-  'function cancelOrder(uint256 orderId) external',
-  'function getOrderBookStats() external view returns (uint256, uint256, uint256, uint256)',
-  'function isTradingPairAllowed(address baseToken, address quoteToken) external view returns (bool)',
-  'function getOrder(uint256 orderId) external view returns (address, address, address, uint256, uint256, bool, bool, uint256, uint256, uint256)',
-]
-
-const ERC20_ABI = [
-  'function balanceOf(address owner) external view returns (uint256)',
-  'function approve(address spender, uint256 amount) external returns (bool)',
-  'function allowance(address owner, address spender) external view returns (uint256)',
-  'function decimals() external view returns (uint8)',
-  'function symbol() external view returns (string)',
-  'function name() external view returns (string)',
-]
-
-interface Order {
+export interface Order {
   id: number
   trader: string
   baseToken: string
@@ -38,19 +21,105 @@ interface Order {
   filledAmount: string
 }
 
+export interface Trade {
+  id: string
+  buyOrderId: number
+  sellOrderId: number
+  side: 'buy' | 'sell'
+  baseToken: string
+  quoteToken: string
+  amount: string
+  price: string
+  fee: string
+  timestamp: number
+  transactionHash: string
+}
+
+export interface PairOrders {
+  baseToken: string
+  quoteToken: string
+  buyOrders: Order[]
+  sellOrders: Order[]
+}
+
+// Wallet holdings next to the trading account, whose locked part backs open orders
 interface TokenBalance {
   symbol: string
   name: string
-  balance: string
+  walletBalance: string
+  availableBalance: string
+  lockedBalance: string
   decimals: number
   address: string
 }
 
+export interface TokenMetadata {
+  address: string
+  symbol: string
+  decimals: number
+}
+
+export interface Market {
+  key: string
+  baseToken: TokenMetadata
+  quoteToken: TokenMetadata
+}
+
+// Human readable result of walking the book for a market order
+export interface MarketOrderEstimate {
+  averagePrice: string
+  worstPrice: string
+  fillableAmount: string
+}
+
+// Fee discount tier of the connected account, volumes are 30 day quote value in whole units
+export interface VolumeTierStatus {
+  tier: number
+  tierCount: number
+  rollingVolume: string
+  feeDiscountPercent: number
+  // Volume the next tier needs, null in the top tier
+  nextTierVolume: string | null
+}
+
+// Why the selected market takes no new orders: the whole engine is paused, this pair is halted or it is not listed
+export type TradingHalt = 'paused' | 'halted' | 'unlisted' | null
+
+// Order limits of the selected market in whole token units, a null tick or lot size means any
+export interface PairLimits {
+  minOrderAmount: string
+  maxOrderAmount: string
+  tickSize: string | null
+  lotSize: string | null
+}
+
+// Fee rates the connected account pays on the selected market in percent, after its volume tier discount.
+// A negative maker rate is a rebate, which the discount leaves whole
+export interface PairFees {
+  makerFeePercent: number
+  takerFeePercent: number
+}
+
+// Where the selected market has traded, in whole token units. Prices are null before its first trade,
+// and the hourly TWAP until an hour of trades has been recorded
+export interface MarketTicker {
+  lastPrice: string | null
+  high: string | null
+  low: string | null
+  volume: string
+  quoteVolume: string
+  hourlyTwap: string | null
+}
+
+export const getPairKey = (baseToken: string, quoteToken: string) =>
+  `${baseToken.toLowerCase()}-${quoteToken.toLowerCase()}`
+
 interface TradingContextType {
-  // Order book
+  // Order book for the selected market; pairs only holds the pairs loaded so far
   orderBook: {
     buyOrders: Order[]
     sellOrders: Order[]
+    pairs: Record<string, PairOrders>
     stats: {
       totalBuyOrders: number
       totalSellOrders: number
@@ -59,23 +128,73 @@ interface TradingContextType {
     }
   }
   
+  // Open orders and fills of the connected account, newest first
+  userOrders: Order[]
+  tradeHistory: Trade[]
+
   // Balances
   balances: TokenBalance[]
+  volumeTier: VolumeTierStatus | null
+
+  // Metadata of every token seen in the order book, keyed by lowercase address
+  tokens: Record<string, TokenMetadata>
+
+  // Allowed trading pairs and the one the order book, form and balances follow
+  markets: Market[]
+  selectedMarket: Market
+  selectMarket: (key: string) => void
+  tradingHalt: TradingHalt
+  pairLimits: PairLimits | null
+  pairFees: PairFees | null
+  ticker: MarketTicker | null
   
   // Trading functions
-  placeLimitOrder: (baseToken: string, quoteToken: string, amount: string, price: string, isBuy: boolean) => Promise<void>
-  placeMarketOrder: (baseToken: string, quoteToken: string, amount: string, isBuy: boolean) => Promise<void>
+  // expiresAt is a unix timestamp in seconds and only applies to GTT orders
+  placeLimitOrder: (
+    baseToken: string,
+    quoteToken: string,
+    amount: string,
+    price: string,
+    isBuy: boolean,
+    timeInForce?: TimeInForce,
+    expiresAt?: number
+  ) => Promise<void>
+  // Market orders never trade beyond the estimated price moved by slippagePercent
+  placeMarketOrder: (
+    baseToken: string,
+    quoteToken: string,
+    amount: string,
+    isBuy: boolean,
+    slippagePercent: string,
+    allowPartialFill: boolean
+  ) => Promise<void>
+  estimateMarketOrder: (baseToken: string, quoteToken: string, amount: string, isBuy: boolean) => Promise<MarketOrderEstimate>
   cancelOrder: (orderId: number) => Promise<void>
+
+  // Trading account functions, amounts are human readable
+  depositToken: (tokenAddress: string, amount: string) => Promise<void>
+  withdrawToken: (tokenAddress: string, amount: string) => Promise<void>
   
   // Utility functions
   refreshOrderBook: () => Promise<void>
   refreshBalances: () => Promise<void>
+  refreshTradeHistory: () => Promise<void>
+  refreshMarkets: () => Promise<void>
   approveToken: (tokenAddress: string, spenderAddress: string, amount: string) => Promise<void>
   checkTokenAllowance: (tokenAddress: string, spenderAddress: string) => Promise<string>
   
   // Loading states
   isLoading: boolean
   isPlacingOrder: boolean
+  isLoadingTrades: boolean
+  isLoadingMarkets: boolean
+}
+
+// Shown until the allowed pairs have been discovered on-chain
+const DEFAULT_MARKET: Market = {
+  key: getPairKey(CONFIG.WETH_ADDRESS, CONFIG.USDC_ADDRESS),
+  baseToken: { address: CONFIG.WETH_ADDRESS, symbol: 'WETH', decimals: 18 },
+  quoteToken: { address: CONFIG.USDC_ADDRESS, symbol: 'USDC', decimals: 18 },
 }
 
 const TradingContext = createContext<TradingContextType | undefined>(undefined)
@@ -98,6 +217,7 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
   const [orderBook, setOrderBook] = useState<{
     buyOrders: Order[]
     sellOrders: Order[]
+    pairs: Record<string, PairOrders>
     stats: {
       totalBuyOrders: number
       totalSellOrders: number
@@ -107,6 +227,7 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
   }>({
     buyOrders: [],
     sellOrders: [],
+    pairs: {},
     stats: {
       totalBuyOrders: 0,
       totalSellOrders: 0,
@@ -115,18 +236,44 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }
   })
   
+  const [userOrders, setUserOrders] = useState<Order[]>([])
+  const [tradeHistory, setTradeHistory] = useState<Trade[]>([])
   const [balances, setBalances] = useState<TokenBalance[]>([])
+  const [volumeTier, setVolumeTier] = useState<VolumeTierStatus | null>(null)
+  const [tradingHalt, setTradingHalt] = useState<TradingHalt>(null)
+  const [pairLimits, setPairLimits] = useState<PairLimits | null>(null)
+  const [feeSchedule, setFeeSchedule] = useState<FeeSchedule | null>(null)
+  const [ticker, setTicker] = useState<MarketTicker | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [isPlacingOrder, setIsPlacingOrder] = useState(false)
+  const [isLoadingTrades, setIsLoadingTrades] = useState(false)
+  const [markets, setMarkets] = useState<Market[]>([])
+  const [selectedMarketKey, setSelectedMarketKey] = useState(DEFAULT_MARKET.key)
+  const [isLoadingMarkets, setIsLoadingMarkets] = useState(false)
+
+  const selectedMarket = markets.find((market) => market.key === selectedMarketKey) ?? DEFAULT_MARKET
+
+  // Token metadata never changes, so cache it across refreshes
+  const tokenCache = useRef<Record<string, TokenMetadata>>({})
+  const [tokens, setTokens] = useState<Record<string, TokenMetadata>>({})
 
   // Initialize contracts when wallet connects
   useEffect(() => {
     if (isConnected) {
       console.log('Wallet connected, initializing contracts and fetching data...')
+      refreshMarkets()
+      refreshTradeHistory()
+    }
+  }, [isConnected, account])
+
+  // Follow the selected market with the order book and balances
+  useEffect(() => {
+    if (isConnected) {
       refreshOrderBook()
       refreshBalances()
+      refreshMarketStatus()
     }
-  }, [isConnected])
+  }, [isConnected, account, selectedMarket.key])
 
   // Auto-refresh orderbook every 5 seconds when connected
   useEffect(() => {
@@ -137,6 +284,7 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
         // Only refresh if not already loading
         if (!isLoading) {
           await refreshOrderBook()
+          await refreshMarketStatus()
         }
       } catch (error) {
         console.error('Auto-refresh failed:', error)
@@ -145,9 +293,18 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }, 5000) // 5 seconds
 
     return () => clearInterval(interval)
-  }, [isConnected, isLoading])
+  }, [isConnected, isLoading, selectedMarket.key])
 
-  const getContract = (address: string, abi: any) => {
+  const getTradingEngine = () => {
+    if (!signer) {
+      console.error('getTradingEngine: Signer not available')
+      throw new Error('Signer not available')
+    }
+
+    return new TradingEngineClient(CONFIG.TRADING_ENGINE_ADDRESS, signer)
+  }
+
+  const getContract = (address: string, abi: ethers.InterfaceAbi) => {
     if (!signer) {
       console.error('getContract: Signer not available')
       throw new Error('Signer not available')
@@ -184,58 +341,108 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }
   }
 
+  const getTokenMetadata = async (tokenAddress: string) => {
+    const key = tokenAddress.toLowerCase()
+    if (tokenCache.current[key] === undefined) {
+      const contract = getContract(tokenAddress, ERC20_ABI)
+
+      let decimals = 18
+      let symbol = `${tokenAddress.slice(0, 6)}...`
+      try {
+        decimals = Number(await contract.decimals())
+      } catch (error) {
+        console.warn(`Failed to get decimals for token ${tokenAddress}, using default 18:`, error)
+      }
+      try {
+        symbol = await contract.symbol()
+      } catch (error) {
+        console.warn(`Failed to get symbol for token ${tokenAddress}, using fallback:`, error)
+      }
+
+      tokenCache.current[key] = { address: tokenAddress, symbol, decimals }
+    }
+    return tokenCache.current[key]
+  }
+
+  const formatOrder = async (order: SdkOrder): Promise<Order> => {
+    const [{ decimals: baseDecimals }, { decimals: quoteDecimals }] = await Promise.all([
+      getTokenMetadata(order.baseToken),
+      getTokenMetadata(order.quoteToken),
+    ])
+
+    return {
+      id: Number(order.id),
+      trader: order.trader,
+      baseToken: order.baseToken,
+      quoteToken: order.quoteToken,
+      amount: ethers.formatUnits(order.amount, baseDecimals),
+      price: ethers.formatUnits(order.price, quoteDecimals),
+      isBuy: order.isBuy,
+      isMarketOrder: order.isMarketOrder,
+      timestamp: Number(order.timestamp) * 1000,
+      isActive: order.isActive,
+      quoteAmount: ethers.formatUnits(order.quoteAmount, quoteDecimals),
+      filledAmount: ethers.formatUnits(order.filledAmount, baseDecimals),
+    }
+  }
+
+  const groupOrdersByPair = (orders: Order[]) => {
+    const pairs: Record<string, PairOrders> = {}
+
+    for (const order of orders) {
+      const key = getPairKey(order.baseToken, order.quoteToken)
+      if (!pairs[key]) {
+        pairs[key] = {
+          baseToken: order.baseToken,
+          quoteToken: order.quoteToken,
+          buyOrders: [],
+          sellOrders: [],
+        }
+      }
+      if (order.isBuy) {
+        pairs[key].buyOrders.push(order)
+      } else {
+        pairs[key].sellOrders.push(order)
+      }
+    }
+
+    // Best prices first: highest bid, lowest ask, oldest order wins ties
+    for (const pair of Object.values(pairs)) {
+      pair.buyOrders.sort((a, b) => parseFloat(b.price) - parseFloat(a.price) || a.timestamp - b.timestamp)
+      pair.sellOrders.sort((a, b) => parseFloat(a.price) - parseFloat(b.price) || a.timestamp - b.timestamp)
+    }
+
+    return pairs
+  }
+
   const refreshOrderBook = async () => {
     if (!isConnected) return
 
     setIsLoading(true)
     try {
-      const tradingEngine = getContract(CONFIG.TRADING_ENGINE_ADDRESS, TRADING_ENGINE_ABI)
-      const stats = await tradingEngine.getOrderBookStats()
-      
-      // For now, we'll use mock data since the contract doesn't have a getOrderBook function
-      // In a real implementation, you'd fetch actual orders from the contract
-      const mockBuyOrders: Order[] = [
-        {
-          id: 1,
-          trader: '0x1234...',
-          baseToken: CONFIG.WETH_ADDRESS,
-          quoteToken: CONFIG.USDC_ADDRESS,
-          amount: '0.5',
-          price: '2000',
-          isBuy: true,
-          isMarketOrder: false,
-          timestamp: Date.now() - 1000000,
-          isActive: true,
-          quoteAmount: '1000',
-          filledAmount: '0',
-        }
-      ]
-      
-      const mockSellOrders: Order[] = [
-        {
-          id: 2,
-          trader: '0x5678...',
-          baseToken: CONFIG.WETH_ADDRESS,
-          quoteToken: CONFIG.USDC_ADDRESS,
-          amount: '0.3',
-          price: '2005',
-          isBuy: false,
-          isMarketOrder: false,
-          timestamp: Date.now() - 500000,
-          isActive: true,
-          quoteAmount: '601.5',
-          filledAmount: '0',
-        }
-      ]
+      const tradingEngine = getTradingEngine()
+      const { baseToken, quoteToken } = selectedMarket
+      const [stats, pairOrders, openOrders] = await Promise.all([
+        tradingEngine.getPairOrderBookStats(baseToken.address, quoteToken.address),
+        tradingEngine.getPairActiveOrders(baseToken.address, quoteToken.address),
+        account ? tradingEngine.getTraderOpenOrders(account) : Promise.resolve([]),
+      ])
+
+      const pairs = groupOrdersByPair(await Promise.all(pairOrders.map(formatOrder)))
+      const selectedPair = pairs[selectedMarket.key]
+      const myOrders = await Promise.all(openOrders.map(formatOrder))
 
+      setTokens({ ...tokenCache.current })
+      setUserOrders(myOrders.sort((a, b) => b.timestamp - a.timestamp))
       setOrderBook({
-        buyOrders: mockBuyOrders,
-        sellOrders: mockSellOrders,
+        buyOrders: selectedPair?.buyOrders ?? [],
+        sellOrders: selectedPair?.sellOrders ?? [],
+        pairs,
         stats: {
-          totalBuyOrders: Number(stats[2]),
-          totalSellOrders: Number(stats[3]),
-          activeBuyOrders: Number(stats[0]),
-          activeSellOrders: Number(stats[1]),
+          totalBuyOrders: Number(stats.totalBuyOrders),
+          totalSellOrders: Number(stats.totalSellOrders),
+          activeBuyOrders: Number(stats.activeBuyOrders),
+          activeSellOrders: Number(stats.activeSellOrders),
         }
       })
     } catch (error) {
@@ -246,16 +453,153 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }
   }
 
+  const refreshMarkets = async () => {
+    if (!isConnected) return
+
+    setIsLoadingMarkets(true)
+    try {
+      const tradingEngine = getTradingEngine()
+      const pairs = await tradingEngine.getAllowedTradingPairs(
+        CONFIG.DEPLOYMENT_BLOCK,
+        undefined,
+        CONFIG.LOG_QUERY_BLOCK_RANGE
+      )
+
+      const discovered = await Promise.all(
+        pairs.map(async ({ baseToken, quoteToken }): Promise<Market> => ({
+          key: getPairKey(baseToken, quoteToken),
+          baseToken: await getTokenMetadata(baseToken),
+          quoteToken: await getTokenMetadata(quoteToken),
+        }))
+      )
+
+      setTokens({ ...tokenCache.current })
+      setMarkets(discovered)
+      if (discovered.length > 0 && !discovered.some((market) => market.key === selectedMarketKey)) {
+        setSelectedMarketKey(discovered[0].key)
+      }
+    } catch (error) {
+      console.error('Error discovering markets:', error)
+      toast.error('Failed to load trading pairs')
+    } finally {
+      setIsLoadingMarkets(false)
+    }
+  }
+
+  const selectMarket = (key: string) => {
+    setSelectedMarketKey(key.toLowerCase())
+  }
+
+  const refreshTradeHistory = async () => {
+    if (!isConnected || !provider || !account) return
+
+    setIsLoadingTrades(true)
+    try {
+      const tradingEngine = getTradingEngine()
+      const latestBlock = await provider.getBlockNumber()
+      const fromBlock = Math.max(CONFIG.DEPLOYMENT_BLOCK, latestBlock - CONFIG.TRADE_HISTORY_LOOKBACK_BLOCKS)
+      const matches = fromBlock > latestBlock ? [] : await tradingEngine.queryEvents('OrderMatched', fromBlock, latestBlock)
+
+      // OrderMatched only carries order ids, so load both sides to find the traders and pair
+      const orderIds = new Set<bigint>()
+      for (const match of matches) {
+        orderIds.add(match.args.buyOrderId)
+        orderIds.add(match.args.sellOrderId)
+      }
+      const fetched = await tradingEngine.getOrders([...orderIds])
+      const orders = new Map(
+        await Promise.all(fetched.map(async (order) => [order.id, await formatOrder(order)] as const))
+      )
+
+      const me = account.toLowerCase()
+      const myMatches = matches.filter((match) =>
+        orders.get(match.args.buyOrderId)!.trader.toLowerCase() === me ||
+        orders.get(match.args.sellOrderId)!.trader.toLowerCase() === me
+      )
+
+      const blockNumbers = [...new Set(myMatches.map((match) => match.blockNumber))]
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)))
+      const timestamps = new Map(blocks.map((block, i) => [blockNumbers[i], (block?.timestamp ?? 0) * 1000]))
+
+      const trades = myMatches.map((match): Trade => {
+        const buyOrder = orders.get(match.args.buyOrderId)!
+        const isBuyer = buyOrder.trader.toLowerCase() === me
+        const { decimals: baseDecimals } = tokenCache.current[buyOrder.baseToken.toLowerCase()]
+        const { decimals: quoteDecimals } = tokenCache.current[buyOrder.quoteToken.toLowerCase()]
+
+        return {
+          id: `${match.transactionHash}-${match.logIndex}`,
+          buyOrderId: Number(match.args.buyOrderId),
+          sellOrderId: Number(match.args.sellOrderId),
+          side: isBuyer ? 'buy' : 'sell',
+          baseToken: buyOrder.baseToken,
+          quoteToken: buyOrder.quoteToken,
+          amount: ethers.formatUnits(match.args.amount, baseDecimals),
+          price: ethers.formatUnits(match.args.price, quoteDecimals),
+          // Negative when this side was a maker that earned a rebate
+          fee: ethers.formatUnits(isBuyer ? match.args.buyerFee : match.args.sellerFee, quoteDecimals),
+          timestamp: timestamps.get(match.blockNumber) ?? 0,
+          transactionHash: match.transactionHash,
+        }
+      })
+
+      setTokens({ ...tokenCache.current })
+      setTradeHistory(trades.reverse())
+    } catch (error) {
+      console.error('Error refreshing trade history:', error)
+      toast.error('Failed to load trade history')
+    } finally {
+      setIsLoadingTrades(false)
+    }
+  }
+
+  const refreshMarketStatus = async () => {
+    try {
+      const tradingEngine = getTradingEngine()
+      const { baseToken, quoteToken } = selectedMarket
+      const [isPaused, isHalted, config, schedule, marketTicker, hourlyTwap] = await Promise.all([
+        tradingEngine.isPaused(),
+        tradingEngine.isPairHalted(baseToken.address, quoteToken.address),
+        tradingEngine.getPairConfig(baseToken.address, quoteToken.address),
+        tradingEngine.getFeeSchedule(baseToken.address, quoteToken.address),
+        tradingEngine.getTicker(baseToken.address, quoteToken.address),
+        // Reverts until the recorded trades cover the whole hour
+        tradingEngine.getTwap(baseToken.address, quoteToken.address, 3600).catch(() => null),
+      ])
+      setTradingHalt(isPaused ? 'paused' : isHalted ? 'halted' : !config.enabled ? 'unlisted' : null)
+      // Order sizes are whole base tokens with 18 decimals whatever the token's own decimals
+      setPairLimits({
+        minOrderAmount: ethers.formatUnits(config.minOrderAmount, 18),
+        maxOrderAmount: ethers.formatUnits(config.maxOrderAmount, 18),
+        tickSize: config.tickSize > 0n ? ethers.formatUnits(config.tickSize, quoteToken.decimals) : null,
+        lotSize: config.lotSize > 0n ? ethers.formatUnits(config.lotSize, 18) : null,
+      })
+      setFeeSchedule(schedule)
+      const formatPrice = (price: bigint) => (price > 0n ? ethers.formatUnits(price, quoteToken.decimals) : null)
+      setTicker({
+        lastPrice: formatPrice(marketTicker.lastPrice),
+        high: formatPrice(marketTicker.high),
+        low: formatPrice(marketTicker.low),
+        volume: ethers.formatUnits(marketTicker.volume, baseToken.decimals),
+        quoteVolume: ethers.formatUnits(marketTicker.quoteVolume, quoteToken.decimals),
+        hourlyTwap: hourlyTwap === null ? null : formatPrice(hourlyTwap),
+      })
+    } catch (error) {
+      console.error('Error refreshing trading status:', error)
+    }
+  }
+
   const refreshBalances = async () => {
     if (!isConnected || !provider) return
 
     console.log('Starting balance refresh...', { account, provider: !!provider })
 
     try {
-      const tokens = [
-        { address: CONFIG.WETH_ADDRESS, symbol: 'WETH', name: 'Wrapped Ether' },
-        { address: CONFIG.USDC_ADDRESS, symbol: 'USDC', name: 'USD Coin' },
-      ]
+      const tokens = [selectedMarket.baseToken, selectedMarket.quoteToken].map((token) => ({
+        address: token.address,
+        symbol: token.symbol,
+        name: token.symbol,
+      }))
 
       console.log('Token addresses to check:', tokens.map(t => ({ symbol: t.symbol, address: t.address })))
 
@@ -264,9 +608,18 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
           console.log(`Fetching balance for ${token.symbol} at ${token.address}...`)
           const contract = getContract(token.address, ERC20_ABI)
           
-          // Get balance first - this is the most important call
-          const balance = await contract.balanceOf(account)
-          console.log(`${token.symbol} raw balance:`, balance.toString())
+          // Get balances first - these are the most important calls
+          const tradingEngine = getTradingEngine()
+          const [walletBalance, availableBalance, lockedBalance] = await Promise.all([
+            contract.balanceOf(account),
+            tradingEngine.getUserBalance(account!, token.address),
+            tradingEngine.getLockedBalance(account!, token.address),
+          ])
+          console.log(`${token.symbol} raw balances:`, {
+            wallet: walletBalance.toString(),
+            available: availableBalance.toString(),
+            locked: lockedBalance.toString(),
+          })
           
           // Try to get token metadata, with fallbacks
           let decimals = 18
@@ -294,13 +647,12 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
             console.warn(`Failed to get name for ${token.symbol}, using fallback:`, error)
           }
 
-          const formattedBalance = ethers.formatUnits(balance, decimals)
-          console.log(`${token.symbol} formatted balance:`, formattedBalance)
-
           return {
             symbol,
             name,
-            balance: formattedBalance,
+            walletBalance: ethers.formatUnits(walletBalance, decimals),
+            availableBalance: ethers.formatUnits(availableBalance, decimals),
+            lockedBalance: ethers.formatUnits(lockedBalance, decimals),
             decimals,
             address: token.address,
           }
@@ -310,7 +662,9 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
           return {
             symbol: token.symbol,
             name: token.name,
-            balance: '0',
+            walletBalance: '0',
+            availableBalance: '0',
+            lockedBalance: '0',
             decimals: 18,
             address: token.address,
           }
@@ -327,6 +681,29 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
       console.error('Error refreshing balances:', error)
       toast.error('Failed to refresh balances')
     }
+
+    // Fills move the account's volume, so the tier follows the balances
+    await refreshVolumeTier()
+  }
+
+  const refreshVolumeTier = async () => {
+    try {
+      const tradingEngine = getTradingEngine()
+      const [tiers, status] = await Promise.all([
+        tradingEngine.getVolumeTiers(),
+        tradingEngine.getTraderVolumeTier(account!),
+      ])
+      setVolumeTier({
+        tier: Number(status.tier),
+        tierCount: tiers.length,
+        rollingVolume: ethers.formatUnits(status.rollingVolume, 18),
+        feeDiscountPercent: Number(status.feeDiscount) / 100,
+        nextTierVolume: Number(status.tier) < tiers.length ? ethers.formatUnits(status.nextTierVolume, 18) : null,
+      })
+    } catch (error) {
+      console.error('Error refreshing volume tier:', error)
+      setVolumeTier(null)
+    }
   }
 
   const approveToken = async (tokenAddress: string, spenderAddress: string, amount: string) => {
@@ -375,13 +752,77 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }
   }
 
-  const placeLimitOrder = async (baseToken: string, quoteToken: string, amount: string, price: string, isBuy: boolean) => {
+  // Orders lock from the available balance, so say how much is missing before sending a doomed transaction
+  const requireAvailableBalance = async (token: string, amount: bigint) => {
+    const { symbol, decimals } = await getTokenMetadata(token)
+    const available = await getTradingEngine().getUserBalance(account!, token)
+    if (available < amount) {
+      throw new Error(`Insufficient available ${symbol}: deposit ${ethers.formatUnits(amount - available, decimals)} more first`)
+    }
+  }
+
+  // Buys also lock a reserve for the highest fee the pair could charge them
+  const withFeeReserve = async (baseToken: string, quoteToken: string, quoteAmount: bigint) => {
+    const { makerFeeRate, takerFeeRate } = await getTradingEngine().getFeeSchedule(baseToken, quoteToken)
+    return quoteAmount + feeReserveFor(quoteAmount, makerFeeRate, takerFeeRate)
+  }
+
+  const depositToken = async (tokenAddress: string, amount: string) => {
+    if (!isConnected) throw new Error('Wallet not connected')
+
+    try {
+      const { decimals } = await getTokenMetadata(tokenAddress)
+      const amountWei = ethers.parseUnits(amount, decimals)
+
+      const allowance = await getContract(tokenAddress, ERC20_ABI).allowance(account, CONFIG.TRADING_ENGINE_ADDRESS)
+      if (allowance < amountWei) {
+        await approveToken(tokenAddress, CONFIG.TRADING_ENGINE_ADDRESS, amount)
+      }
+
+      const tx = await getTradingEngine().deposit(tokenAddress, amountWei)
+      await tx.wait()
+
+      toast.success('Deposit successful!')
+      await refreshBalances()
+    } catch (error: any) {
+      console.error('Error depositing token:', error)
+      toast.error(error.message || 'Failed to deposit')
+      throw error
+    }
+  }
+
+  const withdrawToken = async (tokenAddress: string, amount: string) => {
+    if (!isConnected) throw new Error('Wallet not connected')
+
+    try {
+      const { decimals } = await getTokenMetadata(tokenAddress)
+      const tx = await getTradingEngine().withdrawBalance(tokenAddress, ethers.parseUnits(amount, decimals))
+      await tx.wait()
+
+      toast.success('Withdrawal successful!')
+      await refreshBalances()
+    } catch (error: any) {
+      console.error('Error withdrawing token:', error)
+      toast.error(error.message || 'Failed to withdraw')
+      throw error
+    }
+  }
+
+  const placeLimitOrder = async (
+    baseToken: string,
+    quoteToken: string,
+    amount: string,
+    price: string,
+    isBuy: boolean,
+    timeInForce?: TimeInForce,
+    expiresAt?: number
+  ) => {
     if (!isConnected) throw new Error('Wallet not connected')
 
     setIsPlacingOrder(true)
     try {
       // Check if trading pair is allowed
-      const tradingEngine = getContract(CONFIG.TRADING_ENGINE_ADDRESS, TRADING_ENGINE_ABI)
+      const tradingEngine = getTradingEngine()
       const isAllowed = await tradingEngine.isTradingPairAllowed(baseToken, quoteToken)
       
       if (!isAllowed) {
@@ -389,30 +830,38 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
       }
 
       // Get token decimals
-      const baseTokenContract = getContract(baseToken, ERC20_ABI)
-      const quoteTokenContract = getContract(quoteToken, ERC20_ABI)
-      const [baseDecimals, quoteDecimals] = await Promise.all([
-        baseTokenContract.decimals(),
-        quoteTokenContract.decimals(),
+      const [{ decimals: baseDecimals }, { decimals: quoteDecimals }] = await Promise.all([
+        getTokenMetadata(baseToken),
+        getTokenMetadata(quoteToken),
       ])
 
       // Parse amounts
       const amountWei = ethers.parseUnits(amount, baseDecimals)
       const priceWei = ethers.parseUnits(price, quoteDecimals)
 
-      // Check if user has approved the trading engine
-      const allowance = await baseTokenContract.allowance(account, CONFIG.TRADING_ENGINE_ADDRESS)
-      if (allowance < amountWei) {
-        await approveToken(baseToken, CONFIG.TRADING_ENGINE_ADDRESS, amount)
+      // Buys lock quote tokens at the limit price plus the fee reserve, sells lock the base amount
+      if (isBuy) {
+        await requireAvailableBalance(quoteToken, await withFeeReserve(baseToken, quoteToken, quoteAmountFor(amountWei, priceWei, baseDecimals)))
+      } else {
+        await requireAvailableBalance(baseToken, amountWei)
       }
 
       // Place the order
-      const tx = await tradingEngine.placeLimitOrder(baseToken, quoteToken, amountWei, priceWei, isBuy)
+      const tx = await tradingEngine.placeLimitOrder({
+        baseToken,
+        quoteToken,
+        amount: amountWei,
+        price: priceWei,
+        isBuy,
+        timeInForce,
+        expiresAt: expiresAt === undefined ? undefined : BigInt(expiresAt),
+      })
       await tx.wait()
 
       toast.success('Limit order placed successfully!')
       await refreshOrderBook()
       await refreshBalances()
+      await refreshTradeHistory()
     } catch (error: any) {
       console.error('Error placing limit order:', error)
       toast.error(error.message || 'Failed to place limit order')
@@ -422,13 +871,41 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }
   }
 
-  const placeMarketOrder = async (baseToken: string, quoteToken: string, amount: string, isBuy: boolean) => {
+  const estimateMarketOrder = async (baseToken: string, quoteToken: string, amount: string, isBuy: boolean) => {
+    const tradingEngine = getTradingEngine()
+    const [{ decimals: baseDecimals }, { decimals: quoteDecimals }] = await Promise.all([
+      getTokenMetadata(baseToken),
+      getTokenMetadata(quoteToken),
+    ])
+
+    const estimate = await tradingEngine.estimateMarketOrder(
+      baseToken,
+      quoteToken,
+      ethers.parseUnits(amount, baseDecimals),
+      isBuy
+    )
+
+    return {
+      averagePrice: ethers.formatUnits(estimate.averagePrice, quoteDecimals),
+      worstPrice: ethers.formatUnits(estimate.worstPrice, quoteDecimals),
+      fillableAmount: ethers.formatUnits(estimate.fillableAmount, baseDecimals),
+    }
+  }
+
+  const placeMarketOrder = async (
+    baseToken: string,
+    quoteToken: string,
+    amount: string,
+    isBuy: boolean,
+    slippagePercent: string,
+    allowPartialFill: boolean
+  ) => {
     if (!isConnected) throw new Error('Wallet not connected')
 
     setIsPlacingOrder(true)
     try {
       // Check if trading pair is allowed
-      const tradingEngine = getContract(CONFIG.TRADING_ENGINE_ADDRESS, TRADING_ENGINE_ABI)
+      const tradingEngine = getTradingEngine()
       const isAllowed = await tradingEngine.isTradingPairAllowed(baseToken, quoteToken)
       
       if (!isAllowed) {
@@ -436,25 +913,38 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
       }
 
       // Get token decimals
-      const baseTokenContract = getContract(baseToken, ERC20_ABI)
-      const baseDecimals = await baseTokenContract.decimals()
+      const { decimals: baseDecimals } = await getTokenMetadata(baseToken)
 
       // Parse amounts
       const amountWei = ethers.parseUnits(amount, baseDecimals)
 
-      // Check if user has approved the trading engine
-      const allowance = await baseTokenContract.allowance(account, CONFIG.TRADING_ENGINE_ADDRESS)
-      if (allowance < amountWei) {
-        await approveToken(baseToken, CONFIG.TRADING_ENGINE_ADDRESS, amount)
+      // Cap the price at the estimate moved by the slippage tolerance, in basis points
+      const estimate = await tradingEngine.estimateMarketOrder(baseToken, quoteToken, amountWei, isBuy)
+      const slippageBps = BigInt(Math.round(parseFloat(slippagePercent) * 100))
+      const worstPrice = applySlippage(estimate.worstPrice, slippageBps, isBuy)
+
+      // Buys lock quote tokens at the worst price plus the fee reserve, sells lock the base amount
+      if (isBuy) {
+        await requireAvailableBalance(quoteToken, await withFeeReserve(baseToken, quoteToken, quoteAmountFor(amountWei, worstPrice, baseDecimals)))
+      } else {
+        await requireAvailableBalance(baseToken, amountWei)
       }
 
       // Place the order
-      const tx = await tradingEngine.placeMarketOrder(baseToken, quoteToken, amountWei, isBuy)
+      const tx = await tradingEngine.placeMarketOrderWithSlippage({
+        baseToken,
+        quoteToken,
+        amount: amountWei,
+        isBuy,
+        worstPrice,
+        allowPartialFill,
+      })
       await tx.wait()
 
       toast.success('Market order placed successfully!')
       await refreshOrderBook()
       await refreshBalances()
+      await refreshTradeHistory()
     } catch (error: any) {
       console.error('Error placing market order:', error)
       toast.error(error.message || 'Failed to place market order')
@@ -468,8 +958,7 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     if (!isConnected) throw new Error('Wallet not connected')
 
     try {
-      const tradingEngine = getContract(CONFIG.TRADING_ENGINE_ADDRESS, TRADING_ENGINE_ABI)
-      const tx = await tradingEngine.cancelOrder(orderId)
+      const tx = await getTradingEngine().cancelOrder(BigInt(orderId))
       await tx.wait()
 
       toast.success('Order cancelled successfully!')
@@ -482,18 +971,46 @@ export const TradingProvider: React.FC<TradingProviderProps> = ({ children }) =>
     }
   }
 
+  // The engine takes the tier discount off fees but pays rebates in full
+  const toFeePercent = (rate: bigint) => {
+    const percent = (Number(rate) * 100) / Number(FEE_DENOMINATOR)
+    return rate > 0n ? percent * (1 - (volumeTier?.feeDiscountPercent ?? 0) / 100) : percent
+  }
+  const pairFees: PairFees | null = feeSchedule && {
+    makerFeePercent: toFeePercent(feeSchedule.makerFeeRate),
+    takerFeePercent: toFeePercent(feeSchedule.takerFeeRate),
+  }
+
   const value: TradingContextType = {
     orderBook,
+    userOrders,
+    tradeHistory,
     balances,
+    volumeTier,
+    tokens,
+    markets,
+    selectedMarket,
+    selectMarket,
+    tradingHalt,
+    pairLimits,
+    pairFees,
+    ticker,
     placeLimitOrder,
     placeMarketOrder,
+    estimateMarketOrder,
     cancelOrder,
+    depositToken,
+    withdrawToken,
     refreshOrderBook,
     refreshBalances,
+    refreshTradeHistory,
+    refreshMarkets,
     approveToken,
     checkTokenAllowance,
     isLoading,
     isPlacingOrder,
+    isLoadingTrades,
+    isLoadingMarkets,
   }
 
   return (
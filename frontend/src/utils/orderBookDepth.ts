@@ -0,0 +1,92 @@
+import { Order } from '../contexts/TradingContext'
+
+export interface PriceLevel {
+  price: number
+  size: number
+  total: number
+  cumulativeSize: number
+  orderCount: number
+}
+
+export interface OrderBookDepth {
+  bids: PriceLevel[]
+  asks: PriceLevel[]
+  bestBid: number | null
+  bestAsk: number | null
+  spread: number | null
+  midPrice: number | null
+  maxCumulativeSize: number
+}
+
+export const TICK_SIZES = [0.01, 0.1, 1, 10, 100]
+
+const remainingSize = (order: Order) => parseFloat(order.amount) - parseFloat(order.filledAmount)
+
+// Bids round down and asks round up so a level never shows a better price than its orders
+const toTick = (price: number, tickSize: number, isBuy: boolean) => {
+  const ticks = price / tickSize
+  // Guard against floating point noise such as 2000.0000001 / 0.01
+  const rounded = Math.round(ticks)
+  const snapped = Math.abs(ticks - rounded) < 1e-9 ? rounded : isBuy ? Math.floor(ticks) : Math.ceil(ticks)
+  return Number((snapped * tickSize).toFixed(8))
+}
+
+const isResting = (order: Order) => order.isActive && remainingSize(order) > 0
+
+const bestPrice = (orders: Order[], isBuy: boolean) => {
+  const prices = orders.filter(isResting).map((order) => parseFloat(order.price))
+  if (prices.length === 0) return null
+  return isBuy ? Math.max(...prices) : Math.min(...prices)
+}
+
+const aggregateSide = (orders: Order[], tickSize: number, isBuy: boolean): PriceLevel[] => {
+  const levels = new Map<number, PriceLevel>()
+
+  for (const order of orders.filter(isResting)) {
+    const size = remainingSize(order)
+    const price = toTick(parseFloat(order.price), tickSize, isBuy)
+    const level = levels.get(price) ?? { price, size: 0, total: 0, cumulativeSize: 0, orderCount: 0 }
+    level.size += size
+    level.total += size * price
+    level.orderCount++
+    levels.set(price, level)
+  }
+
+  const sorted = [...levels.values()].sort((a, b) => (isBuy ? b.price - a.price : a.price - b.price))
+
+  let cumulativeSize = 0
+  for (const level of sorted) {
+    cumulativeSize += level.size
+    level.cumulativeSize = cumulativeSize
+  }
+
+  return sorted
+}
+
+export const aggregateDepth = (
+  buyOrders: Order[],
+  sellOrders: Order[],
+  tickSize: number,
+  maxLevels = 10
+): OrderBookDepth => {
+  const bids = aggregateSide(buyOrders, tickSize, true).slice(0, maxLevels)
+  const asks = aggregateSide(sellOrders, tickSize, false).slice(0, maxLevels)
+
+  // Spread and mid use exact order prices rather than the rounded levels
+  const bestBid = bestPrice(buyOrders, true)
+  const bestAsk = bestPrice(sellOrders, false)
+  const hasBothSides = bestBid !== null && bestAsk !== null
+
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    spread: hasBothSides ? bestAsk - bestBid : null,
+    midPrice: hasBothSides ? (bestAsk + bestBid) / 2 : null,
+    maxCumulativeSize: Math.max(
+      bids.length > 0 ? bids[bids.length - 1].cumulativeSize : 0,
+      asks.length > 0 ? asks[asks.length - 1].cumulativeSize : 0
+    ),
+  }
+}
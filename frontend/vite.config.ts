@@ -7,11 +7,17 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      'allo-trading-sdk': path.resolve(__dirname, '../sdk/src'),
     },
+    // The SDK lives outside this package, make sure it shares our copy of ethers
+    dedupe: ['ethers'],
   },
   server: {
     port: 3000,
     open: true,
+    fs: {
+      allow: ['..'],
+    },
   },
   build: {
     outDir: 'dist',
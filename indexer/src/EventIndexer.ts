@@ -0,0 +1,215 @@
+import type { Log, Provider } from "ethers";
+import { parseTradingEngineLog, tradingEngineInterface } from "../../sdk/src";
+import type { TradingEngineEvent } from "../../sdk/src";
+import { IndexerStore } from "./store";
+
+export interface EventIndexerOptions {
+  /** First block to index when the store is empty. */
+  startBlock?: number;
+  /** Maximum block range requested per eth_getLogs call. */
+  batchSize?: number;
+  /** Blocks behind the head to stay, trading latency for fewer reorgs. */
+  confirmations?: number;
+  /** How many indexed blocks to compare against the chain when looking for a reorg. */
+  reorgDepth?: number;
+}
+
+const INDEXED_EVENTS = ["OrderPlaced", "OrderMatched", "OrderCancelled", "OrderExpired", "FeeCollected", "RebatePaid"];
+
+/**
+ * Replays TradingEngine events into an IndexerStore.
+ *
+ * Every block that produced events (and the last block of each batch) is stored with its hash.
+ * Before each sync those hashes are compared against the chain, and anything indexed after
+ * the newest block that still matches is rolled back and replayed.
+ */
+export class EventIndexer {
+  private readonly provider: Provider;
+  private readonly address: string;
+  private readonly store: IndexerStore;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+  private timer?: NodeJS.Timeout;
+  private syncing?: Promise<number>;
+
+  constructor(provider: Provider, address: string, store: IndexerStore, options: EventIndexerOptions = {}) {
+    this.provider = provider;
+    this.address = address;
+    this.store = store;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 64;
+  }
+
+  /** Indexes up to the current head and returns the last indexed block. */
+  async sync(): Promise<number> {
+    // Never run two syncs at once, callers share the in-flight one instead
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /** Polls for new blocks every `intervalMs` until stop() is called. */
+  start(intervalMs = 5000, onError: (error: unknown) => void = console.error): void {
+    this.stop();
+    const tick = () => {
+      this.sync()
+        .catch(onError)
+        .finally(() => {
+          if (this.timer) {
+            this.timer = setTimeout(tick, intervalMs);
+          }
+        });
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async runSync(): Promise<number> {
+    await this.handleReorg();
+
+    const lastIndexed = this.store.getLastIndexedBlock();
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    let fromBlock = lastIndexed === null ? this.startBlock : lastIndexed + 1;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, head);
+      await this.indexRange(fromBlock, toBlock);
+      fromBlock = toBlock + 1;
+    }
+
+    this.store.save();
+    return this.store.getLastIndexedBlock() ?? this.startBlock - 1;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<void> {
+    const topics = INDEXED_EVENTS.map((name) => tradingEngineInterface.getEvent(name)!.topicHash);
+    const logs = await this.provider.getLogs({ address: this.address, fromBlock, toBlock, topics: [topics] });
+
+    const blockNumbers = new Set<number>(logs.map((log) => log.blockNumber));
+    blockNumbers.add(toBlock);
+    const blocks = await Promise.all([...blockNumbers].map((blockNumber) => this.provider.getBlock(blockNumber)));
+
+    const hashes = new Map<number, string>();
+    for (const block of blocks) {
+      if (!block || !block.hash) {
+        throw new Error("Block not available, the chain head probably moved during sync");
+      }
+      hashes.set(block.number, block.hash);
+    }
+
+    // A log whose block hash differs from the block we just fetched means a reorg mid-batch
+    for (const log of logs) {
+      if (hashes.get(log.blockNumber) !== log.blockHash) {
+        throw new Error(`Reorg detected while indexing block ${log.blockNumber}, retry the sync`);
+      }
+    }
+
+    const sorted = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    this.store.transaction(() => {
+      for (const block of blocks) {
+        this.store.saveBlock({ number: block!.number, hash: block!.hash!, timestamp: block!.timestamp });
+      }
+      for (const log of sorted) {
+        const event = parseTradingEngineLog(log);
+        if (event) {
+          this.applyEvent(event, log);
+        }
+      }
+      this.store.setLastIndexedBlock(toBlock);
+    });
+  }
+
+  private applyEvent(event: TradingEngineEvent, log: Log): void {
+    switch (event.name) {
+      case "OrderPlaced":
+        this.store.insertOrder({
+          orderId: event.args.orderId,
+          trader: event.args.trader,
+          baseToken: event.args.baseToken,
+          quoteToken: event.args.quoteToken,
+          amount: event.args.amount,
+          price: event.args.price,
+          isBuy: event.args.isBuy,
+          isMarketOrder: event.args.isMarketOrder,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        });
+        break;
+      case "OrderMatched":
+        this.store.insertFill({
+          buyOrderId: event.args.buyOrderId,
+          sellOrderId: event.args.sellOrderId,
+          amount: event.args.amount,
+          price: event.args.price,
+          buyerFee: event.args.buyerFee,
+          sellerFee: event.args.sellerFee,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+        });
+        break;
+      case "OrderCancelled":
+        this.store.insertCancellation(event.args.orderId, log.blockNumber, log.transactionHash);
+        break;
+      case "OrderExpired":
+        this.store.insertExpiration(event.args.orderId, log.blockNumber, log.transactionHash);
+        break;
+      case "FeeCollected":
+        this.store.insertFee({
+          orderId: event.args.orderId,
+          payer: event.args.payer,
+          token: event.args.token,
+          amount: event.args.amount,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+        });
+        break;
+      case "RebatePaid":
+        this.store.insertFee({
+          orderId: event.args.orderId,
+          payer: event.args.trader,
+          token: event.args.token,
+          amount: -event.args.amount,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+        });
+        break;
+    }
+  }
+
+  private async handleReorg(): Promise<void> {
+    const recent = this.store.getRecentBlocks(this.reorgDepth);
+    if (recent.length === 0) {
+      return;
+    }
+
+    for (const [i, stored] of recent.entries()) {
+      const block = await this.provider.getBlock(stored.number);
+      if (block && block.hash === stored.hash) {
+        if (i > 0) {
+          this.store.rollback(stored.number);
+        }
+        return;
+      }
+    }
+
+    // Nothing in the window matches, start over from just before the oldest block we know
+    this.store.rollback(recent[recent.length - 1].number - 1);
+  }
+}
@@ -0,0 +1,12 @@
+export { EventIndexer } from "./EventIndexer";
+export type { EventIndexerOptions } from "./EventIndexer";
+export { IndexerStore } from "./store";
+export type {
+  OrderStatus,
+  IndexedOrder,
+  IndexedFill,
+  IndexedFee,
+  IndexedBlock,
+  OrderFilter,
+  FillFilter,
+} from "./store";
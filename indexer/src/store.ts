@@ -0,0 +1,492 @@
+import fs from "fs";
+import initSqlJs from "sql.js";
+import type { Database, SqlValue } from "sql.js";
+
+export type OrderStatus = "open" | "filled" | "cancelled" | "expired";
+
+export interface IndexedOrder {
+  orderId: bigint;
+  trader: string;
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  price: bigint;
+  isBuy: boolean;
+  isMarketOrder: boolean;
+  filledAmount: bigint;
+  status: OrderStatus;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface IndexedFill {
+  buyOrderId: bigint;
+  sellOrderId: bigint;
+  buyer: string;
+  seller: string;
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  price: bigint;
+  /** Negative when the side was a maker that earned a rebate. */
+  buyerFee: bigint;
+  sellerFee: bigint;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface IndexedFee {
+  orderId: bigint;
+  payer: string;
+  token: string;
+  /** Negative for a rebate paid to a maker. */
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface OrderFilter {
+  trader?: string;
+  baseToken?: string;
+  quoteToken?: string;
+  status?: OrderStatus;
+  limit?: number;
+}
+
+export interface FillFilter {
+  orderId?: bigint;
+  trader?: string;
+  baseToken?: string;
+  quoteToken?: string;
+  fromBlock?: number;
+  limit?: number;
+}
+
+// Bump with every change to SCHEMA, stores written under another version are indexed again from scratch
+const SCHEMA_VERSION = 3;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS orders (
+    order_id TEXT PRIMARY KEY,
+    trader TEXT NOT NULL,
+    base_token TEXT NOT NULL,
+    quote_token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    price TEXT NOT NULL,
+    is_buy INTEGER NOT NULL,
+    is_market INTEGER NOT NULL,
+    filled_amount TEXT NOT NULL,
+    status TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS orders_trader ON orders (trader);
+  CREATE INDEX IF NOT EXISTS orders_pair ON orders (base_token, quote_token);
+  CREATE TABLE IF NOT EXISTS fills (
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    buy_order_id TEXT NOT NULL,
+    sell_order_id TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    price TEXT NOT NULL,
+    buyer_fee TEXT NOT NULL,
+    seller_fee TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS fills_buy_order ON fills (buy_order_id);
+  CREATE INDEX IF NOT EXISTS fills_sell_order ON fills (sell_order_id);
+  CREATE TABLE IF NOT EXISTS cancellations (
+    order_id TEXT PRIMARY KEY,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS expirations (
+    order_id TEXT PRIMARY KEY,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS fees (
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    order_id TEXT NOT NULL,
+    payer TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+`;
+
+const EVENT_TABLES = ["orders", "fills", "cancellations", "expirations", "fees", "blocks"];
+
+/**
+ * SQLite backed store for indexed TradingEngine events.
+ *
+ * uint256 values are kept as decimal strings because they overflow SQLite integers,
+ * so any arithmetic on them happens in JS with bigint.
+ */
+export class IndexerStore {
+  private readonly db: Database;
+  private readonly path?: string;
+
+  private constructor(db: Database, path?: string) {
+    this.db = db;
+    this.path = path;
+    this.migrate();
+  }
+
+  /** Opens the store at `path`, or an in-memory store when no path is given. */
+  static async open(path?: string): Promise<IndexerStore> {
+    const SQL = await initSqlJs();
+    const data = path && fs.existsSync(path) ? fs.readFileSync(path) : undefined;
+    return new IndexerStore(new SQL.Database(data), path);
+  }
+
+  /** Writes the database to disk. No-op for in-memory stores. */
+  save(): void {
+    if (this.path) {
+      fs.writeFileSync(this.path, Buffer.from(this.db.export()));
+    }
+  }
+
+  close(): void {
+    this.save();
+    this.db.close();
+  }
+
+  transaction<T>(fn: () => T): T {
+    this.db.run("BEGIN");
+    try {
+      const result = fn();
+      this.db.run("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+  }
+
+  // ---- Sync state ----
+
+  getLastIndexedBlock(): number | null {
+    const row = this.get("SELECT value FROM meta WHERE key = 'last_block'");
+    return row ? Number(row.value) : null;
+  }
+
+  setLastIndexedBlock(blockNumber: number): void {
+    this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('last_block', ?)", [String(blockNumber)]);
+  }
+
+  saveBlock(block: IndexedBlock): void {
+    this.db.run("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)", [
+      block.number,
+      block.hash,
+      block.timestamp,
+    ]);
+  }
+
+  /** Most recent blocks first, used to find the common ancestor after a reorg. */
+  getRecentBlocks(limit: number): IndexedBlock[] {
+    return this.all("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?", [limit]).map((row) => ({
+      number: Number(row.number),
+      hash: String(row.hash),
+      timestamp: Number(row.timestamp),
+    }));
+  }
+
+  // ---- Event writers ----
+
+  insertOrder(order: Omit<IndexedOrder, "filledAmount" | "status">): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO orders
+        (order_id, trader, base_token, quote_token, amount, price, is_buy, is_market, filled_amount, status, block_number, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, '0', 'open', ?, ?)`,
+      [
+        order.orderId.toString(),
+        order.trader.toLowerCase(),
+        order.baseToken.toLowerCase(),
+        order.quoteToken.toLowerCase(),
+        order.amount.toString(),
+        order.price.toString(),
+        order.isBuy ? 1 : 0,
+        order.isMarketOrder ? 1 : 0,
+        order.blockNumber,
+        order.transactionHash,
+      ]
+    );
+  }
+
+  insertFill(fill: Omit<IndexedFill, "buyer" | "seller" | "baseToken" | "quoteToken" | "timestamp">): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO fills
+        (tx_hash, log_index, block_number, buy_order_id, sell_order_id, amount, price, buyer_fee, seller_fee)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        fill.transactionHash,
+        fill.logIndex,
+        fill.blockNumber,
+        fill.buyOrderId.toString(),
+        fill.sellOrderId.toString(),
+        fill.amount.toString(),
+        fill.price.toString(),
+        fill.buyerFee.toString(),
+        fill.sellerFee.toString(),
+      ]
+    );
+    this.refreshOrderState(fill.buyOrderId);
+    this.refreshOrderState(fill.sellOrderId);
+  }
+
+  insertCancellation(orderId: bigint, blockNumber: number, transactionHash: string): void {
+    this.db.run("INSERT OR REPLACE INTO cancellations (order_id, block_number, tx_hash) VALUES (?, ?, ?)", [
+      orderId.toString(),
+      blockNumber,
+      transactionHash,
+    ]);
+    this.refreshOrderState(orderId);
+  }
+
+  insertExpiration(orderId: bigint, blockNumber: number, transactionHash: string): void {
+    this.db.run("INSERT OR REPLACE INTO expirations (order_id, block_number, tx_hash) VALUES (?, ?, ?)", [
+      orderId.toString(),
+      blockNumber,
+      transactionHash,
+    ]);
+    this.refreshOrderState(orderId);
+  }
+
+  insertFee(fee: IndexedFee): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO fees (tx_hash, log_index, block_number, order_id, payer, token, amount)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        fee.transactionHash,
+        fee.logIndex,
+        fee.blockNumber,
+        fee.orderId.toString(),
+        fee.payer.toLowerCase(),
+        fee.token.toLowerCase(),
+        fee.amount.toString(),
+      ]
+    );
+  }
+
+  /** Drops everything indexed after `blockNumber` and recomputes the orders it touched. */
+  rollback(blockNumber: number): void {
+    this.transaction(() => {
+      const touched = this.all(
+        `SELECT buy_order_id AS order_id FROM fills WHERE block_number > ?
+          UNION SELECT sell_order_id FROM fills WHERE block_number > ?
+          UNION SELECT order_id FROM cancellations WHERE block_number > ?
+          UNION SELECT order_id FROM expirations WHERE block_number > ?`,
+        [blockNumber, blockNumber, blockNumber, blockNumber]
+      ).map((row) => BigInt(String(row.order_id)));
+
+      for (const table of EVENT_TABLES) {
+        const column = table === "blocks" ? "number" : "block_number";
+        this.db.run(`DELETE FROM ${table} WHERE ${column} > ?`, [blockNumber]);
+      }
+
+      for (const orderId of touched) {
+        this.refreshOrderState(orderId);
+      }
+      this.setLastIndexedBlock(blockNumber);
+    });
+  }
+
+  // ---- Queries ----
+
+  getOrder(orderId: bigint): IndexedOrder | null {
+    const row = this.get("SELECT * FROM orders WHERE order_id = ?", [orderId.toString()]);
+    return row ? toOrder(row) : null;
+  }
+
+  getOrders(filter: OrderFilter = {}): IndexedOrder[] {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (filter.trader) {
+      where.push("trader = ?");
+      params.push(filter.trader.toLowerCase());
+    }
+    if (filter.baseToken) {
+      where.push("base_token = ?");
+      params.push(filter.baseToken.toLowerCase());
+    }
+    if (filter.quoteToken) {
+      where.push("quote_token = ?");
+      params.push(filter.quoteToken.toLowerCase());
+    }
+    if (filter.status) {
+      where.push("status = ?");
+      params.push(filter.status);
+    }
+    params.push(filter.limit ?? -1);
+
+    return this.all(
+      `SELECT * FROM orders ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+        ORDER BY block_number DESC, CAST(order_id AS INTEGER) DESC LIMIT ?`,
+      params
+    ).map(toOrder);
+  }
+
+  getFills(filter: FillFilter = {}): IndexedFill[] {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (filter.orderId !== undefined) {
+      where.push("(f.buy_order_id = ? OR f.sell_order_id = ?)");
+      params.push(filter.orderId.toString(), filter.orderId.toString());
+    }
+    if (filter.trader) {
+      where.push("(b.trader = ? OR s.trader = ?)");
+      params.push(filter.trader.toLowerCase(), filter.trader.toLowerCase());
+    }
+    if (filter.baseToken) {
+      where.push("b.base_token = ?");
+      params.push(filter.baseToken.toLowerCase());
+    }
+    if (filter.quoteToken) {
+      where.push("b.quote_token = ?");
+      params.push(filter.quoteToken.toLowerCase());
+    }
+    if (filter.fromBlock !== undefined) {
+      where.push("f.block_number >= ?");
+      params.push(filter.fromBlock);
+    }
+    params.push(filter.limit ?? -1);
+
+    return this.all(
+      `SELECT f.*, b.trader AS buyer, s.trader AS seller, b.base_token, b.quote_token, bl.timestamp
+        FROM fills f
+        JOIN orders b ON b.order_id = f.buy_order_id
+        JOIN orders s ON s.order_id = f.sell_order_id
+        LEFT JOIN blocks bl ON bl.number = f.block_number
+        ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+        ORDER BY f.block_number DESC, f.log_index DESC LIMIT ?`,
+      params
+    ).map((row) => ({
+      buyOrderId: BigInt(String(row.buy_order_id)),
+      sellOrderId: BigInt(String(row.sell_order_id)),
+      buyer: String(row.buyer),
+      seller: String(row.seller),
+      baseToken: String(row.base_token),
+      quoteToken: String(row.quote_token),
+      amount: BigInt(String(row.amount)),
+      price: BigInt(String(row.price)),
+      buyerFee: BigInt(String(row.buyer_fee)),
+      sellerFee: BigInt(String(row.seller_fee)),
+      blockNumber: Number(row.block_number),
+      timestamp: Number(row.timestamp ?? 0),
+      transactionHash: String(row.tx_hash),
+      logIndex: Number(row.log_index),
+    }));
+  }
+
+  /** Fees collected per token (lowercase address), net of maker rebates. */
+  getFeeTotals(): Record<string, bigint> {
+    const totals: Record<string, bigint> = {};
+    for (const row of this.all("SELECT token, amount FROM fees")) {
+      const token = String(row.token);
+      totals[token] = (totals[token] ?? 0n) + BigInt(String(row.amount));
+    }
+    return totals;
+  }
+
+  // ---- Internals ----
+
+  private refreshOrderState(orderId: bigint): void {
+    const order = this.getOrder(orderId);
+    if (!order) {
+      return;
+    }
+
+    const id = orderId.toString();
+    const filledAmount = this.all("SELECT amount FROM fills WHERE buy_order_id = ? OR sell_order_id = ?", [id, id]).reduce(
+      (total, row) => total + BigInt(String(row.amount)),
+      0n
+    );
+    let status: OrderStatus = filledAmount >= order.amount ? "filled" : "open";
+    if (this.get("SELECT 1 AS found FROM cancellations WHERE order_id = ?", [id]) !== null) {
+      status = "cancelled";
+    } else if (this.get("SELECT 1 AS found FROM expirations WHERE order_id = ?", [id]) !== null) {
+      status = "expired";
+    }
+
+    this.db.run("UPDATE orders SET filled_amount = ?, status = ? WHERE order_id = ?", [filledAmount.toString(), status, id]);
+  }
+
+  /**
+   * Creates the schema, first dropping the event tables of a store from another schema version.
+   * Everything in them comes from chain logs, so forgetting the last indexed block has the next
+   * sync rebuild them.
+   */
+  private migrate(): void {
+    const hasMeta = this.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'meta'") !== null;
+    const row = hasMeta ? this.get("SELECT value FROM meta WHERE key = 'schema_version'") : null;
+    if (hasMeta && Number(row?.value) !== SCHEMA_VERSION) {
+      this.transaction(() => {
+        for (const table of EVENT_TABLES) {
+          this.db.run(`DROP TABLE IF EXISTS ${table}`);
+        }
+        this.db.run("DELETE FROM meta WHERE key = 'last_block'");
+      });
+    }
+
+    this.db.exec(SCHEMA);
+    this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)", [String(SCHEMA_VERSION)]);
+  }
+
+  private all(sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private get(sql: string, params: SqlValue[] = []): Record<string, SqlValue> | null {
+    const rows = this.all(sql, params);
+    return rows.length > 0 ? rows[0] : null;
+  }
+}
+
+function toOrder(row: Record<string, SqlValue>): IndexedOrder {
+  return {
+    orderId: BigInt(String(row.order_id)),
+    trader: String(row.trader),
+    baseToken: String(row.base_token),
+    quoteToken: String(row.quote_token),
+    amount: BigInt(String(row.amount)),
+    price: BigInt(String(row.price)),
+    isBuy: row.is_buy === 1,
+    isMarketOrder: row.is_market === 1,
+    filledAmount: BigInt(String(row.filled_amount)),
+    status: String(row.status) as OrderStatus,
+    blockNumber: Number(row.block_number),
+    transactionHash: String(row.tx_hash),
+  };
+}
@@ -33,8 +33,8 @@ async function main() {
     console.log("MockPriceOracle deployed to:", mockOracle.address);
     
     const ChainlinkPriceOracle = await ethers.getContractFactory("ChainlinkPriceOracle");
-    const chainlinkOracle = await ChainlinkPriceOracle.deploy();
-    await chainlinkOracle.initialize();
+    const chainlinkOracle = await ChainlinkPriceOracle.deploy(await deployer.getAddress());
+    await chainlinkOracle.deployed();
     console.log("ChainlinkPriceOracle deployed to:", chainlinkOracle.address);
     
     // Deploy main protocol
@@ -155,6 +155,7 @@ async function main() {
         console.log("Verifying ChainlinkPriceOracle...");
         await run("verify:verify", {
             address: chainlinkOracle.address,
+            constructorArguments: [await deployer.getAddress()],
         });
         console.log("✅ ChainlinkPriceOracle verified");
     } catch (error) {
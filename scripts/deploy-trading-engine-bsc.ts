@@ -1,5 +1,6 @@
 import { ethers, run } from "hardhat";
 import { Contract } from "ethers";
+import { deployTradingEngineModules } from "./lib/deploy-trading-engine";
 
 async function main() {
     console.log("Deploying TradingEngine to BSC Testnet");
@@ -34,16 +35,24 @@ async function main() {
     
     const TradingEngine = await ethers.getContractFactory("TradingEngine");
     
-    const minOrderAmount = ethers.parseEther("0.01");
-    const maxOrderAmount = ethers.parseEther("100");
+    const firstModuleAddress = await deployTradingEngineModules();
+    console.log("TradingEngine modules deployed, first module at:", firstModuleAddress);
     
-    const tradingEngine = await TradingEngine.deploy();
+    const pairConfig = {
+        enabled: true,
+        minOrderAmount: ethers.parseEther("0.01"),
+        maxOrderAmount: ethers.parseEther("100"),
+        tickSize: 0,
+        lotSize: 0,
+    };
+    
+    const tradingEngine = await TradingEngine.deploy(firstModuleAddress);
     await tradingEngine.waitForDeployment();
     const tradingEngineAddress = await tradingEngine.getAddress();
     console.log("TradingEngine deployed to:", tradingEngineAddress);
     
     console.log("Initializing TradingEngine");
-    await tradingEngine.initialize(mockOracleAddress, minOrderAmount, maxOrderAmount);
+    await tradingEngine.initialize(mockOracleAddress);
     console.log("TradingEngine initialized");
     
     console.log("Setting up mock prices");
@@ -52,7 +61,8 @@ async function main() {
     console.log("Mock price set: 1 WETH = 2000 USDC");
     
     console.log("Setting up trading pair");
-    await tradingEngine.setTradingPairAllowed(baseTokenAddress, quoteTokenAddress, true);
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", tradingEngineAddress);
+    await pairConfigs.setPairConfig(baseTokenAddress, quoteTokenAddress, pairConfig);
     console.log("WETH/USDC trading pair enabled");
     
     console.log("Distributing tokens to test accounts");
@@ -115,7 +125,7 @@ async function main() {
         console.log("Verifying TradingEngine");
         await run("verify:verify", {
             address: tradingEngineAddress,
-            constructorArguments: [],
+            constructorArguments: [firstModuleAddress],
         });
         console.log("TradingEngine verified");
     } catch (error:any) {
@@ -149,8 +159,8 @@ async function main() {
             tradingEngine: tradingEngineAddress,
         },
         tradingEngineConfig: {
-            minOrderAmount: ethers.formatEther(minOrderAmount),
-            maxOrderAmount: ethers.formatEther(maxOrderAmount),
+            minOrderAmount: ethers.formatEther(pairConfig.minOrderAmount),
+            maxOrderAmount: ethers.formatEther(pairConfig.maxOrderAmount),
             feeRate: "0.05%",
         },
         mockPrices: {
@@ -0,0 +1,95 @@
+import { artifacts } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runTypeChain } from "typechain";
+import type { JsonFragment } from "ethers";
+
+const SDK_ABI_DIR = path.join(__dirname, "..", "sdk", "src", "abi");
+const SDK_TYPECHAIN_DIR = path.join(__dirname, "..", "sdk", "src", "typechain");
+
+// Fully qualified contract name -> [output file, exported constant name, modules reached through its fallback].
+// Contracts with modules also get TypeChain types for their merged ABI, since the engine's own cover none of the modules.
+const SDK_CONTRACTS: Record<string, [string, string, string[]?]> = {
+    "contracts/TradingEngine.sol:TradingEngine": [
+        "TradingEngine",
+        "TRADING_ENGINE_ABI",
+        [
+            "contracts/modules/ConditionalOrderModule.sol:ConditionalOrderModule",
+            "contracts/modules/BatchOrderModule.sol:BatchOrderModule",
+            "contracts/modules/PairConfigModule.sol:PairConfigModule",
+            "contracts/modules/OracleModule.sol:OracleModule",
+            "contracts/modules/MarketDataModule.sol:MarketDataModule",
+            "contracts/modules/FeeModule.sol:FeeModule",
+            "contracts/modules/EmergencyModule.sol:EmergencyModule",
+            "contracts/modules/AccessControlModule.sol:AccessControlModule",
+        ],
+    ],
+    "@openzeppelin/contracts/token/ERC20/ERC20.sol:ERC20": ["ERC20", "ERC20_ABI"],
+};
+
+// Modules share the engine's base contract, so inherited events and errors appear in both ABIs
+function mergeAbis(abis: readonly JsonFragment[][]): JsonFragment[] {
+    const seen = new Set<string>();
+    return abis.flat().filter((entry) => {
+        const key = `${entry.type}:${entry.name ?? ""}(${(entry.inputs ?? []).map((input) => input.type).join(",")})`;
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+async function main() {
+    fs.mkdirSync(SDK_ABI_DIR, { recursive: true });
+
+    for (const [fullyQualifiedName, [fileName, constName, modules = []]] of Object.entries(SDK_CONTRACTS)) {
+        const artifact = await artifacts.readArtifact(fullyQualifiedName);
+        const moduleArtifacts = await Promise.all(modules.map((module) => artifacts.readArtifact(module)));
+        const abi = mergeAbis([artifact.abi, ...moduleArtifacts.map((moduleArtifact) => moduleArtifact.abi)]);
+        const contractName = artifact.contractName;
+        const outputPath = path.join(SDK_ABI_DIR, `${fileName}.ts`);
+
+        const source = [
+            `// Generated from the compiled ${contractName} artifact by scripts/generate-sdk-abi.ts.`,
+            "// Do not edit by hand, run `npm run sdk:generate` after changing the contract.",
+            "",
+            `export const ${constName} = ${JSON.stringify(abi, null, 2)} as const;`,
+            "",
+        ].join("\n");
+
+        fs.writeFileSync(outputPath, source);
+        console.log(`Wrote ${abi.length} ABI entries for ${contractName} to ${path.relative(process.cwd(), outputPath)}`);
+
+        if (modules.length > 0) {
+            await generateTypes(fileName, abi);
+        }
+    }
+}
+
+async function generateTypes(fileName: string, abi: JsonFragment[]) {
+    const abiDir = fs.mkdtempSync(path.join(os.tmpdir(), "sdk-abi-"));
+    const abiPath = path.join(abiDir, `${fileName}.json`);
+    fs.writeFileSync(abiPath, JSON.stringify(abi));
+    try {
+        fs.rmSync(SDK_TYPECHAIN_DIR, { recursive: true, force: true });
+        const { filesGenerated } = await runTypeChain({
+            cwd: abiDir,
+            filesToProcess: [abiPath],
+            allFiles: [abiPath],
+            outDir: SDK_TYPECHAIN_DIR,
+            target: "ethers-v6",
+        });
+        console.log(`Wrote ${filesGenerated} TypeChain files for ${fileName} to ${path.relative(process.cwd(), SDK_TYPECHAIN_DIR)}`);
+    } finally {
+        fs.rmSync(abiDir, { recursive: true, force: true });
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("SDK ABI generation failed:", error);
+        process.exit(1);
+    });
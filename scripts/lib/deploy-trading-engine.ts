@@ -0,0 +1,35 @@
+import { ethers } from "hardhat";
+import type { TradingEngine } from "../../typechain-types";
+
+// Calls TradingEngine does not implement pass along these modules in order, see TradingEngineModule
+export const TRADING_ENGINE_MODULES = [
+  "ConditionalOrderModule",
+  "BatchOrderModule",
+  "PairConfigModule",
+  "OracleModule",
+  "MarketDataModule",
+  "FeeModule",
+  "EmergencyModule",
+  "AccessControlModule",
+];
+
+/**
+ * Deploys the module chain and returns the address of its first module. Each module is constructed
+ * with the address of the next, so they are deployed last to first.
+ */
+export async function deployTradingEngineModules(): Promise<string> {
+  let nextModule = ethers.ZeroAddress;
+  for (const moduleName of [...TRADING_ENGINE_MODULES].reverse()) {
+    const module = await ethers.deployContract(moduleName, [nextModule]);
+    await module.waitForDeployment();
+    nextModule = await module.getAddress();
+  }
+  return nextModule;
+}
+
+/** Deploys the module chain and a TradingEngine in front of it. The engine still has to be initialized. */
+export async function deployTradingEngine(): Promise<TradingEngine> {
+  const tradingEngine = await ethers.deployContract("TradingEngine", [await deployTradingEngineModules()]);
+  await tradingEngine.waitForDeployment();
+  return ethers.getContractAt("TradingEngine", await tradingEngine.getAddress());
+}
@@ -0,0 +1,45 @@
+import { ethers } from "hardhat";
+import { JsonRpcProvider } from "ethers";
+import { EventIndexer, IndexerStore } from "../indexer/src";
+
+// Usage:
+//   TRADING_ENGINE_ADDRESS=0x... npx hardhat run scripts/run-indexer.ts --network localhost
+// Set RPC_URL to index any other node, START_BLOCK to skip history and INDEXER_ONCE=1 to exit after catching up.
+async function main() {
+    const address = process.env.TRADING_ENGINE_ADDRESS;
+    if (!address) {
+        throw new Error("TRADING_ENGINE_ADDRESS is not set");
+    }
+
+    const provider = process.env.RPC_URL ? new JsonRpcProvider(process.env.RPC_URL) : ethers.provider;
+    const store = await IndexerStore.open(process.env.INDEXER_DB || "indexer.sqlite");
+    const indexer = new EventIndexer(provider, address, store, {
+        startBlock: Number(process.env.START_BLOCK || 0),
+        confirmations: Number(process.env.CONFIRMATIONS || 0),
+    });
+
+    const lastBlock = await indexer.sync();
+    console.log(`Indexed TradingEngine ${address} up to block ${lastBlock}`);
+    console.log("Orders:", store.getOrders().length, "Fills:", store.getFills().length);
+
+    if (process.env.INDEXER_ONCE) {
+        store.close();
+        return;
+    }
+
+    console.log("Watching for new blocks, press Ctrl+C to stop");
+    indexer.start(Number(process.env.POLL_INTERVAL_MS || 5000));
+    process.on("SIGINT", () => {
+        indexer.stop();
+        store.close();
+        process.exit(0);
+    });
+    await new Promise(() => {});
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Indexer failed:", error);
+        process.exit(1);
+    });
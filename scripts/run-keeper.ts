@@ -0,0 +1,77 @@
+import { ethers } from "hardhat";
+import { JsonRpcProvider, Wallet } from "ethers";
+import type { Signer } from "ethers";
+import { TradingEngineClient, decodeTradingEngineEvents, filterEvents } from "../sdk/src";
+
+// Usage:
+//   TRADING_ENGINE_ADDRESS=0x... npx hardhat run scripts/run-keeper.ts --network localhost
+// Set RPC_URL and KEEPER_PRIVATE_KEY to run against any other node, KEEPER_ONCE=1 to exit after one pass.
+async function main() {
+    const address = process.env.TRADING_ENGINE_ADDRESS;
+    if (!address) {
+        throw new Error("TRADING_ENGINE_ADDRESS is not set");
+    }
+
+    let signer: Signer;
+    if (process.env.RPC_URL) {
+        if (!process.env.KEEPER_PRIVATE_KEY) {
+            throw new Error("KEEPER_PRIVATE_KEY is required with RPC_URL");
+        }
+        signer = new Wallet(process.env.KEEPER_PRIVATE_KEY, new JsonRpcProvider(process.env.RPC_URL));
+    } else {
+        [signer] = await ethers.getSigners();
+    }
+
+    const client = new TradingEngineClient(address, signer);
+    const batchSize = Number(process.env.BATCH_SIZE || 20);
+    console.log(`Keeper ${await signer.getAddress()} watching TradingEngine ${address}`);
+
+    const runOnce = async () => {
+        const pending = await client.getPendingConditionalOrders();
+        const triggerable = [];
+        for (const order of pending) {
+            try {
+                if (await client.isConditionalOrderTriggerable(order.id)) {
+                    triggerable.push(order.id);
+                }
+            } catch (error) {
+                console.error(`Skipping conditional order ${order.id}, its trigger check failed:`, error);
+            }
+        }
+
+        for (let i = 0; i < triggerable.length; i += batchSize) {
+            const batch = triggerable.slice(i, i + batchSize);
+            const receipt = await (await client.triggerOrders(batch)).wait();
+            console.log(`Triggered conditional orders ${batch.join(", ")} in ${receipt?.hash}`);
+            for (const failure of filterEvents(decodeTradingEngineEvents(receipt?.logs ?? []), "ConditionalOrderTriggerFailed")) {
+                console.error(`Conditional order ${failure.args.conditionalOrderId} failed to trigger: ${failure.args.reason}`);
+            }
+        }
+        return triggerable.length;
+    };
+
+    const triggered = await runOnce();
+    console.log(`Triggered ${triggered} conditional orders`);
+
+    if (process.env.KEEPER_ONCE) {
+        return;
+    }
+
+    console.log("Polling for triggerable orders, press Ctrl+C to stop");
+    const pollIntervalMs = Number(process.env.POLL_INTERVAL_MS || 5000);
+    for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        try {
+            await runOnce();
+        } catch (error) {
+            console.error("Keeper pass failed:", error);
+        }
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Keeper failed:", error);
+        process.exit(1);
+    });
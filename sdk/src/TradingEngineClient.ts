@@ -0,0 +1,604 @@
+import { Contract } from "ethers";
+import type { ContractRunner, ContractTransactionResponse, Overrides, Provider } from "ethers";
+import { ERC20_ABI } from "./abi/ERC20";
+import { TradingEngine__factory } from "./typechain";
+import type { TradingEngine as TradingEngineContract, TradingEngineBase } from "./typechain/TradingEngine";
+import { baseUnitFor, parsePrice, parseTokenAmount, quoteAmountFor } from "./amounts";
+import { decodeTradingEngineEvents } from "./events";
+import type { DecodedEvent, TradingEngineEventName } from "./events";
+import type { Role } from "./roles";
+import { ConditionalOrderType, TimeInForce } from "./types";
+import type {
+  ConditionalOrder,
+  ConditionalOrderPage,
+  ConditionalOrderParams,
+  FeeSchedule,
+  LimitOrderParams,
+  MarketOrderEstimate,
+  MarketOrderParams,
+  OracleConfig,
+  Order,
+  OrderBookStats,
+  OrderPage,
+  PairConfig,
+  PriceLevel,
+  Ticker,
+  SlippageMarketOrderParams,
+  TradingPair,
+  TraderVolumeTier,
+  VolumeTier,
+} from "./types";
+
+const DEFAULT_PAGE_SIZE = 100n;
+
+export class TradingEngineClient {
+  readonly contract: TradingEngineContract;
+  private readonly runner: ContractRunner;
+  private readonly decimalsCache = new Map<string, number>();
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = TradingEngine__factory.connect(address, runner);
+    this.runner = runner;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  // ---- Transactions ----
+
+  /** Places a limit order, good-til-cancelled unless `timeInForce` is given. */
+  async placeLimitOrder(params: LimitOrderParams, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    if (params.timeInForce === undefined) {
+      return this.contract.placeLimitOrder(
+        params.baseToken,
+        params.quoteToken,
+        params.amount,
+        params.price,
+        params.isBuy,
+        overrides
+      );
+    }
+
+    return this.contract.placeLimitOrderWithTimeInForce(
+      params.baseToken,
+      params.quoteToken,
+      params.amount,
+      params.price,
+      params.isBuy,
+      params.timeInForce,
+      params.expiresAt ?? 0n,
+      overrides
+    );
+  }
+
+  /** Places a market order, good-til-cancelled unless `timeInForce` is given. */
+  async placeMarketOrder(params: MarketOrderParams, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    if (params.timeInForce === undefined) {
+      return this.contract.placeMarketOrder(params.baseToken, params.quoteToken, params.amount, params.isBuy, overrides);
+    }
+
+    return this.contract.placeMarketOrderWithTimeInForce(
+      params.baseToken,
+      params.quoteToken,
+      params.amount,
+      params.isBuy,
+      params.timeInForce,
+      params.expiresAt ?? 0n,
+      overrides
+    );
+  }
+
+  /** Places a market order that never trades beyond `worstPrice` and never rests. */
+  async placeMarketOrderWithSlippage(
+    params: SlippageMarketOrderParams,
+    overrides: Overrides = {}
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.placeMarketOrderWithSlippage(
+      params.baseToken,
+      params.quoteToken,
+      params.amount,
+      params.isBuy,
+      params.worstPrice,
+      params.allowPartialFill ?? false,
+      overrides
+    );
+  }
+
+  async cancelOrder(orderId: bigint, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.cancelOrder(orderId, overrides);
+  }
+
+  /**
+   * Places up to `MAX_BATCH_SIZE` limit orders in one transaction. All of them are locked against the
+   * caller's balances first, then each pair's orders match in one pass, in the order given. An order that
+   * would revert on its own is skipped with a `BatchOrderRejected` event instead; `getBatchOrderResults`
+   * reads both from the receipt.
+   */
+  async placeLimitOrders(params: LimitOrderParams[], overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.placeLimitOrders(params.map(toLimitOrderRequest), overrides);
+  }
+
+  /** Cancels the caller's orders among `orderIds`, skipping any that are no longer active. */
+  async cancelOrders(orderIds: bigint[], overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.cancelOrders(orderIds, overrides);
+  }
+
+  /** Cancels every open order the caller has on the pair. */
+  async cancelAllOrders(baseToken: string, quoteToken: string, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.cancelAllOrders(baseToken, quoteToken, overrides);
+  }
+
+  /** Cancels `orderIds` and places `params` in their stead, reverting as a whole if any of them fails. */
+  async cancelAndReplace(
+    orderIds: bigint[],
+    params: LimitOrderParams[],
+    overrides: Overrides = {}
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.cancelAndReplace(orderIds, params.map(toLimitOrderRequest), overrides);
+  }
+
+  /** Removes an expired GTT order and refunds its owner. Anyone can call this. */
+  async expireOrder(orderId: bigint, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.expireOrder(orderId, overrides);
+  }
+
+  /** Locks funds for a stop or take-profit order that goes live once the oracle price reaches `triggerPrice`. */
+  async placeConditionalOrder(params: ConditionalOrderParams, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.placeConditionalOrder(
+      params.baseToken,
+      params.quoteToken,
+      params.amount,
+      params.triggerPrice,
+      params.limitPrice,
+      params.isBuy,
+      params.orderType,
+      overrides
+    );
+  }
+
+  async cancelConditionalOrder(conditionalOrderId: bigint, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.cancelConditionalOrder(conditionalOrderId, overrides);
+  }
+
+  /** Places every listed conditional order whose trigger has been reached. Anyone can call this. */
+  async triggerOrders(conditionalOrderIds: bigint[], overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.triggerOrders(conditionalOrderIds, overrides);
+  }
+
+  /** Moves tokens from the wallet into the trading account. The engine must be approved for `amount` first. */
+  async deposit(token: string, amount: bigint, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.deposit(token, amount, overrides);
+  }
+
+  /** Pays out part of the available balance. Funds locked in open orders cannot be withdrawn. */
+  async withdrawBalance(token: string, amount: bigint, overrides: Overrides = {}): Promise<ContractTransactionResponse> {
+    return this.contract.withdrawBalance(token, amount, overrides);
+  }
+
+  // ---- Readers ----
+
+  async getOrder(orderId: bigint): Promise<Order> {
+    const [order] = await this.getOrders([orderId]);
+    return order;
+  }
+
+  /** Fetches several orders in a single call, in the order their ids were given. */
+  async getOrders(orderIds: bigint[]): Promise<Order[]> {
+    if (orderIds.length === 0) {
+      return [];
+    }
+    const orders = await this.contract.getOrders(orderIds);
+    return orderIds.map((orderId, i) => toOrder(orderId, orders[i]));
+  }
+
+  async getActiveBuyOrderIds(): Promise<bigint[]> {
+    return [...(await this.contract.getActiveBuyOrders())];
+  }
+
+  async getActiveSellOrderIds(): Promise<bigint[]> {
+    return [...(await this.contract.getActiveSellOrders())];
+  }
+
+  /** Fetches every active order on both sides of the book. */
+  async getActiveOrders(): Promise<Order[]> {
+    const [buyOrderIds, sellOrderIds] = await Promise.all([this.getActiveBuyOrderIds(), this.getActiveSellOrderIds()]);
+    return this.getOrders([...buyOrderIds, ...sellOrderIds]);
+  }
+
+  async getOrderBookStats(): Promise<OrderBookStats> {
+    const [totalBuyOrders, totalSellOrders, activeBuyOrders, activeSellOrders] = await this.contract.getOrderBookStats();
+    return { totalBuyOrders, totalSellOrders, activeBuyOrders, activeSellOrders };
+  }
+
+  // ---- Per-pair order books ----
+
+  async getPairId(baseToken: string, quoteToken: string): Promise<string> {
+    return this.contract.getPairId(baseToken, quoteToken);
+  }
+
+  /** Pairs that have received at least one order, in the order their books were created. */
+  async getOrderBookPairs(): Promise<TradingPair[]> {
+    const [baseTokens, quoteTokens] = await this.contract.getOrderBookPairs();
+    return [...baseTokens].map((baseToken: string, i: number) => ({ baseToken, quoteToken: quoteTokens[i] }));
+  }
+
+  async getPairActiveBuyOrderIds(baseToken: string, quoteToken: string): Promise<bigint[]> {
+    return [...(await this.contract.getPairActiveBuyOrders(baseToken, quoteToken))];
+  }
+
+  async getPairActiveSellOrderIds(baseToken: string, quoteToken: string): Promise<bigint[]> {
+    return [...(await this.contract.getPairActiveSellOrders(baseToken, quoteToken))];
+  }
+
+  /** Reads one page of a pair's active orders on one side. Pages are unordered. */
+  async getPairOrdersPage(
+    baseToken: string,
+    quoteToken: string,
+    isBuy: boolean,
+    cursor = 0n,
+    limit = DEFAULT_PAGE_SIZE
+  ): Promise<OrderPage> {
+    const [orderIds, orders, nextCursor] = await this.contract.getPairOrders(baseToken, quoteToken, isBuy, cursor, limit);
+    return toOrderPage(orderIds, orders, nextCursor);
+  }
+
+  /** Fetches every active order on both sides of one pair's book, `pageSize` orders per call. */
+  async getPairActiveOrders(baseToken: string, quoteToken: string, pageSize = DEFAULT_PAGE_SIZE): Promise<Order[]> {
+    const [buyOrders, sellOrders] = await Promise.all([
+      readAllPages((cursor) => this.getPairOrdersPage(baseToken, quoteToken, true, cursor, pageSize)),
+      readAllPages((cursor) => this.getPairOrdersPage(baseToken, quoteToken, false, cursor, pageSize)),
+    ]);
+    return [...buyOrders, ...sellOrders];
+  }
+
+  async getPairOrderBookStats(baseToken: string, quoteToken: string): Promise<OrderBookStats> {
+    const [totalBuyOrders, totalSellOrders, activeBuyOrders, activeSellOrders] =
+      await this.contract.getPairOrderBookStats(baseToken, quoteToken);
+    return { totalBuyOrders, totalSellOrders, activeBuyOrders, activeSellOrders };
+  }
+
+  /** Best bid and ask of a pair, 0 when that side of the book is empty. */
+  async getBestPrices(baseToken: string, quoteToken: string): Promise<{ bestBid: bigint; bestAsk: bigint }> {
+    const [bestBid, bestAsk] = await this.contract.getBestPrices(baseToken, quoteToken);
+    return { bestBid, bestAsk };
+  }
+
+  /** Resting size per price level, best price first. */
+  async getPriceLevels(baseToken: string, quoteToken: string, isBuy: boolean, maxLevels = 20): Promise<PriceLevel[]> {
+    const [prices, amounts, orderCounts] = await this.contract.getPriceLevels(baseToken, quoteToken, isBuy, maxLevels);
+    return [...prices].map((price: bigint, i: number) => ({ price, amount: amounts[i], orderCount: orderCounts[i] }));
+  }
+
+  /** Order ids queued at a price, oldest first. */
+  async getPriceLevelOrderIds(baseToken: string, quoteToken: string, isBuy: boolean, price: bigint): Promise<bigint[]> {
+    return [...(await this.contract.getPriceLevelOrders(baseToken, quoteToken, isBuy, price))];
+  }
+
+  // ---- Trade history ----
+
+  async getTicker(baseToken: string, quoteToken: string): Promise<Ticker> {
+    const [lastPrice, lastTradeTime, high, low, volume, quoteVolume] = await this.contract.getTicker(baseToken, quoteToken);
+    return { lastPrice, lastTradeTime, high, low, volume, quoteVolume };
+  }
+
+  /** Time-weighted average trade price over the last `window` seconds, at most a day. */
+  async getTwap(baseToken: string, quoteToken: string, window: number | bigint): Promise<bigint> {
+    return this.contract.getTwap(baseToken, quoteToken, window);
+  }
+
+  // ---- Per-trader open orders ----
+
+  async getTraderOpenOrderCount(trader: string): Promise<bigint> {
+    return this.contract.getTraderOpenOrderCount(trader);
+  }
+
+  /** Reads one page of a trader's open orders across all pairs. Pages are unordered. */
+  async getTraderOpenOrdersPage(trader: string, cursor = 0n, limit = DEFAULT_PAGE_SIZE): Promise<OrderPage> {
+    const [orderIds, orders, nextCursor] = await this.contract.getTraderOpenOrders(trader, cursor, limit);
+    return toOrderPage(orderIds, orders, nextCursor);
+  }
+
+  /** Fetches every open order of a trader, `pageSize` orders per call. */
+  async getTraderOpenOrders(trader: string, pageSize = DEFAULT_PAGE_SIZE): Promise<Order[]> {
+    return readAllPages((cursor) => this.getTraderOpenOrdersPage(trader, cursor, pageSize));
+  }
+
+  // ---- Conditional orders ----
+
+  async getConditionalOrder(conditionalOrderId: bigint): Promise<ConditionalOrder> {
+    return toConditionalOrder(conditionalOrderId, await this.contract.getConditionalOrder(conditionalOrderId));
+  }
+
+  /** Reads one page of pending conditional orders across all pairs. Pages are unordered. */
+  async getPendingConditionalOrdersPage(cursor = 0n, limit = DEFAULT_PAGE_SIZE): Promise<ConditionalOrderPage> {
+    const [conditionalOrderIds, orders, nextCursor] = await this.contract.getPendingConditionalOrders(cursor, limit);
+    return {
+      orders: [...conditionalOrderIds].map((conditionalOrderId: bigint, i: number) =>
+        toConditionalOrder(conditionalOrderId, orders[i])
+      ),
+      nextCursor,
+    };
+  }
+
+  /** Fetches every pending conditional order, `pageSize` orders per call. */
+  async getPendingConditionalOrders(pageSize = DEFAULT_PAGE_SIZE): Promise<ConditionalOrder[]> {
+    return readAllPages((cursor) => this.getPendingConditionalOrdersPage(cursor, pageSize));
+  }
+
+  /** Whether `triggerOrders` would place this conditional order right now. */
+  async isConditionalOrderTriggerable(conditionalOrderId: bigint): Promise<boolean> {
+    return this.contract.isConditionalOrderTriggerable(conditionalOrderId);
+  }
+
+  /**
+   * Walks the opposite side of the book to estimate how a market order of `amount` would fill.
+   * Only the best `maxLevels` levels are read, so very large orders may be underestimated.
+   */
+  async estimateMarketOrder(
+    baseToken: string,
+    quoteToken: string,
+    amount: bigint,
+    isBuy: boolean,
+    maxLevels = 50
+  ): Promise<MarketOrderEstimate> {
+    const [levels, baseDecimals] = await Promise.all([
+      this.getPriceLevels(baseToken, quoteToken, !isBuy, maxLevels),
+      this.getTokenDecimals(baseToken),
+    ]);
+
+    let fillableAmount = 0n;
+    let quoteAmount = 0n;
+    let worstPrice = 0n;
+    for (const level of levels) {
+      if (fillableAmount >= amount) {
+        break;
+      }
+      const levelAmount = level.amount < amount - fillableAmount ? level.amount : amount - fillableAmount;
+      fillableAmount += levelAmount;
+      quoteAmount += quoteAmountFor(levelAmount, level.price, baseDecimals);
+      worstPrice = level.price;
+    }
+
+    if (fillableAmount === 0n) {
+      const oraclePrice = await this.getOraclePrice(baseToken, quoteToken);
+      return { averagePrice: oraclePrice, worstPrice: oraclePrice, fillableAmount, quoteAmount };
+    }
+
+    return { averagePrice: (quoteAmount * baseUnitFor(baseDecimals)) / fillableAmount, worstPrice, fillableAmount, quoteAmount };
+  }
+
+  /** Part of the trading account that is free to trade or withdraw. */
+  async getUserBalance(user: string, token: string): Promise<bigint> {
+    return this.contract.getUserBalance(user, token);
+  }
+
+  /** Part of the trading account committed to open and pending conditional orders. */
+  async getLockedBalance(user: string, token: string): Promise<bigint> {
+    return this.contract.getLockedBalance(user, token);
+  }
+
+  /** Fees collected in `token` and not yet withdrawn to the fee recipient. */
+  async getFeeBalance(token: string): Promise<bigint> {
+    return this.contract.getFeeBalance(token);
+  }
+
+  /** Maker and taker rates for a pair in `FEE_DENOMINATOR` units. A negative maker rate is a rebate. */
+  async getFeeSchedule(baseToken: string, quoteToken: string): Promise<FeeSchedule> {
+    const [makerFeeRate, takerFeeRate] = await this.contract.getFeeSchedule(baseToken, quoteToken);
+    return { makerFeeRate, takerFeeRate };
+  }
+
+  /** Quote tokens a buy order locked for fees on top of its `quoteAmount`. */
+  async getOrderFeeReserve(orderId: bigint): Promise<bigint> {
+    return this.contract.getOrderFeeReserve(orderId);
+  }
+
+  async getFeeRecipient(): Promise<string> {
+    return this.contract.feeRecipient();
+  }
+
+  /** Fee discount tiers, ascending by `minVolume`. */
+  async getVolumeTiers(): Promise<VolumeTier[]> {
+    const tiers = await this.contract.getVolumeTiers();
+    return tiers.map(([minVolume, feeDiscount]: [bigint, bigint]) => ({ minVolume, feeDiscount }));
+  }
+
+  /** The trader's rolling volume, the tier it puts them in and the volume the next tier needs. */
+  async getTraderVolumeTier(trader: string): Promise<TraderVolumeTier> {
+    const [tier, rollingVolume, feeDiscount, nextTierVolume] = await this.contract.getTraderVolumeTier(trader);
+    return { tier, rollingVolume, feeDiscount, nextTierVolume };
+  }
+
+  /** True while a pauser has paused every pair. */
+  async isPaused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  async isPairHalted(baseToken: string, quoteToken: string): Promise<boolean> {
+    return this.contract.isPairHalted(baseToken, quoteToken);
+  }
+
+  /** False while the engine is paused or the pair halted; cancelling and withdrawing work either way. */
+  async isTradingActive(baseToken: string, quoteToken: string): Promise<boolean> {
+    return this.contract.isTradingActive(baseToken, quoteToken);
+  }
+
+  /** Whether `account` holds `role`, one of `Roles`. */
+  async hasRole(role: Role, account: string): Promise<boolean> {
+    return this.contract.hasRole(role, account);
+  }
+
+  async isTradingPairAllowed(baseToken: string, quoteToken: string): Promise<boolean> {
+    return this.contract.isTradingPairAllowed(baseToken, quoteToken);
+  }
+
+  /** Whether the pair takes orders and the size, tick and lot limits they must meet. */
+  async getPairConfig(baseToken: string, quoteToken: string): Promise<PairConfig> {
+    const [enabled, minOrderAmount, maxOrderAmount, tickSize, lotSize] = await this.contract.getPairConfig(baseToken, quoteToken);
+    return { enabled, minOrderAmount, maxOrderAmount, tickSize, lotSize };
+  }
+
+  async getOraclePrice(baseToken: string, quoteToken: string): Promise<bigint> {
+    return this.contract.getOraclePrice(baseToken, quoteToken);
+  }
+
+  async isOracleValid(baseToken: string, quoteToken: string): Promise<boolean> {
+    return this.contract.isOracleValid(baseToken, quoteToken);
+  }
+
+  async getOracleConfig(baseToken: string, quoteToken: string): Promise<OracleConfig> {
+    const [maxPriceAge, maxDeviation] = await this.contract.getOracleConfig(baseToken, quoteToken);
+    return { maxPriceAge, maxDeviation };
+  }
+
+  /** Whether the oracle price passes the pair's staleness checks right now; `price` is 0 when it does not. */
+  async checkOraclePrice(baseToken: string, quoteToken: string): Promise<{ isValid: boolean; price: bigint }> {
+    const [isValid, price] = await this.contract.checkOraclePrice(baseToken, quoteToken);
+    return { isValid, price };
+  }
+
+  // ---- Events ----
+
+  async queryEvents<K extends TradingEngineEventName>(
+    name: K,
+    fromBlock: number | string = 0,
+    toBlock: number | string = "latest"
+  ): Promise<DecodedEvent<K>[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters[name](), fromBlock, toBlock);
+    return decodeTradingEngineEvents(logs) as DecodedEvent<K>[];
+  }
+
+  /**
+   * Replays TradingPairAllowed events and returns the pairs that are still allowed, in listing order.
+   * Pass `blockRange` to split the scan for RPCs that cap the eth_getLogs range.
+   */
+  async getAllowedTradingPairs(fromBlock = 0, toBlock?: number, blockRange?: number): Promise<TradingPair[]> {
+    let events: DecodedEvent<"TradingPairAllowed">[] = [];
+    if (blockRange === undefined) {
+      events = await this.queryEvents("TradingPairAllowed", fromBlock, toBlock ?? "latest");
+    } else {
+      const lastBlock = toBlock ?? (await this.getProvider().getBlockNumber());
+      for (let start = fromBlock; start <= lastBlock; start += blockRange) {
+        const end = Math.min(start + blockRange - 1, lastBlock);
+        events.push(...(await this.queryEvents("TradingPairAllowed", start, end)));
+      }
+    }
+
+    const pairs = new Map<string, TradingPair & { allowed: boolean }>();
+    for (const { args } of events) {
+      const key = `${args.baseToken.toLowerCase()}-${args.quoteToken.toLowerCase()}`;
+      const existing = pairs.get(key);
+      if (existing) {
+        existing.allowed = args.allowed;
+      } else {
+        pairs.set(key, { baseToken: args.baseToken, quoteToken: args.quoteToken, allowed: args.allowed });
+      }
+    }
+
+    return [...pairs.values()]
+      .filter((pair) => pair.allowed)
+      .map(({ baseToken, quoteToken }) => ({ baseToken, quoteToken }));
+  }
+
+  /** The runner's provider, which a signer built without one lacks */
+  private getProvider(): Provider {
+    if (!this.runner.provider) {
+      throw new Error("TradingEngineClient needs a runner connected to a provider to read the chain");
+    }
+    return this.runner.provider;
+  }
+
+  // ---- Decimal helpers ----
+
+  async getTokenDecimals(token: string): Promise<number> {
+    const key = token.toLowerCase();
+    let decimals = this.decimalsCache.get(key);
+    if (decimals === undefined) {
+      decimals = Number(await new Contract(token, ERC20_ABI, this.runner).decimals());
+      this.decimalsCache.set(key, decimals);
+    }
+    return decimals;
+  }
+
+  /** Converts human readable amount and price strings into the units the contract expects. */
+  async parseOrderAmounts(
+    baseToken: string,
+    quoteToken: string,
+    amount: string,
+    price?: string
+  ): Promise<{ amount: bigint; price?: bigint }> {
+    const [baseDecimals, quoteDecimals] = await Promise.all([
+      this.getTokenDecimals(baseToken),
+      this.getTokenDecimals(quoteToken),
+    ]);
+
+    return {
+      amount: parseTokenAmount(amount, baseDecimals),
+      price: price === undefined ? undefined : parsePrice(price, quoteDecimals),
+    };
+  }
+}
+
+function toOrder(id: bigint, order: TradingEngineBase.OrderStructOutput): Order {
+  return {
+    id,
+    trader: order.trader,
+    baseToken: order.baseToken,
+    quoteToken: order.quoteToken,
+    amount: order.amount,
+    price: order.price,
+    isBuy: order.isBuy,
+    isMarketOrder: order.isMarketOrder,
+    timestamp: order.timestamp,
+    isActive: order.isActive,
+    quoteAmount: order.quoteAmount,
+    filledAmount: order.filledAmount,
+    timeInForce: Number(order.timeInForce) as TimeInForce,
+    expiresAt: order.expiresAt,
+  };
+}
+
+function toLimitOrderRequest(params: LimitOrderParams) {
+  return {
+    baseToken: params.baseToken,
+    quoteToken: params.quoteToken,
+    amount: params.amount,
+    price: params.price,
+    isBuy: params.isBuy,
+    timeInForce: params.timeInForce ?? TimeInForce.GTC,
+    expiresAt: params.expiresAt ?? 0n,
+  };
+}
+
+function toConditionalOrder(id: bigint, order: TradingEngineBase.ConditionalOrderStructOutput): ConditionalOrder {
+  return {
+    id,
+    trader: order.trader,
+    baseToken: order.baseToken,
+    quoteToken: order.quoteToken,
+    amount: order.amount,
+    triggerPrice: order.triggerPrice,
+    limitPrice: order.limitPrice,
+    isBuy: order.isBuy,
+    orderType: Number(order.orderType) as ConditionalOrderType,
+    timestamp: order.timestamp,
+    isPending: order.isPending,
+    orderId: order.orderId,
+  };
+}
+
+function toOrderPage(orderIds: bigint[], orders: TradingEngineBase.OrderStructOutput[], nextCursor: bigint): OrderPage {
+  return { orders: [...orderIds].map((orderId, i) => toOrder(orderId, orders[i])), nextCursor };
+}
+
+async function readAllPages<T>(fetchPage: (cursor: bigint) => Promise<{ orders: T[]; nextCursor: bigint }>): Promise<T[]> {
+  const orders: T[] = [];
+  let cursor = 0n;
+  do {
+    const page = await fetchPage(cursor);
+    orders.push(...page.orders);
+    cursor = page.nextCursor;
+  } while (cursor !== 0n);
+  return orders;
+}
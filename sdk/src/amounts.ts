@@ -0,0 +1,50 @@
+import { formatUnits, parseUnits } from "ethers";
+
+/** Fee rates are in `FEE_DENOMINATOR` units, 5n being 0.05%. */
+export const FEE_DENOMINATOR = 10000n;
+
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  return parseUnits(value, decimals);
+}
+
+export function formatTokenAmount(value: bigint, decimals: number): string {
+  return formatUnits(value, decimals);
+}
+
+export function parsePrice(value: string, quoteDecimals: number): bigint {
+  return parseUnits(value, quoteDecimals);
+}
+
+export function formatPrice(value: bigint, quoteDecimals: number): string {
+  return formatUnits(value, quoteDecimals);
+}
+
+/** Base units in one whole base token. TradingEngine prices are quote token units per whole base token. */
+export function baseUnitFor(baseDecimals: number): bigint {
+  return 10n ** BigInt(baseDecimals);
+}
+
+/** Quote tokens locked for `amount` base units at `price`, rounded down like the contract. */
+export function quoteAmountFor(amount: bigint, price: bigint, baseDecimals: number): bigint {
+  return (amount * price) / baseUnitFor(baseDecimals);
+}
+
+/** Quote token fee at `feeRate` on a fill worth `quoteAmount`, negative for a maker rebate. Rounds toward zero like the contract. */
+export function feeFor(quoteAmount: bigint, feeRate: bigint): bigint {
+  return (quoteAmount * feeRate) / FEE_DENOMINATOR;
+}
+
+/** Quote tokens a buy locks on top of `quoteAmount` to cover the highest fee it could pay. */
+export function feeReserveFor(quoteAmount: bigint, makerFeeRate: bigint, takerFeeRate: bigint): bigint {
+  const maxRate = makerFeeRate > takerFeeRate ? makerFeeRate : takerFeeRate;
+  return maxRate > 0n ? (quoteAmount * maxRate) / FEE_DENOMINATOR : 0n;
+}
+
+export const BPS_DENOMINATOR = 10000n;
+
+/** Worst acceptable price `slippageBps` away from `price`: higher for buys, lower for sells. */
+export function applySlippage(price: bigint, slippageBps: bigint, isBuy: boolean): bigint {
+  return isBuy
+    ? (price * (BPS_DENOMINATOR + slippageBps)) / BPS_DENOMINATOR
+    : (price * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+}
@@ -0,0 +1,298 @@
+import { Interface } from "ethers";
+import type { Log, TransactionReceipt } from "ethers";
+import type { BatchOrderResult } from "./types";
+import { TRADING_ENGINE_ABI } from "./abi/TradingEngine";
+
+export const tradingEngineInterface = new Interface(TRADING_ENGINE_ABI);
+
+export interface TradingEngineEventArgs {
+  OrderPlaced: {
+    orderId: bigint;
+    trader: string;
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    price: bigint;
+    isBuy: boolean;
+    isMarketOrder: boolean;
+  };
+  OrderMatched: {
+    buyOrderId: bigint;
+    sellOrderId: bigint;
+    amount: bigint;
+    price: bigint;
+    /** Negative when the side was a maker that earned a rebate. */
+    buyerFee: bigint;
+    sellerFee: bigint;
+  };
+  OrderCancelled: {
+    orderId: bigint;
+  };
+  OrderExpired: {
+    orderId: bigint;
+  };
+  BatchOrderRejected: {
+    /** Position of the order in the `placeLimitOrders` batch. */
+    index: bigint;
+    /** Revert data of the rejected order, see `getBatchOrderResults`. */
+    reason: string;
+  };
+  ConditionalOrderPlaced: {
+    conditionalOrderId: bigint;
+    trader: string;
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    triggerPrice: bigint;
+    limitPrice: bigint;
+    isBuy: boolean;
+    orderType: bigint;
+  };
+  ConditionalOrderTriggered: {
+    conditionalOrderId: bigint;
+    orderId: bigint;
+    oraclePrice: bigint;
+  };
+  ConditionalOrderCancelled: {
+    conditionalOrderId: bigint;
+  };
+  ConditionalOrderTriggerFailed: {
+    conditionalOrderId: bigint;
+    /** Revert data of the failed trigger; the order stays pending. */
+    reason: string;
+  };
+  PriceOracleUpdated: {
+    oldOracle: string;
+    newOracle: string;
+  };
+  TradingPairAllowed: {
+    baseToken: string;
+    quoteToken: string;
+    allowed: boolean;
+  };
+  PairConfigUpdated: {
+    baseToken: string;
+    quoteToken: string;
+    enabled: boolean;
+    minOrderAmount: bigint;
+    maxOrderAmount: bigint;
+    tickSize: bigint;
+    lotSize: bigint;
+  };
+  OracleConfigUpdated: {
+    baseToken: string;
+    quoteToken: string;
+    maxPriceAge: bigint;
+    maxDeviation: bigint;
+  };
+  FeeCollected: {
+    orderId: bigint;
+    payer: string;
+    token: string;
+    amount: bigint;
+    isMaker: boolean;
+  };
+  RebatePaid: {
+    orderId: bigint;
+    trader: string;
+    token: string;
+    amount: bigint;
+  };
+  FeeScheduleUpdated: {
+    /** Zero addresses for the default schedule. */
+    baseToken: string;
+    quoteToken: string;
+    makerFeeRate: bigint;
+    takerFeeRate: bigint;
+  };
+  PairFeeScheduleReset: {
+    baseToken: string;
+    quoteToken: string;
+  };
+  FeeRecipientUpdated: {
+    oldRecipient: string;
+    newRecipient: string;
+  };
+  FeesWithdrawn: {
+    recipient: string;
+    token: string;
+    amount: bigint;
+  };
+  VolumeTiersUpdated: {
+    minVolumes: bigint[];
+    feeDiscounts: bigint[];
+  };
+  RoleGranted: {
+    role: string;
+    account: string;
+    sender: string;
+  };
+  RoleRevoked: {
+    role: string;
+    account: string;
+    sender: string;
+  };
+  EnginePaused: {
+    account: string;
+  };
+  EngineUnpaused: {
+    account: string;
+  };
+  PairHalted: {
+    baseToken: string;
+    quoteToken: string;
+    account: string;
+  };
+  PairResumed: {
+    baseToken: string;
+    quoteToken: string;
+    account: string;
+  };
+  Deposited: {
+    trader: string;
+    token: string;
+    amount: bigint;
+  };
+  Withdrawn: {
+    trader: string;
+    token: string;
+    amount: bigint;
+  };
+  OrderBookCreated: {
+    pairId: string;
+    baseToken: string;
+    quoteToken: string;
+  };
+  BestPricesUpdated: {
+    pairId: string;
+    bestBid: bigint;
+    bestAsk: bigint;
+  };
+}
+
+export type TradingEngineEventName = keyof TradingEngineEventArgs;
+
+export interface DecodedEvent<K extends TradingEngineEventName> {
+  name: K;
+  args: TradingEngineEventArgs[K];
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type TradingEngineEvent = {
+  [K in TradingEngineEventName]: DecodedEvent<K>;
+}[TradingEngineEventName];
+
+const EVENT_NAMES = new Set<string>([
+  "OrderPlaced",
+  "OrderMatched",
+  "OrderCancelled",
+  "OrderExpired",
+  "BatchOrderRejected",
+  "ConditionalOrderPlaced",
+  "ConditionalOrderTriggered",
+  "ConditionalOrderCancelled",
+  "ConditionalOrderTriggerFailed",
+  "PriceOracleUpdated",
+  "TradingPairAllowed",
+  "PairConfigUpdated",
+  "OracleConfigUpdated",
+  "FeeCollected",
+  "RebatePaid",
+  "FeeScheduleUpdated",
+  "PairFeeScheduleReset",
+  "FeeRecipientUpdated",
+  "FeesWithdrawn",
+  "VolumeTiersUpdated",
+  "RoleGranted",
+  "RoleRevoked",
+  "EnginePaused",
+  "EngineUnpaused",
+  "PairHalted",
+  "PairResumed",
+  "Deposited",
+  "Withdrawn",
+  "OrderBookCreated",
+  "BestPricesUpdated",
+]);
+
+/** Decodes a single log, returning null for logs that are not TradingEngine events. */
+export function parseTradingEngineLog(log: Log): TradingEngineEvent | null {
+  let parsed;
+  try {
+    parsed = tradingEngineInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed || !EVENT_NAMES.has(parsed.name)) {
+    return null;
+  }
+
+  return {
+    name: parsed.name,
+    args: parsed.args.toObject(),
+    address: log.address,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  } as TradingEngineEvent;
+}
+
+export function decodeTradingEngineEvents(logs: readonly Log[]): TradingEngineEvent[] {
+  return logs
+    .map(parseTradingEngineLog)
+    .filter((event): event is TradingEngineEvent => event !== null);
+}
+
+export function filterEvents<K extends TradingEngineEventName>(
+  events: readonly TradingEngineEvent[],
+  name: K
+): DecodedEvent<K>[] {
+  return events.filter((event) => event.name === name) as DecodedEvent<K>[];
+}
+
+/** Returns the id of the first order placed in a transaction, if any. */
+export function getPlacedOrderId(receipt: TransactionReceipt): bigint | null {
+  const placed = filterEvents(decodeTradingEngineEvents(receipt.logs), "OrderPlaced");
+  return placed.length > 0 ? placed[0].args.orderId : null;
+}
+
+/**
+ * Returns what became of each order of a `placeLimitOrders` transaction, in batch order. Every order
+ * either emitted `OrderPlaced` or was rejected with `BatchOrderRejected`, whose revert data is decoded
+ * into `reason` where the engine's ABI knows the error.
+ */
+export function getBatchOrderResults(receipt: TransactionReceipt): BatchOrderResult[] {
+  const events = decodeTradingEngineEvents(receipt.logs);
+  // Placed pair by pair, but numbered in batch order
+  const placed = filterEvents(events, "OrderPlaced").sort((a, b) => (a.args.orderId < b.args.orderId ? -1 : 1));
+  const rejected = new Map(filterEvents(events, "BatchOrderRejected").map((event) => [event.args.index, event.args.reason]));
+
+  const results: BatchOrderResult[] = [];
+  let placedCount = 0;
+  for (let index = 0; index < placed.length + rejected.size; index++) {
+    const reason = rejected.get(BigInt(index));
+    results.push(
+      reason === undefined
+        ? { success: true, orderId: placed[placedCount++].args.orderId, reason: null }
+        : { success: false, orderId: null, reason: describeRevert(reason) }
+    );
+  }
+  return results;
+}
+
+function describeRevert(data: string): string {
+  try {
+    const error = tradingEngineInterface.parseError(data);
+    if (error) {
+      return error.name === "Error" ? error.args[0] : error.name;
+    }
+  } catch {
+    // Not an error the ABI knows, fall through to the raw data
+  }
+  return data;
+}
@@ -0,0 +1,43 @@
+export { TradingEngineClient } from "./TradingEngineClient";
+export { TRADING_ENGINE_ABI } from "./abi/TradingEngine";
+export type { TradingEngine as TradingEngineContract } from "./typechain";
+export { ERC20_ABI } from "./abi/ERC20";
+export * from "./amounts";
+export { Roles } from "./roles";
+export type { Role } from "./roles";
+export { TimeInForce, ConditionalOrderType } from "./types";
+export {
+  tradingEngineInterface,
+  parseTradingEngineLog,
+  decodeTradingEngineEvents,
+  filterEvents,
+  getPlacedOrderId,
+  getBatchOrderResults,
+} from "./events";
+export type {
+  TradingEngineEventArgs,
+  TradingEngineEventName,
+  TradingEngineEvent,
+  DecodedEvent,
+} from "./events";
+export type {
+  Order,
+  OrderPage,
+  OrderBookStats,
+  PriceLevel,
+  Ticker,
+  LimitOrderParams,
+  BatchOrderResult,
+  MarketOrderParams,
+  SlippageMarketOrderParams,
+  MarketOrderEstimate,
+  FeeSchedule,
+  VolumeTier,
+  TraderVolumeTier,
+  ConditionalOrder,
+  ConditionalOrderPage,
+  ConditionalOrderParams,
+  TradingPair,
+  PairConfig,
+  OracleConfig,
+} from "./types";
@@ -0,0 +1,19 @@
+import { ZeroHash, id } from "ethers";
+
+/** Role ids `TradingEngine` checks, mirroring the constants in `TradingEngineBase`. */
+export const Roles = {
+  /** Grants and revokes every role, including itself. */
+  DEFAULT_ADMIN: ZeroHash,
+  /** Allows and disallows trading pairs. */
+  PAIR_MANAGER: id("PAIR_MANAGER_ROLE"),
+  /** Replaces the price oracle. */
+  ORACLE_MANAGER: id("ORACLE_MANAGER_ROLE"),
+  /** Sets fee schedules, volume tiers and the fee recipient, and withdraws fees. */
+  FEE_MANAGER: id("FEE_MANAGER_ROLE"),
+  /** Pauses the engine and halts single pairs. */
+  PAUSER: id("PAUSER_ROLE"),
+  /** Upgrades the engine's implementation. */
+  UPGRADER: id("UPGRADER_ROLE"),
+} as const;
+
+export type Role = (typeof Roles)[keyof typeof Roles];
@@ -0,0 +1,3727 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace TradingEngineBase {
+  export type OrderStruct = {
+    trader: AddressLike;
+    baseToken: AddressLike;
+    quoteToken: AddressLike;
+    amount: BigNumberish;
+    price: BigNumberish;
+    isBuy: boolean;
+    isMarketOrder: boolean;
+    timestamp: BigNumberish;
+    isActive: boolean;
+    quoteAmount: BigNumberish;
+    filledAmount: BigNumberish;
+    timeInForce: BigNumberish;
+    expiresAt: BigNumberish;
+  };
+
+  export type OrderStructOutput = [
+    trader: string,
+    baseToken: string,
+    quoteToken: string,
+    amount: bigint,
+    price: bigint,
+    isBuy: boolean,
+    isMarketOrder: boolean,
+    timestamp: bigint,
+    isActive: boolean,
+    quoteAmount: bigint,
+    filledAmount: bigint,
+    timeInForce: bigint,
+    expiresAt: bigint
+  ] & {
+    trader: string;
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    price: bigint;
+    isBuy: boolean;
+    isMarketOrder: boolean;
+    timestamp: bigint;
+    isActive: boolean;
+    quoteAmount: bigint;
+    filledAmount: bigint;
+    timeInForce: bigint;
+    expiresAt: bigint;
+  };
+
+  export type ConditionalOrderStruct = {
+    trader: AddressLike;
+    baseToken: AddressLike;
+    quoteToken: AddressLike;
+    amount: BigNumberish;
+    triggerPrice: BigNumberish;
+    limitPrice: BigNumberish;
+    isBuy: boolean;
+    orderType: BigNumberish;
+    timestamp: BigNumberish;
+    isPending: boolean;
+    orderId: BigNumberish;
+  };
+
+  export type ConditionalOrderStructOutput = [
+    trader: string,
+    baseToken: string,
+    quoteToken: string,
+    amount: bigint,
+    triggerPrice: bigint,
+    limitPrice: bigint,
+    isBuy: boolean,
+    orderType: bigint,
+    timestamp: bigint,
+    isPending: boolean,
+    orderId: bigint
+  ] & {
+    trader: string;
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    triggerPrice: bigint;
+    limitPrice: bigint;
+    isBuy: boolean;
+    orderType: bigint;
+    timestamp: bigint;
+    isPending: boolean;
+    orderId: bigint;
+  };
+
+  export type PairConfigStruct = {
+    enabled: boolean;
+    minOrderAmount: BigNumberish;
+    maxOrderAmount: BigNumberish;
+    tickSize: BigNumberish;
+    lotSize: BigNumberish;
+  };
+
+  export type PairConfigStructOutput = [
+    enabled: boolean,
+    minOrderAmount: bigint,
+    maxOrderAmount: bigint,
+    tickSize: bigint,
+    lotSize: bigint
+  ] & {
+    enabled: boolean;
+    minOrderAmount: bigint;
+    maxOrderAmount: bigint;
+    tickSize: bigint;
+    lotSize: bigint;
+  };
+
+  export type OracleConfigStruct = {
+    maxPriceAge: BigNumberish;
+    maxDeviation: BigNumberish;
+  };
+
+  export type OracleConfigStructOutput = [
+    maxPriceAge: bigint,
+    maxDeviation: bigint
+  ] & { maxPriceAge: bigint; maxDeviation: bigint };
+
+  export type VolumeTierStruct = {
+    minVolume: BigNumberish;
+    feeDiscount: BigNumberish;
+  };
+
+  export type VolumeTierStructOutput = [
+    minVolume: bigint,
+    feeDiscount: bigint
+  ] & { minVolume: bigint; feeDiscount: bigint };
+}
+
+export declare namespace BatchOrderModule {
+  export type LimitOrderRequestStruct = {
+    baseToken: AddressLike;
+    quoteToken: AddressLike;
+    amount: BigNumberish;
+    price: BigNumberish;
+    isBuy: boolean;
+    timeInForce: BigNumberish;
+    expiresAt: BigNumberish;
+  };
+
+  export type LimitOrderRequestStructOutput = [
+    baseToken: string,
+    quoteToken: string,
+    amount: bigint,
+    price: bigint,
+    isBuy: boolean,
+    timeInForce: bigint,
+    expiresAt: bigint
+  ] & {
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    price: bigint;
+    isBuy: boolean;
+    timeInForce: bigint;
+    expiresAt: bigint;
+  };
+
+  export type PlacementResultStruct = {
+    success: boolean;
+    orderId: BigNumberish;
+    reason: BytesLike;
+  };
+
+  export type PlacementResultStructOutput = [
+    success: boolean,
+    orderId: bigint,
+    reason: string
+  ] & { success: boolean; orderId: bigint; reason: string };
+}
+
+export declare namespace MarketDataModule {
+  export type TickerStruct = {
+    lastPrice: BigNumberish;
+    lastTradeTime: BigNumberish;
+    high: BigNumberish;
+    low: BigNumberish;
+    volume: BigNumberish;
+    quoteVolume: BigNumberish;
+  };
+
+  export type TickerStructOutput = [
+    lastPrice: bigint,
+    lastTradeTime: bigint,
+    high: bigint,
+    low: bigint,
+    volume: bigint,
+    quoteVolume: bigint
+  ] & {
+    lastPrice: bigint;
+    lastTradeTime: bigint;
+    high: bigint;
+    low: bigint;
+    volume: bigint;
+    quoteVolume: bigint;
+  };
+}
+
+export interface TradingEngineInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "FEE_DENOMINATOR"
+      | "MAX_FEE_RATE"
+      | "MAX_VOLUME_TIERS"
+      | "OBSERVATION_INTERVAL"
+      | "UPGRADE_INTERFACE_VERSION"
+      | "VOLUME_PERIOD"
+      | "allowedTradingPairs"
+      | "balances"
+      | "cancelOrder"
+      | "collectedFees"
+      | "defaultFeeSchedule"
+      | "deposit"
+      | "expireOrder"
+      | "feeRecipient"
+      | "getActiveBuyOrders"
+      | "getActiveSellOrders"
+      | "getBestPrices"
+      | "getContractBalance"
+      | "getFeeBalance"
+      | "getFeeSchedule"
+      | "getLockedBalance"
+      | "getOraclePrice"
+      | "getOrder"
+      | "getOrderBookPairs"
+      | "getOrderBookStats"
+      | "getOrderFeeReserve"
+      | "getOrders"
+      | "getPairActiveBuyOrders"
+      | "getPairActiveSellOrders"
+      | "getPairId"
+      | "getPairOrderBookStats"
+      | "getPairOrders"
+      | "getTraderOpenOrderCount"
+      | "getTraderOpenOrders"
+      | "getUserBalance"
+      | "initialize"
+      | "isOracleValid"
+      | "isTradingPairAllowed"
+      | "lockedBalances"
+      | "nextConditionalOrderId"
+      | "orderBook"
+      | "placeLimitOrder"
+      | "placeLimitOrderWithTimeInForce"
+      | "placeMarketOrder"
+      | "placeMarketOrderWithSlippage"
+      | "placeMarketOrderWithTimeInForce"
+      | "priceOracle"
+      | "proxiableUUID"
+      | "setTradingPairAllowed"
+      | "updatePriceOracle"
+      | "upgradeToAndCall"
+      | "userOrders"
+      | "withdrawBalance"
+      | "cancelConditionalOrder"
+      | "getConditionalOrder"
+      | "getConditionalOrderFeeReserve"
+      | "getPendingConditionalOrders"
+      | "isConditionalOrderTriggerable"
+      | "placeConditionalOrder"
+      | "triggerConditionalOrder"
+      | "triggerOrders"
+      | "MAX_BATCH_SIZE"
+      | "cancelAllOrders"
+      | "cancelAndReplace"
+      | "cancelOrders"
+      | "placeBatchLimitOrder"
+      | "placeLimitOrders"
+      | "getPairConfig"
+      | "setPairConfig"
+      | "checkOraclePrice"
+      | "getOracleConfig"
+      | "setOracleConfig"
+      | "getPriceLevelOrders"
+      | "getPriceLevels"
+      | "getTicker"
+      | "getTwap"
+      | "getTraderVolumeTier"
+      | "getVolumeTiers"
+      | "resetPairFeeSchedule"
+      | "setDefaultFeeSchedule"
+      | "setFeeRecipient"
+      | "setPairFeeSchedule"
+      | "setVolumeTiers"
+      | "withdrawFees"
+      | "haltPair"
+      | "isPairHalted"
+      | "isTradingActive"
+      | "pause"
+      | "paused"
+      | "resumePair"
+      | "unpause"
+      | "grantRole"
+      | "hasRole"
+      | "migrateToRoles"
+      | "renounceRole"
+      | "revokeRole"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BestPricesUpdated"
+      | "Deposited"
+      | "FeeCollected"
+      | "FeeRecipientUpdated"
+      | "FeeScheduleUpdated"
+      | "FeesWithdrawn"
+      | "Initialized"
+      | "OrderBookCreated"
+      | "OrderCancelled"
+      | "OrderExpired"
+      | "OrderMatched"
+      | "OrderPlaced"
+      | "PairFeeScheduleReset"
+      | "PriceOracleUpdated"
+      | "RebatePaid"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "TradingPairAllowed"
+      | "Upgraded"
+      | "Withdrawn"
+      | "ConditionalOrderCancelled"
+      | "ConditionalOrderPlaced"
+      | "ConditionalOrderTriggerFailed"
+      | "ConditionalOrderTriggered"
+      | "BatchOrderRejected"
+      | "PairConfigUpdated"
+      | "OracleConfigUpdated"
+      | "VolumeTiersUpdated"
+      | "EnginePaused"
+      | "EngineUnpaused"
+      | "PairHalted"
+      | "PairResumed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "FEE_DENOMINATOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FEE_RATE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VOLUME_TIERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "OBSERVATION_INTERVAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VOLUME_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowedTradingPairs",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balances",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collectedFees",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultFeeSchedule",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deposit",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "feeRecipient",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveBuyOrders",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveSellOrders",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBestPrices",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getContractBalance",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFeeBalance",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFeeSchedule",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLockedBalance",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOraclePrice",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOrderBookPairs",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOrderBookStats",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOrderFeeReserve",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOrders",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairActiveBuyOrders",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairActiveSellOrders",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairId",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairOrderBookStats",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairOrders",
+    values: [AddressLike, AddressLike, boolean, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTraderOpenOrderCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTraderOpenOrders",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserBalance",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOracleValid",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTradingPairAllowed",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockedBalances",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextConditionalOrderId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "orderBook", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "placeLimitOrder",
+    values: [AddressLike, AddressLike, BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeLimitOrderWithTimeInForce",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeMarketOrder",
+    values: [AddressLike, AddressLike, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeMarketOrderWithSlippage",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      boolean,
+      BigNumberish,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeMarketOrderWithTimeInForce",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      boolean,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceOracle",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTradingPairAllowed",
+    values: [AddressLike, AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePriceOracle",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userOrders",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawBalance",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelConditionalOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConditionalOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConditionalOrderFeeReserve",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingConditionalOrders",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isConditionalOrderTriggerable",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeConditionalOrder",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "triggerConditionalOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "triggerOrders",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelAllOrders",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelAndReplace",
+    values: [BigNumberish[], BatchOrderModule.LimitOrderRequestStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOrders",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeBatchLimitOrder",
+    values: [AddressLike, BatchOrderModule.LimitOrderRequestStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "placeLimitOrders",
+    values: [BatchOrderModule.LimitOrderRequestStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairConfig",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairConfig",
+    values: [AddressLike, AddressLike, TradingEngineBase.PairConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkOraclePrice",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOracleConfig",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOracleConfig",
+    values: [AddressLike, AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceLevelOrders",
+    values: [AddressLike, AddressLike, boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceLevels",
+    values: [AddressLike, AddressLike, boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTicker",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTwap",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTraderVolumeTier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVolumeTiers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetPairFeeSchedule",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDefaultFeeSchedule",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFeeRecipient",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairFeeSchedule",
+    values: [AddressLike, AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVolumeTiers",
+    values: [BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawFees",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "haltPair",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPairHalted",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTradingActive",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "resumePair",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrateToRoles",
+    values: [AddressLike[], AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "FEE_DENOMINATOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FEE_RATE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VOLUME_TIERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "OBSERVATION_INTERVAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VOLUME_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowedTradingPairs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balances", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collectedFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultFeeSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "expireOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "feeRecipient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveBuyOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveSellOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBestPrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getContractBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFeeBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFeeSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLockedBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOraclePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOrder", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getOrderBookPairs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOrderBookStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOrderFeeReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOrders", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairActiveBuyOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairActiveSellOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPairId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairOrderBookStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTraderOpenOrderCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTraderOpenOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isOracleValid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTradingPairAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lockedBalances",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextConditionalOrderId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "orderBook", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "placeLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeLimitOrderWithTimeInForce",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeMarketOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeMarketOrderWithSlippage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeMarketOrderWithTimeInForce",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "priceOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTradingPairAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePriceOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userOrders", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelConditionalOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConditionalOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConditionalOrderFeeReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingConditionalOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isConditionalOrderTriggerable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeConditionalOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "triggerConditionalOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "triggerOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAllOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAndReplace",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeBatchLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "placeLimitOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkOraclePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOracleConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setOracleConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceLevelOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceLevels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTicker", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getTwap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTraderVolumeTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVolumeTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resetPairFeeSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDefaultFeeSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFeeRecipient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairFeeSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVolumeTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "haltPair", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isPairHalted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTradingActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "resumePair", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateToRoles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+}
+
+export namespace BestPricesUpdatedEvent {
+  export type InputTuple = [
+    pairId: BytesLike,
+    bestBid: BigNumberish,
+    bestAsk: BigNumberish
+  ];
+  export type OutputTuple = [pairId: string, bestBid: bigint, bestAsk: bigint];
+  export interface OutputObject {
+    pairId: string;
+    bestBid: bigint;
+    bestAsk: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [trader: string, token: string, amount: bigint];
+  export interface OutputObject {
+    trader: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeeCollectedEvent {
+  export type InputTuple = [
+    orderId: BigNumberish,
+    payer: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish,
+    isMaker: boolean
+  ];
+  export type OutputTuple = [
+    orderId: bigint,
+    payer: string,
+    token: string,
+    amount: bigint,
+    isMaker: boolean
+  ];
+  export interface OutputObject {
+    orderId: bigint;
+    payer: string;
+    token: string;
+    amount: bigint;
+    isMaker: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeeRecipientUpdatedEvent {
+  export type InputTuple = [
+    oldRecipient: AddressLike,
+    newRecipient: AddressLike
+  ];
+  export type OutputTuple = [oldRecipient: string, newRecipient: string];
+  export interface OutputObject {
+    oldRecipient: string;
+    newRecipient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeeScheduleUpdatedEvent {
+  export type InputTuple = [
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    makerFeeRate: BigNumberish,
+    takerFeeRate: BigNumberish
+  ];
+  export type OutputTuple = [
+    baseToken: string,
+    quoteToken: string,
+    makerFeeRate: bigint,
+    takerFeeRate: bigint
+  ];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+    makerFeeRate: bigint;
+    takerFeeRate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeesWithdrawnEvent {
+  export type InputTuple = [
+    recipient: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [recipient: string, token: string, amount: bigint];
+  export interface OutputObject {
+    recipient: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrderBookCreatedEvent {
+  export type InputTuple = [
+    pairId: BytesLike,
+    baseToken: AddressLike,
+    quoteToken: AddressLike
+  ];
+  export type OutputTuple = [
+    pairId: string,
+    baseToken: string,
+    quoteToken: string
+  ];
+  export interface OutputObject {
+    pairId: string;
+    baseToken: string;
+    quoteToken: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrderCancelledEvent {
+  export type InputTuple = [orderId: BigNumberish];
+  export type OutputTuple = [orderId: bigint];
+  export interface OutputObject {
+    orderId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrderExpiredEvent {
+  export type InputTuple = [orderId: BigNumberish];
+  export type OutputTuple = [orderId: bigint];
+  export interface OutputObject {
+    orderId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrderMatchedEvent {
+  export type InputTuple = [
+    buyOrderId: BigNumberish,
+    sellOrderId: BigNumberish,
+    amount: BigNumberish,
+    price: BigNumberish,
+    buyerFee: BigNumberish,
+    sellerFee: BigNumberish
+  ];
+  export type OutputTuple = [
+    buyOrderId: bigint,
+    sellOrderId: bigint,
+    amount: bigint,
+    price: bigint,
+    buyerFee: bigint,
+    sellerFee: bigint
+  ];
+  export interface OutputObject {
+    buyOrderId: bigint;
+    sellOrderId: bigint;
+    amount: bigint;
+    price: bigint;
+    buyerFee: bigint;
+    sellerFee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrderPlacedEvent {
+  export type InputTuple = [
+    orderId: BigNumberish,
+    trader: AddressLike,
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    amount: BigNumberish,
+    price: BigNumberish,
+    isBuy: boolean,
+    isMarketOrder: boolean
+  ];
+  export type OutputTuple = [
+    orderId: bigint,
+    trader: string,
+    baseToken: string,
+    quoteToken: string,
+    amount: bigint,
+    price: bigint,
+    isBuy: boolean,
+    isMarketOrder: boolean
+  ];
+  export interface OutputObject {
+    orderId: bigint;
+    trader: string;
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    price: bigint;
+    isBuy: boolean;
+    isMarketOrder: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairFeeScheduleResetEvent {
+  export type InputTuple = [baseToken: AddressLike, quoteToken: AddressLike];
+  export type OutputTuple = [baseToken: string, quoteToken: string];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceOracleUpdatedEvent {
+  export type InputTuple = [oldOracle: AddressLike, newOracle: AddressLike];
+  export type OutputTuple = [oldOracle: string, newOracle: string];
+  export interface OutputObject {
+    oldOracle: string;
+    newOracle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RebatePaidEvent {
+  export type InputTuple = [
+    orderId: BigNumberish,
+    trader: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    orderId: bigint,
+    trader: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    orderId: bigint;
+    trader: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradingPairAllowedEvent {
+  export type InputTuple = [
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    allowed: boolean
+  ];
+  export type OutputTuple = [
+    baseToken: string,
+    quoteToken: string,
+    allowed: boolean
+  ];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradedEvent {
+  export type InputTuple = [implementation: AddressLike];
+  export type OutputTuple = [implementation: string];
+  export interface OutputObject {
+    implementation: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [trader: string, token: string, amount: bigint];
+  export interface OutputObject {
+    trader: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConditionalOrderCancelledEvent {
+  export type InputTuple = [conditionalOrderId: BigNumberish];
+  export type OutputTuple = [conditionalOrderId: bigint];
+  export interface OutputObject {
+    conditionalOrderId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConditionalOrderPlacedEvent {
+  export type InputTuple = [
+    conditionalOrderId: BigNumberish,
+    trader: AddressLike,
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    amount: BigNumberish,
+    triggerPrice: BigNumberish,
+    limitPrice: BigNumberish,
+    isBuy: boolean,
+    orderType: BigNumberish
+  ];
+  export type OutputTuple = [
+    conditionalOrderId: bigint,
+    trader: string,
+    baseToken: string,
+    quoteToken: string,
+    amount: bigint,
+    triggerPrice: bigint,
+    limitPrice: bigint,
+    isBuy: boolean,
+    orderType: bigint
+  ];
+  export interface OutputObject {
+    conditionalOrderId: bigint;
+    trader: string;
+    baseToken: string;
+    quoteToken: string;
+    amount: bigint;
+    triggerPrice: bigint;
+    limitPrice: bigint;
+    isBuy: boolean;
+    orderType: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConditionalOrderTriggerFailedEvent {
+  export type InputTuple = [
+    conditionalOrderId: BigNumberish,
+    reason: BytesLike
+  ];
+  export type OutputTuple = [conditionalOrderId: bigint, reason: string];
+  export interface OutputObject {
+    conditionalOrderId: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConditionalOrderTriggeredEvent {
+  export type InputTuple = [
+    conditionalOrderId: BigNumberish,
+    orderId: BigNumberish,
+    oraclePrice: BigNumberish
+  ];
+  export type OutputTuple = [
+    conditionalOrderId: bigint,
+    orderId: bigint,
+    oraclePrice: bigint
+  ];
+  export interface OutputObject {
+    conditionalOrderId: bigint;
+    orderId: bigint;
+    oraclePrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOrderRejectedEvent {
+  export type InputTuple = [index: BigNumberish, reason: BytesLike];
+  export type OutputTuple = [index: bigint, reason: string];
+  export interface OutputObject {
+    index: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairConfigUpdatedEvent {
+  export type InputTuple = [
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    enabled: boolean,
+    minOrderAmount: BigNumberish,
+    maxOrderAmount: BigNumberish,
+    tickSize: BigNumberish,
+    lotSize: BigNumberish
+  ];
+  export type OutputTuple = [
+    baseToken: string,
+    quoteToken: string,
+    enabled: boolean,
+    minOrderAmount: bigint,
+    maxOrderAmount: bigint,
+    tickSize: bigint,
+    lotSize: bigint
+  ];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+    enabled: boolean;
+    minOrderAmount: bigint;
+    maxOrderAmount: bigint;
+    tickSize: bigint;
+    lotSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OracleConfigUpdatedEvent {
+  export type InputTuple = [
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    maxPriceAge: BigNumberish,
+    maxDeviation: BigNumberish
+  ];
+  export type OutputTuple = [
+    baseToken: string,
+    quoteToken: string,
+    maxPriceAge: bigint,
+    maxDeviation: bigint
+  ];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+    maxPriceAge: bigint;
+    maxDeviation: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VolumeTiersUpdatedEvent {
+  export type InputTuple = [
+    minVolumes: BigNumberish[],
+    feeDiscounts: BigNumberish[]
+  ];
+  export type OutputTuple = [minVolumes: bigint[], feeDiscounts: bigint[]];
+  export interface OutputObject {
+    minVolumes: bigint[];
+    feeDiscounts: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EnginePausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EngineUnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairHaltedEvent {
+  export type InputTuple = [
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    account: AddressLike
+  ];
+  export type OutputTuple = [
+    baseToken: string,
+    quoteToken: string,
+    account: string
+  ];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairResumedEvent {
+  export type InputTuple = [
+    baseToken: AddressLike,
+    quoteToken: AddressLike,
+    account: AddressLike
+  ];
+  export type OutputTuple = [
+    baseToken: string,
+    quoteToken: string,
+    account: string
+  ];
+  export interface OutputObject {
+    baseToken: string;
+    quoteToken: string;
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TradingEngine extends BaseContract {
+  connect(runner?: ContractRunner | null): TradingEngine;
+  waitForDeployment(): Promise<this>;
+
+  interface: TradingEngineInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  FEE_DENOMINATOR: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_FEE_RATE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VOLUME_TIERS: TypedContractMethod<[], [bigint], "view">;
+
+  OBSERVATION_INTERVAL: TypedContractMethod<[], [bigint], "view">;
+
+  UPGRADE_INTERFACE_VERSION: TypedContractMethod<[], [string], "view">;
+
+  VOLUME_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  allowedTradingPairs: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  balances: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  cancelOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  collectedFees: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  defaultFeeSchedule: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, boolean] & {
+        makerFeeRate: bigint;
+        takerFeeRate: bigint;
+        isSet: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  deposit: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  expireOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  feeRecipient: TypedContractMethod<[], [string], "view">;
+
+  getActiveBuyOrders: TypedContractMethod<[], [bigint[]], "view">;
+
+  getActiveSellOrders: TypedContractMethod<[], [bigint[]], "view">;
+
+  getBestPrices: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [[bigint, bigint] & { bestBid: bigint; bestAsk: bigint }],
+    "view"
+  >;
+
+  getContractBalance: TypedContractMethod<
+    [token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getFeeBalance: TypedContractMethod<[token: AddressLike], [bigint], "view">;
+
+  getFeeSchedule: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [[bigint, bigint] & { makerFeeRate: bigint; takerFeeRate: bigint }],
+    "view"
+  >;
+
+  getLockedBalance: TypedContractMethod<
+    [user: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getOraclePrice: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        bigint
+      ] & {
+        trader: string;
+        baseToken: string;
+        quoteToken: string;
+        amount: bigint;
+        price: bigint;
+        isBuy: boolean;
+        isMarketOrder: boolean;
+        timestamp: bigint;
+        isActive: boolean;
+        quoteAmount: bigint;
+        filledAmount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getOrderBookPairs: TypedContractMethod<
+    [],
+    [[string[], string[]] & { baseTokens: string[]; quoteTokens: string[] }],
+    "view"
+  >;
+
+  getOrderBookStats: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        totalBuyOrders: bigint;
+        totalSellOrders: bigint;
+        activeBuyOrders: bigint;
+        activeSellOrders: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getOrderFeeReserve: TypedContractMethod<
+    [orderId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getOrders: TypedContractMethod<
+    [orderIds: BigNumberish[]],
+    [TradingEngineBase.OrderStructOutput[]],
+    "view"
+  >;
+
+  getPairActiveBuyOrders: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getPairActiveSellOrders: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getPairId: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getPairOrderBookStats: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        totalBuyOrders: bigint;
+        totalSellOrders: bigint;
+        activeBuyOrders: bigint;
+        activeSellOrders: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getPairOrders: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      isBuy: boolean,
+      cursor: BigNumberish,
+      limit: BigNumberish
+    ],
+    [
+      [bigint[], TradingEngineBase.OrderStructOutput[], bigint] & {
+        orderIds: bigint[];
+        orders: TradingEngineBase.OrderStructOutput[];
+        nextCursor: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getTraderOpenOrderCount: TypedContractMethod<
+    [trader: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getTraderOpenOrders: TypedContractMethod<
+    [trader: AddressLike, cursor: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], TradingEngineBase.OrderStructOutput[], bigint] & {
+        orderIds: bigint[];
+        orders: TradingEngineBase.OrderStructOutput[];
+        nextCursor: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getUserBalance: TypedContractMethod<
+    [user: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [_priceOracle: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isOracleValid: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isTradingPairAllowed: TypedContractMethod<
+    [_baseToken: AddressLike, _quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lockedBalances: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  nextConditionalOrderId: TypedContractMethod<[], [bigint], "view">;
+
+  orderBook: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        nextOrderId: bigint;
+        activeBuyOrderCount: bigint;
+        activeSellOrderCount: bigint;
+        totalBuyOrderCount: bigint;
+        totalSellOrderCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  placeLimitOrder: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      price: BigNumberish,
+      isBuy: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  placeLimitOrderWithTimeInForce: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      price: BigNumberish,
+      isBuy: boolean,
+      timeInForce: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  placeMarketOrder: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      isBuy: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  placeMarketOrderWithSlippage: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      isBuy: boolean,
+      worstPrice: BigNumberish,
+      allowPartialFill: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  placeMarketOrderWithTimeInForce: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      isBuy: boolean,
+      timeInForce: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  priceOracle: TypedContractMethod<[], [string], "view">;
+
+  proxiableUUID: TypedContractMethod<[], [string], "view">;
+
+  setTradingPairAllowed: TypedContractMethod<
+    [_baseToken: AddressLike, _quoteToken: AddressLike, _allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePriceOracle: TypedContractMethod<
+    [_newOracle: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  upgradeToAndCall: TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  userOrders: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  withdrawBalance: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelConditionalOrder: TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getConditionalOrder: TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [TradingEngineBase.ConditionalOrderStructOutput],
+    "view"
+  >;
+
+  getConditionalOrderFeeReserve: TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getPendingConditionalOrders: TypedContractMethod<
+    [cursor: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], TradingEngineBase.ConditionalOrderStructOutput[], bigint] & {
+        conditionalOrderIds: bigint[];
+        orders: TradingEngineBase.ConditionalOrderStructOutput[];
+        nextCursor: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  isConditionalOrderTriggerable: TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  placeConditionalOrder: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      triggerPrice: BigNumberish,
+      limitPrice: BigNumberish,
+      isBuy: boolean,
+      orderType: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  triggerConditionalOrder: TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [boolean],
+    "nonpayable"
+  >;
+
+  triggerOrders: TypedContractMethod<
+    [conditionalOrderIds: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  cancelAllOrders: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  cancelAndReplace: TypedContractMethod<
+    [
+      orderIds: BigNumberish[],
+      orders: BatchOrderModule.LimitOrderRequestStruct[]
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+
+  cancelOrders: TypedContractMethod<
+    [orderIds: BigNumberish[]],
+    [boolean[]],
+    "nonpayable"
+  >;
+
+  placeBatchLimitOrder: TypedContractMethod<
+    [trader: AddressLike, order: BatchOrderModule.LimitOrderRequestStruct],
+    [bigint],
+    "nonpayable"
+  >;
+
+  placeLimitOrders: TypedContractMethod<
+    [orders: BatchOrderModule.LimitOrderRequestStruct[]],
+    [BatchOrderModule.PlacementResultStructOutput[]],
+    "nonpayable"
+  >;
+
+  getPairConfig: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [TradingEngineBase.PairConfigStructOutput],
+    "view"
+  >;
+
+  setPairConfig: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      config: TradingEngineBase.PairConfigStruct
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  checkOraclePrice: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [[boolean, bigint] & { isValid: boolean; price: bigint }],
+    "view"
+  >;
+
+  getOracleConfig: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [TradingEngineBase.OracleConfigStructOutput],
+    "view"
+  >;
+
+  setOracleConfig: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      maxPriceAge: BigNumberish,
+      maxDeviation: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getPriceLevelOrders: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      isBuy: boolean,
+      price: BigNumberish
+    ],
+    [bigint[]],
+    "view"
+  >;
+
+  getPriceLevels: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      isBuy: boolean,
+      maxLevels: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], bigint[]] & {
+        prices: bigint[];
+        amounts: bigint[];
+        orderCounts: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getTicker: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [MarketDataModule.TickerStructOutput],
+    "view"
+  >;
+
+  getTwap: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike, window: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getTraderVolumeTier: TypedContractMethod<
+    [trader: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        tier: bigint;
+        rollingVolume: bigint;
+        feeDiscount: bigint;
+        nextTierVolume: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getVolumeTiers: TypedContractMethod<
+    [],
+    [TradingEngineBase.VolumeTierStructOutput[]],
+    "view"
+  >;
+
+  resetPairFeeSchedule: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setDefaultFeeSchedule: TypedContractMethod<
+    [makerFeeRate: BigNumberish, takerFeeRate: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setFeeRecipient: TypedContractMethod<
+    [_feeRecipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setPairFeeSchedule: TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      makerFeeRate: BigNumberish,
+      takerFeeRate: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setVolumeTiers: TypedContractMethod<
+    [minVolumes: BigNumberish[], feeDiscounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawFees: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  haltPair: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isPairHalted: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isTradingActive: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  resumePair: TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  migrateToRoles: TypedContractMethod<
+    [baseTokens: AddressLike[], quoteTokens: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceRole: TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "FEE_DENOMINATOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FEE_RATE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VOLUME_TIERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "OBSERVATION_INTERVAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "UPGRADE_INTERFACE_VERSION"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "VOLUME_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "allowedTradingPairs"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "balances"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelOrder"
+  ): TypedContractMethod<[orderId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "collectedFees"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultFeeSchedule"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, boolean] & {
+        makerFeeRate: bigint;
+        takerFeeRate: bigint;
+        isSet: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deposit"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "expireOrder"
+  ): TypedContractMethod<[orderId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "feeRecipient"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getActiveBuyOrders"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getActiveSellOrders"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getBestPrices"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [[bigint, bigint] & { bestBid: bigint; bestAsk: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getContractBalance"
+  ): TypedContractMethod<[token: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getFeeBalance"
+  ): TypedContractMethod<[token: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getFeeSchedule"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [[bigint, bigint] & { makerFeeRate: bigint; takerFeeRate: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLockedBalance"
+  ): TypedContractMethod<
+    [user: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOraclePrice"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOrder"
+  ): TypedContractMethod<
+    [orderId: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        bigint
+      ] & {
+        trader: string;
+        baseToken: string;
+        quoteToken: string;
+        amount: bigint;
+        price: bigint;
+        isBuy: boolean;
+        isMarketOrder: boolean;
+        timestamp: bigint;
+        isActive: boolean;
+        quoteAmount: bigint;
+        filledAmount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOrderBookPairs"
+  ): TypedContractMethod<
+    [],
+    [[string[], string[]] & { baseTokens: string[]; quoteTokens: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOrderBookStats"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        totalBuyOrders: bigint;
+        totalSellOrders: bigint;
+        activeBuyOrders: bigint;
+        activeSellOrders: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOrderFeeReserve"
+  ): TypedContractMethod<[orderId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOrders"
+  ): TypedContractMethod<
+    [orderIds: BigNumberish[]],
+    [TradingEngineBase.OrderStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPairActiveBuyOrders"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPairActiveSellOrders"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPairId"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPairOrderBookStats"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        totalBuyOrders: bigint;
+        totalSellOrders: bigint;
+        activeBuyOrders: bigint;
+        activeSellOrders: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPairOrders"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      isBuy: boolean,
+      cursor: BigNumberish,
+      limit: BigNumberish
+    ],
+    [
+      [bigint[], TradingEngineBase.OrderStructOutput[], bigint] & {
+        orderIds: bigint[];
+        orders: TradingEngineBase.OrderStructOutput[];
+        nextCursor: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTraderOpenOrderCount"
+  ): TypedContractMethod<[trader: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTraderOpenOrders"
+  ): TypedContractMethod<
+    [trader: AddressLike, cursor: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], TradingEngineBase.OrderStructOutput[], bigint] & {
+        orderIds: bigint[];
+        orders: TradingEngineBase.OrderStructOutput[];
+        nextCursor: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getUserBalance"
+  ): TypedContractMethod<
+    [user: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<[_priceOracle: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "isOracleValid"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isTradingPairAllowed"
+  ): TypedContractMethod<
+    [_baseToken: AddressLike, _quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lockedBalances"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nextConditionalOrderId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "orderBook"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        nextOrderId: bigint;
+        activeBuyOrderCount: bigint;
+        activeSellOrderCount: bigint;
+        totalBuyOrderCount: bigint;
+        totalSellOrderCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "placeLimitOrder"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      price: BigNumberish,
+      isBuy: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placeLimitOrderWithTimeInForce"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      price: BigNumberish,
+      isBuy: boolean,
+      timeInForce: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placeMarketOrder"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      isBuy: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placeMarketOrderWithSlippage"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      isBuy: boolean,
+      worstPrice: BigNumberish,
+      allowPartialFill: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placeMarketOrderWithTimeInForce"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      isBuy: boolean,
+      timeInForce: BigNumberish,
+      expiresAt: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "priceOracle"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proxiableUUID"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setTradingPairAllowed"
+  ): TypedContractMethod<
+    [_baseToken: AddressLike, _quoteToken: AddressLike, _allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePriceOracle"
+  ): TypedContractMethod<[_newOracle: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "upgradeToAndCall"
+  ): TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "userOrders"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawBalance"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelConditionalOrder"
+  ): TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getConditionalOrder"
+  ): TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [TradingEngineBase.ConditionalOrderStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getConditionalOrderFeeReserve"
+  ): TypedContractMethod<[conditionalOrderId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPendingConditionalOrders"
+  ): TypedContractMethod<
+    [cursor: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], TradingEngineBase.ConditionalOrderStructOutput[], bigint] & {
+        conditionalOrderIds: bigint[];
+        orders: TradingEngineBase.ConditionalOrderStructOutput[];
+        nextCursor: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isConditionalOrderTriggerable"
+  ): TypedContractMethod<[conditionalOrderId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "placeConditionalOrder"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      amount: BigNumberish,
+      triggerPrice: BigNumberish,
+      limitPrice: BigNumberish,
+      isBuy: boolean,
+      orderType: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "triggerConditionalOrder"
+  ): TypedContractMethod<
+    [conditionalOrderId: BigNumberish],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "triggerOrders"
+  ): TypedContractMethod<
+    [conditionalOrderIds: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelAllOrders"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelAndReplace"
+  ): TypedContractMethod<
+    [
+      orderIds: BigNumberish[],
+      orders: BatchOrderModule.LimitOrderRequestStruct[]
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelOrders"
+  ): TypedContractMethod<[orderIds: BigNumberish[]], [boolean[]], "nonpayable">;
+  getFunction(
+    nameOrSignature: "placeBatchLimitOrder"
+  ): TypedContractMethod<
+    [trader: AddressLike, order: BatchOrderModule.LimitOrderRequestStruct],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "placeLimitOrders"
+  ): TypedContractMethod<
+    [orders: BatchOrderModule.LimitOrderRequestStruct[]],
+    [BatchOrderModule.PlacementResultStructOutput[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getPairConfig"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [TradingEngineBase.PairConfigStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setPairConfig"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      config: TradingEngineBase.PairConfigStruct
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkOraclePrice"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [[boolean, bigint] & { isValid: boolean; price: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOracleConfig"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [TradingEngineBase.OracleConfigStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setOracleConfig"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      maxPriceAge: BigNumberish,
+      maxDeviation: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceLevelOrders"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      isBuy: boolean,
+      price: BigNumberish
+    ],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceLevels"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      isBuy: boolean,
+      maxLevels: BigNumberish
+    ],
+    [
+      [bigint[], bigint[], bigint[]] & {
+        prices: bigint[];
+        amounts: bigint[];
+        orderCounts: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTicker"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [MarketDataModule.TickerStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTwap"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike, window: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTraderVolumeTier"
+  ): TypedContractMethod<
+    [trader: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        tier: bigint;
+        rollingVolume: bigint;
+        feeDiscount: bigint;
+        nextTierVolume: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getVolumeTiers"
+  ): TypedContractMethod<
+    [],
+    [TradingEngineBase.VolumeTierStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "resetPairFeeSchedule"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDefaultFeeSchedule"
+  ): TypedContractMethod<
+    [makerFeeRate: BigNumberish, takerFeeRate: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setFeeRecipient"
+  ): TypedContractMethod<[_feeRecipient: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPairFeeSchedule"
+  ): TypedContractMethod<
+    [
+      baseToken: AddressLike,
+      quoteToken: AddressLike,
+      makerFeeRate: BigNumberish,
+      takerFeeRate: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVolumeTiers"
+  ): TypedContractMethod<
+    [minVolumes: BigNumberish[], feeDiscounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawFees"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "haltPair"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isPairHalted"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isTradingActive"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "resumePair"
+  ): TypedContractMethod<
+    [baseToken: AddressLike, quoteToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "migrateToRoles"
+  ): TypedContractMethod<
+    [baseTokens: AddressLike[], quoteTokens: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "BestPricesUpdated"
+  ): TypedContractEvent<
+    BestPricesUpdatedEvent.InputTuple,
+    BestPricesUpdatedEvent.OutputTuple,
+    BestPricesUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Deposited"
+  ): TypedContractEvent<
+    DepositedEvent.InputTuple,
+    DepositedEvent.OutputTuple,
+    DepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeeCollected"
+  ): TypedContractEvent<
+    FeeCollectedEvent.InputTuple,
+    FeeCollectedEvent.OutputTuple,
+    FeeCollectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeeRecipientUpdated"
+  ): TypedContractEvent<
+    FeeRecipientUpdatedEvent.InputTuple,
+    FeeRecipientUpdatedEvent.OutputTuple,
+    FeeRecipientUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeeScheduleUpdated"
+  ): TypedContractEvent<
+    FeeScheduleUpdatedEvent.InputTuple,
+    FeeScheduleUpdatedEvent.OutputTuple,
+    FeeScheduleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesWithdrawn"
+  ): TypedContractEvent<
+    FeesWithdrawnEvent.InputTuple,
+    FeesWithdrawnEvent.OutputTuple,
+    FeesWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrderBookCreated"
+  ): TypedContractEvent<
+    OrderBookCreatedEvent.InputTuple,
+    OrderBookCreatedEvent.OutputTuple,
+    OrderBookCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrderCancelled"
+  ): TypedContractEvent<
+    OrderCancelledEvent.InputTuple,
+    OrderCancelledEvent.OutputTuple,
+    OrderCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrderExpired"
+  ): TypedContractEvent<
+    OrderExpiredEvent.InputTuple,
+    OrderExpiredEvent.OutputTuple,
+    OrderExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrderMatched"
+  ): TypedContractEvent<
+    OrderMatchedEvent.InputTuple,
+    OrderMatchedEvent.OutputTuple,
+    OrderMatchedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrderPlaced"
+  ): TypedContractEvent<
+    OrderPlacedEvent.InputTuple,
+    OrderPlacedEvent.OutputTuple,
+    OrderPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairFeeScheduleReset"
+  ): TypedContractEvent<
+    PairFeeScheduleResetEvent.InputTuple,
+    PairFeeScheduleResetEvent.OutputTuple,
+    PairFeeScheduleResetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceOracleUpdated"
+  ): TypedContractEvent<
+    PriceOracleUpdatedEvent.InputTuple,
+    PriceOracleUpdatedEvent.OutputTuple,
+    PriceOracleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RebatePaid"
+  ): TypedContractEvent<
+    RebatePaidEvent.InputTuple,
+    RebatePaidEvent.OutputTuple,
+    RebatePaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradingPairAllowed"
+  ): TypedContractEvent<
+    TradingPairAllowedEvent.InputTuple,
+    TradingPairAllowedEvent.OutputTuple,
+    TradingPairAllowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Upgraded"
+  ): TypedContractEvent<
+    UpgradedEvent.InputTuple,
+    UpgradedEvent.OutputTuple,
+    UpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConditionalOrderCancelled"
+  ): TypedContractEvent<
+    ConditionalOrderCancelledEvent.InputTuple,
+    ConditionalOrderCancelledEvent.OutputTuple,
+    ConditionalOrderCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConditionalOrderPlaced"
+  ): TypedContractEvent<
+    ConditionalOrderPlacedEvent.InputTuple,
+    ConditionalOrderPlacedEvent.OutputTuple,
+    ConditionalOrderPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConditionalOrderTriggerFailed"
+  ): TypedContractEvent<
+    ConditionalOrderTriggerFailedEvent.InputTuple,
+    ConditionalOrderTriggerFailedEvent.OutputTuple,
+    ConditionalOrderTriggerFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConditionalOrderTriggered"
+  ): TypedContractEvent<
+    ConditionalOrderTriggeredEvent.InputTuple,
+    ConditionalOrderTriggeredEvent.OutputTuple,
+    ConditionalOrderTriggeredEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOrderRejected"
+  ): TypedContractEvent<
+    BatchOrderRejectedEvent.InputTuple,
+    BatchOrderRejectedEvent.OutputTuple,
+    BatchOrderRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairConfigUpdated"
+  ): TypedContractEvent<
+    PairConfigUpdatedEvent.InputTuple,
+    PairConfigUpdatedEvent.OutputTuple,
+    PairConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OracleConfigUpdated"
+  ): TypedContractEvent<
+    OracleConfigUpdatedEvent.InputTuple,
+    OracleConfigUpdatedEvent.OutputTuple,
+    OracleConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VolumeTiersUpdated"
+  ): TypedContractEvent<
+    VolumeTiersUpdatedEvent.InputTuple,
+    VolumeTiersUpdatedEvent.OutputTuple,
+    VolumeTiersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EnginePaused"
+  ): TypedContractEvent<
+    EnginePausedEvent.InputTuple,
+    EnginePausedEvent.OutputTuple,
+    EnginePausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EngineUnpaused"
+  ): TypedContractEvent<
+    EngineUnpausedEvent.InputTuple,
+    EngineUnpausedEvent.OutputTuple,
+    EngineUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairHalted"
+  ): TypedContractEvent<
+    PairHaltedEvent.InputTuple,
+    PairHaltedEvent.OutputTuple,
+    PairHaltedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairResumed"
+  ): TypedContractEvent<
+    PairResumedEvent.InputTuple,
+    PairResumedEvent.OutputTuple,
+    PairResumedEvent.OutputObject
+  >;
+
+  filters: {
+    "BestPricesUpdated(bytes32,uint256,uint256)": TypedContractEvent<
+      BestPricesUpdatedEvent.InputTuple,
+      BestPricesUpdatedEvent.OutputTuple,
+      BestPricesUpdatedEvent.OutputObject
+    >;
+    BestPricesUpdated: TypedContractEvent<
+      BestPricesUpdatedEvent.InputTuple,
+      BestPricesUpdatedEvent.OutputTuple,
+      BestPricesUpdatedEvent.OutputObject
+    >;
+
+    "Deposited(address,address,uint256)": TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+    Deposited: TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+
+    "FeeCollected(uint256,address,address,uint256,bool)": TypedContractEvent<
+      FeeCollectedEvent.InputTuple,
+      FeeCollectedEvent.OutputTuple,
+      FeeCollectedEvent.OutputObject
+    >;
+    FeeCollected: TypedContractEvent<
+      FeeCollectedEvent.InputTuple,
+      FeeCollectedEvent.OutputTuple,
+      FeeCollectedEvent.OutputObject
+    >;
+
+    "FeeRecipientUpdated(address,address)": TypedContractEvent<
+      FeeRecipientUpdatedEvent.InputTuple,
+      FeeRecipientUpdatedEvent.OutputTuple,
+      FeeRecipientUpdatedEvent.OutputObject
+    >;
+    FeeRecipientUpdated: TypedContractEvent<
+      FeeRecipientUpdatedEvent.InputTuple,
+      FeeRecipientUpdatedEvent.OutputTuple,
+      FeeRecipientUpdatedEvent.OutputObject
+    >;
+
+    "FeeScheduleUpdated(address,address,int256,int256)": TypedContractEvent<
+      FeeScheduleUpdatedEvent.InputTuple,
+      FeeScheduleUpdatedEvent.OutputTuple,
+      FeeScheduleUpdatedEvent.OutputObject
+    >;
+    FeeScheduleUpdated: TypedContractEvent<
+      FeeScheduleUpdatedEvent.InputTuple,
+      FeeScheduleUpdatedEvent.OutputTuple,
+      FeeScheduleUpdatedEvent.OutputObject
+    >;
+
+    "FeesWithdrawn(address,address,uint256)": TypedContractEvent<
+      FeesWithdrawnEvent.InputTuple,
+      FeesWithdrawnEvent.OutputTuple,
+      FeesWithdrawnEvent.OutputObject
+    >;
+    FeesWithdrawn: TypedContractEvent<
+      FeesWithdrawnEvent.InputTuple,
+      FeesWithdrawnEvent.OutputTuple,
+      FeesWithdrawnEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "OrderBookCreated(bytes32,address,address)": TypedContractEvent<
+      OrderBookCreatedEvent.InputTuple,
+      OrderBookCreatedEvent.OutputTuple,
+      OrderBookCreatedEvent.OutputObject
+    >;
+    OrderBookCreated: TypedContractEvent<
+      OrderBookCreatedEvent.InputTuple,
+      OrderBookCreatedEvent.OutputTuple,
+      OrderBookCreatedEvent.OutputObject
+    >;
+
+    "OrderCancelled(uint256)": TypedContractEvent<
+      OrderCancelledEvent.InputTuple,
+      OrderCancelledEvent.OutputTuple,
+      OrderCancelledEvent.OutputObject
+    >;
+    OrderCancelled: TypedContractEvent<
+      OrderCancelledEvent.InputTuple,
+      OrderCancelledEvent.OutputTuple,
+      OrderCancelledEvent.OutputObject
+    >;
+
+    "OrderExpired(uint256)": TypedContractEvent<
+      OrderExpiredEvent.InputTuple,
+      OrderExpiredEvent.OutputTuple,
+      OrderExpiredEvent.OutputObject
+    >;
+    OrderExpired: TypedContractEvent<
+      OrderExpiredEvent.InputTuple,
+      OrderExpiredEvent.OutputTuple,
+      OrderExpiredEvent.OutputObject
+    >;
+
+    "OrderMatched(uint256,uint256,uint256,uint256,int256,int256)": TypedContractEvent<
+      OrderMatchedEvent.InputTuple,
+      OrderMatchedEvent.OutputTuple,
+      OrderMatchedEvent.OutputObject
+    >;
+    OrderMatched: TypedContractEvent<
+      OrderMatchedEvent.InputTuple,
+      OrderMatchedEvent.OutputTuple,
+      OrderMatchedEvent.OutputObject
+    >;
+
+    "OrderPlaced(uint256,address,address,address,uint256,uint256,bool,bool)": TypedContractEvent<
+      OrderPlacedEvent.InputTuple,
+      OrderPlacedEvent.OutputTuple,
+      OrderPlacedEvent.OutputObject
+    >;
+    OrderPlaced: TypedContractEvent<
+      OrderPlacedEvent.InputTuple,
+      OrderPlacedEvent.OutputTuple,
+      OrderPlacedEvent.OutputObject
+    >;
+
+    "PairFeeScheduleReset(address,address)": TypedContractEvent<
+      PairFeeScheduleResetEvent.InputTuple,
+      PairFeeScheduleResetEvent.OutputTuple,
+      PairFeeScheduleResetEvent.OutputObject
+    >;
+    PairFeeScheduleReset: TypedContractEvent<
+      PairFeeScheduleResetEvent.InputTuple,
+      PairFeeScheduleResetEvent.OutputTuple,
+      PairFeeScheduleResetEvent.OutputObject
+    >;
+
+    "PriceOracleUpdated(address,address)": TypedContractEvent<
+      PriceOracleUpdatedEvent.InputTuple,
+      PriceOracleUpdatedEvent.OutputTuple,
+      PriceOracleUpdatedEvent.OutputObject
+    >;
+    PriceOracleUpdated: TypedContractEvent<
+      PriceOracleUpdatedEvent.InputTuple,
+      PriceOracleUpdatedEvent.OutputTuple,
+      PriceOracleUpdatedEvent.OutputObject
+    >;
+
+    "RebatePaid(uint256,address,address,uint256)": TypedContractEvent<
+      RebatePaidEvent.InputTuple,
+      RebatePaidEvent.OutputTuple,
+      RebatePaidEvent.OutputObject
+    >;
+    RebatePaid: TypedContractEvent<
+      RebatePaidEvent.InputTuple,
+      RebatePaidEvent.OutputTuple,
+      RebatePaidEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "TradingPairAllowed(address,address,bool)": TypedContractEvent<
+      TradingPairAllowedEvent.InputTuple,
+      TradingPairAllowedEvent.OutputTuple,
+      TradingPairAllowedEvent.OutputObject
+    >;
+    TradingPairAllowed: TypedContractEvent<
+      TradingPairAllowedEvent.InputTuple,
+      TradingPairAllowedEvent.OutputTuple,
+      TradingPairAllowedEvent.OutputObject
+    >;
+
+    "Upgraded(address)": TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+    Upgraded: TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,address,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+
+    "ConditionalOrderCancelled(uint256)": TypedContractEvent<
+      ConditionalOrderCancelledEvent.InputTuple,
+      ConditionalOrderCancelledEvent.OutputTuple,
+      ConditionalOrderCancelledEvent.OutputObject
+    >;
+    ConditionalOrderCancelled: TypedContractEvent<
+      ConditionalOrderCancelledEvent.InputTuple,
+      ConditionalOrderCancelledEvent.OutputTuple,
+      ConditionalOrderCancelledEvent.OutputObject
+    >;
+
+    "ConditionalOrderPlaced(uint256,address,address,address,uint256,uint256,uint256,bool,uint8)": TypedContractEvent<
+      ConditionalOrderPlacedEvent.InputTuple,
+      ConditionalOrderPlacedEvent.OutputTuple,
+      ConditionalOrderPlacedEvent.OutputObject
+    >;
+    ConditionalOrderPlaced: TypedContractEvent<
+      ConditionalOrderPlacedEvent.InputTuple,
+      ConditionalOrderPlacedEvent.OutputTuple,
+      ConditionalOrderPlacedEvent.OutputObject
+    >;
+
+    "ConditionalOrderTriggerFailed(uint256,bytes)": TypedContractEvent<
+      ConditionalOrderTriggerFailedEvent.InputTuple,
+      ConditionalOrderTriggerFailedEvent.OutputTuple,
+      ConditionalOrderTriggerFailedEvent.OutputObject
+    >;
+    ConditionalOrderTriggerFailed: TypedContractEvent<
+      ConditionalOrderTriggerFailedEvent.InputTuple,
+      ConditionalOrderTriggerFailedEvent.OutputTuple,
+      ConditionalOrderTriggerFailedEvent.OutputObject
+    >;
+
+    "ConditionalOrderTriggered(uint256,uint256,uint256)": TypedContractEvent<
+      ConditionalOrderTriggeredEvent.InputTuple,
+      ConditionalOrderTriggeredEvent.OutputTuple,
+      ConditionalOrderTriggeredEvent.OutputObject
+    >;
+    ConditionalOrderTriggered: TypedContractEvent<
+      ConditionalOrderTriggeredEvent.InputTuple,
+      ConditionalOrderTriggeredEvent.OutputTuple,
+      ConditionalOrderTriggeredEvent.OutputObject
+    >;
+
+    "BatchOrderRejected(uint256,bytes)": TypedContractEvent<
+      BatchOrderRejectedEvent.InputTuple,
+      BatchOrderRejectedEvent.OutputTuple,
+      BatchOrderRejectedEvent.OutputObject
+    >;
+    BatchOrderRejected: TypedContractEvent<
+      BatchOrderRejectedEvent.InputTuple,
+      BatchOrderRejectedEvent.OutputTuple,
+      BatchOrderRejectedEvent.OutputObject
+    >;
+
+    "PairConfigUpdated(address,address,bool,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      PairConfigUpdatedEvent.InputTuple,
+      PairConfigUpdatedEvent.OutputTuple,
+      PairConfigUpdatedEvent.OutputObject
+    >;
+    PairConfigUpdated: TypedContractEvent<
+      PairConfigUpdatedEvent.InputTuple,
+      PairConfigUpdatedEvent.OutputTuple,
+      PairConfigUpdatedEvent.OutputObject
+    >;
+
+    "OracleConfigUpdated(address,address,uint256,uint256)": TypedContractEvent<
+      OracleConfigUpdatedEvent.InputTuple,
+      OracleConfigUpdatedEvent.OutputTuple,
+      OracleConfigUpdatedEvent.OutputObject
+    >;
+    OracleConfigUpdated: TypedContractEvent<
+      OracleConfigUpdatedEvent.InputTuple,
+      OracleConfigUpdatedEvent.OutputTuple,
+      OracleConfigUpdatedEvent.OutputObject
+    >;
+
+    "VolumeTiersUpdated(uint256[],uint256[])": TypedContractEvent<
+      VolumeTiersUpdatedEvent.InputTuple,
+      VolumeTiersUpdatedEvent.OutputTuple,
+      VolumeTiersUpdatedEvent.OutputObject
+    >;
+    VolumeTiersUpdated: TypedContractEvent<
+      VolumeTiersUpdatedEvent.InputTuple,
+      VolumeTiersUpdatedEvent.OutputTuple,
+      VolumeTiersUpdatedEvent.OutputObject
+    >;
+
+    "EnginePaused(address)": TypedContractEvent<
+      EnginePausedEvent.InputTuple,
+      EnginePausedEvent.OutputTuple,
+      EnginePausedEvent.OutputObject
+    >;
+    EnginePaused: TypedContractEvent<
+      EnginePausedEvent.InputTuple,
+      EnginePausedEvent.OutputTuple,
+      EnginePausedEvent.OutputObject
+    >;
+
+    "EngineUnpaused(address)": TypedContractEvent<
+      EngineUnpausedEvent.InputTuple,
+      EngineUnpausedEvent.OutputTuple,
+      EngineUnpausedEvent.OutputObject
+    >;
+    EngineUnpaused: TypedContractEvent<
+      EngineUnpausedEvent.InputTuple,
+      EngineUnpausedEvent.OutputTuple,
+      EngineUnpausedEvent.OutputObject
+    >;
+
+    "PairHalted(address,address,address)": TypedContractEvent<
+      PairHaltedEvent.InputTuple,
+      PairHaltedEvent.OutputTuple,
+      PairHaltedEvent.OutputObject
+    >;
+    PairHalted: TypedContractEvent<
+      PairHaltedEvent.InputTuple,
+      PairHaltedEvent.OutputTuple,
+      PairHaltedEvent.OutputObject
+    >;
+
+    "PairResumed(address,address,address)": TypedContractEvent<
+      PairResumedEvent.InputTuple,
+      PairResumedEvent.OutputTuple,
+      PairResumedEvent.OutputObject
+    >;
+    PairResumed: TypedContractEvent<
+      PairResumedEvent.InputTuple,
+      PairResumedEvent.OutputTuple,
+      PairResumedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,3705 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { TradingEngine, TradingEngineInterface } from "../TradingEngine";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_firstModule",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "neededRole",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "AddressEmptyCode",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ContractPaused",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidImplementation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC1967NonPayable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSlippage",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PriceOracleExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PriceOracleInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TradingPairHalted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TradingPairNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UUPSUnauthorizedCallContext",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "slot",
+        type: "bytes32",
+      },
+    ],
+    name: "UUPSUnsupportedProxiableUUID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "pairId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bestBid",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bestAsk",
+        type: "uint256",
+      },
+    ],
+    name: "BestPricesUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "payer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isMaker",
+        type: "bool",
+      },
+    ],
+    name: "FeeCollected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "oldRecipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "newRecipient",
+        type: "address",
+      },
+    ],
+    name: "FeeRecipientUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "int256",
+        name: "makerFeeRate",
+        type: "int256",
+      },
+      {
+        indexed: false,
+        internalType: "int256",
+        name: "takerFeeRate",
+        type: "int256",
+      },
+    ],
+    name: "FeeScheduleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "FeesWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "pairId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "OrderBookCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "OrderCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "OrderExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "buyOrderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sellOrderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "int256",
+        name: "buyerFee",
+        type: "int256",
+      },
+      {
+        indexed: false,
+        internalType: "int256",
+        name: "sellerFee",
+        type: "int256",
+      },
+    ],
+    name: "OrderMatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isMarketOrder",
+        type: "bool",
+      },
+    ],
+    name: "OrderPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "PairFeeScheduleReset",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "oldOracle",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "newOracle",
+        type: "address",
+      },
+    ],
+    name: "PriceOracleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RebatePaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "TradingPairAllowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    stateMutability: "nonpayable",
+    type: "fallback",
+  },
+  {
+    inputs: [],
+    name: "FEE_DENOMINATOR",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_FEE_RATE",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VOLUME_TIERS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OBSERVATION_INTERVAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOLUME_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowedTradingPairs",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balances",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "collectedFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultFeeSchedule",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "makerFeeRate",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "takerFeeRate",
+        type: "int256",
+      },
+      {
+        internalType: "bool",
+        name: "isSet",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "expireOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "feeRecipient",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getActiveBuyOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getActiveSellOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getBestPrices",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "bestBid",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "bestAsk",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getContractBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getFeeBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getFeeSchedule",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "makerFeeRate",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "takerFeeRate",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getLockedBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getOraclePrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "getOrder",
+    outputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isMarketOrder",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "quoteAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "filledAmount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOrderBookPairs",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "baseTokens",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "quoteTokens",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOrderBookStats",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "totalBuyOrders",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalSellOrders",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeBuyOrders",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeSellOrders",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "getOrderFeeReserve",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "orderIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "getOrders",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "isMarketOrder",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "quoteAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "filledAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "enum TradingEngineBase.TimeInForce",
+            name: "timeInForce",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.Order[]",
+        name: "orders",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getPairActiveBuyOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getPairActiveSellOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getPairId",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getPairOrderBookStats",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "totalBuyOrders",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalSellOrders",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeBuyOrders",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeSellOrders",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "cursor",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPairOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "orderIds",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "isMarketOrder",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "quoteAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "filledAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "enum TradingEngineBase.TimeInForce",
+            name: "timeInForce",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.Order[]",
+        name: "orders",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextCursor",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+    ],
+    name: "getTraderOpenOrderCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cursor",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getTraderOpenOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "orderIds",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "isMarketOrder",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "quoteAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "filledAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "enum TradingEngineBase.TimeInForce",
+            name: "timeInForce",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.Order[]",
+        name: "orders",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextCursor",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getUserBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_priceOracle",
+        type: "address",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "isOracleValid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_quoteToken",
+        type: "address",
+      },
+    ],
+    name: "isTradingPairAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lockedBalances",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextConditionalOrderId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "orderBook",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "nextOrderId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeBuyOrderCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeSellOrderCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalBuyOrderCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalSellOrderCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+    ],
+    name: "placeLimitOrder",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "enum TradingEngineBase.TimeInForce",
+        name: "timeInForce",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "placeLimitOrderWithTimeInForce",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+    ],
+    name: "placeMarketOrder",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "worstPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "allowPartialFill",
+        type: "bool",
+      },
+    ],
+    name: "placeMarketOrderWithSlippage",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "enum TradingEngineBase.TimeInForce",
+        name: "timeInForce",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "placeMarketOrderWithTimeInForce",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "priceOracle",
+    outputs: [
+      {
+        internalType: "contract IPriceOracle",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "_allowed",
+        type: "bool",
+      },
+    ],
+    name: "setTradingPairAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newOracle",
+        type: "address",
+      },
+    ],
+    name: "updatePriceOracle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "userOrders",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawBalance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "ConditionalOrderCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "triggerPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "limitPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "enum TradingEngineBase.ConditionalOrderType",
+        name: "orderType",
+        type: "uint8",
+      },
+    ],
+    name: "ConditionalOrderPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "reason",
+        type: "bytes",
+      },
+    ],
+    name: "ConditionalOrderTriggerFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oraclePrice",
+        type: "uint256",
+      },
+    ],
+    name: "ConditionalOrderTriggered",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelConditionalOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "getConditionalOrder",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "triggerPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limitPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "enum TradingEngineBase.ConditionalOrderType",
+            name: "orderType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isPending",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "orderId",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.ConditionalOrder",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "getConditionalOrderFeeReserve",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cursor",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPendingConditionalOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "conditionalOrderIds",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "triggerPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limitPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "enum TradingEngineBase.ConditionalOrderType",
+            name: "orderType",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isPending",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "orderId",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.ConditionalOrder[]",
+        name: "orders",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextCursor",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "isConditionalOrderTriggerable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "triggerable",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "triggerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limitPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "enum TradingEngineBase.ConditionalOrderType",
+        name: "orderType",
+        type: "uint8",
+      },
+    ],
+    name: "placeConditionalOrder",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "conditionalOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "triggerConditionalOrder",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "triggered",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "conditionalOrderIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "triggerOrders",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "triggeredCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "reason",
+        type: "bytes",
+      },
+    ],
+    name: "BatchOrderRejected",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "cancelAllOrders",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "cancelledCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "orderIds",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "enum TradingEngineBase.TimeInForce",
+            name: "timeInForce",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct BatchOrderModule.LimitOrderRequest[]",
+        name: "orders",
+        type: "tuple[]",
+      },
+    ],
+    name: "cancelAndReplace",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "newOrderIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "orderIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "cancelOrders",
+    outputs: [
+      {
+        internalType: "bool[]",
+        name: "cancelled",
+        type: "bool[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "enum TradingEngineBase.TimeInForce",
+            name: "timeInForce",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct BatchOrderModule.LimitOrderRequest",
+        name: "order",
+        type: "tuple",
+      },
+    ],
+    name: "placeBatchLimitOrder",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "baseToken",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "quoteToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isBuy",
+            type: "bool",
+          },
+          {
+            internalType: "enum TradingEngineBase.TimeInForce",
+            name: "timeInForce",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "expiresAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct BatchOrderModule.LimitOrderRequest[]",
+        name: "orders",
+        type: "tuple[]",
+      },
+    ],
+    name: "placeLimitOrders",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "orderId",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "reason",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct BatchOrderModule.PlacementResult[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minOrderAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxOrderAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tickSize",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lotSize",
+        type: "uint256",
+      },
+    ],
+    name: "PairConfigUpdated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getPairConfig",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "enabled",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "minOrderAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxOrderAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tickSize",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "lotSize",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.PairConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "enabled",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "minOrderAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxOrderAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tickSize",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "lotSize",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.PairConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "setPairConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPriceAge",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxDeviation",
+        type: "uint256",
+      },
+    ],
+    name: "OracleConfigUpdated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "checkOraclePrice",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getOracleConfig",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "maxPriceAge",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxDeviation",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.OracleConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPriceAge",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDeviation",
+        type: "uint256",
+      },
+    ],
+    name: "setOracleConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "getPriceLevelOrders",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "orderIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "maxLevels",
+        type: "uint256",
+      },
+    ],
+    name: "getPriceLevels",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "prices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "orderCounts",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "getTicker",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "lastPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "lastTradeTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "high",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "low",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "volume",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "quoteVolume",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MarketDataModule.Ticker",
+        name: "ticker",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+    ],
+    name: "getTwap",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "minVolumes",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "feeDiscounts",
+        type: "uint256[]",
+      },
+    ],
+    name: "VolumeTiersUpdated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+    ],
+    name: "getTraderVolumeTier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tier",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rollingVolume",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "feeDiscount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "nextTierVolume",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getVolumeTiers",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "minVolume",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "feeDiscount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct TradingEngineBase.VolumeTier[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "resetPairFeeSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "int256",
+        name: "makerFeeRate",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "takerFeeRate",
+        type: "int256",
+      },
+    ],
+    name: "setDefaultFeeSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_feeRecipient",
+        type: "address",
+      },
+    ],
+    name: "setFeeRecipient",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        internalType: "int256",
+        name: "makerFeeRate",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "takerFeeRate",
+        type: "int256",
+      },
+    ],
+    name: "setPairFeeSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "minVolumes",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "feeDiscounts",
+        type: "uint256[]",
+      },
+    ],
+    name: "setVolumeTiers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "EnginePaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "EngineUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "PairHalted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "PairResumed",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "haltPair",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "isPairHalted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "isTradingActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "baseToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "quoteToken",
+        type: "address",
+      },
+    ],
+    name: "resumePair",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "baseTokens",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "quoteTokens",
+        type: "address[]",
+      },
+    ],
+    name: "migrateToRoles",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class TradingEngine__factory {
+  static readonly abi = _abi;
+  static createInterface(): TradingEngineInterface {
+    return new Interface(_abi) as TradingEngineInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TradingEngine {
+    return new Contract(address, _abi, runner) as unknown as TradingEngine;
+  }
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { TradingEngine } from "./TradingEngine";
+export * as factories from "./factories";
+export { TradingEngine__factory } from "./factories/TradingEngine__factory";
@@ -0,0 +1,200 @@
+/** Mirrors `TradingEngine.TimeInForce`. */
+export enum TimeInForce {
+  /** Good-til-cancelled: rests until filled or cancelled. */
+  GTC = 0,
+  /** Immediate-or-cancel: fills what it can and refunds the rest. */
+  IOC = 1,
+  /** Fill-or-kill: reverts unless it can be filled completely. */
+  FOK = 2,
+  /** Good-til-time: rests until `expiresAt`, after which anyone can expire it. */
+  GTT = 3,
+}
+
+/** Mirrors `TradingEngine.ConditionalOrderType`. */
+export enum ConditionalOrderType {
+  /** Market order once the price moves against the trader past the trigger. */
+  StopMarket = 0,
+  /** Limit order at `limitPrice` once the price moves against the trader past the trigger. */
+  StopLimit = 1,
+  /** Market order once the price moves in the trader's favour past the trigger. */
+  TakeProfit = 2,
+}
+
+export interface Order {
+  id: bigint;
+  trader: string;
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  price: bigint;
+  isBuy: boolean;
+  isMarketOrder: boolean;
+  timestamp: bigint;
+  isActive: boolean;
+  quoteAmount: bigint;
+  filledAmount: bigint;
+  timeInForce: TimeInForce;
+  /** Unix timestamp in seconds, 0 unless the order is GTT. */
+  expiresAt: bigint;
+}
+
+/** One page of orders; `nextCursor` is 0 once there are no more pages. */
+export interface OrderPage {
+  orders: Order[];
+  nextCursor: bigint;
+}
+
+export interface ConditionalOrder {
+  id: bigint;
+  trader: string;
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  triggerPrice: bigint;
+  limitPrice: bigint;
+  isBuy: boolean;
+  orderType: ConditionalOrderType;
+  timestamp: bigint;
+  /** False once triggered or cancelled. */
+  isPending: boolean;
+  /** Id of the order placed when it triggered, 0 before then. */
+  orderId: bigint;
+}
+
+/** One page of pending conditional orders; `nextCursor` is 0 once there are no more pages. */
+export interface ConditionalOrderPage {
+  orders: ConditionalOrder[];
+  nextCursor: bigint;
+}
+
+export interface OrderBookStats {
+  totalBuyOrders: bigint;
+  totalSellOrders: bigint;
+  activeBuyOrders: bigint;
+  activeSellOrders: bigint;
+}
+
+export interface PriceLevel {
+  price: bigint;
+  amount: bigint;
+  orderCount: bigint;
+}
+
+/**
+ * Where a pair last traded and its figures for the current hour and the 23 before it. `volume` is
+ * in base token units and `quoteVolume` in quote token units; all are 0 when nothing traded.
+ */
+export interface Ticker {
+  lastPrice: bigint;
+  lastTradeTime: bigint;
+  high: bigint;
+  low: bigint;
+  volume: bigint;
+  quoteVolume: bigint;
+}
+
+export interface LimitOrderParams {
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  price: bigint;
+  isBuy: boolean;
+  timeInForce?: TimeInForce;
+  expiresAt?: bigint;
+}
+
+/** What became of one order of a `placeLimitOrders` batch. */
+export interface BatchOrderResult {
+  success: boolean;
+  orderId: bigint | null;
+  /** Revert message or custom error name of a rejected order, or its raw revert data when neither decodes. */
+  reason: string | null;
+}
+
+export interface MarketOrderParams {
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  isBuy: boolean;
+  timeInForce?: TimeInForce;
+  expiresAt?: bigint;
+}
+
+export interface SlippageMarketOrderParams {
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  isBuy: boolean;
+  /** Most a buy pays, or least a sell accepts, per base unit. */
+  worstPrice: bigint;
+  /** Refund the unfilled remainder instead of reverting. Defaults to false. */
+  allowPartialFill?: boolean;
+}
+
+export interface ConditionalOrderParams {
+  baseToken: string;
+  quoteToken: string;
+  amount: bigint;
+  /** Oracle price at which the order goes live. */
+  triggerPrice: bigint;
+  /** Resting price of a stop-limit, or the worst execution price of a stop-market or take-profit. */
+  limitPrice: bigint;
+  isBuy: boolean;
+  orderType: ConditionalOrderType;
+}
+
+/** What a market order would do against the current book. */
+export interface MarketOrderEstimate {
+  /** Volume-weighted price of the part the book can fill, or the oracle price when it can fill nothing. */
+  averagePrice: bigint;
+  /** Price of the last level the order reaches. */
+  worstPrice: bigint;
+  fillableAmount: bigint;
+  quoteAmount: bigint;
+}
+
+/** Rates in `FEE_DENOMINATOR` units; a negative maker rate is a rebate. */
+export interface FeeSchedule {
+  makerFeeRate: bigint;
+  takerFeeRate: bigint;
+}
+
+/** `minVolume` is rolling 30 day volume in quote value scaled to 18 decimals, `feeDiscount` is in `FEE_DENOMINATOR` units. */
+export interface VolumeTier {
+  minVolume: bigint;
+  feeDiscount: bigint;
+}
+
+/** `tier` is 1-based and 0 below the first tier; `nextTierVolume` is 0 in the top tier. */
+export interface TraderVolumeTier {
+  tier: bigint;
+  rollingVolume: bigint;
+  feeDiscount: bigint;
+  nextTierVolume: bigint;
+}
+
+export interface TradingPair {
+  baseToken: string;
+  quoteToken: string;
+}
+
+/**
+ * Checks on a pair's oracle price, zero turns a check off. `maxPriceAge` is in seconds and
+ * `maxDeviation`, how far the best book price may stray from the oracle, in `FEE_DENOMINATOR` units.
+ */
+export interface OracleConfig {
+  maxPriceAge: bigint;
+  maxDeviation: bigint;
+}
+
+/**
+ * Order sizes are whole base tokens scaled to 18 decimals, whatever the base token's decimals, and
+ * `tickSize` is in quote token units like prices. A zero tick or lot size means no constraint.
+ */
+export interface PairConfig {
+  enabled: boolean;
+  minOrderAmount: bigint;
+  maxOrderAmount: bigint;
+  tickSize: bigint;
+  lotSize: bigint;
+}
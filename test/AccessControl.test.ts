@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, AccessControlModule, FeeModule, EmergencyModule } from "../typechain-types";
+import { TradingEngineClient, Roles } from "../sdk/src";
+import { deployEngine } from "./helpers/engine-fixture";
+
+describe("Access Control", function () {
+  let tradingEngine: TradingEngine;
+  let accessControl: AccessControlModule;
+  let fees: FeeModule;
+  let emergency: EmergencyModule;
+  let admin: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let engineAddress: string;
+  let oracleAddress: string;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  // Pairs are left unlisted for the pair manager to list
+  async function accessControlFixture() {
+    return deployEngine({ listPairs: false });
+  }
+
+  beforeEach(async function () {
+    [admin, manager, outsider] = await ethers.getSigners();
+    const engine = await loadFixture(accessControlFixture);
+    ({ tradingEngine, engineAddress, baseAddresses: [baseAddress], quoteAddress } = engine);
+    oracleAddress = await engine.mockPriceOracle.getAddress();
+    accessControl = await ethers.getContractAt("AccessControlModule", engineAddress);
+    fees = await ethers.getContractAt("FeeModule", engineAddress);
+    emergency = await ethers.getContractAt("EmergencyModule", engineAddress);
+  });
+
+  // UPGRADER_ROLE is left to LegacyUpgrade.test.ts, upgradeToAndCall refuses to run outside a proxy before it checks roles
+  it("Should keep each admin function behind its own role", async function () {
+    const calls: [string, () => Promise<any>][] = [
+      [Roles.PAIR_MANAGER, () => tradingEngine.connect(manager).setTradingPairAllowed(baseAddress, quoteAddress, false)],
+      [Roles.ORACLE_MANAGER, () => tradingEngine.connect(manager).updatePriceOracle(oracleAddress)],
+      [Roles.FEE_MANAGER, () => fees.connect(manager).setDefaultFeeSchedule(1, 4)],
+      [Roles.PAUSER, () => emergency.connect(manager).pause()],
+    ];
+
+    for (const [role, call] of calls) {
+      await expect(call()).to.be.revertedWithCustomError(tradingEngine, "AccessControlUnauthorizedAccount").withArgs(manager.address, role);
+      // Holding some other role is no help
+      for (const [otherRole] of calls.filter(([candidate]) => candidate !== role)) {
+        await accessControl.grantRole(otherRole, manager.address);
+      }
+      await expect(call()).to.be.revertedWithCustomError(tradingEngine, "AccessControlUnauthorizedAccount");
+
+      await accessControl.grantRole(role, manager.address);
+      await call();
+      for (const [anyRole] of calls) {
+        await accessControl.revokeRole(anyRole, manager.address);
+      }
+    }
+  });
+
+  it("Should let only the admin grant and revoke roles, and anyone renounce their own", async function () {
+    await expect(accessControl.grantRole(Roles.FEE_MANAGER, manager.address))
+      .to.emit(accessControl, "RoleGranted")
+      .withArgs(Roles.FEE_MANAGER, manager.address, admin.address);
+    expect(await accessControl.hasRole(Roles.FEE_MANAGER, manager.address)).to.be.true;
+
+    await expect(accessControl.connect(manager).grantRole(Roles.FEE_MANAGER, outsider.address))
+      .to.be.revertedWithCustomError(accessControl, "AccessControlUnauthorizedAccount")
+      .withArgs(manager.address, Roles.DEFAULT_ADMIN);
+    await expect(accessControl.connect(outsider).revokeRole(Roles.FEE_MANAGER, manager.address))
+      .to.be.revertedWithCustomError(accessControl, "AccessControlUnauthorizedAccount");
+
+    await expect(accessControl.connect(manager).renounceRole(Roles.FEE_MANAGER))
+      .to.emit(accessControl, "RoleRevoked")
+      .withArgs(Roles.FEE_MANAGER, manager.address, manager.address);
+    expect(await accessControl.hasRole(Roles.FEE_MANAGER, manager.address)).to.be.false;
+
+    // Handing admin over and renouncing it leaves the old admin with its other roles only
+    await accessControl.grantRole(Roles.DEFAULT_ADMIN, manager.address);
+    await accessControl.renounceRole(Roles.DEFAULT_ADMIN);
+    await expect(accessControl.grantRole(Roles.PAUSER, outsider.address))
+      .to.be.revertedWithCustomError(accessControl, "AccessControlUnauthorizedAccount");
+    await expect(accessControl.connect(manager).revokeRole(Roles.PAUSER, admin.address))
+      .to.emit(accessControl, "RoleRevoked")
+      .withArgs(Roles.PAUSER, admin.address, manager.address);
+    expect(await accessControl.hasRole(Roles.FEE_MANAGER, admin.address)).to.be.true;
+  });
+
+  it("Should let a fee manager or the fee recipient withdraw fees", async function () {
+    await fees.setFeeRecipient(outsider.address);
+    await expect(fees.connect(manager).withdrawFees(quoteAddress, 0)).to.be.revertedWith("Not authorized to withdraw fees");
+    await fees.connect(outsider).withdrawFees(quoteAddress, 0);
+
+    await accessControl.grantRole(Roles.FEE_MANAGER, manager.address);
+    await fees.connect(manager).withdrawFees(quoteAddress, 0);
+  });
+
+  it("Should have nothing to migrate on an engine deployed with roles", async function () {
+    await expect(accessControl.migrateToRoles([], [])).to.be.revertedWith("Nothing to migrate");
+  });
+
+  it("Should check roles through the SDK", async function () {
+    const client = new TradingEngineClient(engineAddress, outsider);
+    expect(await client.hasRole(Roles.PAUSER, admin.address)).to.be.true;
+    expect(await client.hasRole(Roles.PAUSER, outsider.address)).to.be.false;
+
+    await accessControl.grantRole(Roles.PAUSER, outsider.address);
+    expect(await client.hasRole(Roles.PAUSER, outsider.address)).to.be.true;
+  });
+});
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { TradingEngine, MockERC20, MockPriceOracle } from "../typechain-types";
+import { deployTradingEngine } from "../scripts/lib/deploy-trading-engine";
 
 describe("BSC Network Trading - USDC/aTSLA", function () {
   let tradingEngine: TradingEngine;
@@ -41,14 +42,9 @@ describe("BSC Network Trading - USDC/aTSLA", function () {
     const MockPriceOracleFactory = await ethers.getContractFactory("MockPriceOracle");
     mockPriceOracle = await MockPriceOracleFactory.deploy();
     
-    const TradingEngineFactory = await ethers.getContractFactory("TradingEngine");
-    tradingEngine = await TradingEngineFactory.deploy();
+    tradingEngine = await deployTradingEngine();
     
-    await tradingEngine.initialize(
-      await mockPriceOracle.getAddress(),
-      MIN_ORDER_AMOUNT,
-      MAX_ORDER_AMOUNT
-    );
+    await tradingEngine.initialize(await mockPriceOracle.getAddress());
     
     await mockPriceOracle.setPrice(
       await atsla.getAddress(),
@@ -76,8 +72,15 @@ describe("BSC Network Trading - USDC/aTSLA", function () {
     await atsla.connect(whaleAtsla).approve(await tradingEngine.getAddress(), ethers.parseEther("1"));
     await usdc.connect(whaleUsdc).approve(await tradingEngine.getAddress(), ethers.parseEther("10000"));
     
-    await tradingEngine.setTradingPairAllowed(await atsla.getAddress(), await usdc.getAddress(), true);
-    await tradingEngine.setTradingPairAllowed(await usdc.getAddress(), await atsla.getAddress(), true);
+    await tradingEngine.connect(user1).deposit(await atsla.getAddress(), ethers.parseEther("0.1"));
+    await tradingEngine.connect(user2).deposit(await usdc.getAddress(), ethers.parseEther("100"));
+    await tradingEngine.connect(whaleAtsla).deposit(await atsla.getAddress(), WHALE_ATSLA_BALANCE - ethers.parseEther("0.1"));
+    await tradingEngine.connect(whaleUsdc).deposit(await usdc.getAddress(), WHALE_USDC_BALANCE - ethers.parseEther("100"));
+    
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+    const pairConfig = { enabled: true, minOrderAmount: MIN_ORDER_AMOUNT, maxOrderAmount: MAX_ORDER_AMOUNT, tickSize: 0, lotSize: 0 };
+    await pairConfigs.setPairConfig(await atsla.getAddress(), await usdc.getAddress(), pairConfig);
+    await pairConfigs.setPairConfig(await usdc.getAddress(), await atsla.getAddress(), pairConfig);
   });
 
   describe("BSC Network Setup", function () {
@@ -87,9 +90,9 @@ describe("BSC Network Trading - USDC/aTSLA", function () {
     });
 
     it("Should have correct user balances after whale transfer", async function () {
-      expect(await atsla.balanceOf(user1.address)).to.equal(ethers.parseEther("0.1"));
+      expect(await tradingEngine.getUserBalance(user1.address, await atsla.getAddress())).to.equal(ethers.parseEther("0.1"));
       
-      expect(await usdc.balanceOf(user2.address)).to.equal(ethers.parseEther("100"));
+      expect(await tradingEngine.getUserBalance(user2.address, await usdc.getAddress())).to.equal(ethers.parseEther("100"));
     });
 
     it("Should have correct price oracle setup", async function () {
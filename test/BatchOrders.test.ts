@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, BatchOrderModule } from "../typechain-types";
+import { TradingEngineClient, TimeInForce, decodeTradingEngineEvents, filterEvents, getBatchOrderResults } from "../sdk/src";
+import { deployEngine, fundTrader, WBTC, WETH } from "./helpers/engine-fixture";
+
+const GTC = 0;
+
+describe("Batch Orders", function () {
+  let tradingEngine: TradingEngine;
+  let batch: BatchOrderModule;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let baseAddress: string;
+  let otherBaseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function batchOrdersFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ bases: [WETH, WBTC] });
+    for (const token of engine.baseTokens) {
+      await fundTrader(engine.tradingEngine, seller, token, ethers.parseEther("100"));
+    }
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, ethers.parseEther("1000"));
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    const engine = await loadFixture(batchOrdersFixture);
+    ({ tradingEngine, baseAddresses: [baseAddress, otherBaseAddress], quoteAddress } = engine);
+    batch = await ethers.getContractAt("BatchOrderModule", engine.engineAddress);
+  });
+
+  function request(amount: bigint, price: string, isBuy: boolean, timeInForce = GTC, base = baseAddress) {
+    return { baseToken: base, quoteToken: quoteAddress, amount, price: ethers.parseEther(price), isBuy, timeInForce, expiresAt: 0 };
+  }
+
+  /** Rests asks at each price for the seller and returns their ids */
+  async function placeAsks(prices: string[], base = baseAddress): Promise<bigint[]> {
+    const orders = prices.map((price) => request(ONE, price, false, GTC, base));
+    const results = await batch.connect(seller).placeLimitOrders.staticCall(orders);
+    await batch.connect(seller).placeLimitOrders(orders);
+    return results.map((result) => result.orderId);
+  }
+
+  it("Should place and match a batch in order, skipping orders that fail on their own", async function () {
+    const askIds = await placeAsks(["101", "102", "103"]);
+    expect(askIds).to.deep.equal([0n, 1n, 2n]);
+    const [askPrices, , askCounts] = await (await ethers.getContractAt("MarketDataModule", await batch.getAddress()))
+      .getPriceLevels(baseAddress, quoteAddress, false, 10);
+    expect(askPrices).to.deep.equal([ethers.parseEther("101"), ethers.parseEther("102"), ethers.parseEther("103")]);
+    expect(askCounts).to.deep.equal([1n, 1n, 1n]);
+
+    // The second bid is worth more than the buyer's whole account
+    const bids = [request(ONE, "102", true), request(ethers.parseEther("100"), "99", true), request(ONE, "99", true)];
+    const results = await batch.connect(buyer).placeLimitOrders.staticCall(bids);
+    expect(results.map((result) => result.success)).to.deep.equal([true, false, true]);
+    expect(results[1].orderId).to.equal(0n);
+    expect(tradingEngine.interface.parseError(results[1].reason)?.args[0]).to.equal("Insufficient available balance");
+
+    await expect(batch.connect(buyer).placeLimitOrders(bids))
+      .to.emit(batch, "BatchOrderRejected")
+      .withArgs(1, results[1].reason)
+      .and.to.emit(tradingEngine, "OrderMatched");
+    expect((await tradingEngine.getOrder(askIds[0])).isActive).to.be.false;
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ONE);
+    expect((await tradingEngine.getOrder(results[2].orderId)).isActive).to.be.true;
+  });
+
+  it("Should lock the whole batch, then match each pair's orders in one pass", async function () {
+    await placeAsks(["100", "101"]);
+    await placeAsks(["100"], otherBaseAddress);
+
+    // The FOK could fill against the book before the batch, but not once the bids before it have matched
+    const bids = [
+      request(ONE, "100", true),
+      request(ONE, "100", true, GTC, otherBaseAddress),
+      request(ONE, "101", true),
+      request(ONE, "101", true, TimeInForce.FOK),
+    ];
+    const tx = await batch.connect(buyer).placeLimitOrders(bids);
+    const receipt = (await tx.wait())!;
+    const results = getBatchOrderResults(receipt);
+    expect(results.map((result) => result.success)).to.deep.equal([true, true, true, false]);
+    expect(results[3].reason).to.equal("Order cannot be filled completely");
+
+    const events = decodeTradingEngineEvents(receipt.logs);
+    expect(filterEvents(events, "OrderMatched")).to.have.length(3);
+    // Once for each pair rather than once for each order
+    expect(filterEvents(events, "BestPricesUpdated").map((event) => event.args.pairId)).to.deep.equal([
+      await tradingEngine.getPairId(baseAddress, quoteAddress),
+      await tradingEngine.getPairId(otherBaseAddress, quoteAddress),
+    ]);
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ethers.parseEther("2"));
+    expect(await tradingEngine.getUserBalance(buyer.address, otherBaseAddress)).to.equal(ONE);
+    // The dropped FOK's funds were unlocked with it
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(0);
+  });
+
+  it("Should report each order's outcome through the SDK and refuse direct item calls", async function () {
+    const [askId] = await placeAsks(["100"]);
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), buyer);
+    const lockedBefore = await client.getLockedBalance(buyer.address, quoteAddress);
+
+    const tx = await client.placeLimitOrders([
+      { baseToken: baseAddress, quoteToken: quoteAddress, amount: ethers.parseEther("2"), price: ethers.parseEther("100"), isBuy: true, timeInForce: TimeInForce.FOK },
+      { baseToken: baseAddress, quoteToken: quoteAddress, amount: ONE, price: ethers.parseEther("95"), isBuy: true },
+    ]);
+    const [rejected, placed] = getBatchOrderResults((await tx.wait())!);
+    expect(rejected).to.deep.equal({ success: false, orderId: null, reason: "Order cannot be filled completely" });
+    expect(placed.success).to.be.true;
+    expect((await client.getOrder(placed.orderId!)).price).to.equal(ethers.parseEther("95"));
+    // The unfillable FOK was dropped, leaving the ask it would have hit and only the resting bid locked
+    expect((await client.getOrder(askId)).isActive).to.be.true;
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(0);
+    expect(await client.getLockedBalance(buyer.address, quoteAddress)).to.be.greaterThan(lockedBefore);
+
+    await expect(batch.connect(buyer).placeBatchLimitOrder(buyer.address, request(ONE, "95", true)))
+      .to.be.revertedWith("Only the engine can place batch orders");
+    await expect(batch.connect(buyer).placeLimitOrders([])).to.be.revertedWith("Invalid batch size");
+    await expect(batch.connect(buyer).placeLimitOrders(Array(51).fill(request(ONE, "95", true))))
+      .to.be.revertedWith("Invalid batch size");
+  });
+
+  it("Should cancel many orders, skipping ones that are filled or not the caller's", async function () {
+    const askIds = await placeAsks(["100", "101", "102"]);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("100"), true);
+    const buyerOrderId = 3n;
+
+    const orderIds = [askIds[0], askIds[1], buyerOrderId, askIds[2]];
+    expect(await batch.connect(seller).cancelOrders.staticCall(orderIds)).to.deep.equal([false, true, false, true]);
+    await expect(batch.connect(seller).cancelOrders(orderIds))
+      .to.emit(batch, "OrderCancelled")
+      .withArgs(askIds[1])
+      .and.to.emit(batch, "OrderCancelled")
+      .withArgs(askIds[2]);
+
+    expect(await tradingEngine.getLockedBalance(seller.address, baseAddress)).to.equal(0);
+    expect(await tradingEngine.getUserBalance(seller.address, baseAddress)).to.equal(ethers.parseEther("99"));
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), seller);
+    expect(await client.getTraderOpenOrders(seller.address)).to.deep.equal([]);
+  });
+
+  it("Should cancel all of a trader's orders on one pair only", async function () {
+    await placeAsks(["100", "101", "102"]);
+    const [otherAskId] = await placeAsks(["100"], otherBaseAddress);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("90"), true);
+
+    expect(await batch.connect(seller).cancelAllOrders.staticCall(baseAddress, quoteAddress)).to.equal(3);
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), seller);
+    await expect(client.cancelAllOrders(baseAddress, quoteAddress))
+      .to.emit(tradingEngine, "BestPricesUpdated")
+      .withArgs(await tradingEngine.getPairId(baseAddress, quoteAddress), ethers.parseEther("90"), 0);
+
+    expect((await client.getTraderOpenOrders(seller.address)).map((order) => order.id)).to.deep.equal([otherAskId]);
+    expect(await tradingEngine.getLockedBalance(seller.address, baseAddress)).to.equal(0);
+    expect((await client.getTraderOpenOrders(buyer.address)).length).to.equal(1);
+    expect(await batch.connect(seller).cancelAllOrders.staticCall(baseAddress, quoteAddress)).to.equal(0);
+  });
+
+  it("Should cancel and replace atomically", async function () {
+    const askIds = await placeAsks(["101", "102"]);
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), seller);
+
+    const replacement = [request(ONE, "100.5", false), request(ONE, "101.5", false)];
+    const newOrderIds = await batch.connect(seller).cancelAndReplace.staticCall(askIds, replacement);
+    expect(newOrderIds).to.deep.equal([2n, 3n]);
+    await client.cancelAndReplace(askIds, [
+      { baseToken: baseAddress, quoteToken: quoteAddress, amount: ONE, price: ethers.parseEther("100.5"), isBuy: false },
+      { baseToken: baseAddress, quoteToken: quoteAddress, amount: ONE, price: ethers.parseEther("101.5"), isBuy: false },
+    ]);
+    const open = await client.getTraderOpenOrders(seller.address);
+    expect(open.map((order) => [order.id, order.price])).to.have.deep.members([
+      [2n, ethers.parseEther("100.5")],
+      [3n, ethers.parseEther("101.5")],
+    ]);
+
+    // A replacement that cannot be placed leaves the old quote standing
+    await expect(batch.connect(seller).cancelAndReplace([2n], [request(ethers.parseEther("1000"), "100", false)]))
+      .to.be.revertedWith("Insufficient available balance");
+    await expect(batch.connect(seller).cancelAndReplace([askIds[0]], [request(ONE, "100", false)]))
+      .to.be.revertedWith("Order already inactive");
+    expect((await tradingEngine.getOrder(2n)).isActive).to.be.true;
+    expect(await tradingEngine.getLockedBalance(seller.address, baseAddress)).to.equal(ethers.parseEther("2"));
+  });
+});
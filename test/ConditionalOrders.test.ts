@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine, ConditionalOrderModule, MockPriceOracle } from "../typechain-types";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+const STOP_MARKET = 0;
+const STOP_LIMIT = 1;
+const TAKE_PROFIT = 2;
+
+describe("Conditional Orders", function () {
+  let tradingEngine: TradingEngine;
+  let conditionalOrders: ConditionalOrderModule;
+  let mockPriceOracle: MockPriceOracle;
+  let maker: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let keeper: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function conditionalOrdersFixture() {
+    const [, maker, trader] = await ethers.getSigners();
+    const engine = await deployEngine();
+    for (const account of [maker, trader]) {
+      await fundTrader(engine.tradingEngine, account, engine.baseTokens[0], ethers.parseEther("10000"));
+      await fundTrader(engine.tradingEngine, account, engine.quoteToken, ethers.parseEther("10000000"));
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, maker, trader, keeper] = await ethers.getSigners();
+    const engine = await loadFixture(conditionalOrdersFixture);
+    ({ tradingEngine, mockPriceOracle, baseAddresses: [baseAddress], quoteAddress } = engine);
+    conditionalOrders = await ethers.getContractAt("ConditionalOrderModule", engine.engineAddress);
+  });
+
+  function placeConditional(isBuy: boolean, triggerPrice: string, limitPrice: string, orderType: number) {
+    return conditionalOrders
+      .connect(trader)
+      .placeConditionalOrder(baseAddress, quoteAddress, ONE, ethers.parseEther(triggerPrice), ethers.parseEther(limitPrice), isBuy, orderType);
+  }
+
+  function placeLimit(amount: bigint, price: string, isBuy: boolean) {
+    return tradingEngine.connect(maker).placeLimitOrder(baseAddress, quoteAddress, amount, ethers.parseEther(price), isBuy);
+  }
+
+  it("Should escrow the order until it is triggered", async function () {
+    await expect(placeConditional(false, "90", "85", STOP_MARKET))
+      .to.emit(conditionalOrders, "ConditionalOrderPlaced")
+      .withArgs(0, trader.address, baseAddress, quoteAddress, ONE, ethers.parseEther("90"), ethers.parseEther("85"), false, STOP_MARKET);
+    await placeConditional(true, "110", "115", STOP_MARKET);
+
+    expect(await tradingEngine.getLockedBalance(trader.address, baseAddress)).to.equal(ONE);
+    // A buy also locks a reserve for the fee it may pay
+    expect(await tradingEngine.getLockedBalance(trader.address, quoteAddress)).to.equal(ethers.parseEther("115") * 10005n / 10000n);
+    expect(await conditionalOrders.getConditionalOrderFeeReserve(1)).to.equal(ethers.parseEther("115") * 5n / 10000n);
+
+    const [conditionalOrderIds, orders, nextCursor] = await conditionalOrders.getPendingConditionalOrders(0, 10);
+    expect(conditionalOrderIds).to.deep.equal([0n, 1n]);
+    expect(orders[1].isBuy).to.be.true;
+    expect(nextCursor).to.equal(0);
+    expect(await tradingEngine.getTraderOpenOrderCount(trader.address)).to.equal(0);
+  });
+
+  it("Should trigger a stop-market sell once the oracle price falls to the trigger", async function () {
+    await placeLimit(ONE, "88", true);
+    await placeConditional(false, "90", "85", STOP_MARKET);
+
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+    await conditionalOrders.connect(keeper).triggerOrders([0]);
+    expect((await conditionalOrders.getConditionalOrder(0)).isPending).to.be.true;
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("90"));
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.true;
+
+    const balanceBefore = await tradingEngine.getUserBalance(trader.address, quoteAddress);
+    await expect(conditionalOrders.connect(keeper).triggerOrders([0]))
+      .to.emit(conditionalOrders, "ConditionalOrderTriggered")
+      .withArgs(0, 1, ethers.parseEther("90"))
+      .and.to.emit(tradingEngine, "OrderMatched");
+
+    const conditionalOrder = await conditionalOrders.getConditionalOrder(0);
+    expect(conditionalOrder.isPending).to.be.false;
+    expect(conditionalOrder.orderId).to.equal(1);
+
+    const order = await tradingEngine.getOrder(1);
+    expect(order.trader).to.equal(trader.address);
+    expect(order.filledAmount).to.equal(ONE);
+    expect((await tradingEngine.getUserBalance(trader.address, quoteAddress)) - balanceBefore).to.equal(ethers.parseEther("88") * 9995n / 10000n);
+    expect((await conditionalOrders.getPendingConditionalOrders(0, 10))[0]).to.deep.equal([]);
+  });
+
+  it("Should rest a triggered stop-limit order at its limit price", async function () {
+    await placeConditional(true, "110", "112", STOP_LIMIT);
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("111"));
+
+    await conditionalOrders.connect(keeper).triggerOrders([0]);
+
+    const order = await tradingEngine.getOrder(0);
+    expect(order.isActive).to.be.true;
+    expect(order.isMarketOrder).to.be.false;
+    expect(order.price).to.equal(ethers.parseEther("112"));
+    expect(await tradingEngine.getLockedBalance(trader.address, quoteAddress)).to.equal(ethers.parseEther("112") * 10005n / 10000n);
+    expect(await tradingEngine.getOrderFeeReserve(0)).to.equal(ethers.parseEther("112") * 5n / 10000n);
+
+    const [bestBid] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+    expect(bestBid).to.equal(ethers.parseEther("112"));
+  });
+
+  it("Should trigger a take-profit sell once the price rises to the trigger", async function () {
+    await placeLimit(ONE, "121", true);
+    await placeConditional(false, "120", "118", TAKE_PROFIT);
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("95"));
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("125"));
+    await conditionalOrders.connect(keeper).triggerOrders([0]);
+
+    expect((await tradingEngine.getOrder(1)).filledAmount).to.equal(ONE);
+  });
+
+  it("Should wait while the book is beyond a market order's limit price", async function () {
+    await placeLimit(ONE, "80", true);
+    await placeConditional(false, "90", "85", STOP_MARKET);
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("89"));
+
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+    expect(await conditionalOrders.connect(keeper).triggerOrders.staticCall([0])).to.equal(0);
+
+    await placeLimit(ONE, "86", true);
+    expect(await conditionalOrders.connect(keeper).triggerOrders.staticCall([0])).to.equal(1);
+  });
+
+  it("Should refund a cancelled order and reject cancelling it twice", async function () {
+    await placeConditional(true, "110", "115", STOP_MARKET);
+
+    await expect(conditionalOrders.connect(keeper).cancelConditionalOrder(0))
+      .to.be.revertedWith("Order not found or not yours");
+
+    const balanceBefore = await tradingEngine.getUserBalance(trader.address, quoteAddress);
+    await expect(conditionalOrders.connect(trader).cancelConditionalOrder(0))
+      .to.emit(conditionalOrders, "ConditionalOrderCancelled")
+      .withArgs(0);
+    expect((await tradingEngine.getUserBalance(trader.address, quoteAddress)) - balanceBefore).to.equal(ethers.parseEther("115") * 10005n / 10000n);
+
+    await expect(conditionalOrders.connect(trader).cancelConditionalOrder(0))
+      .to.be.revertedWith("Order already inactive");
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("120"));
+    expect(await conditionalOrders.connect(keeper).triggerOrders.staticCall([0])).to.equal(0);
+  });
+
+  it("Should trigger the rest of a batch when one order fails to trigger", async function () {
+    // A quote token whose units overflow cannot be priced, so its pair panics while triggering
+    const brokenQuote = await ethers.deployContract("MockERC20WithDecimals", ["Broken", "BRK", ethers.parseEther("1"), 80]);
+    const brokenQuoteAddress = await brokenQuote.getAddress();
+    await mockPriceOracle.setPrice(baseAddress, brokenQuoteAddress, ethers.parseEther("100"));
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+    await pairConfigs.setPairConfig(baseAddress, brokenQuoteAddress, {
+      enabled: true,
+      minOrderAmount: ONE,
+      maxOrderAmount: ONE,
+      tickSize: 0n,
+      lotSize: 0n,
+    });
+    await conditionalOrders
+      .connect(trader)
+      .placeConditionalOrder(baseAddress, brokenQuoteAddress, ONE, ethers.parseEther("110"), ethers.parseEther("115"), false, TAKE_PROFIT);
+    await placeConditional(false, "110", "105", TAKE_PROFIT);
+    await placeLimit(ONE, "110", true);
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("110"));
+    await mockPriceOracle.setPrice(baseAddress, brokenQuoteAddress, ethers.parseEther("110"));
+
+    const panic = ethers.concat([ethers.id("Panic(uint256)").slice(0, 10), ethers.toBeHex(0x11, 32)]);
+    await expect(conditionalOrders.connect(keeper).triggerOrders([0, 1]))
+      .to.emit(conditionalOrders, "ConditionalOrderTriggerFailed")
+      .withArgs(0, panic)
+      .and.to.emit(conditionalOrders, "ConditionalOrderTriggered")
+      .withArgs(1, 1, ethers.parseEther("110"));
+    expect((await conditionalOrders.getConditionalOrder(0)).isPending).to.be.true;
+    expect(await tradingEngine.getLockedBalance(trader.address, baseAddress)).to.equal(ONE);
+
+    await expect(conditionalOrders.connect(keeper).triggerConditionalOrder(0))
+      .to.be.revertedWith("Only the engine can trigger orders");
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, MockPriceOracle, EmergencyModule, AccessControlModule } from "../typechain-types";
+import { TradingEngineClient, Roles } from "../sdk/src";
+import { deployEngine, fundTrader, WBTC, WETH } from "./helpers/engine-fixture";
+
+const STOP_MARKET = 0;
+
+describe("Emergency Controls", function () {
+  let tradingEngine: TradingEngine;
+  let emergency: EmergencyModule;
+  let accessControl: AccessControlModule;
+  let mockPriceOracle: MockPriceOracle;
+  let owner: HardhatEthersSigner;
+  let guardian: HardhatEthersSigner;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let engineAddress: string;
+  let baseAddress: string;
+  let otherBaseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+  const PRICE = ethers.parseEther("100");
+
+  async function emergencyControlsFixture() {
+    const [, guardian, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ bases: [WETH, WBTC], price: PRICE });
+    const { tradingEngine } = engine;
+    for (const token of engine.baseTokens) {
+      await fundTrader(tradingEngine, seller, token, ethers.parseEther("100"), ethers.parseEther("50"));
+    }
+    await fundTrader(tradingEngine, buyer, engine.quoteToken, ethers.parseEther("100000"), ethers.parseEther("50000"));
+
+    const accessControl = await ethers.getContractAt("AccessControlModule", engine.engineAddress);
+    await accessControl.grantRole(Roles.PAUSER, guardian.address);
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [owner, guardian, seller, buyer] = await ethers.getSigners();
+    ({
+      tradingEngine,
+      engineAddress,
+      mockPriceOracle,
+      baseAddresses: [baseAddress, otherBaseAddress],
+      quoteAddress,
+    } = await loadFixture(emergencyControlsFixture));
+    emergency = await ethers.getContractAt("EmergencyModule", engineAddress);
+    accessControl = await ethers.getContractAt("AccessControlModule", engineAddress);
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, base: string, amount: bigint, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(base, quoteAddress, amount, PRICE, isBuy);
+  }
+
+  it("Should let a pauser pause everything but cancelling and withdrawing", async function () {
+    await placeLimit(buyer, baseAddress, ONE, true);
+
+    await expect(emergency.connect(guardian).pause())
+      .to.emit(emergency, "EnginePaused")
+      .withArgs(guardian.address);
+    expect(await emergency.paused()).to.be.true;
+
+    await expect(placeLimit(seller, baseAddress, ONE, false))
+      .to.be.revertedWithCustomError(tradingEngine, "ContractPaused");
+    await expect(tradingEngine.connect(buyer).placeMarketOrder(baseAddress, quoteAddress, ONE, true))
+      .to.be.revertedWithCustomError(tradingEngine, "ContractPaused");
+    await expect(tradingEngine.connect(seller).deposit(baseAddress, ONE))
+      .to.be.revertedWithCustomError(tradingEngine, "ContractPaused");
+
+    await tradingEngine.connect(buyer).cancelOrder(0);
+    await expect(tradingEngine.connect(buyer).withdrawBalance(quoteAddress, ethers.parseEther("50000")))
+      .to.emit(tradingEngine, "Withdrawn");
+
+    await expect(emergency.connect(guardian).unpause())
+      .to.emit(emergency, "EngineUnpaused")
+      .withArgs(guardian.address);
+    await expect(placeLimit(seller, baseAddress, ONE, false)).to.emit(tradingEngine, "OrderPlaced");
+  });
+
+  it("Should halt a single pair while the others keep trading", async function () {
+    await expect(emergency.connect(guardian).haltPair(baseAddress, quoteAddress))
+      .to.emit(emergency, "PairHalted")
+      .withArgs(baseAddress, quoteAddress, guardian.address);
+    expect(await emergency.isPairHalted(baseAddress, quoteAddress)).to.be.true;
+    expect(await emergency.isTradingActive(baseAddress, quoteAddress)).to.be.false;
+    expect(await emergency.isTradingActive(otherBaseAddress, quoteAddress)).to.be.true;
+
+    await expect(placeLimit(seller, baseAddress, ONE, false))
+      .to.be.revertedWithCustomError(tradingEngine, "TradingPairHalted");
+    await placeLimit(seller, otherBaseAddress, ONE, false);
+    await placeLimit(buyer, otherBaseAddress, ONE, true);
+    expect(await tradingEngine.getUserBalance(buyer.address, otherBaseAddress)).to.equal(ONE);
+
+    // Only pausing the whole engine stops deposits
+    await tradingEngine.connect(seller).deposit(baseAddress, ONE);
+
+    await expect(emergency.resumePair(baseAddress, quoteAddress))
+      .to.emit(emergency, "PairResumed")
+      .withArgs(baseAddress, quoteAddress, owner.address);
+    await expect(placeLimit(seller, baseAddress, ONE, false)).to.emit(tradingEngine, "OrderPlaced");
+  });
+
+  it("Should keep conditional orders pending until a halted pair resumes", async function () {
+    const conditionalOrders = await ethers.getContractAt("ConditionalOrderModule", engineAddress);
+    await conditionalOrders
+      .connect(seller)
+      .placeConditionalOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("90"), ethers.parseEther("80"), false, STOP_MARKET);
+    await placeLimit(buyer, baseAddress, ONE, true);
+
+    await emergency.connect(guardian).haltPair(baseAddress, quoteAddress);
+    await expect(
+      conditionalOrders
+        .connect(seller)
+        .placeConditionalOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("90"), ethers.parseEther("80"), false, STOP_MARKET)
+    ).to.be.revertedWithCustomError(conditionalOrders, "TradingPairHalted");
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("85"));
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+    await expect(conditionalOrders.triggerOrders([0])).not.to.emit(conditionalOrders, "ConditionalOrderTriggered");
+
+    await emergency.connect(guardian).resumePair(baseAddress, quoteAddress);
+    await expect(conditionalOrders.triggerOrders([0])).to.emit(conditionalOrders, "ConditionalOrderTriggered");
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ONE);
+  });
+
+  it("Should only let pausers stop trading", async function () {
+    await expect(emergency.connect(seller).pause())
+      .to.be.revertedWithCustomError(emergency, "AccessControlUnauthorizedAccount")
+      .withArgs(seller.address, Roles.PAUSER);
+    await expect(emergency.connect(seller).haltPair(baseAddress, quoteAddress))
+      .to.be.revertedWithCustomError(emergency, "AccessControlUnauthorizedAccount");
+
+    await emergency.pause();
+    await expect(emergency.connect(guardian).pause()).to.be.revertedWith("Engine already paused");
+    await expect(emergency.connect(guardian).resumePair(baseAddress, quoteAddress)).to.be.revertedWith("Pair not halted");
+
+    await accessControl.revokeRole(Roles.PAUSER, guardian.address);
+    await expect(emergency.connect(guardian).unpause())
+      .to.be.revertedWithCustomError(emergency, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should report trading status through the SDK", async function () {
+    const client = new TradingEngineClient(engineAddress, buyer);
+    expect(await client.isTradingActive(baseAddress, quoteAddress)).to.be.true;
+
+    await emergency.connect(guardian).haltPair(baseAddress, quoteAddress);
+    expect(await client.isPairHalted(baseAddress, quoteAddress)).to.be.true;
+    expect(await client.isPaused()).to.be.false;
+
+    await emergency.connect(guardian).pause();
+    expect(await client.isPaused()).to.be.true;
+    expect(await client.isTradingActive(otherBaseAddress, quoteAddress)).to.be.false;
+  });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import initSqlJs from "sql.js";
+import { TradingEngine } from "../typechain-types";
+import { EventIndexer, IndexerStore } from "../indexer/src";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("Event Indexer", function () {
+  let tradingEngine: TradingEngine;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+  let startBlock: number;
+  let store: IndexerStore;
+  let indexer: EventIndexer;
+
+  const PRICE = ethers.parseEther("2000");
+
+  async function eventIndexerFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    // Where the indexer starts, before the engine is deployed
+    const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    const engine = await deployEngine({ price: PRICE, maxOrderAmount: ethers.parseEther("100") });
+    await fundTrader(engine.tradingEngine, seller, engine.baseTokens[0], ethers.parseEther("100"));
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, ethers.parseEther("1000000"));
+    return { ...engine, startBlock };
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    ({ tradingEngine, baseAddresses: [baseAddress], quoteAddress, startBlock } = await loadFixture(eventIndexerFixture));
+
+    store = await IndexerStore.open();
+    indexer = new EventIndexer(ethers.provider, await tradingEngine.getAddress(), store, { startBlock, batchSize: 5 });
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  async function placeMatchedTrade(amount: bigint) {
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, amount, PRICE, false);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, amount, PRICE, true);
+  }
+
+  it("Should rebuild orders, fills and fees from events", async function () {
+    await placeMatchedTrade(ethers.parseEther("2"));
+
+    const lastBlock = await indexer.sync();
+    expect(lastBlock).to.equal(await ethers.provider.getBlockNumber());
+
+    const orders = store.getOrders();
+    expect(orders).to.have.length(2);
+
+    const sellOrder = store.getOrder(0n)!;
+    expect(sellOrder.trader).to.equal(seller.address.toLowerCase());
+    expect(sellOrder.isBuy).to.equal(false);
+    expect(sellOrder.amount).to.equal(ethers.parseEther("2"));
+    expect(sellOrder.filledAmount).to.equal(ethers.parseEther("2"));
+    expect(sellOrder.status).to.equal("filled");
+
+    const fills = store.getFills({ trader: buyer.address });
+    expect(fills).to.have.length(1);
+    expect(fills[0].buyOrderId).to.equal(1n);
+    expect(fills[0].sellOrderId).to.equal(0n);
+    expect(fills[0].seller).to.equal(seller.address.toLowerCase());
+    expect(fills[0].baseToken).to.equal(baseAddress.toLowerCase());
+    expect(fills[0].price).to.equal(PRICE);
+    expect(fills[0].timestamp).to.be.gt(0);
+
+    const expectedFee = ethers.parseEther("2") * PRICE / ethers.parseEther("1") * 5n / 10000n;
+    expect(fills[0].buyerFee).to.equal(expectedFee);
+    expect(fills[0].sellerFee).to.equal(expectedFee);
+    expect(store.getFeeTotals()[quoteAddress.toLowerCase()]).to.equal(expectedFee * 2n);
+  });
+
+  it("Should record maker rebates as negative fees", async function () {
+    const fees = await ethers.getContractAt("FeeModule", await tradingEngine.getAddress());
+    await fees.setPairFeeSchedule(baseAddress, quoteAddress, -2, 5);
+    await placeMatchedTrade(ethers.parseEther("2"));
+    await indexer.sync();
+
+    const tradeValue = ethers.parseEther("2") * PRICE / ethers.parseEther("1");
+    const [fill] = store.getFills();
+    expect(fill.buyerFee).to.equal(tradeValue * 5n / 10000n);
+    expect(fill.sellerFee).to.equal(-(tradeValue * 2n / 10000n));
+    expect(store.getFeeTotals()[quoteAddress.toLowerCase()]).to.equal(await tradingEngine.getFeeBalance(quoteAddress));
+  });
+
+  it("Should track partial fills and cancellations", async function () {
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("5"), PRICE, false);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("2"), PRICE, true);
+    await indexer.sync();
+
+    const sellOrder = store.getOrder(0n)!;
+    expect(sellOrder.filledAmount).to.equal(ethers.parseEther("2"));
+    expect(sellOrder.status).to.equal("open");
+    expect(store.getOrders({ trader: seller.address, status: "open" })).to.have.length(1);
+
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("1"), PRICE / 2n, true);
+    await tradingEngine.connect(buyer).cancelOrder(2);
+    await indexer.sync();
+
+    expect(store.getOrder(2n)!.status).to.equal("cancelled");
+    expect(store.getOrders({ trader: buyer.address, status: "cancelled" })).to.have.length(1);
+    expect(store.getFills({ orderId: 0n })).to.have.length(1);
+  });
+
+  it("Should mark expired orders", async function () {
+    const expiresAt = (await ethers.provider.getBlock("latest"))!.timestamp + 60;
+    await tradingEngine.connect(seller).placeLimitOrderWithTimeInForce(baseAddress, quoteAddress, ethers.parseEther("1"), PRICE, false, 3, expiresAt);
+    await network.provider.send("evm_setNextBlockTimestamp", [expiresAt]);
+    await tradingEngine.connect(buyer).expireOrder(0);
+    await indexer.sync();
+
+    expect(store.getOrder(0n)!.status).to.equal("expired");
+    expect(store.getOrders({ trader: seller.address, status: "open" })).to.have.length(0);
+  });
+
+  it("Should only index new blocks on subsequent syncs", async function () {
+    await placeMatchedTrade(ethers.parseEther("1"));
+    const firstSync = await indexer.sync();
+
+    await placeMatchedTrade(ethers.parseEther("1"));
+    const secondSync = await indexer.sync();
+
+    expect(secondSync).to.equal(firstSync + 2);
+    expect(store.getOrders()).to.have.length(4);
+    expect(store.getFills()).to.have.length(2);
+  });
+
+  it("Should roll back and replay blocks after a reorg", async function () {
+    await placeMatchedTrade(ethers.parseEther("1"));
+    await indexer.sync();
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("3"), PRICE, false);
+    await tradingEngine.connect(seller).cancelOrder(2);
+    await indexer.sync();
+    expect(store.getOrder(2n)!.status).to.equal("cancelled");
+
+    // Replace the indexed blocks with a different history of the same length
+    await network.provider.send("evm_revert", [snapshot]);
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("4"), PRICE, false);
+    await network.provider.send("evm_mine");
+    await indexer.sync();
+
+    const order = store.getOrder(2n)!;
+    expect(order.amount).to.equal(ethers.parseEther("4"));
+    expect(order.status).to.equal("open");
+    expect(store.getOrders()).to.have.length(3);
+    expect(store.getFills()).to.have.length(1);
+  });
+
+  it("Should persist the store to disk", async function () {
+    const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "indexer.sqlite");
+    const fileStore = await IndexerStore.open(dbPath);
+    const fileIndexer = new EventIndexer(ethers.provider, await tradingEngine.getAddress(), fileStore, { startBlock });
+
+    await placeMatchedTrade(ethers.parseEther("1"));
+    const lastBlock = await fileIndexer.sync();
+    fileStore.close();
+
+    const reopened = await IndexerStore.open(dbPath);
+    expect(reopened.getLastIndexedBlock()).to.equal(lastBlock);
+    expect(reopened.getFills()).to.have.length(1);
+    reopened.close();
+    fs.rmSync(path.dirname(dbPath), { recursive: true });
+  });
+
+  it("Should index a store written under an older schema again from scratch", async function () {
+    const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "indexer.sqlite");
+    await placeMatchedTrade(ethers.parseEther("1"));
+
+    // A store from before fees were indexed, whose fills had no fee columns
+    const SQL = await initSqlJs();
+    const legacy = new SQL.Database();
+    legacy.exec(`
+      CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE TABLE fills (tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL, block_number INTEGER NOT NULL,
+        buy_order_id TEXT NOT NULL, sell_order_id TEXT NOT NULL, amount TEXT NOT NULL, price TEXT NOT NULL,
+        PRIMARY KEY (tx_hash, log_index));
+      INSERT INTO meta (key, value) VALUES ('last_block', '${await ethers.provider.getBlockNumber()}');
+    `);
+    fs.writeFileSync(dbPath, Buffer.from(legacy.export()));
+    legacy.close();
+
+    const fileStore = await IndexerStore.open(dbPath);
+    expect(fileStore.getLastIndexedBlock()).to.be.null;
+    await new EventIndexer(ethers.provider, await tradingEngine.getAddress(), fileStore, { startBlock }).sync();
+    const [fill] = fileStore.getFills();
+    expect(fill.buyerFee).to.equal(PRICE * 5n / 10000n);
+    fileStore.close();
+
+    // Reopening a store on the current schema keeps it
+    const reopened = await IndexerStore.open(dbPath);
+    expect(reopened.getLastIndexedBlock()).to.not.be.null;
+    expect(reopened.getFills()).to.have.length(1);
+    reopened.close();
+    fs.rmSync(path.dirname(dbPath), { recursive: true });
+  });
+});
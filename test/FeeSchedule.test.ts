@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, MockERC20WithDecimals, FeeModule } from "../typechain-types";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("Fee Schedule", function () {
+  let tradingEngine: TradingEngine;
+  let fees: FeeModule;
+  let quoteToken: MockERC20WithDecimals;
+  let owner: HardhatEthersSigner;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let treasury: HardhatEthersSigner;
+  let engineAddress: string;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+  const PRICE = ethers.parseEther("100");
+
+  async function feeScheduleFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ price: PRICE });
+    await fundTrader(engine.tradingEngine, seller, engine.baseTokens[0], ethers.parseEther("100"));
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, ethers.parseEther("100000"));
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [owner, seller, buyer, treasury] = await ethers.getSigners();
+    ({ tradingEngine, engineAddress, baseAddresses: [baseAddress], quoteToken, quoteAddress } = await loadFixture(feeScheduleFixture));
+    fees = await ethers.getContractAt("FeeModule", engineAddress);
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, amount: bigint, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(baseAddress, quoteAddress, amount, PRICE, isBuy);
+  }
+
+  it("Should start every pair on a 5 / 10000 maker and taker default paid to the owner", async function () {
+    expect(await tradingEngine.getFeeSchedule(baseAddress, quoteAddress)).to.deep.equal([5n, 5n]);
+    expect(await tradingEngine.feeRecipient()).to.equal(owner.address);
+  });
+
+  it("Should charge the taker, pay the maker's rebate out of it and say who paid", async function () {
+    await expect(fees.setPairFeeSchedule(baseAddress, quoteAddress, -2, 10))
+      .to.emit(tradingEngine, "FeeScheduleUpdated")
+      .withArgs(baseAddress, quoteAddress, -2, 10);
+
+    await placeLimit(seller, ONE, false);
+    const takerFee = PRICE * 10n / 10000n;
+    const rebate = PRICE * 2n / 10000n;
+    await expect(placeLimit(buyer, ONE, true))
+      .to.emit(tradingEngine, "FeeCollected")
+      .withArgs(1, buyer.address, quoteAddress, takerFee, false)
+      .and.to.emit(tradingEngine, "RebatePaid")
+      .withArgs(0, seller.address, quoteAddress, rebate)
+      .and.to.emit(tradingEngine, "OrderMatched")
+      .withArgs(1, 0, ONE, PRICE, takerFee, -rebate);
+
+    expect(await tradingEngine.getUserBalance(seller.address, quoteAddress)).to.equal(PRICE + rebate);
+    expect(await tradingEngine.getUserBalance(buyer.address, quoteAddress)).to.equal(ethers.parseEther("100000") - PRICE - takerFee);
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(0);
+    expect(await tradingEngine.getFeeBalance(quoteAddress)).to.equal(takerFee - rebate);
+  });
+
+  it("Should charge a resting buy its maker rate out of the reserve it locked", async function () {
+    await fees.setPairFeeSchedule(baseAddress, quoteAddress, 3, 8);
+
+    await placeLimit(buyer, ethers.parseEther("2"), true);
+    const reserve = PRICE * 2n * 8n / 10000n;
+    expect(await tradingEngine.getOrderFeeReserve(0)).to.equal(reserve);
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(PRICE * 2n + reserve);
+
+    await expect(placeLimit(seller, ONE, false))
+      .to.emit(tradingEngine, "FeeCollected")
+      .withArgs(0, buyer.address, quoteAddress, PRICE * 3n / 10000n, true)
+      .and.to.emit(tradingEngine, "FeeCollected")
+      .withArgs(1, seller.address, quoteAddress, PRICE * 8n / 10000n, false);
+
+    // Half the reserve is released by the fill: the maker fee is paid from it and the rest comes back
+    expect(await tradingEngine.getUserBalance(buyer.address, quoteAddress))
+      .to.equal(ethers.parseEther("100000") - PRICE * 2n - reserve + reserve / 2n - PRICE * 3n / 10000n);
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(PRICE + reserve / 2n);
+    expect(await tradingEngine.getUserBalance(seller.address, quoteAddress)).to.equal(PRICE - PRICE * 8n / 10000n);
+  });
+
+  it("Should never charge a resting buy more than the reserve it locked", async function () {
+    await placeLimit(buyer, ONE, true);
+    const reserve = PRICE * 5n / 10000n;
+
+    await fees.setPairFeeSchedule(baseAddress, quoteAddress, 50, 50);
+    await expect(placeLimit(seller, ONE, false))
+      .to.emit(tradingEngine, "OrderMatched")
+      .withArgs(0, 1, ONE, PRICE, reserve, PRICE * 50n / 10000n);
+
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(0);
+    expect(await tradingEngine.getFeeBalance(quoteAddress)).to.equal(reserve + PRICE * 50n / 10000n);
+  });
+
+  it("Should fall back to the default schedule once a pair is reset", async function () {
+    await fees.setDefaultFeeSchedule(1, 4);
+    await fees.setPairFeeSchedule(baseAddress, quoteAddress, 0, 20);
+    expect(await tradingEngine.getFeeSchedule(baseAddress, quoteAddress)).to.deep.equal([0n, 20n]);
+
+    await expect(fees.resetPairFeeSchedule(baseAddress, quoteAddress))
+      .to.emit(tradingEngine, "PairFeeScheduleReset")
+      .withArgs(baseAddress, quoteAddress);
+    expect(await tradingEngine.getFeeSchedule(baseAddress, quoteAddress)).to.deep.equal([1n, 4n]);
+  });
+
+  it("Should reject schedules outside the limits and callers without the fee manager role", async function () {
+    await expect(fees.setPairFeeSchedule(baseAddress, quoteAddress, 0, 101)).to.be.revertedWith("Invalid taker fee");
+    await expect(fees.setPairFeeSchedule(baseAddress, quoteAddress, 0, -1)).to.be.revertedWith("Invalid taker fee");
+    await expect(fees.setPairFeeSchedule(baseAddress, quoteAddress, -6, 5)).to.be.revertedWith("Invalid maker fee");
+    await expect(fees.setDefaultFeeSchedule(101, 5)).to.be.revertedWith("Invalid maker fee");
+
+    await expect(fees.connect(seller).setPairFeeSchedule(baseAddress, quoteAddress, 0, 5))
+      .to.be.revertedWithCustomError(fees, "AccessControlUnauthorizedAccount");
+    await expect(fees.connect(seller).setFeeRecipient(seller.address))
+      .to.be.revertedWithCustomError(fees, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should keep fees apart from trading accounts and pay them to the fee recipient", async function () {
+    await placeLimit(seller, ethers.parseEther("2"), false);
+    await placeLimit(buyer, ONE, true);
+
+    const collected = PRICE * 5n / 10000n * 2n;
+    expect(await tradingEngine.getFeeBalance(quoteAddress)).to.equal(collected);
+    expect(await tradingEngine.getFeeBalance(baseAddress)).to.equal(0);
+    expect(await tradingEngine.getContractBalance(baseAddress)).to.equal(ethers.parseEther("100"));
+
+    await expect(fees.setFeeRecipient(treasury.address))
+      .to.emit(tradingEngine, "FeeRecipientUpdated")
+      .withArgs(owner.address, treasury.address);
+    await expect(fees.connect(seller).withdrawFees(quoteAddress, collected))
+      .to.be.revertedWith("Not authorized to withdraw fees");
+    await expect(fees.connect(treasury).withdrawFees(quoteAddress, collected + 1n))
+      .to.be.revertedWith("Insufficient fee balance");
+
+    await expect(fees.withdrawFees(quoteAddress, collected))
+      .to.emit(tradingEngine, "FeesWithdrawn")
+      .withArgs(treasury.address, quoteAddress, collected);
+    expect(await quoteToken.balanceOf(treasury.address)).to.equal(collected);
+    expect(await tradingEngine.getFeeBalance(quoteAddress)).to.equal(0);
+  });
+});
@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, TradingEngineV1, AccessControlModule, PairConfigModule, FeeModule, MockERC20 } from "../typechain-types";
+import { Roles } from "../sdk/src";
+import { deployTradingEngine } from "../scripts/lib/deploy-trading-engine";
+
+// ERC-7201 slot of OwnableUpgradeable's owner, where engines deployed before roles kept it
+const LEGACY_OWNER_SLOT = "0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300";
+
+describe("Legacy Upgrade", function () {
+  let legacyEngine: TradingEngineV1;
+  let tradingEngine: TradingEngine;
+  let accessControl: AccessControlModule;
+  let pairConfig: PairConfigModule;
+  let baseToken: MockERC20;
+  let quoteToken: MockERC20;
+  let owner: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let proxyAddress: string;
+  let oracleAddress: string;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  beforeEach(async function () {
+    [owner, outsider, seller, buyer] = await ethers.getSigners();
+
+    baseToken = await ethers.deployContract("MockERC20", ["Wrapped Ether", "WETH", ethers.parseEther("1000000")]);
+    quoteToken = await ethers.deployContract("MockERC20", ["USD Coin", "USDC", ethers.parseEther("100000000")]);
+    baseAddress = await baseToken.getAddress();
+    quoteAddress = await quoteToken.getAddress();
+    const mockPriceOracle = await ethers.deployContract("MockPriceOracle");
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("100"));
+    oracleAddress = await mockPriceOracle.getAddress();
+
+    // The first engine behind an ERC1967 proxy, as it was deployed
+    const implementation = await ethers.deployContract("TradingEngineV1");
+    const initializeCall = implementation.interface.encodeFunctionData("initialize", [
+      oracleAddress,
+      ethers.parseEther("0.01"),
+      ethers.parseEther("1000"),
+    ]);
+    const proxy = await ethers.deployContract("ERC1967Proxy", [await implementation.getAddress(), initializeCall]);
+    proxyAddress = await proxy.getAddress();
+    legacyEngine = await ethers.getContractAt("TradingEngineV1", proxyAddress);
+    tradingEngine = await ethers.getContractAt("TradingEngine", proxyAddress);
+    accessControl = await ethers.getContractAt("AccessControlModule", proxyAddress);
+    pairConfig = await ethers.getContractAt("PairConfigModule", proxyAddress);
+  });
+
+  function migrateToRolesCall(baseTokens: string[] = [], quoteTokens: string[] = []): string {
+    return accessControl.interface.encodeFunctionData("migrateToRoles", [baseTokens, quoteTokens]);
+  }
+
+  it("Should hand every role to the owner when upgraded with the migration", async function () {
+    const newImplementation = await deployTradingEngine();
+
+    await expect(legacyEngine.upgradeToAndCall(await newImplementation.getAddress(), migrateToRolesCall()))
+      .to.emit(accessControl, "RoleGranted")
+      .withArgs(Roles.UPGRADER, owner.address, owner.address);
+
+    for (const role of Object.values(Roles)) {
+      expect(await accessControl.hasRole(role, owner.address)).to.be.true;
+      expect(await accessControl.hasRole(role, outsider.address)).to.be.false;
+    }
+    expect(await ethers.provider.getStorage(proxyAddress, LEGACY_OWNER_SLOT)).to.equal(ethers.ZeroHash);
+    // Fees used to go to the owner, who is now the recipient
+    expect(await tradingEngine.feeRecipient()).to.equal(owner.address);
+    // State the first engine kept in the shared layout carries over
+    expect(await tradingEngine.priceOracle()).to.equal(oracleAddress);
+
+    await expect(accessControl.migrateToRoles([], [])).to.be.revertedWithCustomError(accessControl, "InvalidInitialization");
+  });
+
+  it("Should only let the old owner migrate an engine upgraded without it", async function () {
+    await legacyEngine.upgradeToAndCall(await (await deployTradingEngine()).getAddress(), "0x");
+
+    await expect(accessControl.connect(outsider).migrateToRoles([], [])).to.be.revertedWith("Only the owner can migrate");
+    await accessControl.migrateToRoles([], []);
+    expect(await accessControl.hasRole(Roles.DEFAULT_ADMIN, owner.address)).to.be.true;
+  });
+
+  it("Should only let an upgrader upgrade the engine once migrated", async function () {
+    await expect(legacyEngine.connect(outsider).upgradeToAndCall(await (await deployTradingEngine()).getAddress(), migrateToRolesCall()))
+      .to.be.revertedWithCustomError(legacyEngine, "OwnableUnauthorizedAccount");
+    await legacyEngine.upgradeToAndCall(await (await deployTradingEngine()).getAddress(), migrateToRolesCall());
+
+    const nextImplementation = await (await deployTradingEngine()).getAddress();
+    await expect(tradingEngine.connect(outsider).upgradeToAndCall(nextImplementation, "0x"))
+      .to.be.revertedWithCustomError(tradingEngine, "AccessControlUnauthorizedAccount")
+      .withArgs(outsider.address, Roles.UPGRADER);
+
+    await accessControl.grantRole(Roles.UPGRADER, outsider.address);
+    await expect(tradingEngine.connect(outsider).upgradeToAndCall(nextImplementation, "0x"))
+      .to.emit(tradingEngine, "Upgraded")
+      .withArgs(nextImplementation);
+    // Roles live in the proxy's storage and outlast the upgrade
+    expect(await accessControl.hasRole(Roles.DEFAULT_ADMIN, owner.address)).to.be.true;
+  });
+
+  it("Should carry the old listings over to pair configs with the old engine's limits", async function () {
+    await legacyEngine.setTradingPairAllowed(baseAddress, quoteAddress, true);
+    await legacyEngine.setTradingPairAllowed(quoteAddress, baseAddress, true);
+    await legacyEngine.setTradingPairAllowed(quoteAddress, baseAddress, false);
+    const newImplementation = await (await deployTradingEngine()).getAddress();
+
+    // Only pairs the old engine still listed can be carried over
+    await expect(legacyEngine.upgradeToAndCall(newImplementation, migrateToRolesCall([quoteAddress], [baseAddress])))
+      .to.be.revertedWith("Pair was not listed");
+    await expect(legacyEngine.upgradeToAndCall(newImplementation, migrateToRolesCall([baseAddress], [])))
+      .to.be.revertedWith("Pair length mismatch");
+
+    await expect(legacyEngine.upgradeToAndCall(newImplementation, migrateToRolesCall([baseAddress], [quoteAddress])))
+      .to.emit(tradingEngine, "TradingPairAllowed")
+      .withArgs(baseAddress, quoteAddress, true);
+    expect(await tradingEngine.isTradingPairAllowed(baseAddress, quoteAddress)).to.be.true;
+    expect(await tradingEngine.isTradingPairAllowed(quoteAddress, baseAddress)).to.be.false;
+    const config = await pairConfig.getPairConfig(baseAddress, quoteAddress);
+    expect([config.minOrderAmount, config.maxOrderAmount]).to.deep.equal([ethers.parseEther("0.01"), ethers.parseEther("1000")]);
+    expect(await tradingEngine.allowedTradingPairs(baseAddress, quoteAddress)).to.be.false;
+  });
+
+  describe("with orders on the first engine", function () {
+    const ONE = ethers.parseEther("1");
+    const HALF = ethers.parseEther("0.5");
+
+    beforeEach(async function () {
+      await legacyEngine.setTradingPairAllowed(baseAddress, quoteAddress, true);
+      await baseToken.transfer(seller.address, ethers.parseEther("10"));
+      await quoteToken.transfer(buyer.address, ethers.parseEther("1000"));
+      await baseToken.connect(seller).approve(proxyAddress, ethers.MaxUint256);
+      await quoteToken.connect(buyer).approve(proxyAddress, ethers.MaxUint256);
+
+      // Ask 0 half fills against bid 1, then ask 3 fills a quarter of bid 2
+      await legacyEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("2"), ethers.parseEther("100"), false);
+      await legacyEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("100"), true);
+      await legacyEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("2"), ethers.parseEther("90"), true);
+      await legacyEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, HALF, ethers.parseEther("90"), false);
+    });
+
+    async function upgrade() {
+      const newImplementation = await (await deployTradingEngine()).getAddress();
+      return legacyEngine.upgradeToAndCall(newImplementation, migrateToRolesCall([baseAddress], [quoteAddress]));
+    }
+
+    it("Should cancel open orders into trading accounts and book the rest as fees", async function () {
+      // The first engine both paid fills out and credited them
+      expect(await legacyEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ethers.parseEther("1.5"));
+
+      await expect(upgrade())
+        .to.emit(tradingEngine, "OrderCancelled")
+        .withArgs(0)
+        .and.to.emit(tradingEngine, "OrderCancelled")
+        .withArgs(2);
+
+      // What is left of ask 0 and of bid 2, which paid for half a token at 90
+      expect(await tradingEngine.getUserBalance(seller.address, baseAddress)).to.equal(ONE);
+      expect(await tradingEngine.getUserBalance(buyer.address, quoteAddress)).to.equal(ethers.parseEther("135"));
+      expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(0);
+      expect(await tradingEngine.getUserBalance(seller.address, quoteAddress)).to.equal(0);
+      expect(await tradingEngine.getUserBalance(proxyAddress, quoteAddress)).to.equal(0);
+      // 5 bps of the 100 and 45 quote traded
+      expect(await tradingEngine.collectedFees(quoteAddress)).to.equal(ethers.parseEther("0.0725"));
+      expect(await tradingEngine.collectedFees(baseAddress)).to.equal(0);
+      const [, , activeBuyOrders, activeSellOrders] = await tradingEngine.getOrderBookStats();
+      expect([activeBuyOrders, activeSellOrders]).to.deep.equal([0n, 0n]);
+      await expect(tradingEngine.connect(seller).cancelOrder(0)).to.be.revertedWith("Order already inactive");
+
+      // Every account and the fees can be paid out in full, and trading picks up where it left off
+      const fees: FeeModule = await ethers.getContractAt("FeeModule", proxyAddress);
+      await fees.withdrawFees(quoteAddress, ethers.parseEther("0.0725"));
+      await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, HALF, ethers.parseEther("100"), false);
+      await tradingEngine.connect(seller).withdrawBalance(baseAddress, HALF);
+      await tradingEngine.connect(buyer).withdrawBalance(quoteAddress, ethers.parseEther("135"));
+      expect(await baseToken.balanceOf(proxyAddress)).to.equal(HALF);
+      expect(await quoteToken.balanceOf(proxyAddress)).to.equal(0);
+      expect((await tradingEngine.getOrder(4)).isActive).to.be.true;
+    });
+
+    it("Should refuse to migrate an engine that holds less than its open orders escrowed", async function () {
+      // Withdrawing a fill the first engine had already paid out takes ask 0's escrow with it
+      await legacyEngine.connect(buyer).withdrawBalance(baseAddress, ONE);
+
+      await expect(upgrade()).to.be.revertedWith("Legacy escrow not covered");
+    });
+  });
+});
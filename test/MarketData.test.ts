@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, MarketDataModule } from "../typechain-types";
+import { TradingEngineClient } from "../sdk/src";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+const HOUR = 3600;
+
+describe("Market Data", function () {
+  let tradingEngine: TradingEngine;
+  let marketData: MarketDataModule;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function marketDataFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine();
+    await fundTrader(engine.tradingEngine, seller, engine.baseTokens[0], ethers.parseEther("100"));
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, ethers.parseEther("100000"));
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    const engine = await loadFixture(marketDataFixture);
+    ({ tradingEngine, baseAddresses: [baseAddress], quoteAddress } = engine);
+    marketData = await ethers.getContractAt("MarketDataModule", engine.engineAddress);
+  });
+
+  /** Rests a sell and lifts it with a buy, which executes at `timestamp` when one is given */
+  async function trade(amount: bigint, price: string, timestamp?: number) {
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, amount, ethers.parseEther(price), false);
+    if (timestamp !== undefined) {
+      await time.setNextBlockTimestamp(timestamp);
+    }
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, amount, ethers.parseEther(price), true);
+  }
+
+  /** Mines an empty block at `timestamp`, so views read exactly that time */
+  async function mineAt(timestamp: number) {
+    await time.increaseTo(timestamp);
+  }
+
+  it("Should report the last trade and the last 24 hours of trading", async function () {
+    const ticker = await marketData.getTicker(baseAddress, quoteAddress);
+    expect(ticker).to.deep.equal([0n, 0n, 0n, 0n, 0n, 0n]);
+
+    const start = (await time.latest()) + HOUR;
+    await trade(ONE, "100", start);
+    await trade(ethers.parseEther("2"), "104", start + HOUR);
+    await trade(ONE, "98", start + 2 * HOUR);
+    expect(await marketData.getTicker(baseAddress, quoteAddress)).to.deep.equal([
+      ethers.parseEther("98"),
+      BigInt(start + 2 * HOUR),
+      ethers.parseEther("104"),
+      ethers.parseEther("98"),
+      ethers.parseEther("4"),
+      ethers.parseEther("406"),
+    ]);
+
+    // A day after the first trade its hour has dropped out
+    await trade(ONE, "101", start + 24 * HOUR);
+    const [lastPrice, , high, low, volume] = await marketData.getTicker(baseAddress, quoteAddress);
+    expect([lastPrice, high, low, volume]).to.deep.equal([
+      ethers.parseEther("101"),
+      ethers.parseEther("104"),
+      ethers.parseEther("98"),
+      ethers.parseEther("4"),
+    ]);
+  });
+
+  it("Should average trade prices over a window, weighted by how long each stood", async function () {
+    const start = (await time.latest()) + 100;
+    await trade(ONE, "100", start);
+    await trade(ONE, "110", start + 600);
+    await mineAt(start + 1200);
+    // 100 for ten minutes, then 110 for ten
+    expect(await marketData.getTwap(baseAddress, quoteAddress, 1200)).to.equal(ethers.parseEther("105"));
+    expect(await marketData.getTwap(baseAddress, quoteAddress, 600)).to.equal(ethers.parseEther("110"));
+
+    // Trades less than OBSERVATION_INTERVAL apart share an observation, the average still ends at the last one
+    await trade(ONE, "120", start + 1800);
+    await trade(ONE, "90", start + 1830);
+    await mineAt(start + 2400);
+    expect(await marketData.getTwap(baseAddress, quoteAddress, 2400)).to.equal(
+      (ethers.parseEther("100") * 600n + ethers.parseEther("110") * 1200n + ethers.parseEther("120") * 30n + ethers.parseEther("90") * 570n) / 2400n
+    );
+  });
+
+  it("Should refuse windows its trade history does not cover", async function () {
+    await expect(marketData.getTwap(baseAddress, quoteAddress, 600)).to.be.revertedWith("Not enough trade history");
+
+    const start = (await time.latest()) + 100;
+    await trade(ONE, "100", start);
+    await mineAt(start + 300);
+    await expect(marketData.getTwap(baseAddress, quoteAddress, 600)).to.be.revertedWith("Not enough trade history");
+    expect(await marketData.getTwap(baseAddress, quoteAddress, 300)).to.equal(ethers.parseEther("100"));
+
+    await expect(marketData.getTwap(baseAddress, quoteAddress, 0)).to.be.revertedWith("Invalid TWAP window");
+    await expect(marketData.getTwap(baseAddress, quoteAddress, 24 * HOUR + 1)).to.be.revertedWith("Invalid TWAP window");
+  });
+
+  it("Should record market order fills and read them through the SDK", async function () {
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("100"), false);
+    await tradingEngine.connect(buyer).placeMarketOrder(baseAddress, quoteAddress, ONE, true);
+    const tradeTime = await time.latest();
+
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), buyer);
+    expect(await client.getTicker(baseAddress, quoteAddress)).to.deep.equal({
+      lastPrice: ethers.parseEther("100"),
+      lastTradeTime: BigInt(tradeTime),
+      high: ethers.parseEther("100"),
+      low: ethers.parseEther("100"),
+      volume: ONE,
+      quoteVolume: ethers.parseEther("100"),
+    });
+    await mineAt(tradeTime + 60);
+    expect(await client.getTwap(baseAddress, quoteAddress, 60)).to.equal(ethers.parseEther("100"));
+  });
+});
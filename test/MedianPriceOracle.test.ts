@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MedianPriceOracle, MockPriceOracle, TradingEngine } from "../typechain-types";
+import { deployEngine } from "./helpers/engine-fixture";
+
+const INVALID = 0;
+const STALE = 1;
+const MAX_PRICE_AGE = 3600;
+
+describe("Median Price Oracle", function () {
+  let tradingEngine: TradingEngine;
+  let oracle: MedianPriceOracle;
+  let sources: MockPriceOracle[];
+  let sourceAddresses: string[];
+  let owner: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  async function medianPriceOracleFixture() {
+    const [owner] = await ethers.getSigners();
+    const engine = await deployEngine();
+    const [baseAddress] = engine.baseAddresses;
+    const { quoteAddress } = engine;
+
+    const MockPriceOracleFactory = await ethers.getContractFactory("MockPriceOracle");
+    const sources: MockPriceOracle[] = [];
+    for (const price of ["2000", "2010", "1990"]) {
+      const source = await MockPriceOracleFactory.deploy();
+      await source.setPrice(baseAddress, quoteAddress, ethers.parseEther(price));
+      sources.push(source);
+    }
+    // Sources do not have to agree on decimals
+    await sources[1].setPrice(baseAddress, quoteAddress, ethers.parseUnits("2010", 8));
+    await sources[1].setDecimals(baseAddress, quoteAddress, 8);
+    const sourceAddresses = await Promise.all(sources.map((source) => source.getAddress()));
+
+    const MedianPriceOracleFactory = await ethers.getContractFactory("MedianPriceOracle");
+    const oracle = await MedianPriceOracleFactory.deploy(owner.address, MAX_PRICE_AGE, 2);
+    for (const source of sourceAddresses) {
+      await oracle.addSource(baseAddress, quoteAddress, source);
+    }
+    return { ...engine, oracle, sources, sourceAddresses };
+  }
+
+  beforeEach(async function () {
+    [owner, outsider] = await ethers.getSigners();
+    ({
+      tradingEngine,
+      baseAddresses: [baseAddress],
+      quoteAddress,
+      oracle,
+      sources,
+      sourceAddresses,
+    } = await loadFixture(medianPriceOracleFixture));
+  });
+
+  async function updatedPrice(): Promise<bigint> {
+    await oracle.updatePrice(baseAddress, quoteAddress);
+    return oracle.getPrice(baseAddress, quoteAddress);
+  }
+
+  it("Should report the median of its sources", async function () {
+    expect(await oracle.getSources(baseAddress, quoteAddress)).to.deep.equal(sourceAddresses);
+    expect(await oracle.isPriceFeedValid(baseAddress, quoteAddress)).to.be.true;
+    // Nothing is recorded before the first update
+    expect(await oracle.getPrice(baseAddress, quoteAddress)).to.equal(0);
+    await expect(oracle.updatePrice(baseAddress, quoteAddress))
+      .to.emit(oracle, "PriceUpdated")
+      .withArgs(baseAddress, quoteAddress, ethers.parseEther("2000"), 3);
+    expect(await oracle.getPrice(baseAddress, quoteAddress)).to.equal(ethers.parseEther("2000"));
+
+    // One wild source cannot move it
+    await sources[2].setPrice(baseAddress, quoteAddress, ethers.parseEther("1"));
+    expect(await updatedPrice()).to.equal(ethers.parseEther("2000"));
+
+    // An even count takes the mean of the middle two
+    await oracle.removeSource(baseAddress, quoteAddress, sourceAddresses[2]);
+    expect(await updatedPrice()).to.equal(ethers.parseEther("2005"));
+    await expect(oracle.updatePrice(quoteAddress, baseAddress)).to.be.revertedWith("No sources");
+  });
+
+  it("Should drop invalid and stale sources as it prices", async function () {
+    await sources[0].setPriceFeedValid(baseAddress, quoteAddress, false);
+    await expect(oracle.updatePrice(baseAddress, quoteAddress))
+      .to.emit(oracle, "SourceDropped")
+      .withArgs(baseAddress, quoteAddress, sourceAddresses[0], INVALID)
+      .and.to.emit(oracle, "PriceUpdated")
+      .withArgs(baseAddress, quoteAddress, ethers.parseEther("2000"), 2);
+
+    await sources[1].skipRound(baseAddress, quoteAddress);
+    await sources[2].setUpdatedAt(baseAddress, quoteAddress, (await time.latest()) - MAX_PRICE_AGE - 1);
+    await expect(oracle.updatePrice(baseAddress, quoteAddress))
+      .to.emit(oracle, "SourceDropped")
+      .withArgs(baseAddress, quoteAddress, sourceAddresses[0], INVALID)
+      .and.to.emit(oracle, "SourceDropped")
+      .withArgs(baseAddress, quoteAddress, sourceAddresses[1], STALE)
+      .and.to.emit(oracle, "SourceDropped")
+      .withArgs(baseAddress, quoteAddress, sourceAddresses[2], STALE);
+
+    // With nothing left the answer is zero, which the engine treats as invalid
+    expect(await oracle.getPrice(baseAddress, quoteAddress)).to.equal(0);
+  });
+
+  it("Should only price below quorum from the first source left once the fallback is on", async function () {
+    await sources[0].setPriceFeedValid(baseAddress, quoteAddress, false);
+    await oracle.setQuorum(3);
+    await expect(oracle.updatePrice(baseAddress, quoteAddress))
+      .to.emit(oracle, "PriceUpdated")
+      .withArgs(baseAddress, quoteAddress, 0, 2);
+    expect(await oracle.getPrice(baseAddress, quoteAddress)).to.equal(0);
+
+    await expect(oracle.connect(outsider).setFallbackToFirstSource(true))
+      .to.be.revertedWithCustomError(oracle, "OwnableUnauthorizedAccount");
+    await expect(oracle.setFallbackToFirstSource(true))
+      .to.emit(oracle, "FallbackToFirstSourceUpdated")
+      .withArgs(true);
+    expect(await updatedPrice()).to.equal(ethers.parseEther("2010"));
+
+    // The aggregate is as old as the oldest source it read, and reads as zero once that is too old
+    const backdated = (await time.latest()) - 60;
+    await sources[2].setUpdatedAt(baseAddress, quoteAddress, backdated);
+    await oracle.updatePrice(baseAddress, quoteAddress);
+    const [roundId, , , updatedAt, answeredInRound] = await oracle.latestRoundData(baseAddress, quoteAddress);
+    expect([roundId, updatedAt, answeredInRound]).to.deep.equal([BigInt(backdated), BigInt(backdated), BigInt(backdated)]);
+    await time.increase(MAX_PRICE_AGE);
+    expect(await oracle.getPrice(baseAddress, quoteAddress)).to.equal(0);
+  });
+
+  it("Should keep pricing an engine pair while a source is down", async function () {
+    await tradingEngine.updatePriceOracle(await oracle.getAddress());
+
+    await sources[1].setPrice(baseAddress, quoteAddress, 0);
+    await oracle.updatePrice(baseAddress, quoteAddress);
+    expect(await tradingEngine.getOraclePrice(baseAddress, quoteAddress)).to.equal(ethers.parseEther("1995"));
+
+    await time.increase(MAX_PRICE_AGE + 1);
+    await expect(tradingEngine.getOraclePrice(baseAddress, quoteAddress))
+      .to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+  });
+
+  it("Should only let the owner manage sources, within limits", async function () {
+    await expect(oracle.connect(outsider).addSource(baseAddress, quoteAddress, outsider.address))
+      .to.be.revertedWithCustomError(oracle, "OwnableUnauthorizedAccount");
+    await expect(oracle.connect(outsider).setQuorum(1)).to.be.revertedWithCustomError(oracle, "OwnableUnauthorizedAccount");
+    await expect(oracle.addSource(baseAddress, quoteAddress, sourceAddresses[0])).to.be.revertedWith("Source already added");
+    await expect(oracle.addSource(baseAddress, quoteAddress, await oracle.getAddress())).to.be.revertedWith("Invalid source");
+    await expect(oracle.removeSource(baseAddress, quoteAddress, outsider.address)).to.be.revertedWith("Source not found");
+    await expect(oracle.setQuorum(0)).to.be.revertedWith("Invalid quorum");
+
+    await expect(oracle.removeSource(baseAddress, quoteAddress, sourceAddresses[0]))
+      .to.emit(oracle, "SourceRemoved")
+      .withArgs(baseAddress, quoteAddress, sourceAddresses[0]);
+    expect(await oracle.getSources(baseAddress, quoteAddress)).to.deep.equal(sourceAddresses.slice(1));
+    await expect(oracle.addSource(baseAddress, quoteAddress, sourceAddresses[0]))
+      .to.emit(oracle, "SourceAdded")
+      .withArgs(baseAddress, quoteAddress, sourceAddresses[0]);
+    expect(await oracle.getSources(baseAddress, quoteAddress))
+      .to.deep.equal([...sourceAddresses.slice(1), sourceAddresses[0]]);
+  });
+});
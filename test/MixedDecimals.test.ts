@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, MockERC20WithDecimals, MockPriceOracle } from "../typechain-types";
+import { TradingEngineClient, quoteAmountFor } from "../sdk/src";
+import { deployEngine, fundTrader, BTC, USDC, WETH } from "./helpers/engine-fixture";
+
+const STOP_MARKET = 0;
+
+describe("Mixed Decimal Pairs", function () {
+  let tradingEngine: TradingEngine;
+  let btc: MockERC20WithDecimals;
+  let usdc: MockERC20WithDecimals;
+  let weth: MockERC20WithDecimals;
+  let mockPriceOracle: MockPriceOracle;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let btcAddress: string;
+  let usdcAddress: string;
+  let wethAddress: string;
+
+  const btcAmount = (value: string) => ethers.parseUnits(value, 8);
+  const usdcAmount = (value: string) => ethers.parseUnits(value, 6);
+
+  async function mixedDecimalsFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({
+      bases: [BTC, WETH],
+      quote: { ...USDC, decimals: 6 },
+      minOrderAmount: ethers.parseEther("0.0001"),
+      maxOrderAmount: ethers.parseEther("100"),
+    });
+    const { tradingEngine, mockPriceOracle, quoteAddress: usdcAddress } = engine;
+    const [btcAddress, wethAddress] = engine.baseAddresses;
+
+    // Chainlink style feeds: BTC/USD with 8 decimals, ETH/USD with 18
+    await mockPriceOracle.setDecimals(btcAddress, usdcAddress, 8);
+    await mockPriceOracle.setPrice(btcAddress, usdcAddress, ethers.parseUnits("60000", 8));
+    await mockPriceOracle.setPrice(wethAddress, usdcAddress, ethers.parseEther("2000"));
+
+    await fundTrader(tradingEngine, seller, engine.baseTokens[0], btcAmount("10"));
+    await fundTrader(tradingEngine, seller, engine.baseTokens[1], ethers.parseEther("10"));
+    await fundTrader(tradingEngine, buyer, engine.quoteToken, usdcAmount("1000000"));
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    ({
+      tradingEngine,
+      mockPriceOracle,
+      baseTokens: [btc, weth],
+      baseAddresses: [btcAddress, wethAddress],
+      quoteToken: usdc,
+      quoteAddress: usdcAddress,
+    } = await loadFixture(mixedDecimalsFixture));
+  });
+
+  it("Should lock and settle an 8 decimal base against a 6 decimal quote", async function () {
+    const price = usdcAmount("60000");
+    await tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.5"), price, false);
+    await tradingEngine.connect(buyer).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.75"), price, true);
+
+    const buyOrder = await tradingEngine.getOrder(1);
+    expect(buyOrder.quoteAmount).to.equal(usdcAmount("45000"));
+    expect(buyOrder.filledAmount).to.equal(btcAmount("0.5"));
+
+    // Both sides pay 15 USDC in fees and the unfilled 0.25 BTC keeps its 7.5 USDC fee reserve locked
+    const fee = usdcAmount("30000") * 5n / 10000n;
+    expect(await tradingEngine.getUserBalance(seller.address, usdcAddress)).to.equal(usdcAmount("30000") - fee);
+    expect(await tradingEngine.getUserBalance(buyer.address, btcAddress)).to.equal(btcAmount("0.5"));
+    expect(await tradingEngine.getLockedBalance(buyer.address, usdcAddress)).to.equal(usdcAmount("15007.5"));
+    expect(await tradingEngine.getUserBalance(buyer.address, usdcAddress)).to.equal(usdcAmount("954977.5"));
+
+    await tradingEngine.connect(buyer).cancelOrder(1);
+    expect(await tradingEngine.getUserBalance(buyer.address, usdcAddress)).to.equal(usdcAmount("969985"));
+    expect(await tradingEngine.getLockedBalance(buyer.address, usdcAddress)).to.equal(0);
+  });
+
+  it("Should price an 18 decimal base in a 6 decimal quote", async function () {
+    const amount = ethers.parseEther("1.5");
+    await tradingEngine.connect(buyer).placeLimitOrder(wethAddress, usdcAddress, amount, usdcAmount("2000.5"), true);
+
+    expect((await tradingEngine.getOrder(0)).quoteAmount).to.equal(usdcAmount("3000.75"));
+    expect(await tradingEngine.getOrderFeeReserve(0)).to.equal(usdcAmount("1.500375"));
+    expect(await tradingEngine.getLockedBalance(buyer.address, usdcAddress)).to.equal(usdcAmount("3002.250375"));
+    expect(quoteAmountFor(amount, usdcAmount("2000.5"), 18)).to.equal(usdcAmount("3000.75"));
+  });
+
+  it("Should scale oracle prices from the feed decimals to the quote token decimals", async function () {
+    expect(await tradingEngine.getOraclePrice(btcAddress, usdcAddress)).to.equal(usdcAmount("60000"));
+    expect(await tradingEngine.getOraclePrice(wethAddress, usdcAddress)).to.equal(usdcAmount("2000"));
+
+    // An empty book leaves a market buy resting at the oracle price
+    await tradingEngine.connect(buyer).placeMarketOrder(btcAddress, usdcAddress, btcAmount("0.1"), true);
+    const order = await tradingEngine.getOrder(0);
+    expect(order.price).to.equal(usdcAmount("60000"));
+    expect(order.quoteAmount).to.equal(usdcAmount("6000"));
+  });
+
+  it("Should reject market orders when the oracle cannot report its decimals", async function () {
+    await mockPriceOracle.setDecimalsReverts(true);
+
+    await expect(tradingEngine.connect(buyer).placeMarketOrder(btcAddress, usdcAddress, btcAmount("0.1"), true))
+      .to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+    await expect(tradingEngine.getOraclePrice(btcAddress, usdcAddress))
+      .to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+  });
+
+  it("Should apply order size limits in whole base tokens", async function () {
+    await expect(
+      tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.00009999"), usdcAmount("60000"), false)
+    ).to.be.revertedWith("Amount too small");
+    await expect(
+      tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("100.00000001"), usdcAmount("60000"), false)
+    ).to.be.revertedWith("Amount too large");
+
+    await tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.0001"), usdcAmount("60000"), false);
+    expect(await tradingEngine.getLockedBalance(seller.address, btcAddress)).to.equal(btcAmount("0.0001"));
+  });
+
+  it("Should trigger conditional orders against the scaled oracle price", async function () {
+    const conditionalOrders = await ethers.getContractAt("ConditionalOrderModule", await tradingEngine.getAddress());
+    await conditionalOrders
+      .connect(buyer)
+      .placeConditionalOrder(btcAddress, usdcAddress, btcAmount("0.2"), usdcAmount("61000"), usdcAmount("62000"), true, STOP_MARKET);
+    expect(await tradingEngine.getLockedBalance(buyer.address, usdcAddress)).to.equal(usdcAmount("12406.2"));
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+
+    await tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.2"), usdcAmount("61500"), false);
+    await mockPriceOracle.setPrice(btcAddress, usdcAddress, ethers.parseUnits("61000", 8));
+    await expect(conditionalOrders.triggerOrders([0]))
+      .to.emit(conditionalOrders, "ConditionalOrderTriggered")
+      .withArgs(0, 1, usdcAmount("61000"));
+
+    expect(await tradingEngine.getUserBalance(buyer.address, btcAddress)).to.equal(btcAmount("0.2"));
+    expect(await tradingEngine.getLockedBalance(buyer.address, usdcAddress)).to.equal(0);
+  });
+
+  it("Should estimate market orders with the base token's decimals", async function () {
+    await tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.5"), usdcAmount("60000"), false);
+    await tradingEngine.connect(seller).placeLimitOrder(btcAddress, usdcAddress, btcAmount("0.5"), usdcAmount("61000"), false);
+
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), buyer);
+    const estimate = await client.estimateMarketOrder(btcAddress, usdcAddress, btcAmount("1"), true);
+    expect(estimate.quoteAmount).to.equal(usdcAmount("60500"));
+    expect(estimate.averagePrice).to.equal(usdcAmount("60500"));
+    expect(estimate.worstPrice).to.equal(usdcAmount("61000"));
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, MockPriceOracle, OracleModule, ConditionalOrderModule } from "../typechain-types";
+import { TradingEngineClient } from "../sdk/src";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+const STOP_MARKET = 0;
+
+describe("Oracle Checks", function () {
+  let tradingEngine: TradingEngine;
+  let oracle: OracleModule;
+  let conditionalOrders: ConditionalOrderModule;
+  let mockPriceOracle: MockPriceOracle;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+  const PRICE = ethers.parseEther("100");
+  const MAX_PRICE_AGE = 3600;
+  const MAX_DEVIATION = 500;
+
+  async function oracleChecksFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ price: PRICE });
+    for (const trader of [seller, buyer]) {
+      await fundTrader(engine.tradingEngine, trader, engine.baseTokens[0], ethers.parseEther("100"));
+      await fundTrader(engine.tradingEngine, trader, engine.quoteToken, ethers.parseEther("100000"));
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    const engine = await loadFixture(oracleChecksFixture);
+    ({ tradingEngine, mockPriceOracle, baseAddresses: [baseAddress], quoteAddress } = engine);
+    oracle = await ethers.getContractAt("OracleModule", engine.engineAddress);
+    conditionalOrders = await ethers.getContractAt("ConditionalOrderModule", engine.engineAddress);
+  });
+
+  function placeMarketBuy() {
+    return tradingEngine.connect(buyer).placeMarketOrder(baseAddress, quoteAddress, ONE, true);
+  }
+
+  it("Should reject market orders once the feed is older than the pair allows", async function () {
+    await expect(oracle.setOracleConfig(baseAddress, quoteAddress, MAX_PRICE_AGE, 0))
+      .to.emit(oracle, "OracleConfigUpdated")
+      .withArgs(baseAddress, quoteAddress, MAX_PRICE_AGE, 0);
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ONE, PRICE, false);
+
+    await time.increase(MAX_PRICE_AGE + 1);
+    await expect(placeMarketBuy()).to.be.revertedWithCustomError(tradingEngine, "PriceOracleExpired");
+    await expect(tradingEngine.getOraclePrice(baseAddress, quoteAddress))
+      .to.be.revertedWithCustomError(tradingEngine, "PriceOracleExpired");
+    expect(await oracle.checkOraclePrice(baseAddress, quoteAddress)).to.deep.equal([false, 0n]);
+    // Limit orders carry their own price and keep trading
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ONE, PRICE, true);
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, PRICE);
+    expect(await oracle.checkOraclePrice(baseAddress, quoteAddress)).to.deep.equal([true, PRICE]);
+    await mockPriceOracle.setUpdatedAt(baseAddress, quoteAddress, (await time.latest()) - MAX_PRICE_AGE - 1);
+    await expect(placeMarketBuy()).to.be.revertedWithCustomError(tradingEngine, "PriceOracleExpired");
+  });
+
+  it("Should treat an answer carried over from an earlier round as stale", async function () {
+    await mockPriceOracle.skipRound(baseAddress, quoteAddress);
+    await expect(placeMarketBuy()).to.be.revertedWithCustomError(tradingEngine, "PriceOracleExpired");
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, PRICE);
+    await expect(placeMarketBuy()).to.emit(tradingEngine, "OrderPlaced");
+  });
+
+  it("Should reject market orders on a missing or non-positive price", async function () {
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, 0);
+    await expect(placeMarketBuy()).to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, -PRICE);
+    await expect(tradingEngine.getOraclePrice(baseAddress, quoteAddress))
+      .to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+  });
+
+  it("Should trip the circuit breaker when the book strays too far from the oracle", async function () {
+    await oracle.setOracleConfig(baseAddress, quoteAddress, 0, MAX_DEVIATION);
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ONE, PRICE, false);
+
+    // A 10% spike puts the 100 ask more than 5% away from the feed
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("110"));
+    await expect(placeMarketBuy()).to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+    await expect(tradingEngine.connect(buyer).placeMarketOrderWithSlippage(baseAddress, quoteAddress, ONE, true, PRICE, true))
+      .to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("105"));
+    await placeMarketBuy();
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ethers.parseEther("101"));
+  });
+
+  it("Should keep conditional orders pending while the feed fails its checks", async function () {
+    await oracle.setOracleConfig(baseAddress, quoteAddress, MAX_PRICE_AGE, MAX_DEVIATION);
+    await conditionalOrders
+      .connect(seller)
+      .placeConditionalOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("90"), ethers.parseEther("80"), false, STOP_MARKET);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ONE, ethers.parseEther("80"), true);
+
+    // The feed crashes past the trigger, but the 80 bid is more than 5% below it
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("85"));
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("82"));
+    await time.increase(MAX_PRICE_AGE + 1);
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+    await expect(conditionalOrders.triggerOrders([0])).not.to.emit(conditionalOrders, "ConditionalOrderTriggered");
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("82"));
+    await expect(conditionalOrders.triggerOrders([0])).to.emit(conditionalOrders, "ConditionalOrderTriggered");
+  });
+
+  it("Should only let oracle managers configure the checks, and report them through the SDK", async function () {
+    await expect(oracle.setOracleConfig(baseAddress, quoteAddress, MAX_PRICE_AGE, 10001))
+      .to.be.revertedWith("Invalid max deviation");
+    await expect(oracle.connect(seller).setOracleConfig(baseAddress, quoteAddress, MAX_PRICE_AGE, MAX_DEVIATION))
+      .to.be.revertedWithCustomError(oracle, "AccessControlUnauthorizedAccount");
+
+    await oracle.setOracleConfig(baseAddress, quoteAddress, MAX_PRICE_AGE, MAX_DEVIATION);
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), buyer);
+    expect(await client.getOracleConfig(baseAddress, quoteAddress)).to.deep.equal({
+      maxPriceAge: BigInt(MAX_PRICE_AGE),
+      maxDeviation: BigInt(MAX_DEVIATION),
+    });
+    expect(await client.checkOraclePrice(baseAddress, quoteAddress)).to.deep.equal({ isValid: true, price: PRICE });
+
+    await time.increase(MAX_PRICE_AGE + 1);
+    expect(await client.checkOraclePrice(baseAddress, quoteAddress)).to.deep.equal({ isValid: false, price: 0n });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine } from "../typechain-types";
+import { deployEngine, fundTrader, BTC, WETH } from "./helpers/engine-fixture";
+
+describe("Order Pagination", function () {
+  let tradingEngine: TradingEngine;
+  let trader1: HardhatEthersSigner;
+  let trader2: HardhatEthersSigner;
+  let wethAddress: string;
+  let btcAddress: string;
+  let usdcAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function orderPaginationFixture() {
+    const [, trader1, trader2] = await ethers.getSigners();
+    const engine = await deployEngine({ bases: [WETH, { ...BTC, decimals: 18 }], maxOrderAmount: ethers.parseEther("100") });
+    const [wethAddress, btcAddress] = engine.baseAddresses;
+    await engine.mockPriceOracle.setPrice(wethAddress, engine.quoteAddress, ethers.parseEther("2000"));
+    await engine.mockPriceOracle.setPrice(btcAddress, engine.quoteAddress, ethers.parseEther("40000"));
+
+    for (const trader of [trader1, trader2]) {
+      for (const token of [...engine.baseTokens, engine.quoteToken]) {
+        await fundTrader(engine.tradingEngine, trader, token, ethers.parseEther("100000"));
+      }
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, trader1, trader2] = await ethers.getSigners();
+    ({ tradingEngine, baseAddresses: [wethAddress, btcAddress], quoteAddress: usdcAddress } = await loadFixture(orderPaginationFixture));
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, baseAddress: string, amount: bigint, price: string, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(baseAddress, usdcAddress, amount, ethers.parseEther(price), isBuy);
+  }
+
+  it("Should page through one side of a pair with full order structs", async function () {
+    for (let i = 0; i < 5; i++) {
+      await placeLimit(trader1, wethAddress, ONE, (1900 + i).toString(), true);
+    }
+    await placeLimit(trader1, wethAddress, ONE, "2100", false);
+
+    const [firstIds, firstOrders, firstCursor] = await tradingEngine.getPairOrders(wethAddress, usdcAddress, true, 0, 2);
+    expect(firstIds).to.deep.equal([0n, 1n]);
+    expect(firstOrders[1].trader).to.equal(trader1.address);
+    expect(firstOrders[1].price).to.equal(ethers.parseEther("1901"));
+    expect(firstOrders[1].isActive).to.be.true;
+    expect(firstCursor).to.equal(2);
+
+    const [secondIds, , secondCursor] = await tradingEngine.getPairOrders(wethAddress, usdcAddress, true, firstCursor, 2);
+    expect(secondIds).to.deep.equal([2n, 3n]);
+
+    const [lastIds, , lastCursor] = await tradingEngine.getPairOrders(wethAddress, usdcAddress, true, secondCursor, 2);
+    expect(lastIds).to.deep.equal([4n]);
+    expect(lastCursor).to.equal(0);
+
+    const [pastEndIds, pastEndOrders, pastEndCursor] = await tradingEngine.getPairOrders(wethAddress, usdcAddress, true, 10, 2);
+    expect(pastEndIds).to.deep.equal([]);
+    expect(pastEndOrders).to.have.length(0);
+    expect(pastEndCursor).to.equal(0);
+  });
+
+  it("Should enumerate a trader's open orders across pairs", async function () {
+    await placeLimit(trader1, wethAddress, ONE, "1900", true);
+    await placeLimit(trader2, wethAddress, ONE, "2100", false);
+    await placeLimit(trader1, btcAddress, ONE, "41000", false);
+    await placeLimit(trader1, wethAddress, ONE, "2200", false);
+
+    expect(await tradingEngine.getTraderOpenOrderCount(trader1.address)).to.equal(3);
+    const [orderIds, orders, nextCursor] = await tradingEngine.getTraderOpenOrders(trader1.address, 0, 10);
+    expect(orderIds).to.deep.equal([0n, 2n, 3n]);
+    expect(orders.map((order) => order.baseToken)).to.deep.equal([wethAddress, btcAddress, wethAddress]);
+    expect(nextCursor).to.equal(0);
+
+    await tradingEngine.connect(trader1).cancelOrder(0);
+    await placeLimit(trader2, btcAddress, ONE, "41000", true);
+
+    const [remainingIds] = await tradingEngine.getTraderOpenOrders(trader1.address, 0, 10);
+    expect(remainingIds).to.deep.equal([3n]);
+    expect(await tradingEngine.getTraderOpenOrderCount(trader2.address)).to.equal(1);
+  });
+
+  it("Should batch order lookups by id", async function () {
+    await placeLimit(trader1, wethAddress, ONE, "1900", true);
+    await placeLimit(trader2, btcAddress, ONE, "41000", false);
+
+    const orders = await tradingEngine.getOrders([1, 0]);
+    expect(orders.map((order) => order.trader)).to.deep.equal([trader2.address, trader1.address]);
+    expect(orders[0].amount).to.equal(ONE);
+  });
+
+  it("Should list active orders across all pairs without scanning every order id", async function () {
+    await placeLimit(trader1, wethAddress, ONE, "1900", true);
+    await placeLimit(trader1, btcAddress, ONE, "39000", true);
+    await placeLimit(trader1, wethAddress, ONE, "1800", true);
+    await tradingEngine.connect(trader1).cancelOrder(0);
+
+    const buyOrderIds = await tradingEngine.getActiveBuyOrders();
+    expect([...buyOrderIds].sort()).to.deep.equal([1n, 2n]);
+    expect(await tradingEngine.getActiveSellOrders()).to.deep.equal([]);
+  });
+
+  it("Should reject an empty page size", async function () {
+    await expect(tradingEngine.getPairOrders(wethAddress, usdcAddress, true, 0, 0))
+      .to.be.revertedWith("Limit must be greater than 0");
+    await expect(tradingEngine.getTraderOpenOrders(trader1.address, 0, 0))
+      .to.be.revertedWith("Limit must be greater than 0");
+  });
+});
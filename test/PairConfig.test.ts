@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, MockPriceOracle, PairConfigModule, ConditionalOrderModule } from "../typechain-types";
+import { TradingEngineClient } from "../sdk/src";
+import { deployEngine, fundTrader, BTC, USDC } from "./helpers/engine-fixture";
+
+const STOP_MARKET = 0;
+const STOP_LIMIT = 1;
+
+describe("Pair Config", function () {
+  let tradingEngine: TradingEngine;
+  let pairConfigs: PairConfigModule;
+  let conditionalOrders: ConditionalOrderModule;
+  let mockPriceOracle: MockPriceOracle;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let btcAddress: string;
+  let usdcAddress: string;
+
+  const btcAmount = (value: string) => ethers.parseUnits(value, 8);
+  const usdcAmount = (value: string) => ethers.parseUnits(value, 6);
+
+  // 0.01 to 5 BTC in steps of 0.001, priced in whole cents
+  const CONFIG = {
+    enabled: true,
+    minOrderAmount: ethers.parseEther("0.01"),
+    maxOrderAmount: ethers.parseEther("5"),
+    tickSize: usdcAmount("0.01"),
+    lotSize: ethers.parseEther("0.001"),
+  };
+
+  // The pair is left unlisted, for each test to configure
+  async function pairConfigFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({
+      bases: [BTC],
+      quote: { ...USDC, decimals: 6 },
+      price: usdcAmount("60000"),
+      listPairs: false,
+    });
+    await engine.mockPriceOracle.setDecimals(engine.baseAddresses[0], engine.quoteAddress, 6);
+
+    await fundTrader(engine.tradingEngine, seller, engine.baseTokens[0], btcAmount("10"));
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, usdcAmount("1000000"));
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    const engine = await loadFixture(pairConfigFixture);
+    ({ tradingEngine, mockPriceOracle, baseAddresses: [btcAddress], quoteAddress: usdcAddress } = engine);
+    pairConfigs = await ethers.getContractAt("PairConfigModule", engine.engineAddress);
+    conditionalOrders = await ethers.getContractAt("ConditionalOrderModule", engine.engineAddress);
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, amount: bigint, price: bigint, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(btcAddress, usdcAddress, amount, price, isBuy);
+  }
+
+  it("Should refuse every kind of order on a pair that is not listed", async function () {
+    expect(await tradingEngine.isTradingPairAllowed(btcAddress, usdcAddress)).to.be.false;
+
+    await expect(placeLimit(seller, btcAmount("1"), usdcAmount("60000"), false))
+      .to.be.revertedWithCustomError(tradingEngine, "TradingPairNotAllowed");
+    await expect(tradingEngine.connect(buyer).placeMarketOrder(btcAddress, usdcAddress, btcAmount("1"), true))
+      .to.be.revertedWithCustomError(tradingEngine, "TradingPairNotAllowed");
+    await expect(
+      conditionalOrders
+        .connect(seller)
+        .placeConditionalOrder(btcAddress, usdcAddress, btcAmount("1"), usdcAmount("55000"), usdcAmount("54000"), false, STOP_MARKET)
+    ).to.be.revertedWithCustomError(conditionalOrders, "TradingPairNotAllowed");
+  });
+
+  it("Should only list a configured pair and keep its config across delisting", async function () {
+    await expect(tradingEngine.setTradingPairAllowed(btcAddress, usdcAddress, true)).to.be.revertedWith("Pair not configured");
+
+    await pairConfigs.setPairConfig(btcAddress, usdcAddress, CONFIG);
+    await placeLimit(seller, btcAmount("1"), usdcAmount("60000"), false);
+    await expect(tradingEngine.setTradingPairAllowed(btcAddress, usdcAddress, false))
+      .to.emit(tradingEngine, "TradingPairAllowed")
+      .withArgs(btcAddress, usdcAddress, false);
+    await expect(placeLimit(seller, btcAmount("1"), usdcAmount("60000"), false))
+      .to.be.revertedWithCustomError(tradingEngine, "TradingPairNotAllowed");
+    // Resting orders can still be cancelled
+    await tradingEngine.connect(seller).cancelOrder(0);
+
+    await tradingEngine.setTradingPairAllowed(btcAddress, usdcAddress, true);
+    expect(await pairConfigs.getPairConfig(btcAddress, usdcAddress)).to.deep.equal(Object.values(CONFIG));
+  });
+
+  it("Should hold orders to the pair's size bounds, lot size and tick size", async function () {
+    await expect(pairConfigs.setPairConfig(btcAddress, usdcAddress, CONFIG))
+      .to.emit(pairConfigs, "PairConfigUpdated")
+      .withArgs(btcAddress, usdcAddress, true, CONFIG.minOrderAmount, CONFIG.maxOrderAmount, CONFIG.tickSize, CONFIG.lotSize)
+      .and.to.emit(pairConfigs, "TradingPairAllowed")
+      .withArgs(btcAddress, usdcAddress, true);
+
+    await expect(placeLimit(seller, btcAmount("0.009"), usdcAmount("60000"), false)).to.be.revertedWith("Amount too small");
+    await expect(placeLimit(seller, btcAmount("5.001"), usdcAmount("60000"), false)).to.be.revertedWith("Amount too large");
+    await expect(placeLimit(seller, btcAmount("0.0105"), usdcAmount("60000"), false))
+      .to.be.revertedWith("Amount not a multiple of lot size");
+    await expect(placeLimit(seller, btcAmount("0.011"), usdcAmount("60000.005"), false))
+      .to.be.revertedWith("Price not a multiple of tick size");
+    await expect(tradingEngine.connect(buyer).placeMarketOrder(btcAddress, usdcAddress, btcAmount("0.0105"), true))
+      .to.be.revertedWith("Amount not a multiple of lot size");
+
+    await placeLimit(seller, btcAmount("0.011"), usdcAmount("60000.01"), false);
+    await tradingEngine.connect(buyer).placeMarketOrder(btcAddress, usdcAddress, btcAmount("0.011"), true);
+    expect(await tradingEngine.getUserBalance(buyer.address, btcAddress)).to.equal(btcAmount("0.011"));
+  });
+
+  it("Should check conditional orders against the config when placed and wait out a delisting", async function () {
+    await pairConfigs.setPairConfig(btcAddress, usdcAddress, CONFIG);
+
+    const place = (limitPrice: bigint, orderType: number) =>
+      conditionalOrders
+        .connect(seller)
+        .placeConditionalOrder(btcAddress, usdcAddress, btcAmount("0.5"), usdcAmount("55000"), limitPrice, false, orderType);
+    await expect(place(usdcAmount("54000.005"), STOP_LIMIT)).to.be.revertedWith("Price not a multiple of tick size");
+    // A stop-market's limit price only bounds what it locks, so it does not need to be on a tick
+    await place(usdcAmount("54000.005"), STOP_MARKET);
+    await placeLimit(buyer, btcAmount("0.5"), usdcAmount("54500"), true);
+
+    await tradingEngine.setTradingPairAllowed(btcAddress, usdcAddress, false);
+    await mockPriceOracle.setPrice(btcAddress, usdcAddress, usdcAmount("54900"));
+    expect(await conditionalOrders.isConditionalOrderTriggerable(0)).to.be.false;
+
+    await tradingEngine.setTradingPairAllowed(btcAddress, usdcAddress, true);
+    await expect(conditionalOrders.triggerOrders([0])).to.emit(conditionalOrders, "ConditionalOrderTriggered");
+    expect(await tradingEngine.getUserBalance(buyer.address, btcAddress)).to.equal(btcAmount("0.5"));
+  });
+
+  it("Should reject invalid configs and callers without the pair manager role", async function () {
+    await expect(pairConfigs.setPairConfig(btcAddress, usdcAddress, { ...CONFIG, maxOrderAmount: 0n }))
+      .to.be.revertedWith("Invalid order size bounds");
+    await expect(pairConfigs.setPairConfig(btcAddress, usdcAddress, { ...CONFIG, minOrderAmount: ethers.parseEther("6") }))
+      .to.be.revertedWith("Invalid order size bounds");
+    await expect(pairConfigs.setPairConfig(btcAddress, usdcAddress, { ...CONFIG, minOrderAmount: ethers.parseEther("0.0105") }))
+      .to.be.revertedWith("Min order not a multiple of lot size");
+    await expect(pairConfigs.setPairConfig(btcAddress, btcAddress, CONFIG))
+      .to.be.revertedWith("Base and quote tokens must be different");
+    await expect(pairConfigs.connect(seller).setPairConfig(btcAddress, usdcAddress, CONFIG))
+      .to.be.revertedWithCustomError(pairConfigs, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should read pair configs through the SDK", async function () {
+    await pairConfigs.setPairConfig(btcAddress, usdcAddress, CONFIG);
+
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), buyer);
+    expect(await client.getPairConfig(btcAddress, usdcAddress)).to.deep.equal(CONFIG);
+    expect(await client.getAllowedTradingPairs()).to.deep.equal([{ baseToken: btcAddress, quoteToken: usdcAddress }]);
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine } from "../typechain-types";
+import { deployEngine, fundTrader, BTC, WETH } from "./helpers/engine-fixture";
+
+describe("Per-Pair Order Books", function () {
+  let tradingEngine: TradingEngine;
+  let trader1: HardhatEthersSigner;
+  let trader2: HardhatEthersSigner;
+  let wethAddress: string;
+  let btcAddress: string;
+  let usdcAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function pairOrderBookFixture() {
+    const [, trader1, trader2] = await ethers.getSigners();
+    const engine = await deployEngine({ bases: [WETH, { ...BTC, decimals: 18 }], maxOrderAmount: ethers.parseEther("100") });
+    const [wethAddress, btcAddress] = engine.baseAddresses;
+    await engine.mockPriceOracle.setPrice(wethAddress, engine.quoteAddress, ethers.parseEther("2000"));
+    await engine.mockPriceOracle.setPrice(btcAddress, engine.quoteAddress, ethers.parseEther("40000"));
+
+    for (const trader of [trader1, trader2]) {
+      for (const token of [...engine.baseTokens, engine.quoteToken]) {
+        await fundTrader(engine.tradingEngine, trader, token, ethers.parseEther("100000"));
+      }
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, trader1, trader2] = await ethers.getSigners();
+    ({ tradingEngine, baseAddresses: [wethAddress, btcAddress], quoteAddress: usdcAddress } = await loadFixture(pairOrderBookFixture));
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, baseAddress: string, amount: bigint, price: string, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(baseAddress, usdcAddress, amount, ethers.parseEther(price), isBuy);
+  }
+
+  it("Should never match orders from different pairs", async function () {
+    await placeLimit(trader1, wethAddress, ONE, "2000", true);
+    await expect(placeLimit(trader2, btcAddress, ONE, "1000", false)).not.to.emit(tradingEngine, "OrderMatched");
+
+    expect(await tradingEngine.getPairActiveBuyOrders(wethAddress, usdcAddress)).to.deep.equal([0n]);
+    expect(await tradingEngine.getPairActiveSellOrders(btcAddress, usdcAddress)).to.deep.equal([1n]);
+    expect(await tradingEngine.getPairActiveSellOrders(wethAddress, usdcAddress)).to.deep.equal([]);
+  });
+
+  it("Should keep stats per pair alongside the global totals", async function () {
+    await placeLimit(trader1, wethAddress, ONE, "1900", true);
+    await placeLimit(trader1, wethAddress, ONE, "2100", false);
+    await placeLimit(trader1, btcAddress, ONE, "39000", true);
+    await placeLimit(trader2, btcAddress, ONE, "39000", false);
+
+    const wethStats = await tradingEngine.getPairOrderBookStats(wethAddress, usdcAddress);
+    expect(wethStats.totalBuyOrders).to.equal(1);
+    expect(wethStats.totalSellOrders).to.equal(1);
+    expect(wethStats.activeBuyOrders).to.equal(1);
+    expect(wethStats.activeSellOrders).to.equal(1);
+
+    const btcStats = await tradingEngine.getPairOrderBookStats(btcAddress, usdcAddress);
+    expect(btcStats.totalBuyOrders).to.equal(1);
+    expect(btcStats.totalSellOrders).to.equal(1);
+    expect(btcStats.activeBuyOrders).to.equal(0);
+    expect(btcStats.activeSellOrders).to.equal(0);
+
+    const stats = await tradingEngine.getOrderBookStats();
+    expect(stats.totalBuyOrders).to.equal(2);
+    expect(stats.activeBuyOrders).to.equal(1);
+  });
+
+  it("Should drop filled and cancelled orders from the pair's active set", async function () {
+    await placeLimit(trader1, wethAddress, ONE, "1990", false);
+    await placeLimit(trader1, wethAddress, ONE, "2000", false);
+    await placeLimit(trader1, wethAddress, ONE, "2010", false);
+
+    await tradingEngine.connect(trader1).cancelOrder(0);
+    expect(await tradingEngine.getPairActiveSellOrders(wethAddress, usdcAddress)).to.deep.equal([2n, 1n]);
+
+    await placeLimit(trader2, wethAddress, ONE, "2000", true);
+    expect(await tradingEngine.getPairActiveSellOrders(wethAddress, usdcAddress)).to.deep.equal([2n]);
+    expect(await tradingEngine.getPairActiveBuyOrders(wethAddress, usdcAddress)).to.deep.equal([]);
+  });
+
+  it("Should announce each new order book once", async function () {
+    const wethPairId = await tradingEngine.getPairId(wethAddress, usdcAddress);
+
+    await expect(placeLimit(trader1, wethAddress, ONE, "1900", true))
+      .to.emit(tradingEngine, "OrderBookCreated")
+      .withArgs(wethPairId, wethAddress, usdcAddress);
+    await expect(placeLimit(trader1, wethAddress, ONE, "1800", true)).not.to.emit(tradingEngine, "OrderBookCreated");
+    await placeLimit(trader1, btcAddress, ONE, "39000", true);
+
+    const [baseTokens, quoteTokens] = await tradingEngine.getOrderBookPairs();
+    expect(baseTokens).to.deep.equal([wethAddress, btcAddress]);
+    expect(quoteTokens).to.deep.equal([usdcAddress, usdcAddress]);
+  });
+
+  it("Should emit BestPricesUpdated only when the top of the book moves", async function () {
+    const pairId = await tradingEngine.getPairId(wethAddress, usdcAddress);
+
+    await expect(placeLimit(trader1, wethAddress, ONE, "1900", true))
+      .to.emit(tradingEngine, "BestPricesUpdated")
+      .withArgs(pairId, ethers.parseEther("1900"), 0);
+    await expect(placeLimit(trader1, wethAddress, ONE, "1800", true)).not.to.emit(tradingEngine, "BestPricesUpdated");
+    await expect(placeLimit(trader1, wethAddress, ONE, "2100", false))
+      .to.emit(tradingEngine, "BestPricesUpdated")
+      .withArgs(pairId, ethers.parseEther("1900"), ethers.parseEther("2100"));
+
+    await expect(placeLimit(trader2, wethAddress, ONE, "1900", false))
+      .to.emit(tradingEngine, "BestPricesUpdated")
+      .withArgs(pairId, ethers.parseEther("1800"), ethers.parseEther("2100"));
+
+    await expect(tradingEngine.connect(trader1).cancelOrder(2))
+      .to.emit(tradingEngine, "BestPricesUpdated")
+      .withArgs(pairId, ethers.parseEther("1800"), 0);
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChainlinkPriceOracle, PythPriceOracle, MockAggregatorV3, MockPyth, TradingEngine } from "../typechain-types";
+import { deployEngine, BTC, WETH } from "./helpers/engine-fixture";
+
+// Chainlink's `Denominations.USD`, which the adapters derive cross pairs through
+const USD = ethers.getAddress("0x0000000000000000000000000000000000000348");
+
+const WETH_USD_ID = ethers.id("WETH/USD");
+const BTC_USD_ID = ethers.id("BTC/USD");
+const WETH_BTC_ID = ethers.id("WETH/BTC");
+
+describe("Price Oracle Adapters", function () {
+  let owner: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let tradingEngine: TradingEngine;
+  let wethAddress: string;
+  let btcAddress: string;
+  let usdcAddress: string;
+
+  // WETH/BTC listed with a one hour `maxPriceAge`, and USDC unlisted
+  async function priceOracleAdaptersFixture() {
+    const engine = await deployEngine({ bases: [WETH], quote: BTC });
+    const oracleModule = await ethers.getContractAt("OracleModule", engine.engineAddress);
+    await oracleModule.setOracleConfig(engine.baseAddresses[0], engine.quoteAddress, 3600, 0);
+    const usdc = await ethers.deployContract("MockERC20WithDecimals", ["USD Coin", "USDC", ethers.parseUnits("1000000", 6), 6]);
+    return { ...engine, usdcAddress: await usdc.getAddress() };
+  }
+
+  beforeEach(async function () {
+    [owner, outsider] = await ethers.getSigners();
+    ({ tradingEngine, baseAddresses: [wethAddress], quoteAddress: btcAddress, usdcAddress } = await loadFixture(priceOracleAdaptersFixture));
+  });
+
+  /** The fixture's engine, priced by `oracle` from here on */
+  async function priceEngineWith(oracle: string): Promise<TradingEngine> {
+    await tradingEngine.updatePriceOracle(oracle);
+    return tradingEngine;
+  }
+
+  describe("ChainlinkPriceOracle", function () {
+    let oracle: ChainlinkPriceOracle;
+    let wethUsd: MockAggregatorV3;
+    let btcUsd: MockAggregatorV3;
+
+    beforeEach(async function () {
+      const MockAggregatorFactory = await ethers.getContractFactory("MockAggregatorV3");
+      wethUsd = await MockAggregatorFactory.deploy(8, "WETH / USD");
+      btcUsd = await MockAggregatorFactory.deploy(8, "BTC / USD");
+      await wethUsd.setAnswer(ethers.parseUnits("2000", 8));
+      await btcUsd.setAnswer(ethers.parseUnits("40000", 8));
+
+      const ChainlinkPriceOracleFactory = await ethers.getContractFactory("ChainlinkPriceOracle");
+      oracle = await ChainlinkPriceOracleFactory.deploy(owner.address);
+      await oracle.setFeed(wethAddress, USD, await wethUsd.getAddress());
+      await oracle.setFeed(btcAddress, USD, await btcUsd.getAddress());
+    });
+
+    it("Should report a direct feed at 18 decimals", async function () {
+      expect(await oracle.decimals(wethAddress, USD)).to.equal(18);
+      expect(await oracle.getPrice(wethAddress, USD)).to.equal(ethers.parseEther("2000"));
+
+      const [roundId, answer, , updatedAt, answeredInRound] = await oracle.latestRoundData(wethAddress, USD);
+      expect([roundId, answer, updatedAt, answeredInRound]).to.deep.equal([
+        1n,
+        ethers.parseEther("2000"),
+        await wethUsd.updatedAt(),
+        1n,
+      ]);
+
+      // A feed with more decimals than the adapter reports is scaled down
+      const MockAggregatorFactory = await ethers.getContractFactory("MockAggregatorV3");
+      const usdcUsd = await MockAggregatorFactory.deploy(20, "USDC / USD");
+      await usdcUsd.setAnswer(ethers.parseUnits("0.9998", 20));
+      await oracle.setFeed(usdcAddress, USD, await usdcUsd.getAddress());
+      expect(await oracle.getPrice(usdcAddress, USD)).to.equal(ethers.parseEther("0.9998"));
+    });
+
+    it("Should derive a cross pair from both tokens' USD feeds", async function () {
+      expect(await oracle.isPriceFeedValid(wethAddress, btcAddress)).to.be.true;
+      expect(await oracle.getPrice(wethAddress, btcAddress)).to.equal(ethers.parseEther("0.05"));
+      expect(await oracle.getPrice(btcAddress, wethAddress)).to.equal(ethers.parseEther("20"));
+      expect(await oracle.getPriceForTokenAmount(wethAddress, btcAddress, ethers.parseEther("3")))
+        .to.equal(ethers.parseUnits("0.15", 8));
+
+      // The derived round is as old as its oldest leg
+      const backdated = (await time.latest()) - 600;
+      await btcUsd.setUpdatedAt(backdated);
+      expect((await oracle.latestRoundData(wethAddress, btcAddress)).updatedAt).to.equal(backdated);
+
+      // A direct feed takes precedence over derivation
+      const MockAggregatorFactory = await ethers.getContractFactory("MockAggregatorV3");
+      const wethBtc = await MockAggregatorFactory.deploy(18, "WETH / BTC");
+      await wethBtc.setAnswer(ethers.parseEther("0.051"));
+      await oracle.setFeed(wethAddress, btcAddress, await wethBtc.getAddress());
+      expect(await oracle.getPrice(wethAddress, btcAddress)).to.equal(ethers.parseEther("0.051"));
+    });
+
+    it("Should refuse pairs it cannot price and mark carried over answers", async function () {
+      expect(await oracle.isPriceFeedValid(wethAddress, usdcAddress)).to.be.false;
+      await expect(oracle.getPrice(wethAddress, usdcAddress)).to.be.revertedWithCustomError(oracle, "TokenNotInPriceOracle");
+
+      await btcUsd.skipRound();
+      const [roundId, , , , answeredInRound] = await oracle.latestRoundData(wethAddress, btcAddress);
+      expect(answeredInRound).to.be.lessThan(roundId);
+    });
+
+    it("Should only let the owner set feeds", async function () {
+      await expect(oracle.connect(outsider).setFeed(wethAddress, usdcAddress, await wethUsd.getAddress()))
+        .to.be.revertedWithCustomError(oracle, "OwnableUnauthorizedAccount");
+      await expect(oracle.setFeed(wethAddress, wethAddress, await wethUsd.getAddress()))
+        .to.be.revertedWith("Invalid token addresses");
+
+      await expect(oracle.setFeed(btcAddress, USD, ethers.ZeroAddress))
+        .to.emit(oracle, "FeedUpdated")
+        .withArgs(btcAddress, USD, ethers.ZeroAddress);
+      expect(await oracle.isPriceFeedValid(wethAddress, btcAddress)).to.be.false;
+    });
+
+    it("Should price an engine pair in quote token units and let the engine age it out", async function () {
+      const tradingEngine = await priceEngineWith(await oracle.getAddress());
+      expect(await tradingEngine.getOraclePrice(wethAddress, btcAddress)).to.equal(ethers.parseUnits("0.05", 8));
+
+      await time.increase(3601);
+      await wethUsd.setAnswer(ethers.parseUnits("2000", 8));
+      // BTC/USD has not updated in over an hour, which makes WETH/BTC stale
+      await expect(tradingEngine.getOraclePrice(wethAddress, btcAddress))
+        .to.be.revertedWithCustomError(tradingEngine, "PriceOracleExpired");
+
+      await btcUsd.setAnswer(0);
+      await expect(tradingEngine.getOraclePrice(wethAddress, btcAddress))
+        .to.be.revertedWithCustomError(tradingEngine, "PriceOracleInvalid");
+    });
+  });
+
+  describe("PythPriceOracle", function () {
+    let oracle: PythPriceOracle;
+    let pyth: MockPyth;
+
+    async function publish(id: string, price: bigint, expo: number) {
+      const publishTime = (await time.latest()) + 1;
+      const update = await pyth.createPriceFeedUpdateData(id, price, 0, expo, price, 0, publishTime, 0);
+      await pyth.updatePriceFeeds([update]);
+    }
+
+    beforeEach(async function () {
+      const MockPythFactory = await ethers.getContractFactory("MockPyth");
+      pyth = await MockPythFactory.deploy(60, 0);
+      await publish(WETH_USD_ID, 200000000000n, -8);
+      await publish(BTC_USD_ID, 4000000000n, -5);
+
+      const PythPriceOracleFactory = await ethers.getContractFactory("PythPriceOracle");
+      oracle = await PythPriceOracleFactory.deploy(await pyth.getAddress(), owner.address);
+      await oracle.setPriceId(wethAddress, USD, WETH_USD_ID);
+      await oracle.setPriceId(btcAddress, USD, BTC_USD_ID);
+    });
+
+    it("Should report feeds at 18 decimals whatever their exponent", async function () {
+      expect(await oracle.getPrice(wethAddress, USD)).to.equal(ethers.parseEther("2000"));
+      expect(await oracle.getPrice(btcAddress, USD)).to.equal(ethers.parseEther("40000"));
+      expect(await oracle.getPrice(wethAddress, btcAddress)).to.equal(ethers.parseEther("0.05"));
+
+      // Publish times stand in for rounds
+      const [roundId, , , updatedAt, answeredInRound] = await oracle.latestRoundData(wethAddress, USD);
+      expect(roundId).to.equal(updatedAt);
+      expect(answeredInRound).to.equal(roundId);
+    });
+
+    it("Should prefer a direct price id and refuse unknown pairs", async function () {
+      await expect(oracle.setPriceId(wethAddress, btcAddress, WETH_BTC_ID))
+        .to.emit(oracle, "PriceIdUpdated")
+        .withArgs(wethAddress, btcAddress, WETH_BTC_ID);
+      // Set but never published, so Pyth has nothing to return
+      await expect(oracle.getPrice(wethAddress, btcAddress)).to.be.reverted;
+      await publish(WETH_BTC_ID, 5100000n, -8);
+      expect(await oracle.getPrice(wethAddress, btcAddress)).to.equal(ethers.parseEther("0.051"));
+
+      expect(await oracle.isPriceFeedValid(usdcAddress, btcAddress)).to.be.false;
+      await expect(oracle.getPrice(usdcAddress, btcAddress)).to.be.revertedWithCustomError(oracle, "TokenNotInPriceOracle");
+      await expect(oracle.connect(outsider).setPriceId(usdcAddress, USD, WETH_USD_ID))
+        .to.be.revertedWithCustomError(oracle, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should price an engine pair until an update is overdue", async function () {
+      const tradingEngine = await priceEngineWith(await oracle.getAddress());
+      expect(await tradingEngine.getOraclePrice(wethAddress, btcAddress)).to.equal(ethers.parseUnits("0.05", 8));
+
+      await time.increase(3601);
+      await publish(WETH_USD_ID, 210000000000n, -8);
+      await expect(tradingEngine.getOraclePrice(wethAddress, btcAddress))
+        .to.be.revertedWithCustomError(tradingEngine, "PriceOracleExpired");
+
+      await publish(BTC_USD_ID, 4200000000n, -5);
+      expect(await tradingEngine.getOraclePrice(wethAddress, btcAddress)).to.equal(ethers.parseUnits("0.05", 8));
+    });
+  });
+});
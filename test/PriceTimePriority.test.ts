@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine, MarketDataModule } from "../typechain-types";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("Price-Time Priority Matching", function () {
+  let tradingEngine: TradingEngine;
+  let marketData: MarketDataModule;
+  let maker1: HardhatEthersSigner;
+  let maker2: HardhatEthersSigner;
+  let taker: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function priceTimePriorityFixture() {
+    const [, maker1, maker2, taker] = await ethers.getSigners();
+    const engine = await deployEngine();
+    for (const trader of [maker1, maker2, taker]) {
+      await fundTrader(engine.tradingEngine, trader, engine.baseTokens[0], ethers.parseEther("10000"));
+      await fundTrader(engine.tradingEngine, trader, engine.quoteToken, ethers.parseEther("10000000"));
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, maker1, maker2, taker] = await ethers.getSigners();
+    const engine = await loadFixture(priceTimePriorityFixture);
+    ({ tradingEngine, baseAddresses: [baseAddress], quoteAddress } = engine);
+    marketData = await ethers.getContractAt("MarketDataModule", engine.engineAddress);
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, amount: bigint, price: string, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(baseAddress, quoteAddress, amount, ethers.parseEther(price), isBuy);
+  }
+
+  describe("Matching", function () {
+    it("Should fill the best price level first", async function () {
+      await placeLimit(maker1, ONE, "105", false);
+      await placeLimit(maker1, ONE, "101", false);
+      await placeLimit(maker1, ONE, "103", false);
+
+      const fee = ethers.parseEther("110") * 5n / 10000n;
+      await expect(placeLimit(taker, ONE, "110", true))
+        .to.emit(tradingEngine, "OrderMatched")
+        .withArgs(3, 1, ONE, ethers.parseEther("110"), fee, fee);
+
+      expect((await tradingEngine.getOrder(1)).isActive).to.be.false;
+      expect((await tradingEngine.getOrder(0)).isActive).to.be.true;
+      expect((await tradingEngine.getOrder(2)).isActive).to.be.true;
+
+      const [, bestAsk] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+      expect(bestAsk).to.equal(ethers.parseEther("103"));
+    });
+
+    it("Should fill orders at the same price in arrival order", async function () {
+      await placeLimit(maker1, ONE, "100", true);
+      await placeLimit(maker2, ONE, "100", true);
+      await placeLimit(maker1, ONE, "100", true);
+
+      const fee = ethers.parseEther("100") * 5n / 10000n;
+      await expect(placeLimit(taker, ethers.parseEther("1.5"), "100", false))
+        .to.emit(tradingEngine, "OrderMatched")
+        .withArgs(0, 3, ONE, ethers.parseEther("100"), fee, fee);
+
+      expect((await tradingEngine.getOrder(0)).filledAmount).to.equal(ONE);
+      expect((await tradingEngine.getOrder(1)).filledAmount).to.equal(ethers.parseEther("0.5"));
+      expect((await tradingEngine.getOrder(2)).filledAmount).to.equal(0);
+      expect(await marketData.getPriceLevelOrders(baseAddress, quoteAddress, true, ethers.parseEther("100")))
+        .to.deep.equal([1n, 2n]);
+    });
+
+    it("Should stop matching once prices no longer cross and rest the remainder", async function () {
+      await placeLimit(maker1, ONE, "101", false);
+      await placeLimit(maker2, ONE, "103", false);
+
+      await placeLimit(taker, ethers.parseEther("3"), "102", true);
+
+      const order = await tradingEngine.getOrder(2);
+      expect(order.filledAmount).to.equal(ONE);
+      expect(order.isActive).to.be.true;
+      expect((await tradingEngine.getOrder(1)).filledAmount).to.equal(0);
+
+      const [bestBid, bestAsk] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+      expect(bestBid).to.equal(ethers.parseEther("102"));
+      expect(bestAsk).to.equal(ethers.parseEther("103"));
+    });
+
+    it("Should sweep several levels until the order is filled", async function () {
+      await placeLimit(maker1, ONE, "100", false);
+      await placeLimit(maker2, ONE, "101", false);
+      await placeLimit(maker1, ONE, "102", false);
+
+      const tx = await placeLimit(taker, ethers.parseEther("2.5"), "102", true);
+      const receipt = await tx.wait();
+      const matched = receipt!.logs
+        .map((log) => tradingEngine.interface.parseLog(log))
+        .filter((event) => event?.name === "OrderMatched")
+        .map((event) => [event!.args.sellOrderId, event!.args.amount]);
+
+      expect(matched).to.deep.equal([
+        [0n, ONE],
+        [1n, ONE],
+        [2n, ethers.parseEther("0.5")],
+      ]);
+      expect((await tradingEngine.getOrder(3)).isActive).to.be.false;
+    });
+
+    it("Should price market orders from the best opposite level", async function () {
+      await placeLimit(maker1, ONE, "99", false);
+      await placeLimit(maker2, ONE, "98", false);
+
+      await tradingEngine.connect(taker).placeMarketOrder(baseAddress, quoteAddress, ONE, true);
+
+      const order = await tradingEngine.getOrder(2);
+      expect(order.price).to.equal(ethers.parseEther("98"));
+      expect(order.isActive).to.be.false;
+      expect((await tradingEngine.getOrder(1)).isActive).to.be.false;
+    });
+  });
+
+  describe("Price Levels", function () {
+    it("Should aggregate resting size per level, best price first", async function () {
+      await placeLimit(maker1, ONE, "99", true);
+      await placeLimit(maker2, ethers.parseEther("2"), "100", true);
+      await placeLimit(maker1, ethers.parseEther("0.5"), "100", true);
+      await placeLimit(maker2, ONE, "98", true);
+
+      const [prices, amounts, orderCounts] = await marketData.getPriceLevels(baseAddress, quoteAddress, true, 10);
+      expect(prices).to.deep.equal([ethers.parseEther("100"), ethers.parseEther("99"), ethers.parseEther("98")]);
+      expect(amounts).to.deep.equal([ethers.parseEther("2.5"), ONE, ONE]);
+      expect(orderCounts).to.deep.equal([2n, 1n, 1n]);
+
+      await placeLimit(taker, ethers.parseEther("2.2"), "100", false);
+      const [, partialAmounts] = await marketData.getPriceLevels(baseAddress, quoteAddress, true, 1);
+      expect(partialAmounts).to.deep.equal([ethers.parseEther("0.3")]);
+    });
+
+    it("Should unlink cancelled orders without breaking the queue", async function () {
+      const price = ethers.parseEther("100");
+      await placeLimit(maker1, ONE, "100", false);
+      await placeLimit(maker2, ONE, "100", false);
+      await placeLimit(maker1, ONE, "100", false);
+
+      await tradingEngine.connect(maker2).cancelOrder(1);
+      expect(await marketData.getPriceLevelOrders(baseAddress, quoteAddress, false, price)).to.deep.equal([0n, 2n]);
+
+      await tradingEngine.connect(maker1).cancelOrder(0);
+      await tradingEngine.connect(maker1).cancelOrder(2);
+      expect(await marketData.getPriceLevelOrders(baseAddress, quoteAddress, false, price)).to.deep.equal([]);
+
+      const [, bestAsk] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+      expect(bestAsk).to.equal(0);
+    });
+  });
+
+  describe("Gas", function () {
+    // Rests `levels` non-crossing orders on each side, none of which the benchmark touches
+    async function growBook(levels: number) {
+      for (let i = 0; i < levels; i++) {
+        await placeLimit(maker1, ONE, (200 + i).toString(), false);
+        await placeLimit(maker2, ONE, (50 - i * 0.5).toString(), true);
+      }
+    }
+
+    async function gasToFillBestAsk() {
+      await placeLimit(maker1, ONE, "100", false);
+      const receipt = await (await placeLimit(taker, ONE, "100", true)).wait();
+      return receipt!.gasUsed;
+    }
+
+    async function gasToJoinLevel() {
+      await placeLimit(maker1, ONE, "120", false);
+      const receipt = await (await placeLimit(maker2, ONE, "120", false)).wait();
+      return receipt!.gasUsed;
+    }
+
+    it("Should keep the cost of a fill flat as the book grows", async function () {
+      await growBook(2);
+      const smallBook = await gasToFillBestAsk();
+
+      await growBook(40);
+      const largeBook = await gasToFillBestAsk();
+
+      expect(largeBook).to.be.lte(smallBook * 102n / 100n);
+    });
+
+    it("Should keep the cost of joining an existing level flat as the book grows", async function () {
+      await growBook(2);
+      const smallBook = await gasToJoinLevel();
+
+      await growBook(40);
+      const largeBook = await gasToJoinLevel();
+
+      expect(largeBook).to.be.lte(smallBook * 102n / 100n);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine, MockPriceOracle } from "../typechain-types";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("Slippage Protection", function () {
+  let tradingEngine: TradingEngine;
+  let mockPriceOracle: MockPriceOracle;
+  let maker: HardhatEthersSigner;
+  let taker: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+
+  async function slippageProtectionFixture() {
+    const [, maker, taker] = await ethers.getSigners();
+    const engine = await deployEngine();
+    for (const trader of [maker, taker]) {
+      await fundTrader(engine.tradingEngine, trader, engine.baseTokens[0], ethers.parseEther("10000"));
+      await fundTrader(engine.tradingEngine, trader, engine.quoteToken, ethers.parseEther("10000000"));
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, maker, taker] = await ethers.getSigners();
+    ({ tradingEngine, mockPriceOracle, baseAddresses: [baseAddress], quoteAddress } = await loadFixture(slippageProtectionFixture));
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, amount: bigint, price: string, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(baseAddress, quoteAddress, amount, ethers.parseEther(price), isBuy);
+  }
+
+  function placeProtected(amount: bigint, isBuy: boolean, worstPrice: string, allowPartialFill: boolean) {
+    return tradingEngine
+      .connect(taker)
+      .placeMarketOrderWithSlippage(baseAddress, quoteAddress, amount, isBuy, ethers.parseEther(worstPrice), allowPartialFill);
+  }
+
+  it("Should sweep levels up to the worst price and pay each maker's price", async function () {
+    await placeLimit(maker, ONE, "100", false);
+    await placeLimit(maker, ONE, "101", false);
+    await placeLimit(maker, ONE, "105", false);
+
+    const balanceBefore = await tradingEngine.getUserBalance(taker.address, quoteAddress);
+    await placeProtected(ethers.parseEther("3"), true, "102", true);
+
+    const order = await tradingEngine.getOrder(3);
+    expect(order.filledAmount).to.equal(ethers.parseEther("2"));
+    expect(order.isActive).to.be.false;
+    // Both fills at the makers' prices plus the taker fee
+    expect(balanceBefore - (await tradingEngine.getUserBalance(taker.address, quoteAddress))).to.equal(ethers.parseEther("201") * 10005n / 10000n);
+    expect(await tradingEngine.getLockedBalance(taker.address, quoteAddress)).to.equal(0);
+
+    const [bestBid, bestAsk] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+    expect(bestBid).to.equal(0);
+    expect(bestAsk).to.equal(ethers.parseEther("105"));
+  });
+
+  it("Should never sell below the worst price", async function () {
+    await placeLimit(maker, ONE, "100", true);
+    await placeLimit(maker, ONE, "95", true);
+
+    const balanceBefore = await tradingEngine.getUserBalance(taker.address, baseAddress);
+    await placeProtected(ethers.parseEther("2"), false, "98", true);
+
+    expect((await tradingEngine.getOrder(2)).filledAmount).to.equal(ONE);
+    expect(balanceBefore - (await tradingEngine.getUserBalance(taker.address, baseAddress))).to.equal(ONE);
+  });
+
+  it("Should revert when the best price is already beyond the worst price", async function () {
+    await placeLimit(maker, ONE, "103", false);
+
+    await expect(placeProtected(ONE, true, "102", true))
+      .to.be.revertedWithCustomError(tradingEngine, "InvalidSlippage");
+  });
+
+  it("Should check the oracle price when the book is empty", async function () {
+    await expect(placeProtected(ONE, false, "101", true))
+      .to.be.revertedWithCustomError(tradingEngine, "InvalidSlippage");
+
+    await placeProtected(ONE, false, "99", true);
+    expect((await tradingEngine.getOrder(0)).isActive).to.be.false;
+    expect(await tradingEngine.getLockedBalance(taker.address, baseAddress)).to.equal(0);
+  });
+
+  it("Should revert instead of partially filling unless allowed", async function () {
+    await placeLimit(maker, ONE, "100", false);
+    await placeLimit(maker, ONE, "110", false);
+
+    await expect(placeProtected(ethers.parseEther("2"), true, "105", false))
+      .to.be.revertedWithCustomError(tradingEngine, "InvalidSlippage");
+
+    await placeProtected(ethers.parseEther("2"), true, "110", false);
+    expect((await tradingEngine.getOrder(2)).filledAmount).to.equal(ethers.parseEther("2"));
+  });
+});
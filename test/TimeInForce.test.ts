@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { TradingEngine, MockPriceOracle } from "../typechain-types";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+const GTC = 0;
+const IOC = 1;
+const FOK = 2;
+const GTT = 3;
+
+describe("Time In Force", function () {
+  let tradingEngine: TradingEngine;
+  let mockPriceOracle: MockPriceOracle;
+  let maker: HardhatEthersSigner;
+  let taker: HardhatEthersSigner;
+  let keeper: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+  const PRICE = ethers.parseEther("100");
+
+  async function timeInForceFixture() {
+    const [, maker, taker] = await ethers.getSigners();
+    const engine = await deployEngine({ price: PRICE });
+    for (const trader of [maker, taker]) {
+      await fundTrader(engine.tradingEngine, trader, engine.baseTokens[0], ethers.parseEther("10000"));
+      await fundTrader(engine.tradingEngine, trader, engine.quoteToken, ethers.parseEther("10000000"));
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, maker, taker, keeper] = await ethers.getSigners();
+    ({ tradingEngine, mockPriceOracle, baseAddresses: [baseAddress], quoteAddress } = await loadFixture(timeInForceFixture));
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, amount: bigint, isBuy: boolean, timeInForce: number, expiresAt = 0) {
+    return tradingEngine
+      .connect(trader)
+      .placeLimitOrderWithTimeInForce(baseAddress, quoteAddress, amount, PRICE, isBuy, timeInForce, expiresAt);
+  }
+
+  it("Should rest the remainder of a GTC order", async function () {
+    await placeLimit(maker, ONE, false, GTC);
+    await placeLimit(taker, ethers.parseEther("3"), true, GTC);
+
+    const order = await tradingEngine.getOrder(1);
+    expect(order.filledAmount).to.equal(ONE);
+    expect(order.isActive).to.be.true;
+  });
+
+  describe("Immediate or cancel", function () {
+    it("Should fill what it can and refund the rest", async function () {
+      await placeLimit(maker, ONE, false, GTC);
+
+      const balanceBefore = await tradingEngine.getUserBalance(taker.address, quoteAddress);
+      await expect(placeLimit(taker, ethers.parseEther("3"), true, IOC))
+        .to.emit(tradingEngine, "OrderMatched")
+        .and.to.emit(tradingEngine, "OrderCancelled")
+        .withArgs(1);
+
+      const order = await tradingEngine.getOrder(1);
+      expect(order.filledAmount).to.equal(ONE);
+      expect(order.isActive).to.be.false;
+      // The filled unit costs its price plus the taker fee, the rest of the lock comes back
+      expect(balanceBefore - (await tradingEngine.getUserBalance(taker.address, quoteAddress))).to.equal(PRICE * 10005n / 10000n);
+
+      const [bestBid] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+      expect(bestBid).to.equal(0);
+    });
+
+    it("Should never rest an unfilled market order", async function () {
+      await tradingEngine
+        .connect(taker)
+        .placeMarketOrderWithTimeInForce(baseAddress, quoteAddress, ONE, true, IOC, 0);
+
+      expect((await tradingEngine.getOrder(0)).isActive).to.be.false;
+      expect(await tradingEngine.getTraderOpenOrderCount(taker.address)).to.equal(0);
+      expect(await tradingEngine.getLockedBalance(taker.address, quoteAddress)).to.equal(0);
+    });
+  });
+
+  describe("Fill or kill", function () {
+    it("Should revert when the book cannot fill the whole order", async function () {
+      await placeLimit(maker, ONE, false, GTC);
+
+      await expect(placeLimit(taker, ethers.parseEther("2"), true, FOK))
+        .to.be.revertedWith("Order cannot be filled completely");
+    });
+
+    it("Should fill completely across several makers", async function () {
+      await placeLimit(maker, ONE, false, GTC);
+      await placeLimit(maker, ONE, false, GTC);
+
+      await placeLimit(taker, ethers.parseEther("2"), true, FOK);
+
+      const order = await tradingEngine.getOrder(2);
+      expect(order.filledAmount).to.equal(ethers.parseEther("2"));
+      expect(order.isActive).to.be.false;
+    });
+
+    it("Should fill against a resting market order after the oracle moves past it", async function () {
+      // A market sell rests at the oracle price, then the oracle moves past it
+      await tradingEngine.connect(maker).placeMarketOrderWithTimeInForce(baseAddress, quoteAddress, ONE, false, GTC, 0);
+      await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("120"));
+
+      // Two market orders trade at the oracle price, held at the most this buy was placed to pay
+      await expect(tradingEngine.connect(taker).placeMarketOrderWithTimeInForce(baseAddress, quoteAddress, ONE, true, FOK, 0))
+        .to.emit(tradingEngine, "OrderMatched")
+        .withArgs(1, 0, ONE, PRICE, anyValue, anyValue);
+      expect(await tradingEngine.getTraderOpenOrderCount(taker.address)).to.equal(0);
+      const [bestBid, bestAsk] = await tradingEngine.getBestPrices(baseAddress, quoteAddress);
+      expect([bestBid, bestAsk]).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should not count expired orders as liquidity", async function () {
+      await placeLimit(maker, ONE, false, GTT, (await time.latest()) + 60);
+      await placeLimit(maker, ONE, false, GTC);
+      await time.increase(120);
+
+      await expect(placeLimit(taker, ethers.parseEther("2"), true, FOK))
+        .to.be.revertedWith("Order cannot be filled completely");
+    });
+  });
+
+  describe("Good til time", function () {
+    it("Should validate the expiry", async function () {
+      await expect(placeLimit(maker, ONE, false, GTT, await time.latest()))
+        .to.be.revertedWith("Expiry must be in the future");
+      await expect(placeLimit(maker, ONE, false, GTC, (await time.latest()) + 60))
+        .to.be.revertedWith("Expiry only allowed for GTT orders");
+    });
+
+    it("Should skip expired orders when matching and refund them", async function () {
+      const expiresAt = (await time.latest()) + 60;
+      await placeLimit(maker, ONE, false, GTT, expiresAt);
+      await placeLimit(maker, ONE, false, GTC);
+      await time.increaseTo(expiresAt);
+
+      const makerBalanceBefore = await tradingEngine.getUserBalance(maker.address, baseAddress);
+      await expect(placeLimit(taker, ONE, true, GTC))
+        .to.emit(tradingEngine, "OrderExpired")
+        .withArgs(0)
+        .and.to.emit(tradingEngine, "OrderMatched")
+        .withArgs(2, 1, ONE, PRICE, PRICE * 5n / 10000n, PRICE * 5n / 10000n);
+
+      expect((await tradingEngine.getOrder(0)).isActive).to.be.false;
+      expect((await tradingEngine.getUserBalance(maker.address, baseAddress)) - makerBalanceBefore).to.equal(ONE);
+    });
+
+    it("Should let anyone expire an order once its time has passed", async function () {
+      const expiresAt = (await time.latest()) + 60;
+      await placeLimit(maker, ONE, true, GTT, expiresAt);
+
+      await expect(tradingEngine.connect(keeper).expireOrder(0)).to.be.revertedWith("Order not expired");
+
+      await time.increaseTo(expiresAt);
+      const balanceBefore = await tradingEngine.getUserBalance(maker.address, quoteAddress);
+      await expect(tradingEngine.connect(keeper).expireOrder(0))
+        .to.emit(tradingEngine, "OrderExpired")
+        .withArgs(0);
+
+      // The fee reserve comes back along with the price
+      expect((await tradingEngine.getUserBalance(maker.address, quoteAddress)) - balanceBefore).to.equal(PRICE * 10005n / 10000n);
+      expect(await tradingEngine.getPairActiveBuyOrders(baseAddress, quoteAddress)).to.deep.equal([]);
+      await expect(tradingEngine.connect(keeper).expireOrder(0)).to.be.revertedWith("Order already inactive");
+    });
+
+    it("Should never expire GTC orders", async function () {
+      await placeLimit(maker, ONE, true, GTC);
+      await time.increase(365 * 24 * 60 * 60);
+
+      await expect(tradingEngine.connect(keeper).expireOrder(0)).to.be.revertedWith("Order not expired");
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine, MockERC20WithDecimals, MockPriceOracle } from "../typechain-types";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("Trading Accounts", function () {
+  let tradingEngine: TradingEngine;
+  let baseToken: MockERC20WithDecimals;
+  let quoteToken: MockERC20WithDecimals;
+  let mockPriceOracle: MockPriceOracle;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let engineAddress: string;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+  const PRICE = ethers.parseEther("100");
+
+  // Traders hold their tokens and have approved the engine, but deposit in each test
+  async function tradingAccountsFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ price: PRICE });
+    await fundTrader(engine.tradingEngine, seller, engine.baseTokens[0], ethers.parseEther("100"), 0n);
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, ethers.parseEther("100000"), 0n);
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    ({
+      tradingEngine,
+      engineAddress,
+      mockPriceOracle,
+      baseTokens: [baseToken],
+      baseAddresses: [baseAddress],
+      quoteToken,
+      quoteAddress,
+    } = await loadFixture(tradingAccountsFixture));
+  });
+
+  it("Should credit deposits to the available balance", async function () {
+    await expect(tradingEngine.connect(seller).deposit(baseAddress, ethers.parseEther("10")))
+      .to.emit(tradingEngine, "Deposited")
+      .withArgs(seller.address, baseAddress, ethers.parseEther("10"));
+
+    expect(await tradingEngine.getUserBalance(seller.address, baseAddress)).to.equal(ethers.parseEther("10"));
+    expect(await baseToken.balanceOf(seller.address)).to.equal(ethers.parseEther("90"));
+    await expect(tradingEngine.connect(seller).deposit(baseAddress, 0)).to.be.revertedWith("Amount must be greater than 0");
+  });
+
+  it("Should lock funds from the available balance without pulling from the wallet", async function () {
+    await expect(tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ONE, PRICE, false))
+      .to.be.revertedWith("Insufficient available balance");
+
+    await tradingEngine.connect(seller).deposit(baseAddress, ethers.parseEther("3"));
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("2"), PRICE, false);
+
+    expect(await tradingEngine.getUserBalance(seller.address, baseAddress)).to.equal(ONE);
+    expect(await tradingEngine.getLockedBalance(seller.address, baseAddress)).to.equal(ethers.parseEther("2"));
+    expect(await baseToken.balanceOf(seller.address)).to.equal(ethers.parseEther("97"));
+
+    await expect(tradingEngine.connect(seller).withdrawBalance(baseAddress, ethers.parseEther("2")))
+      .to.be.revertedWith("Insufficient balance");
+  });
+
+  it("Should settle fills between internal balances and keep the engine solvent", async function () {
+    await tradingEngine.connect(seller).deposit(baseAddress, ethers.parseEther("5"));
+    await tradingEngine.connect(buyer).deposit(quoteAddress, ethers.parseEther("1000"));
+
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("2"), PRICE, false);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("3"), ethers.parseEther("101"), true);
+
+    // Maker and taker both pay 5 / 10000 of the trade value, and the unfilled unit keeps its fee reserve locked
+    const fee = ethers.parseEther("202") * 5n / 10000n;
+    const remainingReserve = ethers.parseEther("101") * 5n / 10000n;
+    expect(await tradingEngine.getUserBalance(seller.address, quoteAddress)).to.equal(ethers.parseEther("202") - fee);
+    expect(await tradingEngine.getLockedBalance(seller.address, baseAddress)).to.equal(0);
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ethers.parseEther("2"));
+    expect(await tradingEngine.getUserBalance(buyer.address, quoteAddress)).to.equal(ethers.parseEther("697") - fee - remainingReserve);
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(ethers.parseEther("101") + remainingReserve);
+    expect(await tradingEngine.getFeeBalance(quoteAddress)).to.equal(fee * 2n);
+
+    const owedQuote =
+      (await tradingEngine.getUserBalance(seller.address, quoteAddress)) +
+      (await tradingEngine.getUserBalance(buyer.address, quoteAddress)) +
+      (await tradingEngine.getLockedBalance(buyer.address, quoteAddress)) +
+      (await tradingEngine.getFeeBalance(quoteAddress));
+    expect(await quoteToken.balanceOf(engineAddress)).to.equal(owedQuote);
+  });
+
+  it("Should unlock the unfilled part of a cancelled buy and withdraw everything owed", async function () {
+    await tradingEngine.connect(seller).deposit(baseAddress, ONE);
+    await tradingEngine.connect(buyer).deposit(quoteAddress, ethers.parseEther("1000"));
+
+    await tradingEngine.connect(seller).placeLimitOrder(baseAddress, quoteAddress, ONE, PRICE, false);
+    await tradingEngine.connect(buyer).placeLimitOrder(baseAddress, quoteAddress, ethers.parseEther("3"), PRICE, true);
+    await tradingEngine.connect(buyer).cancelOrder(1);
+
+    const available = ethers.parseEther("900") - PRICE * 5n / 10000n;
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(0);
+    expect(await tradingEngine.getUserBalance(buyer.address, quoteAddress)).to.equal(available);
+
+    await expect(tradingEngine.connect(buyer).withdrawBalance(quoteAddress, available))
+      .to.emit(tradingEngine, "Withdrawn")
+      .withArgs(buyer.address, quoteAddress, available);
+    await tradingEngine.connect(buyer).withdrawBalance(baseAddress, ONE);
+    await tradingEngine.connect(seller).withdrawBalance(quoteAddress, await tradingEngine.getUserBalance(seller.address, quoteAddress));
+
+    expect(await baseToken.balanceOf(engineAddress)).to.equal(0);
+    expect(await quoteToken.balanceOf(engineAddress)).to.equal(await tradingEngine.getFeeBalance(quoteAddress));
+  });
+
+  it("Should never fill a resting market buy above the price it locked funds at", async function () {
+    const feeReserve = PRICE * 5n / 10000n;
+    await tradingEngine.connect(seller).deposit(baseAddress, ONE);
+    // Exactly what the market buy locks, so nothing is left to overspend from
+    await tradingEngine.connect(buyer).deposit(quoteAddress, PRICE + feeReserve);
+
+    await tradingEngine.connect(buyer).placeMarketOrder(baseAddress, quoteAddress, ONE, true);
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(PRICE + feeReserve);
+
+    // The oracle moves before a market sell meets the resting buy
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("120"));
+    await expect(tradingEngine.connect(seller).placeMarketOrder(baseAddress, quoteAddress, ONE, false))
+      .to.emit(tradingEngine, "OrderMatched")
+      .withArgs(0, 1, ONE, PRICE, feeReserve, feeReserve);
+
+    expect(await tradingEngine.getLockedBalance(buyer.address, quoteAddress)).to.equal(0);
+    expect(await tradingEngine.getUserBalance(buyer.address, quoteAddress)).to.equal(0);
+    expect(await tradingEngine.getUserBalance(buyer.address, baseAddress)).to.equal(ONE);
+    expect(await tradingEngine.getUserBalance(seller.address, quoteAddress)).to.equal(PRICE - feeReserve);
+  });
+});
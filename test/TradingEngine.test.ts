@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { TradingEngine, MockERC20, MockPriceOracle } from "../typechain-types";
+import { Roles } from "../sdk/src";
+import { deployTradingEngine } from "../scripts/lib/deploy-trading-engine";
 
 describe("TradingEngine", function () {
   let tradingEngine: TradingEngine;
@@ -27,14 +29,9 @@ describe("TradingEngine", function () {
     const MockPriceOracleFactory = await ethers.getContractFactory("MockPriceOracle");
     mockPriceOracle = await MockPriceOracleFactory.deploy();
     
-    const TradingEngineFactory = await ethers.getContractFactory("TradingEngine");
-    tradingEngine = await TradingEngineFactory.deploy();
+    tradingEngine = await deployTradingEngine();
     
-    await tradingEngine.initialize(
-      await mockPriceOracle.getAddress(),
-      MIN_ORDER_AMOUNT,
-      MAX_ORDER_AMOUNT
-    );
+    await tradingEngine.initialize(await mockPriceOracle.getAddress());
     
     await mockPriceOracle.setPrice(
       await mockBaseToken.getAddress(),
@@ -42,6 +39,15 @@ describe("TradingEngine", function () {
       ORACLE_PRICE
     );
     
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+    await pairConfigs.setPairConfig(await mockBaseToken.getAddress(), await mockQuoteToken.getAddress(), {
+      enabled: true,
+      minOrderAmount: MIN_ORDER_AMOUNT,
+      maxOrderAmount: MAX_ORDER_AMOUNT,
+      tickSize: 0,
+      lotSize: 0,
+    });
+    
     await mockBaseToken.transfer(trader1.address, ethers.parseEther("10000"));
     await mockBaseToken.transfer(trader2.address, ethers.parseEther("10000"));
     await mockBaseToken.transfer(trader3.address, ethers.parseEther("10000"));
@@ -57,16 +63,26 @@ describe("TradingEngine", function () {
     await mockQuoteToken.connect(trader1).approve(await tradingEngine.getAddress(), ethers.parseEther("20000000"));
     await mockQuoteToken.connect(trader2).approve(await tradingEngine.getAddress(), ethers.parseEther("20000000"));
     await mockQuoteToken.connect(trader3).approve(await tradingEngine.getAddress(), ethers.parseEther("20000000"));
+    
+    for (const trader of [trader1, trader2, trader3]) {
+      await tradingEngine.connect(trader).deposit(await mockBaseToken.getAddress(), ethers.parseEther("10000"));
+      await tradingEngine.connect(trader).deposit(await mockQuoteToken.getAddress(), ethers.parseEther("20000000"));
+    }
   });
 
   describe("Deployment and Initialization", function () {
-    it("Should set the right owner", async function () {
-      expect(await tradingEngine.owner()).to.equal(owner.address);
+    it("Should grant every role to the initializer", async function () {
+      const accessControl = await ethers.getContractAt("AccessControlModule", await tradingEngine.getAddress());
+      for (const role of Object.values(Roles)) {
+        expect(await accessControl.hasRole(role, owner.address)).to.be.true;
+      }
     });
 
-    it("Should have correct constants", async function () {
-      expect(await tradingEngine.MIN_ORDER_AMOUNT()).to.equal(MIN_ORDER_AMOUNT);
-      expect(await tradingEngine.MAX_ORDER_AMOUNT()).to.equal(MAX_ORDER_AMOUNT);
+    it("Should list the pair with its order size bounds", async function () {
+      const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+      const config = await pairConfigs.getPairConfig(await mockBaseToken.getAddress(), await mockQuoteToken.getAddress());
+      expect(config.minOrderAmount).to.equal(MIN_ORDER_AMOUNT);
+      expect(config.maxOrderAmount).to.equal(MAX_ORDER_AMOUNT);
     });
 
     it("Should set the correct price oracle", async function () {
@@ -194,7 +210,7 @@ describe("TradingEngine", function () {
 
     it("Should transfer funds on order placement", async function () {
       const amount = ethers.parseEther("10");
-      const initialBalance = await mockQuoteToken.balanceOf(trader1.address);
+      const initialBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
       
       await tradingEngine.connect(trader1).placeMarketOrder(
         await mockBaseToken.getAddress(),
@@ -203,7 +219,7 @@ describe("TradingEngine", function () {
         true
       );
       
-      const finalBalance = await mockQuoteToken.balanceOf(trader1.address);
+      const finalBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
       const expectedCost = amount * BigInt(ORACLE_PRICE);
       
       expect(initialBalance - finalBalance).to.equal(expectedCost);
@@ -282,7 +298,7 @@ describe("TradingEngine", function () {
     it("Should transfer funds on limit order placement", async function () {
       const amount = ethers.parseEther("10");
       const price = 160;
-      const initialBalance = await mockQuoteToken.balanceOf(trader1.address);
+      const initialBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
       
       await tradingEngine.connect(trader1).placeLimitOrder(
         await mockBaseToken.getAddress(),
@@ -292,7 +308,7 @@ describe("TradingEngine", function () {
         true
       );
       
-      const finalBalance = await mockQuoteToken.balanceOf(trader1.address);
+      const finalBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
       const expectedCost = amount * BigInt(price);
       
       expect(initialBalance - finalBalance).to.equal(expectedCost);
@@ -300,6 +316,12 @@ describe("TradingEngine", function () {
   });
 
   describe("Order Matching", function () {
+    // The buyer's and the seller's fee for a fill the buyer takes, at the default 5 / 10000 for both sides
+    function tradeFees(amount: bigint, price: number): [bigint, bigint] {
+      const tradeValue = amount * BigInt(price) / ethers.parseEther("1");
+      return [tradeValue * 5n / 10000n, tradeValue * 5n / 10000n];
+    }
+
     it("Should match buy and sell market orders", async function () {
       const amount = ethers.parseEther("10");
       
@@ -319,15 +341,15 @@ describe("TradingEngine", function () {
         )
       )
         .to.emit(tradingEngine, "OrderMatched")
-        .withArgs(1, 0, amount, BigInt(ORACLE_PRICE), BigInt(ORACLE_PRICE) * amount * BigInt(5) / BigInt(10000));
+        .withArgs(1, 0, amount, BigInt(ORACLE_PRICE), ...tradeFees(amount, ORACLE_PRICE));
 
-      const [, , , buyOrderAmount, , , , , buyOrderIsActive] = await tradingEngine.getOrder(1);
-      const [, , , sellOrderAmount, , , , , sellOrderIsActive] = await tradingEngine.getOrder(0);
+      const buyOrder = await tradingEngine.getOrder(1);
+      const sellOrder = await tradingEngine.getOrder(0);
       
-      expect(buyOrderAmount).to.equal(0);
-      expect(sellOrderAmount).to.equal(0);
-      expect(buyOrderIsActive).to.equal(false);
-      expect(sellOrderIsActive).to.equal(false);
+      expect(buyOrder.filledAmount).to.equal(amount);
+      expect(sellOrder.filledAmount).to.equal(amount);
+      expect(buyOrder.isActive).to.equal(false);
+      expect(sellOrder.isActive).to.equal(false);
     });
 
     it("Should match limit orders with market orders", async function () {
@@ -341,11 +363,8 @@ describe("TradingEngine", function () {
         limitPrice,
         false
       );
-      
-      const requiredQuoteAmount = amount * BigInt(limitPrice);
-
-      await mockQuoteToken.transfer(trader2.address, requiredQuoteAmount);
-      await mockQuoteToken.connect(trader2).approve(await tradingEngine.getAddress(), requiredQuoteAmount);
+      const trader1QuoteBefore = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
+      const trader2BaseBefore = await tradingEngine.getUserBalance(trader2.address, await mockBaseToken.getAddress());
       
       await expect(
         tradingEngine.connect(trader2).placeMarketOrder(
@@ -356,21 +375,22 @@ describe("TradingEngine", function () {
         )
       )
         .to.emit(tradingEngine, "OrderMatched")
-        .withArgs(1, 0, amount, BigInt(limitPrice), BigInt(limitPrice) * amount * BigInt(5) / BigInt(10000));
-
-      const [, , , buyOrderAmount, , , , , buyOrderIsActive] = await tradingEngine.getOrder(1);
-      const [, , , sellOrderAmount, , , , , sellOrderIsActive] = await tradingEngine.getOrder(0);
-      
-      expect(buyOrderAmount).to.equal(0);
-      expect(sellOrderAmount).to.equal(0);
-      expect(buyOrderIsActive).to.equal(false);
-      expect(sellOrderIsActive).to.equal(false);
-      
-      const trader1QuoteBalance = await mockQuoteToken.balanceOf(trader1.address);
-      const trader2BaseBalance = await mockBaseToken.balanceOf(trader2.address);
-      
-      expect(trader1QuoteBalance).to.be.gt(ethers.parseEther("100000"));
-      expect(trader2BaseBalance).to.be.gt(ethers.parseEther("10000"));
+        .withArgs(1, 0, amount, BigInt(limitPrice), ...tradeFees(amount, limitPrice));
+
+      const buyOrder = await tradingEngine.getOrder(1);
+      const sellOrder = await tradingEngine.getOrder(0);
+      
+      expect(buyOrder.filledAmount).to.equal(amount);
+      expect(sellOrder.filledAmount).to.equal(amount);
+      expect(buyOrder.isActive).to.equal(false);
+      expect(sellOrder.isActive).to.equal(false);
+      
+      // Proceeds land in the trading accounts, the seller's net of their maker fee
+      const [, sellerFee] = tradeFees(amount, limitPrice);
+      expect(await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress()))
+        .to.equal(trader1QuoteBefore + amount * BigInt(limitPrice) / ethers.parseEther("1") - sellerFee);
+      expect(await tradingEngine.getUserBalance(trader2.address, await mockBaseToken.getAddress()))
+        .to.equal(trader2BaseBefore + amount);
     });
   });
 
@@ -425,7 +445,7 @@ describe("TradingEngine", function () {
         )
       )
         .to.emit(tradingEngine, "FeeCollected")
-        .withArgs(expectedFee, await mockQuoteToken.getAddress());
+        .withArgs(1, trader2.address, await mockQuoteToken.getAddress(), expectedFee, false);
     });
 
     it("Should allow owner to withdraw fees", async function () {
@@ -450,7 +470,8 @@ describe("TradingEngine", function () {
       const feeBalance = await tradingEngine.getFeeBalance(await mockQuoteToken.getAddress());
       const initialOwnerBalance = await mockQuoteToken.balanceOf(owner.address);
       
-      await tradingEngine.withdrawFees(await mockQuoteToken.getAddress(), feeBalance);
+      const fees = await ethers.getContractAt("FeeModule", await tradingEngine.getAddress());
+      await fees.withdrawFees(await mockQuoteToken.getAddress(), feeBalance);
       
       const finalOwnerBalance = await mockQuoteToken.balanceOf(owner.address);
       expect(finalOwnerBalance - initialOwnerBalance).to.equal(feeBalance);
@@ -460,7 +481,7 @@ describe("TradingEngine", function () {
   describe("Order Cancellation", function () {
     it("Should cancel an order and refund funds", async function () {
       const amount = ethers.parseEther("10");
-      const initialBalance = await mockQuoteToken.balanceOf(trader1.address);
+      const initialBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
       
       await tradingEngine.connect(trader1).placeMarketOrder(
         await mockBaseToken.getAddress(),
@@ -476,7 +497,7 @@ describe("TradingEngine", function () {
       const [, , , , , , , , isActive] = await tradingEngine.getOrder(0);
       expect(isActive).to.equal(false);
       
-      const finalBalance = await mockQuoteToken.balanceOf(trader1.address);
+      const finalBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
       expect(finalBalance).to.equal(initialBalance);
     });
 
@@ -527,10 +548,10 @@ describe("TradingEngine", function () {
         true
       );
       
-      const trader1QuoteBalance = await mockQuoteToken.balanceOf(trader1.address);
-      expect(trader1QuoteBalance).to.be.gt(ethers.parseEther("100000") - amount * BigInt(ORACLE_PRICE)); 
+      const trader1QuoteBalance = await tradingEngine.getUserBalance(trader1.address, await mockQuoteToken.getAddress());
+      expect(trader1QuoteBalance).to.be.gt(ethers.parseEther("20000000")); 
       
-      const trader2BaseBalance = await mockBaseToken.balanceOf(trader2.address);
+      const trader2BaseBalance = await tradingEngine.getUserBalance(trader2.address, await mockBaseToken.getAddress());
       expect(trader2BaseBalance).to.be.gt(ethers.parseEther("10000")); 
     });
 
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { TradingEngine } from "../typechain-types";
+import { deployTradingEngine } from "../scripts/lib/deploy-trading-engine";
 
 const USDT_ADDRESS = "0x55d398326f99059ff775485246999027b3197955";
 const ATSLA_ADDRESS = "0x38B3608a3cECaF6fB6076BE8d69B9D297F9af018";
@@ -36,19 +37,22 @@ describe("TradingEngine BSC Fork Tests", function () {
     usdt = new ethers.Contract(USDT_ADDRESS, ERC20_ABI, ethers.provider);
     atsla = new ethers.Contract(ATSLA_ADDRESS, ERC20_ABI, ethers.provider);
     
-    const TradingEngineFactory = await ethers.getContractFactory("TradingEngine");
-    tradingEngine = await TradingEngineFactory.deploy();
+    tradingEngine = await deployTradingEngine();
     
     const MockPriceOracleFactory = await ethers.getContractFactory("MockPriceOracle");
     const mockPriceOracle = await MockPriceOracleFactory.deploy();
     
-    await tradingEngine.initialize(
-      await mockPriceOracle.getAddress(),
-      MIN_ORDER_AMOUNT,
-      MAX_ORDER_AMOUNT
-    );
+    await tradingEngine.initialize(await mockPriceOracle.getAddress());
     
     await mockPriceOracle.setPrice(ATSLA_ADDRESS, USDT_ADDRESS, 100);
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+    await pairConfigs.setPairConfig(ATSLA_ADDRESS, USDT_ADDRESS, {
+      enabled: true,
+      minOrderAmount: MIN_ORDER_AMOUNT,
+      maxOrderAmount: MAX_ORDER_AMOUNT,
+      tickSize: 0,
+      lotSize: 0,
+    });
     
     console.log("TradingEngine deployed at:", await tradingEngine.getAddress());
     console.log("USDT address:", USDT_ADDRESS);
@@ -105,6 +109,15 @@ describe("TradingEngine BSC Fork Tests", function () {
       await atsla.connect(trader1).approve(await tradingEngine.getAddress(), ethers.parseUnits("10", 18));
       await atsla.connect(trader2).approve(await tradingEngine.getAddress(), ethers.parseUnits("10", 18));
       await atsla.connect(trader3).approve(await tradingEngine.getAddress(), ethers.parseUnits("10", 18));
+      
+      for (const trader of [trader1, trader2, trader3]) {
+        for (const token of [usdt, atsla]) {
+          const walletBalance = await token.balanceOf(trader.address);
+          if (walletBalance > 0n) {
+            await tradingEngine.connect(trader).deposit(await token.getAddress(), walletBalance);
+          }
+        }
+      }
     });
 
     it("Should place a buy market order for ATSLA with USDT", async function () {
@@ -0,0 +1,292 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { TradingEngine, MockPriceOracle } from "../typechain-types";
+import {
+  TradingEngineClient,
+  decodeTradingEngineEvents,
+  filterEvents,
+  getPlacedOrderId,
+  TimeInForce,
+  ConditionalOrderType,
+  applySlippage,
+  quoteAmountFor,
+  feeFor,
+} from "../sdk/src";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("TradingEngine SDK", function () {
+  let tradingEngine: TradingEngine;
+  let mockPriceOracle: MockPriceOracle;
+  let owner: HardhatEthersSigner;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const PRICE = ethers.parseEther("2000");
+  const AMOUNT = ethers.parseEther("2");
+
+  async function tradingEngineSdkFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ price: PRICE, maxOrderAmount: ethers.parseEther("100") });
+    await fundTrader(engine.tradingEngine, seller, engine.baseTokens[0], ethers.parseEther("100"));
+    await fundTrader(engine.tradingEngine, buyer, engine.quoteToken, ethers.parseEther("1000000"));
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [owner, seller, buyer] = await ethers.getSigners();
+    ({ tradingEngine, mockPriceOracle, baseAddresses: [baseAddress], quoteAddress } = await loadFixture(tradingEngineSdkFixture));
+  });
+
+  function clientFor(signer: HardhatEthersSigner) {
+    return new TradingEngineClient(tradingEngine.target as string, signer);
+  }
+
+  it("Should place a limit order and read it back as a typed order", async function () {
+    const client = clientFor(seller);
+
+    const tx = await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: false });
+    const receipt = await tx.wait();
+    const orderId = getPlacedOrderId(receipt!);
+    expect(orderId).to.equal(0n);
+
+    const order = await client.getOrder(orderId!);
+    expect(order.trader).to.equal(seller.address);
+    expect(order.baseToken).to.equal(baseAddress);
+    expect(order.quoteToken).to.equal(quoteAddress);
+    expect(order.amount).to.equal(AMOUNT);
+    expect(order.price).to.equal(PRICE);
+    expect(order.isBuy).to.equal(false);
+    expect(order.isMarketOrder).to.equal(false);
+    expect(order.isActive).to.equal(true);
+    expect(order.filledAmount).to.equal(0n);
+    expect(order.timeInForce).to.equal(TimeInForce.GTC);
+    expect(order.expiresAt).to.equal(0n);
+
+    expect(await client.getActiveSellOrderIds()).to.deep.equal([0n]);
+    const stats = await client.getOrderBookStats();
+    expect(stats.totalSellOrders).to.equal(1n);
+    expect(stats.activeSellOrders).to.equal(1n);
+  });
+
+  it("Should decode OrderPlaced, OrderMatched and FeeCollected events", async function () {
+    await clientFor(seller).placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: false });
+
+    const tx = await clientFor(buyer).placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: true });
+    const events = decodeTradingEngineEvents((await tx.wait())!.logs);
+
+    const placed = filterEvents(events, "OrderPlaced");
+    expect(placed).to.have.length(1);
+    expect(placed[0].args.orderId).to.equal(1n);
+    expect(placed[0].args.trader).to.equal(buyer.address);
+    expect(placed[0].args.isBuy).to.equal(true);
+
+    const { makerFeeRate, takerFeeRate } = await clientFor(buyer).getFeeSchedule(baseAddress, quoteAddress);
+    const quoteAmount = quoteAmountFor(AMOUNT, PRICE, 18);
+    const matched = filterEvents(events, "OrderMatched");
+    expect(matched).to.have.length(1);
+    expect(matched[0].args).to.deep.equal({
+      buyOrderId: 1n,
+      sellOrderId: 0n,
+      amount: AMOUNT,
+      price: PRICE,
+      buyerFee: feeFor(quoteAmount, takerFeeRate),
+      sellerFee: feeFor(quoteAmount, makerFeeRate),
+    });
+
+    const fees = filterEvents(events, "FeeCollected");
+    expect(fees.map((fee) => fee.args)).to.deep.equal([
+      { orderId: 1n, payer: buyer.address, token: quoteAddress, amount: feeFor(quoteAmount, takerFeeRate), isMaker: false },
+      { orderId: 0n, payer: seller.address, token: quoteAddress, amount: feeFor(quoteAmount, makerFeeRate), isMaker: true },
+    ]);
+  });
+
+  it("Should query historical events from the contract", async function () {
+    const client = clientFor(seller);
+    await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: false });
+    await client.cancelOrder(0n);
+
+    const cancelled = await client.queryEvents("OrderCancelled");
+    expect(cancelled).to.have.length(1);
+    expect(cancelled[0].name).to.equal("OrderCancelled");
+    expect(cancelled[0].args.orderId).to.equal(0n);
+
+    const pairs = await client.queryEvents("TradingPairAllowed");
+    expect(pairs[0].args).to.deep.equal({ baseToken: baseAddress, quoteToken: quoteAddress, allowed: true });
+  });
+
+  it("Should read best prices and price levels", async function () {
+    const client = clientFor(buyer);
+    await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: true });
+    await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: true });
+
+    expect(await client.getBestPrices(baseAddress, quoteAddress)).to.deep.equal({ bestBid: PRICE, bestAsk: 0n });
+    expect(await client.getPriceLevels(baseAddress, quoteAddress, true)).to.deep.equal([
+      { price: PRICE, amount: AMOUNT * 2n, orderCount: 2n },
+    ]);
+    expect(await client.getPriceLevelOrderIds(baseAddress, quoteAddress, true, PRICE)).to.deep.equal([0n, 1n]);
+  });
+
+  it("Should read a single pair's order book", async function () {
+    const client = clientFor(seller);
+    await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: false });
+
+    expect(await client.getOrderBookPairs()).to.deep.equal([{ baseToken: baseAddress, quoteToken: quoteAddress }]);
+    expect(await client.getPairActiveSellOrderIds(baseAddress, quoteAddress)).to.deep.equal([0n]);
+    expect(await client.getPairActiveOrders(baseAddress, quoteAddress)).to.have.length(1);
+
+    const stats = await client.getPairOrderBookStats(baseAddress, quoteAddress);
+    expect(stats).to.deep.equal({ totalBuyOrders: 0n, totalSellOrders: 1n, activeBuyOrders: 0n, activeSellOrders: 1n });
+
+    const created = await client.queryEvents("OrderBookCreated");
+    expect(created[0].args.pairId).to.equal(await client.getPairId(baseAddress, quoteAddress));
+  });
+
+  it("Should place orders with a time in force", async function () {
+    const client = clientFor(buyer);
+    const expiresAt = BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 3600);
+    await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: true, timeInForce: TimeInForce.GTT, expiresAt });
+    await clientFor(seller).placeMarketOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT * 2n, isBuy: false, timeInForce: TimeInForce.IOC });
+
+    const [resting, immediate] = await client.getOrders([0n, 1n]);
+    expect(resting.timeInForce).to.equal(TimeInForce.GTT);
+    expect(resting.expiresAt).to.equal(expiresAt);
+    expect(immediate.timeInForce).to.equal(TimeInForce.IOC);
+    expect(immediate.filledAmount).to.equal(AMOUNT);
+    expect(immediate.isActive).to.equal(false);
+  });
+
+  it("Should estimate and place slippage-protected market orders", async function () {
+    const sellerClient = clientFor(seller);
+    await sellerClient.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: false });
+    await sellerClient.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE * 2n, isBuy: false });
+
+    const client = clientFor(buyer);
+    const estimate = await client.estimateMarketOrder(baseAddress, quoteAddress, AMOUNT * 2n, true);
+    expect(estimate).to.deep.equal({
+      averagePrice: (PRICE * 3n) / 2n,
+      worstPrice: PRICE * 2n,
+      fillableAmount: AMOUNT * 2n,
+      quoteAmount: quoteAmountFor(AMOUNT, PRICE, 18) * 3n,
+    });
+
+    const worstPrice = applySlippage(estimate.worstPrice, 50n, true);
+    expect(worstPrice).to.equal((PRICE * 2n * 10050n) / 10000n);
+    expect(applySlippage(PRICE, 50n, false)).to.equal((PRICE * 9950n) / 10000n);
+
+    await client.placeMarketOrderWithSlippage({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT * 2n, isBuy: true, worstPrice });
+    expect((await client.getOrder(2n)).filledAmount).to.equal(AMOUNT * 2n);
+
+    const empty = await client.estimateMarketOrder(baseAddress, quoteAddress, AMOUNT, true);
+    expect(empty).to.deep.equal({ averagePrice: PRICE, worstPrice: PRICE, fillableAmount: 0n, quoteAmount: 0n });
+  });
+
+  it("Should read open orders page by page", async function () {
+    const client = clientFor(seller);
+    for (const price of ["2001", "2002", "2003"]) {
+      await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: ethers.parseEther(price), isBuy: false });
+    }
+
+    const firstPage = await client.getPairOrdersPage(baseAddress, quoteAddress, false, 0n, 2n);
+    expect(firstPage.orders.map((order) => order.id)).to.deep.equal([0n, 1n]);
+    expect(firstPage.nextCursor).to.equal(2n);
+
+    const openOrders = await client.getTraderOpenOrders(seller.address, 2n);
+    expect(openOrders.map((order) => order.price)).to.deep.equal(["2001", "2002", "2003"].map((price) => ethers.parseEther(price)));
+    expect(await client.getPairActiveOrders(baseAddress, quoteAddress, 1n)).to.have.length(3);
+    expect(await client.getTraderOpenOrderCount(buyer.address)).to.equal(0n);
+  });
+
+  it("Should place, list and trigger conditional orders through the engine address", async function () {
+    const client = clientFor(seller);
+    const receipt = await (
+      await client.placeConditionalOrder({
+        baseToken: baseAddress,
+        quoteToken: quoteAddress,
+        amount: AMOUNT,
+        triggerPrice: ethers.parseEther("1900"),
+        limitPrice: ethers.parseEther("1800"),
+        isBuy: false,
+        orderType: ConditionalOrderType.StopLimit,
+      })
+    ).wait();
+    const [placed] = filterEvents(decodeTradingEngineEvents(receipt!.logs), "ConditionalOrderPlaced");
+    expect(placed.args.conditionalOrderId).to.equal(0n);
+
+    const [pending] = await client.getPendingConditionalOrders();
+    expect(pending.trader).to.equal(seller.address);
+    expect(pending.orderType).to.equal(ConditionalOrderType.StopLimit);
+    expect(await client.isConditionalOrderTriggerable(0n)).to.equal(false);
+
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, ethers.parseEther("1850"));
+    await (await clientFor(buyer).triggerOrders([0n])).wait();
+
+    const triggered = await client.getConditionalOrder(0n);
+    expect(triggered.isPending).to.equal(false);
+    expect((await client.getOrder(triggered.orderId)).price).to.equal(ethers.parseEther("1800"));
+    expect(await client.getPendingConditionalOrders()).to.have.length(0);
+  });
+
+  it("Should discover the currently allowed trading pairs", async function () {
+    const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+    const btc = await MockERC20Factory.deploy("Bitcoin", "BTC", ethers.parseEther("1000000"));
+    const btcAddress = await btc.getAddress();
+
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+    const pairConfig = { enabled: true, minOrderAmount: 1n, maxOrderAmount: ethers.parseEther("100"), tickSize: 0n, lotSize: 0n };
+    await pairConfigs.setPairConfig(btcAddress, quoteAddress, pairConfig);
+    await pairConfigs.setPairConfig(baseAddress, btcAddress, pairConfig);
+    await tradingEngine.setTradingPairAllowed(btcAddress, quoteAddress, false);
+
+    const client = clientFor(owner);
+    const expected = [
+      { baseToken: baseAddress, quoteToken: quoteAddress },
+      { baseToken: baseAddress, quoteToken: btcAddress },
+    ];
+    expect(await client.getAllowedTradingPairs()).to.deep.equal(expected);
+    expect(await client.getAllowedTradingPairs(0, undefined, 3)).to.deep.equal(expected);
+
+    // Finding the latest block takes a provider, which a bare wallet lacks
+    const offline = new TradingEngineClient(await tradingEngine.getAddress(), ethers.Wallet.createRandom());
+    await expect(offline.getAllowedTradingPairs(0, undefined, 3)).to.be.rejectedWith(
+      "TradingEngineClient needs a runner connected to a provider to read the chain"
+    );
+  });
+
+  it("Should convert human readable amounts with each token's decimals", async function () {
+    const client = clientFor(buyer);
+    const { amount, price } = await client.parseOrderAmounts(baseAddress, quoteAddress, "1.5", "2000.25");
+
+    expect(amount).to.equal(ethers.parseEther("1.5"));
+    expect(price).to.equal(ethers.parseEther("2000.25"));
+    expect(await client.getTokenDecimals(baseAddress)).to.equal(18);
+  });
+
+  it("Should compute the same locked quote amount as the contract", async function () {
+    const client = clientFor(buyer);
+    const price = ethers.parseEther("1999.99");
+    await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price, isBuy: true });
+
+    const order = await client.getOrder(0n);
+    expect(order.quoteAmount).to.equal(quoteAmountFor(AMOUNT, price, 18));
+  });
+
+  it("Should deposit, lock and withdraw through the trading account", async function () {
+    const client = clientFor(seller);
+    await (await client.withdrawBalance(baseAddress, AMOUNT)).wait();
+    await (await client.deposit(baseAddress, AMOUNT)).wait();
+    await (await client.placeLimitOrder({ baseToken: baseAddress, quoteToken: quoteAddress, amount: AMOUNT, price: PRICE, isBuy: false })).wait();
+
+    expect(await client.getLockedBalance(seller.address, baseAddress)).to.equal(AMOUNT);
+    expect(await client.getUserBalance(seller.address, baseAddress)).to.equal(ethers.parseEther("98"));
+
+    const receipt = await (await client.withdrawBalance(baseAddress, ethers.parseEther("98"))).wait();
+    const [withdrawn] = filterEvents(decodeTradingEngineEvents(receipt!.logs), "Withdrawn");
+    expect(withdrawn.args.trader).to.equal(seller.address);
+    expect(withdrawn.args.amount).to.equal(ethers.parseEther("98"));
+    expect(await client.getUserBalance(seller.address, baseAddress)).to.equal(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TradingEngine, FeeModule } from "../typechain-types";
+import { TradingEngineClient } from "../sdk/src";
+import { deployEngine, fundTrader } from "./helpers/engine-fixture";
+
+describe("Volume Tiers", function () {
+  let tradingEngine: TradingEngine;
+  let fees: FeeModule;
+  let seller: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let baseAddress: string;
+  let quoteAddress: string;
+
+  const ONE = ethers.parseEther("1");
+  const PRICE = ethers.parseEther("100");
+  const VOLUME_PERIOD = 30n * 24n * 60n * 60n;
+  const TIER_VOLUMES = [ethers.parseEther("50"), ethers.parseEther("1000")];
+  const TIER_DISCOUNTS = [2000n, 5000n];
+
+  async function volumeTiersFixture() {
+    const [, seller, buyer] = await ethers.getSigners();
+    const engine = await deployEngine({ price: PRICE });
+    for (const trader of [seller, buyer]) {
+      await fundTrader(engine.tradingEngine, trader, engine.baseTokens[0], ethers.parseEther("100"));
+      await fundTrader(engine.tradingEngine, trader, engine.quoteToken, ethers.parseEther("100000"));
+    }
+    return engine;
+  }
+
+  beforeEach(async function () {
+    [, seller, buyer] = await ethers.getSigners();
+    const engine = await loadFixture(volumeTiersFixture);
+    ({ tradingEngine, baseAddresses: [baseAddress], quoteAddress } = engine);
+    fees = await ethers.getContractAt("FeeModule", engine.engineAddress);
+  });
+
+  function placeLimit(trader: HardhatEthersSigner, amount: bigint, isBuy: boolean) {
+    return tradingEngine.connect(trader).placeLimitOrder(baseAddress, quoteAddress, amount, PRICE, isBuy);
+  }
+
+  async function trade(maker: HardhatEthersSigner, taker: HardhatEthersSigner) {
+    await placeLimit(maker, ONE, false);
+    return placeLimit(taker, ONE, true);
+  }
+
+  it("Should let fee managers replace the tiers and reject invalid ones", async function () {
+    await expect(fees.setVolumeTiers(TIER_VOLUMES, TIER_DISCOUNTS))
+      .to.emit(fees, "VolumeTiersUpdated")
+      .withArgs(TIER_VOLUMES, TIER_DISCOUNTS);
+    expect(await fees.getVolumeTiers()).to.deep.equal([
+      [TIER_VOLUMES[0], TIER_DISCOUNTS[0]],
+      [TIER_VOLUMES[1], TIER_DISCOUNTS[1]],
+    ]);
+
+    await expect(fees.setVolumeTiers(TIER_VOLUMES, [2000n])).to.be.revertedWith("Tier length mismatch");
+    await expect(fees.setVolumeTiers([TIER_VOLUMES[1], TIER_VOLUMES[0]], TIER_DISCOUNTS))
+      .to.be.revertedWith("Tier volumes must ascend");
+    await expect(fees.setVolumeTiers(TIER_VOLUMES, [2000n, 10001n])).to.be.revertedWith("Invalid fee discount");
+    await expect(fees.setVolumeTiers(Array.from({ length: 11 }, (_, i) => BigInt(i + 1)), Array(11).fill(0n)))
+      .to.be.revertedWith("Too many volume tiers");
+    await expect(fees.connect(seller).setVolumeTiers([], []))
+      .to.be.revertedWithCustomError(fees, "AccessControlUnauthorizedAccount");
+
+    await fees.setVolumeTiers([], []);
+    expect(await fees.getVolumeTiers()).to.deep.equal([]);
+  });
+
+  it("Should discount the fees of traders whose volume reaches a tier", async function () {
+    await fees.setVolumeTiers(TIER_VOLUMES, TIER_DISCOUNTS);
+    expect(await fees.getTraderVolumeTier(buyer.address)).to.deep.equal([0n, 0n, 0n, TIER_VOLUMES[0]]);
+
+    const fee = PRICE * 5n / 10000n;
+    await expect(trade(seller, buyer))
+      .to.emit(tradingEngine, "OrderMatched")
+      .withArgs(1, 0, ONE, PRICE, fee, fee);
+
+    expect(await fees.getTraderVolumeTier(buyer.address)).to.deep.equal([1n, PRICE, 2000n, TIER_VOLUMES[1]]);
+    expect(await fees.getTraderVolumeTier(seller.address)).to.deep.equal([1n, PRICE, 2000n, TIER_VOLUMES[1]]);
+
+    const discountedFee = fee * 8000n / 10000n;
+    await expect(trade(seller, buyer))
+      .to.emit(tradingEngine, "OrderMatched")
+      .withArgs(3, 2, ONE, PRICE, discountedFee, discountedFee);
+    expect(await tradingEngine.getFeeBalance(quoteAddress)).to.equal(fee * 2n + discountedFee * 2n);
+  });
+
+  it("Should not discount maker rebates", async function () {
+    await fees.setVolumeTiers([TIER_VOLUMES[0]], [5000n]);
+    await trade(seller, buyer);
+    await fees.setPairFeeSchedule(baseAddress, quoteAddress, -2, 10);
+
+    const takerFee = PRICE * 10n / 10000n / 2n;
+    const rebate = PRICE * 2n / 10000n;
+    await expect(trade(seller, buyer))
+      .to.emit(tradingEngine, "RebatePaid")
+      .withArgs(2, seller.address, quoteAddress, rebate)
+      .and.to.emit(tradingEngine, "OrderMatched")
+      .withArgs(3, 2, ONE, PRICE, takerFee, -rebate);
+  });
+
+  it("Should phase out the previous period's volume as the window moves on", async function () {
+    await fees.setVolumeTiers(TIER_VOLUMES, TIER_DISCOUNTS);
+    await trade(seller, buyer);
+
+    const tradedAt = BigInt(await time.latest());
+    await time.increaseTo((tradedAt / VOLUME_PERIOD + 1n) * VOLUME_PERIOD + VOLUME_PERIOD / 4n);
+    const [tier, rollingVolume] = await fees.getTraderVolumeTier(buyer.address);
+    expect(rollingVolume).to.equal(PRICE * 3n / 4n);
+    expect(tier).to.equal(1);
+
+    await time.increase(VOLUME_PERIOD);
+    expect(await fees.getTraderVolumeTier(buyer.address)).to.deep.equal([0n, 0n, 0n, TIER_VOLUMES[0]]);
+  });
+
+  it("Should not count trades against yourself", async function () {
+    await fees.setVolumeTiers(TIER_VOLUMES, TIER_DISCOUNTS);
+    await trade(buyer, buyer);
+
+    const [tier, rollingVolume] = await fees.getTraderVolumeTier(buyer.address);
+    expect(tier).to.equal(0);
+    expect(rollingVolume).to.equal(0);
+  });
+
+  it("Should read tiers and a trader's progress through the SDK", async function () {
+    await fees.setVolumeTiers(TIER_VOLUMES, TIER_DISCOUNTS);
+    await trade(seller, buyer);
+
+    const client = new TradingEngineClient(await tradingEngine.getAddress(), buyer);
+    expect(await client.getVolumeTiers()).to.deep.equal([
+      { minVolume: TIER_VOLUMES[0], feeDiscount: TIER_DISCOUNTS[0] },
+      { minVolume: TIER_VOLUMES[1], feeDiscount: TIER_DISCOUNTS[1] },
+    ]);
+    expect(await client.getTraderVolumeTier(buyer.address)).to.deep.equal({
+      tier: 1n,
+      rollingVolume: PRICE,
+      feeDiscount: 2000n,
+      nextTierVolume: TIER_VOLUMES[1],
+    });
+  });
+});
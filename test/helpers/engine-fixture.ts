@@ -0,0 +1,115 @@
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { MockERC20WithDecimals, MockPriceOracle, TradingEngine } from "../../typechain-types";
+import { deployTradingEngine } from "../../scripts/lib/deploy-trading-engine";
+
+export interface TokenSpec {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const WETH: TokenSpec = { name: "Wrapped Ether", symbol: "WETH", decimals: 18 };
+export const WBTC: TokenSpec = { name: "Wrapped Bitcoin", symbol: "WBTC", decimals: 18 };
+export const BTC: TokenSpec = { name: "Bitcoin", symbol: "BTC", decimals: 8 };
+// With 18 decimals, as most tests price in whole units
+export const USDC: TokenSpec = { name: "USD Coin", symbol: "USDC", decimals: 18 };
+
+export interface EngineOptions {
+  /** Tokens listed against `quote`, WETH by default */
+  bases?: TokenSpec[];
+  quote?: TokenSpec;
+  /** What the mock oracle prices every base at, 100 by default */
+  price?: bigint;
+  /** Order size bounds each pair is listed with */
+  minOrderAmount?: bigint;
+  maxOrderAmount?: bigint;
+  /** Whether each base is listed against the quote, true by default */
+  listPairs?: boolean;
+}
+
+export interface EngineFixture {
+  tradingEngine: TradingEngine;
+  engineAddress: string;
+  mockPriceOracle: MockPriceOracle;
+  baseTokens: MockERC20WithDecimals[];
+  baseAddresses: string[];
+  quoteToken: MockERC20WithDecimals;
+  quoteAddress: string;
+}
+
+/**
+ * Deploys the tokens, a mock oracle pricing each pair and an initialized engine. The deployer holds
+ * every token's supply. Test files call it from a named fixture of their own, run through
+ * `loadFixture`, so the deployment happens once per file and each test starts from a snapshot of it.
+ */
+export async function deployEngine(options: EngineOptions = {}): Promise<EngineFixture> {
+  const {
+    bases = [WETH],
+    quote = USDC,
+    price = ethers.parseEther("100"),
+    minOrderAmount = ethers.parseEther("0.01"),
+    maxOrderAmount = ethers.parseEther("1000"),
+    listPairs = true,
+  } = options;
+
+  const quoteToken = await deployToken(quote);
+  const quoteAddress = await quoteToken.getAddress();
+  const baseTokens: MockERC20WithDecimals[] = [];
+  for (const base of bases) {
+    baseTokens.push(await deployToken(base));
+  }
+  const baseAddresses = await Promise.all(baseTokens.map((token) => token.getAddress()));
+
+  const mockPriceOracle = await ethers.deployContract("MockPriceOracle");
+  for (const baseAddress of baseAddresses) {
+    await mockPriceOracle.setPrice(baseAddress, quoteAddress, price);
+  }
+
+  const tradingEngine = await deployTradingEngine();
+  await tradingEngine.initialize(await mockPriceOracle.getAddress());
+  if (listPairs) {
+    const pairConfigs = await ethers.getContractAt("PairConfigModule", await tradingEngine.getAddress());
+    for (const baseAddress of baseAddresses) {
+      await pairConfigs.setPairConfig(baseAddress, quoteAddress, {
+        enabled: true,
+        minOrderAmount,
+        maxOrderAmount,
+        tickSize: 0n,
+        lotSize: 0n,
+      });
+    }
+  }
+
+  return {
+    tradingEngine,
+    engineAddress: await tradingEngine.getAddress(),
+    mockPriceOracle,
+    baseTokens,
+    baseAddresses,
+    quoteToken,
+    quoteAddress,
+  };
+}
+
+/**
+ * Sends `trader` `amount` of `token` from the deployer, approves the engine for it and deposits
+ * `deposited` of it, all of it by default and none when zero
+ */
+export async function fundTrader(
+  tradingEngine: TradingEngine,
+  trader: HardhatEthersSigner,
+  token: MockERC20WithDecimals,
+  amount: bigint,
+  deposited = amount
+): Promise<void> {
+  await token.transfer(trader.address, amount);
+  await token.connect(trader).approve(await tradingEngine.getAddress(), ethers.MaxUint256);
+  if (deposited > 0n) {
+    await tradingEngine.connect(trader).deposit(await token.getAddress(), deposited);
+  }
+}
+
+async function deployToken({ name, symbol, decimals }: TokenSpec): Promise<MockERC20WithDecimals> {
+  return ethers.deployContract("MockERC20WithDecimals", [name, symbol, ethers.parseUnits("100000000", decimals), decimals]);
+}